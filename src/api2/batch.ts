@@ -1,4 +1,5 @@
 import type { HttpClient } from '@/utils/http.js';
+import { runWithConcurrency } from '@/utils/concurrency.js';
 import type {
   ApiV2Environment,
   BatchFileInfo,
@@ -7,6 +8,7 @@ import type {
 } from './types/common.js';
 import { SymmetricKeyManager } from './crypto/symmetric.js';
 import { SecurityService } from './security.js';
+import { RateLimitsService } from './services/rate-limits.js';
 import type {
   SessionInvoicesResponse,
   SessionInvoiceStatus,
@@ -14,42 +16,116 @@ import type {
 } from './types/session.js';
 import {
   BatchSessionUploader,
-  SessionV2Service
+  SessionV2Service,
+  type BatchPartUploadOptions,
+  type OpenBatchSessionOptions
 } from './services/sessions.js';
-import { buildManifest, buildTarGz, estimateTarSize } from './batch/archive.js';
+import { buildArchive, buildManifest, estimateArchiveSize } from './batch/archive.js';
 import { encryptPart, sha256Base64 } from './batch/crypto.js';
 import { correlateBatchResults, mergeSessionInvoices } from './batch/results.js';
+import { prepareBatchStream } from './batch/stream.js';
+import { planBatches } from './batch/planner.js';
+import {
+  DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES,
+  MAX_BATCH_FILE_SIZE_BYTES,
+  MAX_BATCH_PARTS,
+  MAX_PART_SIZE_BYTES
+} from './batch/limits.js';
+import { BatchUploadLinkExpiredError, createSubmissionState, uploadLinkExpiry } from './batch/resumable.js';
+import { assertOfflineManifest } from './batch/offline.js';
+import { verifyPreparedBatch } from './batch/verify.js';
+import { classifyInvoiceStatus, DEFAULT_RETRYABLE_STATUS_CODES, originalReferenceNumbers } from './batch/retry.js';
+import { pollUntil } from './workflows/polling.js';
+import { collectAll, paginateByContinuationToken } from './pagination.js';
 import type {
+  BatchInvoiceInput,
+  BatchInvoiceOutcome,
+  BatchJob,
+  BatchJobBatch,
+  BatchJobInvoiceInput,
+  BatchJobOptions,
+  BatchJobStatus,
   BatchListOptions,
   BatchManifestItem,
+  BatchPlan,
+  BatchPlanOptions,
   BatchPrepareOptions,
   BatchResultCorrelation,
+  BatchResumableSubmitOptions,
+  BatchResumeOptions,
+  BatchRetryOptions,
+  BatchRetryResult,
+  BatchSubmissionState,
+  BatchSubmissionStateStore,
   BatchSubmitOptions,
+  BatchStreamPrepareOptions,
+  BatchUploadControlOptions,
+  BatchVerificationResult,
+  BatchVerifyOptions,
   BatchWaitForCompletionOptions,
+  PlannedBatch,
   PreparedBatch,
+  ResumableSubmittedBatch,
+  StreamPreparedBatch,
   SubmittedBatch
 } from './batch/types.js';
 
-const DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES = 256 * 1024 * 1024;
+const DEFAULT_LINK_EXPIRY_MARGIN_MS = 60_000;
 
 export { BatchFileBuilder } from './batch/file-builder.js';
 export { sha256Base64 } from './batch/crypto.js';
+export { FileBatchPartStore, InMemoryBatchPartStore } from './batch/part-store.js';
+export type { BatchPartStore } from './batch/part-store.js';
+export { InMemoryBatchSubmissionStateStore, JsonFileBatchSubmissionStateStore } from './batch/state-store.js';
+export { BatchOfflineDeadlineError } from './batch/offline.js';
+export { BatchUploadLinkExpiredError } from './batch/resumable.js';
+export { classifyInvoiceStatus, DEFAULT_RETRYABLE_STATUS_CODES } from './batch/retry.js';
 export type {
   BatchCorrelatedResult,
   BatchFileBuildResult,
+  BatchInvoiceFileInput,
   BatchInvoiceInput,
+  BatchInvoiceOutcome,
+  BatchInvoiceStatusKind,
+  BatchInvoiceSource,
+  BatchJob,
+  BatchJobBatch,
+  BatchJobInvoiceInput,
+  BatchJobOptions,
+  BatchJobStatus,
   BatchListOptions,
   BatchManifestItem,
+  BatchPartUploadState,
+  BatchPartUploadStatus,
+  BatchPlan,
+  BatchPlanOptions,
+  BatchPlanRejection,
   BatchPrepareOptions,
   BatchResultCorrelation,
+  BatchResumableSubmitOptions,
+  BatchResumeOptions,
+  BatchRetryOptions,
+  BatchRetryResult,
+  BatchStreamPrepareOptions,
+  BatchSubmissionState,
+  BatchSubmissionStateStore,
   BatchSubmitOptions,
+  BatchUploadControlOptions,
+  BatchVerificationIssue,
+  BatchVerificationIssueCode,
+  BatchVerificationResult,
+  BatchVerifyOptions,
   BatchWaitForCompletionOptions,
+  PlannedBatch,
   PreparedBatch,
+  ResumableSubmittedBatch,
+  StreamPreparedBatch,
   SubmittedBatch
 } from './batch/types.js';
 
 export class KsefBatchService {
   private readonly symmetricManager: SymmetricKeyManager;
+  private readonly rateLimits: RateLimitsService;
 
   constructor(
     private readonly sessions: SessionV2Service,
@@ -61,44 +137,47 @@ export class KsefBatchService {
     this.symmetricManager = new SymmetricKeyManager(
       securityService ?? new SecurityService(httpClient, environment)
     );
+    this.rateLimits = new RateLimitsService(httpClient, environment);
   }
 
   async prepare(options: BatchPrepareOptions): Promise<PreparedBatch> {
     const compressionType = options.compression ?? 'TarGz';
-    const partSizeBytes = options.partSizeBytes ?? 100_000_000;
+    const partSizeBytes = options.partSizeBytes ?? MAX_PART_SIZE_BYTES;
     const maxUncompressedArchiveSizeBytes = options.maxUncompressedArchiveSizeBytes
       ?? DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES;
 
-    if (compressionType !== 'TarGz') {
-      throw new Error('High-level batch.prepare currently supports TarGz only. Use low-level helpers for custom archives.');
-    }
     if (options.invoices.length === 0) {
       throw new Error('Batch must contain at least one invoice');
     }
-    if (!Number.isInteger(partSizeBytes) || partSizeBytes <= 0 || partSizeBytes > 100_000_000) {
-      throw new Error('partSizeBytes must be an integer between 1 and 100000000');
+    if (!Number.isInteger(partSizeBytes) || partSizeBytes <= 0 || partSizeBytes > MAX_PART_SIZE_BYTES) {
+      throw new Error(`partSizeBytes must be an integer between 1 and ${MAX_PART_SIZE_BYTES}`);
     }
     if (!Number.isInteger(maxUncompressedArchiveSizeBytes) || maxUncompressedArchiveSizeBytes <= 0) {
       throw new Error('maxUncompressedArchiveSizeBytes must be a positive integer');
     }
 
-    const manifest = buildManifest(options.invoices);
+    const manifest = buildManifest(options.invoices, compressionType);
     assertUnique(manifest.map((item) => item.localId), 'localId');
     assertUnique(manifest.map((item) => item.fileName), 'fileName');
     assertUnique(manifest.map((item) => item.invoiceHash), 'invoiceHash');
+    assertOfflineManifest(manifest, options.offlineMode ?? false);
 
-    const uncompressedArchiveSize = estimateTarSize(manifest);
+    const uncompressedArchiveSize = estimateArchiveSize(manifest, compressionType);
     if (uncompressedArchiveSize > maxUncompressedArchiveSizeBytes) {
       throw new Error(
-        `Batch uncompressed tar size ${uncompressedArchiveSize} exceeds buffered prepare limit of `
+        `Batch uncompressed ${compressionType === 'TarGz' ? 'tar' : 'zip'} size ${uncompressedArchiveSize} `
+        + `exceeds buffered prepare limit of `
         + `${maxUncompressedArchiveSizeBytes} bytes`
       );
     }
 
-    const archive = buildTarGz(options.invoices);
+    const archive = buildArchive(options.invoices, compressionType);
+    if (archive.length > MAX_BATCH_FILE_SIZE_BYTES) {
+      throw new Error(`Batch archive exceeds KSeF limit of ${MAX_BATCH_FILE_SIZE_BYTES} bytes`);
+    }
     const rawParts = splitBuffer(archive, partSizeBytes);
-    if (rawParts.length > 50) {
-      throw new Error('Batch archive exceeds KSeF limit of 50 parts');
+    if (rawParts.length > MAX_BATCH_PARTS) {
+      throw new Error(`Batch archive exceeds KSeF limit of ${MAX_BATCH_PARTS} parts`);
     }
 
     const encryptionMaterial = options.encryptionMaterial ?? await this.symmetricManager.createMaterial();
@@ -119,6 +198,7 @@ export class KsefBatchService {
     return {
       formCode: options.formCode,
       compressionType,
+      offlineMode: options.offlineMode ?? false,
       batchFile,
       encryptedParts,
       manifest,
@@ -129,25 +209,48 @@ export class KsefBatchService {
     };
   }
 
+  /**
+   * Streaming variant of `prepare` for large batches: invoices (or invoice files) are
+   * read lazily and the encrypted parts are written to `partStore` instead of memory.
+   * The result is accepted by `submit`; call `prepared.partStore.dispose()` afterwards.
+   */
+  async prepareStream(options: BatchStreamPrepareOptions): Promise<StreamPreparedBatch> {
+    const encryptionMaterial = options.encryptionMaterial ?? await this.symmetricManager.createMaterial();
+    return await prepareBatchStream(options, encryptionMaterial);
+  }
+
+  /**
+   * Dry run for a prepared batch, without opening a session: decrypts every part with
+   * `prepared.encryptionMaterial`, checks part and archive hashes, and reads the archive
+   * back to compare each entry with the manifest. Catches corrupted builds and wrong
+   * keys before they cost a KSeF session.
+   */
+  async verify(
+    prepared: PreparedBatch | StreamPreparedBatch,
+    options: BatchVerifyOptions = {}
+  ): Promise<BatchVerificationResult> {
+    return await verifyPreparedBatch(prepared, preparedPartReader(prepared), options);
+  }
+
   async submit(
     accessToken: string,
-    prepared: PreparedBatch,
+    prepared: PreparedBatch | StreamPreparedBatch,
     options: BatchSubmitOptions = {}
   ): Promise<SubmittedBatch> {
+    assertOfflineManifest(prepared.manifest, prepared.offlineMode);
     const session = await this.sessions.openBatchSession(
       accessToken,
       prepared.batchFile,
       prepared.formCode,
-      {
-        ...options.session,
-        encryptionMaterial: prepared.encryptionMaterial
-      }
+      batchSessionOptions(prepared, options)
     );
 
     await this.uploadPreparedParts(
       session.partUploadRequests,
-      prepared.encryptedParts,
-      options.uploadConcurrency ?? 4
+      prepared.batchFile.fileParts.length,
+      preparedPartReader(prepared),
+      options.uploadConcurrency ?? 4,
+      partUploadOptions(options)
     );
 
     if (options.closeSession !== false) {
@@ -163,32 +266,255 @@ export class KsefBatchService {
     };
   }
 
-  async waitForCompletion(
+  /**
+   * `submit` that records the session, its upload links and every part's upload status
+   * in `options.stateStore`, so an interrupted upload can be finished by `resume`.
+   */
+  async submitResumable(
     accessToken: string,
-    referenceNumber: string,
+    prepared: PreparedBatch | StreamPreparedBatch,
+    options: BatchResumableSubmitOptions
+  ): Promise<ResumableSubmittedBatch> {
+    if (options.stateId !== undefined && await options.stateStore.load(options.stateId)) {
+      throw new Error(`Batch submission state ${options.stateId} already exists; use resume() to continue it`);
+    }
+
+    assertOfflineManifest(prepared.manifest, prepared.offlineMode);
+    const session = await this.sessions.openBatchSession(
+      accessToken,
+      prepared.batchFile,
+      prepared.formCode,
+      batchSessionOptions(prepared, options)
+    );
+    const state = createSubmissionState(options.stateId ?? session.referenceNumber, prepared, session);
+    await options.stateStore.save(state);
+
+    await this.uploadWithState(accessToken, state, options.stateStore, preparedPartReader(prepared), options);
+
+    return {
+      stateId: state.stateId,
+      referenceNumber: session.referenceNumber,
+      session,
+      batchFile: prepared.batchFile,
+      manifest: prepared.manifest,
+      partUploadRequests: session.partUploadRequests
+    };
+  }
+
+  /**
+   * Finishes a submission started by `submitResumable`: uploads only the parts not yet
+   * stored and closes the session. Fails with `BatchUploadLinkExpiredError` when the
+   * pending parts' pre-signed links have expired.
+   */
+  async resume(accessToken: string, stateId: string, options: BatchResumeOptions): Promise<BatchSubmissionState> {
+    const state = await options.stateStore.load(stateId);
+    if (!state) {
+      throw new Error(`No batch submission state stored for ${stateId}`);
+    }
+    if (state.status === 'closed' || (state.status === 'uploaded' && options.closeSession === false)) {
+      return state;
+    }
+
+    const pending = state.parts.filter((part) => part.status !== 'uploaded').map((part) => part.ordinalNumber);
+    const deadline = Date.now() + (options.linkExpiryMarginMs ?? DEFAULT_LINK_EXPIRY_MARGIN_MS);
+    const expiries = state.partUploadRequests
+      .filter((request) => pending.includes(request.ordinalNumber))
+      .map((request) => uploadLinkExpiry(request.url))
+      .filter((expiry): expiry is Date => expiry !== null && expiry.getTime() <= deadline);
+    if (state.status === 'expired' || expiries.length > 0) {
+      const expiredAt = expiries.length > 0
+        ? new Date(Math.min(...expiries.map((expiry) => expiry.getTime())))
+        : new Date(state.updatedAt);
+      state.status = 'expired';
+      state.updatedAt = new Date().toISOString();
+      await options.stateStore.save(state);
+      throw new BatchUploadLinkExpiredError(state.referenceNumber, pending, expiredAt);
+    }
+
+    await this.uploadWithState(
+      accessToken,
+      state,
+      options.stateStore,
+      async (ordinalNumber) => await options.partStore.readPart(ordinalNumber),
+      options
+    );
+    return state;
+  }
+
+  /**
+   * Splits invoices into batches that fit the context's batch session limits (fetched
+   * unless `options.limits` is given). Invoices above the per-invoice size limit are
+   * returned in `rejected`.
+   */
+  async plan(accessToken: string, invoices: BatchJobInvoiceInput[], options: BatchPlanOptions = {}): Promise<BatchPlan> {
+    const limits = options.limits ?? await this.rateLimits.getContextLimits(accessToken);
+    return planBatches(invoices, limits.batchSession, {
+      ...(options.compression ? { compression: options.compression } : {}),
+      ...(options.partSizeBytes !== undefined ? { partSizeBytes: options.partSizeBytes } : {}),
+      ...(options.maxUncompressedArchiveSizeBytes !== undefined
+        ? { maxUncompressedArchiveSizeBytes: options.maxUncompressedArchiveSizeBytes }
+        : {})
+    });
+  }
+
+  /**
+   * Plans, prepares and submits as many batch sessions as the invoices need, one at a
+   * time. A batch that fails to prepare or submit is recorded with its `error` and the
+   * job moves on; its invoices are reported as missing by `getJobResults`.
+   */
+  async submitJob(
+    accessToken: string,
+    invoices: BatchJobInvoiceInput[],
+    options: BatchJobOptions = {}
+  ): Promise<BatchJob> {
+    const plan = await this.plan(accessToken, invoices, options);
+    const batches: BatchJobBatch[] = [];
+
+    for (const planned of plan.batches) {
+      const batch: BatchJobBatch = {
+        formCode: planned.formCode,
+        hasAttachments: planned.hasAttachments,
+        offlineMode: planned.offlineMode,
+        localIds: planned.invoices.map((invoice) => invoice.localId),
+        // Known before `prepare`, so a batch that fails to prepare still reports its invoices as missing.
+        manifest: buildManifest(planned.invoices, options.compression ?? 'TarGz')
+      };
+      batches.push(batch);
+      if (options.signal?.aborted) {
+        batch.error = new Error('Batch job was aborted before this batch was submitted');
+        continue;
+      }
+
+      try {
+        const prepared = await this.prepare(jobPrepareOptions(planned, options));
+        batch.manifest = prepared.manifest;
+        const submitted = await this.submit(accessToken, prepared, options);
+        batch.referenceNumber = submitted.referenceNumber;
+      } catch (error) {
+        batch.error = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    return { batches, rejected: plan.rejected };
+  }
+
+  /** Waits for every submitted batch of the job, in submission order. */
+  async waitForJob(
+    accessToken: string,
+    job: BatchJob,
     options: BatchWaitForCompletionOptions = {}
-  ): Promise<SessionStatusResponse> {
-    const isTerminal = options.isTerminal ?? ((status) => status.status.code >= 200);
-    const startedAt = Date.now();
-    const timeoutMs = options.timeoutMs ?? 15 * 60_000;
-    const maxAttempts = options.maxAttempts ?? Number.POSITIVE_INFINITY;
-    let delayMs = options.initialDelayMs ?? 5_000;
-    const maxDelayMs = options.maxDelayMs ?? 30_000;
-    const backoffFactor = options.backoffFactor ?? 1.5;
-
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const status = await this.sessions.getSessionStatus(accessToken, referenceNumber);
-      if (isTerminal(status)) {
-        return status;
+  ): Promise<BatchJobStatus[]> {
+    const statuses: BatchJobStatus[] = [];
+    for (const batch of job.batches) {
+      if (batch.referenceNumber) {
+        statuses.push({ batch, status: await this.waitForCompletion(accessToken, batch.referenceNumber, options) });
       }
-      if (Date.now() - startedAt >= timeoutMs) {
-        throw new Error(`Batch session ${referenceNumber} did not complete within ${timeoutMs}ms`);
+    }
+    return statuses;
+  }
+
+  /**
+   * Correlates the results of every batch of the job. Manifest items of batches that
+   * were never submitted are reported in `missingManifestItems`.
+   */
+  async getJobResults(
+    accessToken: string,
+    job: BatchJob,
+    options: BatchListOptions = {}
+  ): Promise<BatchResultCorrelation> {
+    const combined: BatchResultCorrelation = { matched: [], unmatchedSessionInvoices: [], missingManifestItems: [] };
+    for (const batch of job.batches) {
+      if (!batch.referenceNumber) {
+        combined.missingManifestItems.push(...batch.manifest);
+        continue;
       }
-      await sleep(delayMs);
-      delayMs = Math.min(maxDelayMs, Math.ceil(delayMs * backoffFactor));
+      const results = await this.getMappedResults(accessToken, batch.referenceNumber, batch.manifest, options);
+      combined.matched.push(...results.matched);
+      combined.unmatchedSessionInvoices.push(...results.unmatchedSessionInvoices);
+      combined.missingManifestItems.push(...results.missingManifestItems);
     }
+    return combined;
+  }
 
-    throw new Error(`Batch session ${referenceNumber} did not complete within ${maxAttempts} attempts`);
+  /**
+   * Resubmits the retryable failures of `correlation` (see `classifyInvoiceStatus`)
+   * together with invoices KSeF never reported, as a new job built from
+   * `originalInvoices`. Permanent failures such as duplicates are only reported.
+   */
+  async retryFailed(
+    accessToken: string,
+    correlation: BatchResultCorrelation,
+    originalInvoices: Array<BatchInvoiceInput | BatchJobInvoiceInput>,
+    options: BatchRetryOptions = {}
+  ): Promise<BatchRetryResult> {
+    const retryableStatusCodes = options.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+    const invoicesByLocalId = new Map(originalInvoices.map((invoice) => [invoice.localId, invoice]));
+    const outcomes: BatchInvoiceOutcome[] = [];
+    const retryInvoices: BatchJobInvoiceInput[] = [];
+
+    const queueRetry = (localId: string, sessionInvoice: SessionInvoiceStatus | null) => {
+      const invoice = invoicesByLocalId.get(localId);
+      if (!invoice) {
+        throw new Error(`Original invoice for localId ${localId} was not provided`);
+      }
+      const formCode = ('formCode' in invoice ? invoice.formCode : undefined) ?? options.formCode;
+      if (!formCode) {
+        throw new Error(`Invoice ${localId} has no formCode; pass options.formCode`);
+      }
+      retryInvoices.push({ ...invoice, formCode });
+      outcomes.push({ localId, status: 'resubmitted', sessionInvoice });
+    };
+
+    for (const item of correlation.matched) {
+      const kind = classifyInvoiceStatus(item.sessionInvoice.status.code, retryableStatusCodes);
+      if (kind === 'retryable') {
+        queueRetry(item.localId, item.sessionInvoice);
+      } else {
+        outcomes.push({
+          localId: item.localId,
+          status: kind === 'permanent' ? 'permanentFailure' : kind,
+          sessionInvoice: item.sessionInvoice
+        });
+      }
+    }
+    for (const item of correlation.missingManifestItems) {
+      queueRetry(item.localId, null);
+    }
+
+    const retry = retryInvoices.length > 0 ? await this.submitJob(accessToken, retryInvoices, options) : null;
+    if (retry) {
+      const batchesByLocalId = new Map(retry.batches.flatMap((batch) => batch.localIds.map((localId) => [localId, batch] as const)));
+      const rejectedByLocalId = new Map(retry.rejected.map((item) => [item.localId, item.reason]));
+      for (const outcome of outcomes) {
+        if (outcome.status !== 'resubmitted') {
+          continue;
+        }
+        const batch = batchesByLocalId.get(outcome.localId);
+        if (batch?.referenceNumber) {
+          outcome.retryReferenceNumber = batch.referenceNumber;
+        } else {
+          outcome.status = 'resubmitFailed';
+          outcome.reason = batch?.error?.message ?? rejectedByLocalId.get(outcome.localId) ?? 'Not planned into a retry batch';
+        }
+      }
+    }
+
+    return { originalReferenceNumbers: originalReferenceNumbers(options.original), retry, outcomes };
+  }
+
+  async waitForCompletion(
+    accessToken: string,
+    referenceNumber: string,
+    options: BatchWaitForCompletionOptions = {}
+  ): Promise<SessionStatusResponse> {
+    return await pollUntil(
+      () => this.sessions.getSessionStatus(accessToken, referenceNumber),
+      {
+        ...options,
+        isTerminal: options.isTerminal ?? ((status) => status.status.code >= 200),
+        description: `Batch session ${referenceNumber}`
+      }
+    );
   }
 
   async listAllInvoices(
@@ -239,53 +565,155 @@ export class KsefBatchService {
     return this.correlateResults(manifest, mergeSessionInvoices(invoices, failedInvoices));
   }
 
+  /** Parts are read just before upload, so at most `concurrency` parts are in memory. */
   private async uploadPreparedParts(
     uploadRequests: PartUploadRequest[],
-    encryptedParts: Buffer[],
-    concurrency: number
+    partCount: number,
+    readPart: (ordinalNumber: number) => Promise<Buffer>,
+    concurrency: number,
+    uploadOptions: BatchPartUploadOptions
   ): Promise<void> {
     if (!Number.isInteger(concurrency) || concurrency <= 0) {
       throw new Error('uploadConcurrency must be a positive integer');
     }
 
     const requestsByOrdinal = new Map(uploadRequests.map((request) => [request.ordinalNumber, request]));
-    const items = encryptedParts.map((part, index) => {
+    const items = Array.from({ length: partCount }, (_, index) => {
       const ordinalNumber = index + 1;
       const request = requestsByOrdinal.get(ordinalNumber);
       if (!request) {
         throw new Error(`Missing upload request for batch part #${ordinalNumber}`);
       }
-      return { request, part };
+      return request;
     });
 
-    await runWithConcurrency(items, concurrency, async ({ request, part }) => {
-      await this.batchUploader.uploadPart(request, part);
+    await runWithConcurrency(items, concurrency, async (request) => {
+      await this.batchUploader.uploadPart(request, await readPart(request.ordinalNumber), uploadOptions);
     });
   }
 
-  private async listAllSessionInvoices(
-    fetchPage: (continuationToken?: string) => Promise<SessionInvoicesResponse>
-  ): Promise<SessionInvoiceStatus[]> {
-    const invoices: SessionInvoiceStatus[] = [];
-    const seenTokens = new Set<string>();
-    let continuationToken: string | undefined;
-
-    do {
-      const page = await fetchPage(continuationToken);
-      invoices.push(...page.invoices);
-      continuationToken = page.continuationToken ?? undefined;
-      if (continuationToken) {
-        if (seenTokens.has(continuationToken)) {
-          throw new Error('Session invoice pagination returned a repeated continuation token');
+  /**
+   * Uploads the parts of `state` that are not yet stored, persisting the state after
+   * each part. Failed parts are recorded and the first failure is rethrown once the
+   * remaining parts have been attempted. A failed save does not stop the upload; the
+   * state is saved again once all parts have been attempted.
+   */
+  private async uploadWithState(
+    accessToken: string,
+    state: BatchSubmissionState,
+    stateStore: BatchSubmissionStateStore,
+    readPart: (ordinalNumber: number) => Promise<Buffer>,
+    options: BatchUploadControlOptions & { uploadConcurrency?: number; closeSession?: boolean }
+  ): Promise<void> {
+    const concurrency = options.uploadConcurrency ?? 4;
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+      throw new Error('uploadConcurrency must be a positive integer');
+    }
+
+    const requestsByOrdinal = new Map(state.partUploadRequests.map((request) => [request.ordinalNumber, request]));
+    const hashesByOrdinal = new Map(state.batchFile.fileParts.map((part) => [part.ordinalNumber, part.fileHash]));
+    const uploadOptions = partUploadOptions(options);
+    let saving = Promise.resolve();
+    const persist = async () => {
+      state.updatedAt = new Date().toISOString();
+      const snapshot = structuredClone(state);
+      // Saves run in order, and one that fails must not skip the ones after it.
+      saving = saving.catch(() => undefined).then(() => stateStore.save(snapshot));
+      await saving;
+    };
+
+    const failures: unknown[] = [];
+    let saveFailed = false;
+    await runWithConcurrency(state.parts.filter((part) => part.status !== 'uploaded'), concurrency, async (part) => {
+      try {
+        const request = requestsByOrdinal.get(part.ordinalNumber);
+        if (!request) {
+          throw new Error(`Missing upload request for batch part #${part.ordinalNumber}`);
         }
-        seenTokens.add(continuationToken);
+        const payload = await readPart(part.ordinalNumber);
+        if (sha256Base64(payload) !== hashesByOrdinal.get(part.ordinalNumber)) {
+          throw new Error(`Batch part #${part.ordinalNumber} does not match the hash declared when the session was opened`);
+        }
+        await this.batchUploader.uploadPart(request, payload, uploadOptions);
+        part.status = 'uploaded';
+        part.uploadedAt = new Date().toISOString();
+        delete part.lastError;
+      } catch (error) {
+        part.status = 'failed';
+        part.lastError = error instanceof Error ? error.message : String(error);
+        failures.push(error);
+      }
+      try {
+        await persist();
+      } catch {
+        saveFailed = true;
       }
-    } while (continuationToken);
+    });
+    if (saveFailed) {
+      await persist();
+    }
+    if (failures.length > 0) {
+      throw failures[0];
+    }
 
-    return invoices;
+    state.status = 'uploaded';
+    if (options.closeSession !== false) {
+      await this.sessions.closeBatchSession(accessToken, state.referenceNumber);
+      state.status = 'closed';
+    }
+    await persist();
+  }
+
+  private async listAllSessionInvoices(
+    fetchPage: (continuationToken?: string) => Promise<SessionInvoicesResponse>
+  ): Promise<SessionInvoiceStatus[]> {
+    return await collectAll(paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await fetchPage(continuationToken);
+        return { items: page.invoices, continuationToken: page.continuationToken };
+      },
+      'Session invoice'
+    ));
   }
 }
 
+function preparedPartReader(prepared: PreparedBatch | StreamPreparedBatch): (ordinalNumber: number) => Promise<Buffer> {
+  return 'encryptedParts' in prepared
+    ? async (ordinalNumber) => prepared.encryptedParts[ordinalNumber - 1]!
+    : async (ordinalNumber) => await prepared.partStore.readPart(ordinalNumber);
+}
+
+function batchSessionOptions(
+  prepared: PreparedBatch | StreamPreparedBatch,
+  options: BatchSubmitOptions
+): OpenBatchSessionOptions {
+  return {
+    ...options.session,
+    encryptionMaterial: prepared.encryptionMaterial,
+    ...(prepared.offlineMode ? { offlineMode: true } : {})
+  };
+}
+
+function jobPrepareOptions(planned: PlannedBatch, options: BatchJobOptions): BatchPrepareOptions {
+  return {
+    formCode: planned.formCode,
+    invoices: planned.invoices,
+    offlineMode: planned.offlineMode,
+    ...(options.compression ? { compression: options.compression } : {}),
+    ...(options.partSizeBytes !== undefined ? { partSizeBytes: options.partSizeBytes } : {}),
+    ...(options.maxUncompressedArchiveSizeBytes !== undefined
+      ? { maxUncompressedArchiveSizeBytes: options.maxUncompressedArchiveSizeBytes }
+      : {})
+  };
+}
+
+function partUploadOptions(options: BatchUploadControlOptions): BatchPartUploadOptions {
+  return {
+    ...(options.signal ? { signal: options.signal } : {}),
+    ...(options.onUploadProgress ? { onProgress: options.onUploadProgress } : {})
+  };
+}
+
 function splitBuffer(buffer: Buffer, partSizeBytes: number): Buffer[] {
   const parts: Buffer[] = [];
   for (let offset = 0; offset < buffer.length; offset += partSizeBytes) {
@@ -304,21 +732,6 @@ function assertUnique(values: string[], label: string): void {
   }
 }
 
-async function runWithConcurrency<T>(
-  items: T[],
-  concurrency: number,
-  worker: (item: T) => Promise<void>
-): Promise<void> {
-  let nextIndex = 0;
-  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
-    while (nextIndex < items.length) {
-      const item = items[nextIndex++]!;
-      await worker(item);
-    }
-  });
-  await Promise.all(workers);
-}
-
 function buildPaginationOptions(
   continuationToken: string | undefined,
   pageSize: number | undefined
@@ -332,10 +745,3 @@ function buildPaginationOptions(
   }
   return options;
 }
-
-function sleep(delayMs: number): Promise<void> {
-  if (delayMs <= 0) {
-    return Promise.resolve();
-  }
-  return new Promise((resolve) => setTimeout(resolve, delayMs));
-}
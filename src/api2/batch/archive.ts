@@ -1,38 +1,52 @@
 import { gzipSync, constants as zlibConstants } from 'node:zlib';
+import type { CompressionType } from '../types/common.js';
 import type { BatchInvoiceInput, BatchManifestItem } from './types.js';
 import { sha256Base64 } from './crypto.js';
+import { estimateZipSize, ZipWriter } from './zip.js';
 
-export function buildManifest(invoices: BatchInvoiceInput[]): BatchManifestItem[] {
-  return invoices.map((invoice) => {
-    const invoiceBuffer = toBuffer(invoice.xml);
-    return {
-      localId: invoice.localId,
-      fileName: normalizeTarFileName(invoice.fileName),
-      invoiceHash: sha256Base64(invoiceBuffer),
-      invoiceSize: invoiceBuffer.byteLength
-    };
-  });
+const TAR_NAME_LENGTH = 100;
+const TAR_PREFIX_LENGTH = 155;
+/** Largest size the 11 octal digits of the ustar size field can hold (8 GiB - 1). */
+const TAR_MAX_OCTAL_SIZE = 0o77777777777;
+
+export function buildManifest(
+  invoices: BatchInvoiceInput[],
+  compressionType: CompressionType = 'TarGz'
+): BatchManifestItem[] {
+  return invoices.map((invoice) => buildManifestItem(invoice, compressionType));
+}
+
+/** Manifest entry of one invoice; throws when its file name cannot go into the archive. */
+export function buildManifestItem(
+  invoice: BatchInvoiceInput,
+  compressionType: CompressionType = 'TarGz'
+): BatchManifestItem {
+  return manifestItem(invoice, normalizeArchiveFileName(invoice.fileName, compressionType), toBuffer(invoice.xml));
+}
+
+/** Archive size before compression: the tar stream for `TarGz`, an all-stored ZIP for `Zip`. */
+export function estimateArchiveSize(manifest: BatchManifestItem[], compressionType: CompressionType): number {
+  return compressionType === 'TarGz' ? estimateTarSize(manifest) : estimateZipSize(manifest);
 }
 
+/** Tar size including the PAX extended header of every entry that needs one. */
 export function estimateTarSize(manifest: BatchManifestItem[]): number {
-  return manifest.reduce(
-    (size, item) => size + 512 + item.invoiceSize + tarPadding(item.invoiceSize),
-    1024
-  );
+  return manifest.reduce((size, item) => {
+    const { pax } = tarHeaderFields(item.fileName, item.invoiceSize);
+    const paxSize = pax ? 512 + pax.byteLength + tarPadding(pax.byteLength) : 0;
+    return size + paxSize + 512 + item.invoiceSize + tarPadding(item.invoiceSize);
+  }, 1024);
+}
+
+export function buildArchive(invoices: BatchInvoiceInput[], compressionType: CompressionType): Buffer {
+  return compressionType === 'TarGz' ? buildTarGz(invoices) : buildZip(invoices);
 }
 
 export function buildTarGz(invoices: BatchInvoiceInput[]): Buffer {
   const tarEntries: Buffer[] = [];
 
   for (const invoice of invoices) {
-    const fileName = normalizeTarFileName(invoice.fileName);
-    const content = toBuffer(invoice.xml);
-    tarEntries.push(createTarHeader(fileName, content.byteLength));
-    tarEntries.push(content);
-    const padding = tarPadding(content.byteLength);
-    if (padding > 0) {
-      tarEntries.push(Buffer.alloc(padding));
-    }
+    tarEntries.push(...tarEntry(normalizeArchiveFileName(invoice.fileName, 'TarGz'), toBuffer(invoice.xml)));
   }
 
   tarEntries.push(Buffer.alloc(1024));
@@ -41,18 +55,155 @@ export function buildTarGz(invoices: BatchInvoiceInput[]): Buffer {
   });
 }
 
-function createTarHeader(fileName: string, size: number): Buffer {
+/**
+ * Yields the tar archive for `invoices` entry by entry, so only one invoice is held
+ * in memory. `onEntry` receives each manifest item before its entry is yielded.
+ */
+export async function* streamTar(
+  invoices: AsyncIterable<BatchInvoiceInput> | Iterable<BatchInvoiceInput>,
+  onEntry: (item: BatchManifestItem) => void
+): AsyncGenerator<Buffer, void, undefined> {
+  for await (const invoice of invoices) {
+    const fileName = normalizeArchiveFileName(invoice.fileName, 'TarGz');
+    const content = toBuffer(invoice.xml);
+    onEntry(manifestItem(invoice, fileName, content));
+    yield* tarEntry(fileName, content);
+  }
+  yield Buffer.alloc(1024);
+}
+
+export function buildZip(invoices: BatchInvoiceInput[]): Buffer {
+  const zip = new ZipWriter();
+  const chunks: Buffer[] = [];
+  for (const invoice of invoices) {
+    chunks.push(...zip.addEntry(normalizeArchiveFileName(invoice.fileName, 'Zip'), toBuffer(invoice.xml)));
+  }
+  chunks.push(...zip.finish());
+  return Buffer.concat(chunks);
+}
+
+/** ZIP counterpart of `streamTar`; entries are deflated individually, so no outer compression is needed. */
+export async function* streamZip(
+  invoices: AsyncIterable<BatchInvoiceInput> | Iterable<BatchInvoiceInput>,
+  onEntry: (item: BatchManifestItem) => void
+): AsyncGenerator<Buffer, void, undefined> {
+  const zip = new ZipWriter();
+  for await (const invoice of invoices) {
+    const fileName = normalizeArchiveFileName(invoice.fileName, 'Zip');
+    const content = toBuffer(invoice.xml);
+    onEntry(manifestItem(invoice, fileName, content));
+    yield* zip.addEntry(fileName, content);
+  }
+  yield* zip.finish();
+}
+
+function manifestItem(invoice: BatchInvoiceInput, fileName: string, content: Buffer): BatchManifestItem {
+  return {
+    localId: invoice.localId,
+    fileName,
+    invoiceHash: sha256Base64(content),
+    invoiceSize: content.byteLength,
+    ...(invoice.offlineSubmitBy !== undefined ? { offlineSubmitBy: invoice.offlineSubmitBy } : {})
+  };
+}
+
+function tarEntry(fileName: string, content: Buffer): Buffer[] {
+  const chunks = tarEntryHeaders(fileName, content.byteLength);
+  chunks.push(content);
+  const padding = tarPadding(content.byteLength);
+  if (padding > 0) {
+    chunks.push(Buffer.alloc(padding));
+  }
+  return chunks;
+}
+
+/**
+ * Header blocks of one tar entry: a PAX extended header first when the name or size
+ * does not fit ustar, then the ustar header itself.
+ */
+export function tarEntryHeaders(fileName: string, size: number): Buffer[] {
+  const { name, prefix, pax } = tarHeaderFields(fileName, size);
+  const header = createTarHeader(name, prefix, size > TAR_MAX_OCTAL_SIZE ? 0 : size, '0');
+  if (!pax) {
+    return [header];
+  }
+  const paxName = `PaxHeaders/${fallbackTarName(fileName.slice(fileName.lastIndexOf('/') + 1), TAR_NAME_LENGTH - 11)}`;
+  const padding = tarPadding(pax.byteLength);
+  return [
+    createTarHeader(paxName, '', pax.byteLength, 'x'),
+    padding > 0 ? Buffer.concat([pax, Buffer.alloc(padding)]) : pax,
+    header
+  ];
+}
+
+interface TarHeaderFields {
+  name: string;
+  prefix: string;
+  /** PAX extended header records, when ustar cannot hold the name or size. */
+  pax: Buffer | null;
+}
+
+/**
+ * ASCII names are split into ustar `prefix` and `name` where possible; anything else
+ * (longer or non-ASCII names, sizes of 8 GiB and more) goes into PAX records, with an
+ * ASCII stand-in in the ustar header for readers that ignore them.
+ */
+function tarHeaderFields(fileName: string, size: number): TarHeaderFields {
+  const records: Array<[string, string]> = [];
+  let fields = /^[\x20-\x7e]*$/.test(fileName) ? splitUstarName(fileName) : null;
+  if (!fields) {
+    records.push(['path', fileName]);
+    fields = { name: fallbackTarName(fileName, TAR_NAME_LENGTH), prefix: '' };
+  }
+  if (size > TAR_MAX_OCTAL_SIZE) {
+    records.push(['size', String(size)]);
+  }
+  if (records.length === 0) {
+    return { ...fields, pax: null };
+  }
+  records.push(['mtime', '0']);
+  return { ...fields, pax: Buffer.from(records.map(([key, value]) => paxRecord(key, value)).join(''), 'utf8') };
+}
+
+function splitUstarName(fileName: string): { name: string; prefix: string } | null {
+  if (fileName.length <= TAR_NAME_LENGTH) {
+    return { name: fileName, prefix: '' };
+  }
+  for (let index = fileName.indexOf('/'); index !== -1 && index <= TAR_PREFIX_LENGTH; index = fileName.indexOf('/', index + 1)) {
+    const name = fileName.slice(index + 1);
+    if (name.length > 0 && name.length <= TAR_NAME_LENGTH) {
+      return { name, prefix: fileName.slice(0, index) };
+    }
+  }
+  return null;
+}
+
+function fallbackTarName(fileName: string, maxLength: number): string {
+  return fileName.replace(/[^\x20-\x7e]/g, '_').slice(-maxLength);
+}
+
+/** `"<length> <key>=<value>\n"`, where the length counts the whole record, itself included. */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body, 'utf8');
+  let length = bodyLength + String(bodyLength).length;
+  length = bodyLength + String(length).length;
+  return `${length}${body}`;
+}
+
+function createTarHeader(name: string, prefix: string, size: number, type: '0' | 'x'): Buffer {
   const header = Buffer.alloc(512, 0);
-  header.write(fileName, 0, 100, 'utf8');
+  header.write(name, 0, TAR_NAME_LENGTH, 'utf8');
   writeTarOctal(header, 0o644, 100, 8);
   writeTarOctal(header, 0, 108, 8);
   writeTarOctal(header, 0, 116, 8);
   writeTarOctal(header, size, 124, 12);
   writeTarOctal(header, 0, 136, 12);
   header.fill(0x20, 148, 156);
-  header.write('0', 156, 1, 'ascii');
+  header.write(type, 156, 1, 'ascii');
   header.write('ustar\0', 257, 6, 'ascii');
   header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, TAR_PREFIX_LENGTH, 'utf8');
 
   let checksum = 0;
   for (const byte of header) {
@@ -79,13 +230,13 @@ function toBuffer(value: string | Buffer): Buffer {
   return Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8');
 }
 
-function normalizeTarFileName(fileName: string): string {
+function normalizeArchiveFileName(fileName: string, compressionType: CompressionType): string {
   const normalized = fileName.replace(/\\/g, '/');
   if (!normalized || normalized.startsWith('/') || normalized.includes('..') || normalized.includes('\0')) {
     throw new Error(`Invalid invoice fileName: ${fileName}`);
   }
-  if (Buffer.byteLength(normalized, 'utf8') > 100) {
-    throw new Error(`Invoice fileName is too long for the built-in tar writer: ${fileName}`);
+  if (compressionType === 'Zip' && Buffer.byteLength(normalized, 'utf8') > 0xffff) {
+    throw new Error(`Invoice fileName is too long for the built-in zip writer: ${fileName}`);
   }
   return normalized;
 }
@@ -1,4 +1,4 @@
-import { createCipheriv, createHash } from 'node:crypto';
+import { createCipheriv, createDecipheriv, createHash } from 'node:crypto';
 import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
 
 export function sha256Base64(buffer: Buffer): string {
@@ -15,3 +15,12 @@ export function encryptPart(part: Buffer, encryptionMaterial: SymmetricKeyMateri
   );
   return Buffer.concat([cipher.update(part), cipher.final()]);
 }
+
+export function decryptPart(part: Buffer, encryptionMaterial: SymmetricKeyMaterial): Buffer {
+  const decipher = createDecipheriv(
+    'aes-256-cbc',
+    encryptionMaterial.symmetricKey,
+    encryptionMaterial.initializationVector
+  );
+  return Buffer.concat([decipher.update(part), decipher.final()]);
+}
@@ -0,0 +1,10 @@
+/** Batch session limits shared by the buffered, streaming and planned preparation paths. */
+
+/** Parts per batch file. */
+export const MAX_BATCH_PARTS = 50;
+/** Size of one part before encryption (100 MB). */
+export const MAX_PART_SIZE_BYTES = 100_000_000;
+/** `batchFile.fileSize`: size of the whole archive before encryption (5 GB). */
+export const MAX_BATCH_FILE_SIZE_BYTES = 5_000_000_000;
+/** Default cap on the archive built in memory by `prepare` and used by the planner. */
+export const DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES = 256 * 1024 * 1024;
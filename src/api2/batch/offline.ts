@@ -0,0 +1,55 @@
+import { ProcessError } from '@/types/common.js';
+import type { BatchManifestItem } from './types.js';
+
+const MAX_LISTED_INVOICES = 10;
+
+/**
+ * Thrown when an offline batch holds invoices whose `offlineSubmitBy` deadline has
+ * passed; `expired` lists them so they can be taken out of the batch.
+ */
+export class BatchOfflineDeadlineError extends ProcessError {
+  constructor(public readonly expired: Array<{ localId: string; offlineSubmitBy: string }>) {
+    const listed = expired
+      .slice(0, MAX_LISTED_INVOICES)
+      .map((item) => `${item.localId} (${item.offlineSubmitBy})`)
+      .join(', ');
+    const more = expired.length > MAX_LISTED_INVOICES ? ` and ${expired.length - MAX_LISTED_INVOICES} more` : '';
+    super(`Offline submission deadline passed for ${expired.length} invoice(s): ${listed}${more}`);
+    this.name = 'BatchOfflineDeadlineError';
+  }
+}
+
+/**
+ * Checks that an offline batch contains only offline invoices still within their
+ * deadline, and that an online batch contains none.
+ */
+export function assertOfflineManifest(manifest: BatchManifestItem[], offlineMode: boolean, now: Date = new Date()): void {
+  if (!offlineMode) {
+    const offline = manifest.find((item) => item.offlineSubmitBy !== undefined);
+    if (offline) {
+      throw new Error(`Invoice ${offline.localId} is an offline invoice; submit it in a batch with offlineMode: true`);
+    }
+    return;
+  }
+
+  const expired: Array<{ localId: string; offlineSubmitBy: string }> = [];
+  for (const item of manifest) {
+    if (item.offlineSubmitBy === undefined) {
+      throw new Error(`Invoice ${item.localId} is not an offline invoice: offlineSubmitBy is missing`);
+    }
+    if (isOfflineDeadlinePassed(item.localId, item.offlineSubmitBy, now)) {
+      expired.push({ localId: item.localId, offlineSubmitBy: item.offlineSubmitBy });
+    }
+  }
+  if (expired.length > 0) {
+    throw new BatchOfflineDeadlineError(expired);
+  }
+}
+
+export function isOfflineDeadlinePassed(localId: string, offlineSubmitBy: string, now: Date = new Date()): boolean {
+  const deadline = Date.parse(offlineSubmitBy);
+  if (Number.isNaN(deadline)) {
+    throw new Error(`Invoice ${localId} has an invalid offlineSubmitBy: ${offlineSubmitBy}`);
+  }
+  return deadline <= now.getTime();
+}
@@ -0,0 +1,87 @@
+import { createWriteStream } from 'node:fs';
+import { mkdir, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+/**
+ * Storage for encrypted batch parts written by `KsefBatchService.prepareStream`
+ * and read back one part at a time by `submit`.
+ */
+export interface BatchPartStore {
+  /** Persists encrypted part `ordinalNumber`; resolves once `data` is fully stored. */
+  savePart(ordinalNumber: number, data: Readable): Promise<void>;
+  readPart(ordinalNumber: number): Promise<Buffer>;
+  /** Deletes the stored parts (and the directory of a temporary file store). */
+  dispose(): Promise<void>;
+}
+
+const PART_FILE_PATTERN = /^part-\d{3}\.aes$/;
+
+/** Keeps parts in memory; intended for tests and small batches. */
+export class InMemoryBatchPartStore implements BatchPartStore {
+  private readonly parts = new Map<number, Buffer>();
+
+  async savePart(ordinalNumber: number, data: Readable): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of data) {
+      chunks.push(chunk as Buffer);
+    }
+    this.parts.set(ordinalNumber, Buffer.concat(chunks));
+  }
+
+  async readPart(ordinalNumber: number): Promise<Buffer> {
+    const part = this.parts.get(ordinalNumber);
+    if (!part) {
+      throw new Error(`Batch part #${ordinalNumber} is not stored`);
+    }
+    return part;
+  }
+
+  async dispose(): Promise<void> {
+    this.parts.clear();
+  }
+}
+
+/**
+ * Writes each part to `{directory}/part-NNN.aes`. A store can be re-created for the
+ * same directory after a restart to read the parts again.
+ */
+export class FileBatchPartStore implements BatchPartStore {
+  constructor(
+    readonly directory: string,
+    private readonly removeDirectoryOnDispose = false
+  ) {}
+
+  /** Creates a store in a fresh directory under the OS temp directory, removed on `dispose`. */
+  static async createTemp(prefix = 'ksef-batch-'): Promise<FileBatchPartStore> {
+    return new FileBatchPartStore(await mkdtemp(join(tmpdir(), prefix)), true);
+  }
+
+  async savePart(ordinalNumber: number, data: Readable): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await pipeline(data, createWriteStream(this.partPath(ordinalNumber)));
+  }
+
+  async readPart(ordinalNumber: number): Promise<Buffer> {
+    return await readFile(this.partPath(ordinalNumber));
+  }
+
+  async dispose(): Promise<void> {
+    if (this.removeDirectoryOnDispose) {
+      await rm(this.directory, { recursive: true, force: true });
+      return;
+    }
+    const entries = await readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(
+      entries
+        .filter((name) => PART_FILE_PATTERN.test(name))
+        .map((name) => rm(join(this.directory, name), { force: true }))
+    );
+  }
+
+  private partPath(ordinalNumber: number): string {
+    return join(this.directory, `part-${String(ordinalNumber).padStart(3, '0')}.aes`);
+  }
+}
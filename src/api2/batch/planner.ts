@@ -0,0 +1,154 @@
+import type { CompressionType, FormCode } from '../types/common.js';
+import type { EffectiveSessionLimits } from '../types/rate-limits.js';
+import { buildManifestItem, estimateArchiveSize } from './archive.js';
+import { DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES, MAX_BATCH_PARTS, MAX_PART_SIZE_BYTES } from './limits.js';
+import { isOfflineDeadlinePassed } from './offline.js';
+import type {
+  BatchInvoiceInput,
+  BatchJobInvoiceInput,
+  BatchManifestItem,
+  BatchPlan,
+  BatchPlanRejection,
+  PlannedBatch
+} from './types.js';
+
+/** KSeF states limits in MB; decimal megabytes keep the check on the safe side. */
+const BYTES_PER_MB = 1_000_000;
+const ATTACHMENT_PATTERN = /<(?:[\w-]+:)?Zalacznik[\s>/]/;
+
+export interface PlanBatchesOptions {
+  compression?: CompressionType;
+  partSizeBytes?: number;
+  maxUncompressedArchiveSizeBytes?: number;
+}
+
+/**
+ * Partitions invoices into batches that respect the context's batch session limits:
+ * one form code per batch, attachment and offline invoices kept apart, at most
+ * `maxInvoices` invoices and an archive small enough for `prepare` and the 50-part
+ * limit. Input order is preserved within each batch. Invoices `prepare` would refuse
+ * (invalid file name, or a file name or content already used in the job) are rejected here.
+ */
+export function planBatches(
+  invoices: BatchJobInvoiceInput[],
+  limits: EffectiveSessionLimits,
+  options: PlanBatchesOptions = {}
+): BatchPlan {
+  const compressionType = options.compression ?? 'TarGz';
+  const partSizeBytes = options.partSizeBytes ?? MAX_PART_SIZE_BYTES;
+  const maxArchiveSize = Math.min(
+    options.maxUncompressedArchiveSizeBytes ?? DEFAULT_MAX_UNCOMPRESSED_ARCHIVE_SIZE_BYTES,
+    MAX_BATCH_PARTS * partSizeBytes
+  );
+  if (!Number.isInteger(limits.maxInvoices) || limits.maxInvoices <= 0) {
+    throw new Error(`Invalid batch session limit maxInvoices: ${limits.maxInvoices}`);
+  }
+
+  const now = new Date();
+  const emptyArchiveSize = estimateArchiveSize([], compressionType);
+  const seenLocalIds = new Set<string>();
+  const seenFileNames = new Map<string, string>();
+  const seenHashes = new Map<string, string>();
+  const open = new Map<string, PlannedBatch>();
+  const batches: PlannedBatch[] = [];
+  const rejected: BatchPlanRejection[] = [];
+
+  for (const invoice of invoices) {
+    if (seenLocalIds.has(invoice.localId)) {
+      throw new Error(`Batch job contains duplicate localId: ${invoice.localId}`);
+    }
+    seenLocalIds.add(invoice.localId);
+
+    const invoiceSize = typeof invoice.xml === 'string' ? Buffer.byteLength(invoice.xml, 'utf8') : invoice.xml.byteLength;
+    const offlineMode = invoice.offlineSubmitBy !== undefined;
+    if (invoice.offlineSubmitBy !== undefined && isOfflineDeadlinePassed(invoice.localId, invoice.offlineSubmitBy, now)) {
+      rejected.push({
+        localId: invoice.localId,
+        invoiceSize,
+        reason: `Offline submission deadline passed at ${invoice.offlineSubmitBy}`
+      });
+      continue;
+    }
+
+    const hasAttachment = invoice.hasAttachment ?? detectAttachment(invoice.xml);
+    const maxInvoiceSizeInMB = hasAttachment ? limits.maxInvoiceWithAttachmentSizeInMB : limits.maxInvoiceSizeInMB;
+    if (invoiceSize > maxInvoiceSizeInMB * BYTES_PER_MB) {
+      rejected.push({
+        localId: invoice.localId,
+        invoiceSize,
+        reason: `Invoice ${hasAttachment ? 'with attachments ' : ''}exceeds the batch limit of ${maxInvoiceSizeInMB} MB`
+      });
+      continue;
+    }
+
+    let manifestItem: BatchManifestItem;
+    try {
+      manifestItem = buildManifestItem(toBatchInvoice(invoice), compressionType);
+    } catch (error) {
+      rejected.push({ localId: invoice.localId, invoiceSize, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const duplicateReason = duplicateOf(seenFileNames, manifestItem.fileName, 'file name')
+      ?? duplicateOf(seenHashes, manifestItem.invoiceHash, 'content');
+    if (duplicateReason) {
+      rejected.push({ localId: invoice.localId, invoiceSize, reason: duplicateReason });
+      continue;
+    }
+
+    const entrySize = estimateArchiveSize([manifestItem], compressionType) - emptyArchiveSize;
+    if (emptyArchiveSize + entrySize > maxArchiveSize) {
+      rejected.push({
+        localId: invoice.localId,
+        invoiceSize,
+        reason: `Invoice does not fit in a batch archive of ${maxArchiveSize} bytes`
+      });
+      continue;
+    }
+
+    const key = `${formCodeKey(invoice.formCode)}|${hasAttachment}|${offlineMode}`;
+    let batch = open.get(key);
+    if (
+      !batch
+      || batch.invoices.length >= limits.maxInvoices
+      || batch.uncompressedArchiveSize + entrySize > maxArchiveSize
+    ) {
+      batch = {
+        formCode: invoice.formCode,
+        hasAttachments: hasAttachment,
+        offlineMode,
+        invoices: [],
+        uncompressedArchiveSize: emptyArchiveSize
+      };
+      open.set(key, batch);
+      batches.push(batch);
+    }
+    batch.invoices.push(toBatchInvoice(invoice));
+    batch.uncompressedArchiveSize += entrySize;
+    seenFileNames.set(manifestItem.fileName, invoice.localId);
+    seenHashes.set(manifestItem.invoiceHash, invoice.localId);
+  }
+
+  return { batches, rejected };
+}
+
+function duplicateOf(seen: Map<string, string>, value: string, label: string): string | undefined {
+  const localId = seen.get(value);
+  return localId !== undefined ? `Invoice has the same ${label} as ${localId}` : undefined;
+}
+
+function detectAttachment(xml: string | Buffer): boolean {
+  return ATTACHMENT_PATTERN.test(typeof xml === 'string' ? xml : xml.toString('utf8'));
+}
+
+function formCodeKey(formCode: FormCode): string {
+  return `${formCode.systemCode}|${formCode.schemaVersion}|${formCode.value}`;
+}
+
+function toBatchInvoice(invoice: BatchJobInvoiceInput): BatchInvoiceInput {
+  return {
+    localId: invoice.localId,
+    fileName: invoice.fileName,
+    xml: invoice.xml,
+    ...(invoice.offlineSubmitBy !== undefined ? { offlineSubmitBy: invoice.offlineSubmitBy } : {})
+  };
+}
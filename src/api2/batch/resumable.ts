@@ -0,0 +1,75 @@
+import { ProcessError } from '@/types/common.js';
+import type { OpenBatchSessionResult } from '../services/sessions.js';
+import type { BatchSubmissionState, PreparedBatch, StreamPreparedBatch } from './types.js';
+
+/**
+ * Thrown by `resume` when pending parts can no longer be uploaded because their
+ * pre-signed links expired. KSeF does not reissue links: prepare and submit again.
+ */
+export class BatchUploadLinkExpiredError extends ProcessError {
+  constructor(
+    referenceNumber: string,
+    public readonly ordinalNumbers: number[],
+    public readonly expiredAt: Date
+  ) {
+    super(
+      `Upload links for batch session ${referenceNumber} expired at ${expiredAt.toISOString()} `
+      + `(pending parts: ${ordinalNumbers.join(', ')})`,
+      { referenceNumber }
+    );
+    this.name = 'BatchUploadLinkExpiredError';
+  }
+}
+
+export function createSubmissionState(
+  stateId: string,
+  prepared: PreparedBatch | StreamPreparedBatch,
+  session: OpenBatchSessionResult
+): BatchSubmissionState {
+  const now = new Date().toISOString();
+  return {
+    stateId,
+    status: 'uploading',
+    referenceNumber: session.referenceNumber,
+    formCode: prepared.formCode,
+    batchFile: prepared.batchFile,
+    manifest: prepared.manifest,
+    encryption: {
+      encryptedSymmetricKey: session.encryptionMaterial.encryptedSymmetricKey,
+      initializationVector: session.encryptionMaterial.initializationVectorBase64
+    },
+    partUploadRequests: session.partUploadRequests,
+    parts: prepared.batchFile.fileParts.map((part) => ({ ordinalNumber: part.ordinalNumber, status: 'pending' })),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Expiry encoded in a pre-signed URL: Azure SAS `se`, or S3 `X-Amz-Date` plus
+ * `X-Amz-Expires`. Returns null when the URL carries neither.
+ */
+export function uploadLinkExpiry(url: string): Date | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+
+  const sasExpiry = params.get('se');
+  if (sasExpiry) {
+    const expiry = new Date(sasExpiry);
+    return Number.isNaN(expiry.getTime()) ? null : expiry;
+  }
+
+  const amzDate = params.get('X-Amz-Date');
+  const amzExpires = Number(params.get('X-Amz-Expires'));
+  const match = amzDate?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (match && Number.isFinite(amzExpires) && amzExpires > 0) {
+    const [, year, month, day, hour, minute, second] = match;
+    const signedAt = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    return new Date(signedAt + amzExpires * 1000);
+  }
+  return null;
+}
@@ -0,0 +1,30 @@
+import type { BatchInvoiceStatusKind, BatchJob } from './types.js';
+
+/**
+ * Invoice status codes worth sending again: 405 (cancelled because of a session
+ * error), 435 (file decryption error), 500 (unknown error), 550 (cancelled by the system).
+ */
+export const DEFAULT_RETRYABLE_STATUS_CODES: readonly number[] = [405, 435, 500, 550];
+
+export function classifyInvoiceStatus(
+  code: number,
+  retryableStatusCodes: readonly number[] = DEFAULT_RETRYABLE_STATUS_CODES
+): BatchInvoiceStatusKind {
+  if (code === 200) {
+    return 'succeeded';
+  }
+  if (code < 200) {
+    return 'pending';
+  }
+  return retryableStatusCodes.includes(code) ? 'retryable' : 'permanent';
+}
+
+export function originalReferenceNumbers(original: string | BatchJob | undefined): string[] {
+  if (original === undefined) {
+    return [];
+  }
+  if (typeof original === 'string') {
+    return [original];
+  }
+  return original.batches.flatMap((batch) => (batch.referenceNumber ? [batch.referenceNumber] : []));
+}
@@ -0,0 +1,97 @@
+import { mkdir, open, readFile, rename } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { BatchSubmissionState, BatchSubmissionStateStore } from './types.js';
+
+/**
+ * Keeps submission states in memory. Suitable for tests and short-lived processes only.
+ */
+export class InMemoryBatchSubmissionStateStore implements BatchSubmissionStateStore {
+  private states: Map<string, BatchSubmissionState> = new Map();
+
+  async load(stateId: string): Promise<BatchSubmissionState | null> {
+    const state = this.states.get(stateId);
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(state: BatchSubmissionState): Promise<void> {
+    this.states.set(state.stateId, structuredClone(state));
+  }
+
+  async delete(stateId: string): Promise<void> {
+    this.states.delete(stateId);
+  }
+}
+
+interface StateFile {
+  version: 1;
+  states: Record<string, BatchSubmissionState>;
+}
+
+/**
+ * Persists all submission states in a single JSON file, written through a synced
+ * temporary file and `rename` so a crash mid-upload never leaves a half-written state behind.
+ *
+ * The file is sensitive: it holds the sessions' live pre-signed upload URLs and the
+ * wrapped symmetric key. It is created readable by its owner only (mode 0600); keep it
+ * in a directory other users cannot read and delete states once they are closed.
+ */
+export class JsonFileBatchSubmissionStateStore implements BatchSubmissionStateStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(stateId: string): Promise<BatchSubmissionState | null> {
+    await this.pending;
+    const file = await this.readFile();
+    return file.states[stateId] ?? null;
+  }
+
+  async save(state: BatchSubmissionState): Promise<void> {
+    await this.update((file) => {
+      file.states[state.stateId] = state;
+    });
+  }
+
+  async delete(stateId: string): Promise<void> {
+    await this.update((file) => {
+      delete file.states[stateId];
+    });
+  }
+
+  private async update(change: (file: StateFile) => void): Promise<void> {
+    const write = this.pending.then(async () => {
+      const file = await this.readFile();
+      change(file);
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      const handle = await open(tempPath, 'w', 0o600);
+      try {
+        await handle.writeFile(JSON.stringify(file, null, 2), 'utf8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await rename(tempPath, this.filePath);
+    });
+    this.pending = write.catch(() => undefined);
+    await write;
+  }
+
+  private async readFile(): Promise<StateFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, states: {} };
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StateFile>;
+    if (parsed.version !== 1 || typeof parsed.states !== 'object' || parsed.states === null) {
+      throw new Error(`Unsupported batch submission state file: ${this.filePath}`);
+    }
+    return parsed as StateFile;
+  }
+}
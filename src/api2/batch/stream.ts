@@ -0,0 +1,190 @@
+import { createCipheriv, createHash, type Cipher, type Hash } from 'node:crypto';
+import { once } from 'node:events';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { PassThrough, pipeline, Readable } from 'node:stream';
+import { createGzip, constants as zlibConstants } from 'node:zlib';
+import type { BatchFilePartInfo } from '../types/common.js';
+import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
+import { streamTar, streamZip } from './archive.js';
+import { MAX_BATCH_FILE_SIZE_BYTES, MAX_BATCH_PARTS, MAX_PART_SIZE_BYTES } from './limits.js';
+import { assertOfflineManifest } from './offline.js';
+import { FileBatchPartStore, type BatchPartStore } from './part-store.js';
+import type {
+  BatchInvoiceInput,
+  BatchInvoiceSource,
+  BatchManifestItem,
+  BatchStreamPrepareOptions,
+  StreamPreparedBatch
+} from './types.js';
+
+/**
+ * Streams invoices through tar -> gzip (or the ZIP writer) -> part split -> AES-256-CBC into a part
+ * store, hashing the archive and every encrypted part on the way. Memory use is
+ * bounded by the largest invoice and the stream buffers, not by the archive size.
+ */
+export async function prepareBatchStream(
+  options: BatchStreamPrepareOptions,
+  encryptionMaterial: SymmetricKeyMaterial
+): Promise<StreamPreparedBatch> {
+  const compressionType = options.compression ?? 'TarGz';
+  const partSizeBytes = options.partSizeBytes ?? MAX_PART_SIZE_BYTES;
+  if (!Number.isInteger(partSizeBytes) || partSizeBytes <= 0 || partSizeBytes > MAX_PART_SIZE_BYTES) {
+    throw new Error(`partSizeBytes must be an integer between 1 and ${MAX_PART_SIZE_BYTES}`);
+  }
+
+  const ownsStore = !options.partStore;
+  const partStore = options.partStore ?? await FileBatchPartStore.createTemp();
+  const manifest: BatchManifestItem[] = [];
+  const unique = { localId: new Set<string>(), fileName: new Set<string>(), invoiceHash: new Set<string>() };
+  const archiveHash = createHash('sha256');
+  const fileParts: BatchFilePartInfo[] = [];
+  let archiveSize = 0;
+  let part: EncryptedPartWriter | null = null;
+
+  const onEntry = (item: BatchManifestItem) => {
+    for (const key of ['localId', 'fileName', 'invoiceHash'] as const) {
+      if (unique[key].has(item[key])) {
+        throw new Error(`Batch contains duplicate ${key}: ${item[key]}`);
+      }
+      unique[key].add(item[key]);
+    }
+    manifest.push(item);
+  };
+  const invoices = resolveInvoices(options.invoices);
+  const entries = Readable.from(
+    compressionType === 'TarGz' ? streamTar(invoices, onEntry) : streamZip(invoices, onEntry)
+  );
+  const archive = compressionType === 'TarGz'
+    ? pipeline(entries, createGzip({ level: zlibConstants.Z_BEST_COMPRESSION }), () => undefined)
+    : entries;
+
+  try {
+    for await (const chunk of archive as AsyncIterable<Buffer>) {
+      archiveHash.update(chunk);
+      archiveSize += chunk.byteLength;
+      if (archiveSize > MAX_BATCH_FILE_SIZE_BYTES) {
+        throw new Error(`Batch archive exceeds KSeF limit of ${MAX_BATCH_FILE_SIZE_BYTES} bytes`);
+      }
+      for (let offset = 0; offset < chunk.byteLength;) {
+        if (!part) {
+          if (fileParts.length === MAX_BATCH_PARTS) {
+            throw new Error(`Batch archive exceeds KSeF limit of ${MAX_BATCH_PARTS} parts`);
+          }
+          part = new EncryptedPartWriter(partStore, fileParts.length + 1, encryptionMaterial);
+        }
+        const length = Math.min(partSizeBytes - part.size, chunk.byteLength - offset);
+        await part.write(chunk.subarray(offset, offset + length));
+        offset += length;
+        if (part.size === partSizeBytes) {
+          fileParts.push(await part.finish());
+          part = null;
+        }
+      }
+    }
+    if (part) {
+      fileParts.push(await part.finish());
+      part = null;
+    }
+    if (manifest.length === 0) {
+      throw new Error('Batch must contain at least one invoice');
+    }
+    assertOfflineManifest(manifest, options.offlineMode ?? false);
+  } catch (error) {
+    part?.abort(error as Error);
+    entries.destroy();
+    if (ownsStore) {
+      await partStore.dispose().catch(() => undefined);
+    }
+    throw error;
+  }
+
+  const archiveHashBase64 = archiveHash.digest('base64');
+  return {
+    formCode: options.formCode,
+    compressionType,
+    offlineMode: options.offlineMode ?? false,
+    batchFile: {
+      fileSize: archiveSize,
+      fileHash: archiveHashBase64,
+      compressionType,
+      fileParts
+    },
+    partStore,
+    manifest,
+    encryptionMaterial,
+    archiveSize,
+    archiveHash: archiveHashBase64,
+    partSizeBytes
+  };
+}
+
+async function* resolveInvoices(
+  invoices: AsyncIterable<BatchInvoiceSource> | Iterable<BatchInvoiceSource>
+): AsyncGenerator<BatchInvoiceInput, void, undefined> {
+  for await (const invoice of invoices) {
+    if ('path' in invoice) {
+      yield {
+        localId: invoice.localId,
+        fileName: invoice.fileName ?? basename(invoice.path),
+        xml: await readFile(invoice.path),
+        ...(invoice.offlineSubmitBy !== undefined ? { offlineSubmitBy: invoice.offlineSubmitBy } : {})
+      };
+    } else {
+      yield invoice;
+    }
+  }
+}
+
+/** Encrypts one part and streams it into the store while hashing the ciphertext. */
+class EncryptedPartWriter {
+  size = 0;
+  private encryptedSize = 0;
+  private readonly cipher: Cipher;
+  private readonly hash: Hash = createHash('sha256');
+  private readonly stream = new PassThrough();
+  private readonly saved: Promise<void>;
+
+  constructor(store: BatchPartStore, private readonly ordinalNumber: number, material: SymmetricKeyMaterial) {
+    this.cipher = createCipheriv('aes-256-cbc', material.symmetricKey, material.initializationVector);
+    this.saved = store.savePart(ordinalNumber, this.stream);
+    // Observed in push() and finish(); avoid an unhandled rejection in between.
+    this.saved.catch(() => undefined);
+  }
+
+  async write(chunk: Buffer): Promise<void> {
+    this.size += chunk.byteLength;
+    await this.push(this.cipher.update(chunk));
+  }
+
+  async finish(): Promise<BatchFilePartInfo> {
+    await this.push(this.cipher.final());
+    this.stream.end();
+    await this.saved;
+    return {
+      ordinalNumber: this.ordinalNumber,
+      fileSize: this.encryptedSize,
+      fileHash: this.hash.digest('base64')
+    };
+  }
+
+  abort(error: Error): void {
+    this.stream.destroy(error);
+  }
+
+  private async push(data: Buffer): Promise<void> {
+    if (data.byteLength === 0) {
+      return;
+    }
+    this.hash.update(data);
+    this.encryptedSize += data.byteLength;
+    if (!this.stream.write(data)) {
+      await Promise.race([
+        once(this.stream, 'drain'),
+        this.saved.then(() => {
+          throw new Error(`Part store finished batch part #${this.ordinalNumber} before it was fully written`);
+        })
+      ]);
+    }
+  }
+}
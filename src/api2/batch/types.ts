@@ -1,7 +1,10 @@
 import type { BatchFileInfo, CompressionType, FormCode, PartUploadRequest } from '../types/common.js';
 import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
 import type { SessionInvoiceStatus, SessionStatusResponse } from '../types/session.js';
-import type { OpenBatchSessionOptions, OpenBatchSessionResult } from '../services/sessions.js';
+import type { EffectiveContextLimits } from '../types/rate-limits.js';
+import type { BatchUploadProgress, OpenBatchSessionOptions, OpenBatchSessionResult } from '../services/sessions.js';
+import type { PollingOptions } from '../workflows/polling.js';
+import type { BatchPartStore } from './part-store.js';
 
 export interface BatchFileBuildResult {
   batchFile: BatchFileInfo;
@@ -12,36 +15,58 @@ export interface BatchInvoiceInput {
   localId: string;
   fileName: string;
   xml: string | Buffer;
+  /**
+   * Marks an invoice issued in offline mode: the ISO 8601 deadline for sending it
+   * to KSeF (see `calculateOfflineDeadline`). Such invoices go only into batches
+   * prepared with `offlineMode: true`.
+   */
+  offlineSubmitBy?: string;
+}
+
+/** Invoice read from disk by `prepareStream`; `fileName` defaults to the file's base name. */
+export interface BatchInvoiceFileInput {
+  localId: string;
+  path: string;
+  fileName?: string;
+  offlineSubmitBy?: string;
 }
 
+export type BatchInvoiceSource = BatchInvoiceInput | BatchInvoiceFileInput;
+
 export interface BatchManifestItem {
   localId: string;
   fileName: string;
   invoiceHash: string;
   invoiceSize: number;
+  offlineSubmitBy?: string;
 }
 
 export interface BatchPrepareOptions {
   formCode: FormCode;
   invoices: BatchInvoiceInput[];
-  /**
-   * High-level preparation currently builds tar.gz archives. The low-level
-   * helpers remain available for callers that already own another archive.
-   */
-  compression?: Extract<CompressionType, 'TarGz'>;
+  /** Archive format (default: `TarGz`). `Zip` entries are deflated with UTF-8 names. */
+  compression?: CompressionType;
   /** KSeF limit: parts are split before encryption and cannot exceed 100 MB. */
   partSizeBytes?: number;
   /**
-   * Safety cap for the buffered prepare flow, measured as tar size before gzip.
-   * Defaults to 256 MiB. Raise only when the caller controls process memory.
+   * Safety cap for the buffered prepare flow, measured as archive size before
+   * compression (tar size before gzip, or the ZIP size with every entry stored).
+   * Defaults to 256 MiB. Raise only when the caller controls process memory, or
+   * use `prepareStream` for larger batches.
    */
   maxUncompressedArchiveSizeBytes?: number;
+  /**
+   * Opens the session with `offlineMode: true`. Every invoice must then carry an
+   * `offlineSubmitBy` deadline that has not passed yet.
+   */
+  offlineMode?: boolean;
   encryptionMaterial?: SymmetricKeyMaterial;
 }
 
 export interface PreparedBatch {
   formCode: FormCode;
-  compressionType: Extract<CompressionType, 'TarGz'>;
+  compressionType: CompressionType;
+  offlineMode: boolean;
   batchFile: BatchFileInfo;
   encryptedParts: Buffer[];
   manifest: BatchManifestItem[];
@@ -51,10 +76,30 @@ export interface PreparedBatch {
   partSizeBytes: number;
 }
 
-export interface BatchSubmitOptions {
+export interface BatchStreamPrepareOptions extends Omit<BatchPrepareOptions, 'invoices' | 'maxUncompressedArchiveSizeBytes'> {
+  /** Read lazily, one invoice at a time. */
+  invoices: AsyncIterable<BatchInvoiceSource> | Iterable<BatchInvoiceSource>;
+  /** Where encrypted parts are written (default: a temporary `FileBatchPartStore`). */
+  partStore?: BatchPartStore;
+}
+
+/** `PreparedBatch` whose encrypted parts live in a `BatchPartStore` instead of memory. */
+export interface StreamPreparedBatch extends Omit<PreparedBatch, 'encryptedParts'> {
+  partStore: BatchPartStore;
+}
+
+export interface BatchUploadControlOptions {
+  /** Aborts pending part uploads and their retries. */
+  signal?: AbortSignal;
+  /** Byte-level progress of each part upload. */
+  onUploadProgress?: (progress: BatchUploadProgress) => void;
+}
+
+export interface BatchSubmitOptions extends BatchUploadControlOptions {
   uploadConcurrency?: number;
   closeSession?: boolean;
-  session?: Omit<OpenBatchSessionOptions, 'encryptionMaterial'>;
+  /** `offlineMode` follows the prepared batch. */
+  session?: Omit<OpenBatchSessionOptions, 'encryptionMaterial' | 'offlineMode'>;
 }
 
 export interface SubmittedBatch {
@@ -65,12 +110,206 @@ export interface SubmittedBatch {
   partUploadRequests: PartUploadRequest[];
 }
 
-export interface BatchWaitForCompletionOptions {
-  initialDelayMs?: number;
-  maxDelayMs?: number;
-  backoffFactor?: number;
-  timeoutMs?: number;
-  maxAttempts?: number;
+export type BatchPartUploadStatus = 'pending' | 'uploaded' | 'failed';
+
+export interface BatchPartUploadState {
+  ordinalNumber: number;
+  status: BatchPartUploadStatus;
+  uploadedAt?: string;
+  /** Message of the last failed attempt. */
+  lastError?: string;
+}
+
+/**
+ * Everything needed to finish a batch upload in another process. Only the RSA-encrypted
+ * symmetric key is stored; the raw key never leaves the preparing process.
+ */
+export interface BatchSubmissionState {
+  stateId: string;
+  /** `uploading` until every part is stored, then `uploaded` or `closed`; `expired` once upload links lapsed. */
+  status: 'uploading' | 'uploaded' | 'closed' | 'expired';
+  referenceNumber: string;
+  formCode: FormCode;
+  batchFile: BatchFileInfo;
+  manifest: BatchManifestItem[];
+  encryption: {
+    encryptedSymmetricKey: string;
+    initializationVector: string;
+  };
+  partUploadRequests: PartUploadRequest[];
+  parts: BatchPartUploadState[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BatchSubmissionStateStore {
+  load(stateId: string): Promise<BatchSubmissionState | null>;
+  save(state: BatchSubmissionState): Promise<void>;
+  delete(stateId: string): Promise<void>;
+}
+
+export interface BatchResumableSubmitOptions extends BatchSubmitOptions {
+  stateStore: BatchSubmissionStateStore;
+  /** Key of the persisted state (default: the batch session reference number). */
+  stateId?: string;
+}
+
+export interface BatchResumeOptions extends BatchUploadControlOptions {
+  stateStore: BatchSubmissionStateStore;
+  /** Source of the encrypted parts, e.g. the `FileBatchPartStore` used by `prepareStream`. */
+  partStore: Pick<BatchPartStore, 'readPart'>;
+  uploadConcurrency?: number;
+  closeSession?: boolean;
+  /** Upload links expiring within this margin are treated as expired (default: 60000). */
+  linkExpiryMarginMs?: number;
+}
+
+export interface ResumableSubmittedBatch extends SubmittedBatch {
+  stateId: string;
+}
+
+/** Invoice for `plan` / `submitJob`, which may mix form codes. */
+export interface BatchJobInvoiceInput extends BatchInvoiceInput {
+  formCode: FormCode;
+  /**
+   * Whether the invoice carries attachments (`Zalacznik`), which KSeF measures against
+   * `maxInvoiceWithAttachmentSizeInMB`. Detected from the XML when omitted.
+   */
+  hasAttachment?: boolean;
+}
+
+export interface BatchPlanOptions {
+  /** Effective limits of the context; fetched from `/limits/context` when omitted. */
+  limits?: EffectiveContextLimits;
+  compression?: CompressionType;
+  partSizeBytes?: number;
+  /** Archive size cap per batch, before compression (default: 256 MiB, as in `prepare`). */
+  maxUncompressedArchiveSizeBytes?: number;
+}
+
+export interface PlannedBatch {
+  formCode: FormCode;
+  /** Attachment invoices are always planned into batches of their own. */
+  hasAttachments: boolean;
+  /** Offline invoices (with `offlineSubmitBy`) are planned apart and sent in offline mode. */
+  offlineMode: boolean;
+  invoices: BatchInvoiceInput[];
+  /** Estimated archive size before compression. */
+  uncompressedArchiveSize: number;
+}
+
+export interface BatchPlanRejection {
+  localId: string;
+  invoiceSize: number;
+  reason: string;
+}
+
+export interface BatchPlan {
+  batches: PlannedBatch[];
+  /** Invoices above the per-invoice size limit, or offline invoices past their deadline. */
+  rejected: BatchPlanRejection[];
+}
+
+export interface BatchJobOptions extends BatchPlanOptions, BatchSubmitOptions {}
+
+export interface BatchJobBatch {
+  formCode: FormCode;
+  hasAttachments: boolean;
+  offlineMode: boolean;
+  localIds: string[];
+  /** Manifest of the prepared batch; empty when preparation failed. */
+  manifest: BatchManifestItem[];
+  /** Set once the batch session was opened and its parts uploaded. */
+  referenceNumber?: string;
+  /** Why the batch could not be prepared or submitted; its invoices were not sent. */
+  error?: Error;
+}
+
+/** Several batch sessions submitted as one logical job. */
+export interface BatchJob {
+  batches: BatchJobBatch[];
+  rejected: BatchPlanRejection[];
+}
+
+export interface BatchJobStatus {
+  batch: BatchJobBatch;
+  status: SessionStatusResponse;
+}
+
+/**
+ * How a KSeF invoice status is handled by `retryFailed`: `retryable` failures (session
+ * errors, decryption errors, system cancellations) are sent again, `permanent` ones
+ * (duplicates, schema or semantic errors, permissions) are not.
+ */
+export type BatchInvoiceStatusKind = 'succeeded' | 'pending' | 'retryable' | 'permanent';
+
+export interface BatchRetryOptions extends BatchJobOptions {
+  /** Form code of invoices that do not carry their own `formCode`. */
+  formCode?: FormCode;
+  /** The session(s) being retried; their reference numbers are linked in the result. */
+  original?: string | BatchJob;
+  /** Status codes treated as retryable (default: 405, 435, 500, 550). */
+  retryableStatusCodes?: number[];
+}
+
+export interface BatchInvoiceOutcome {
+  localId: string;
+  /**
+   * `resubmitted` once the invoice is in a new batch session; `resubmitFailed` when it
+   * was retryable but the new batch could not be prepared or submitted.
+   */
+  status: 'succeeded' | 'pending' | 'permanentFailure' | 'resubmitted' | 'resubmitFailed';
+  /** Status row from the original session; null when KSeF never reported the invoice. */
+  sessionInvoice: SessionInvoiceStatus | null;
+  /** Batch session the invoice was resubmitted in. */
+  retryReferenceNumber?: string;
+  /** Why a retryable invoice could not be resubmitted. */
+  reason?: string;
+}
+
+export interface BatchRetryResult {
+  originalReferenceNumbers: string[];
+  /** Job holding the resubmitted invoices; null when nothing was retryable. */
+  retry: BatchJob | null;
+  /** One consolidated outcome per `localId` of the correlation. */
+  outcomes: BatchInvoiceOutcome[];
+}
+
+export interface BatchVerifyOptions {
+  /**
+   * Extra check of each invoice that matches the manifest, e.g. `validateInvoiceXML`
+   * or a schema validator. A thrown error is reported as an `invalidInvoice` issue.
+   */
+  validateInvoice?: (xml: string, item: BatchManifestItem) => void | Promise<void>;
+}
+
+export type BatchVerificationIssueCode =
+  | 'partHash'
+  | 'partDecryption'
+  | 'archiveHash'
+  | 'archiveFormat'
+  | 'missingEntry'
+  | 'unexpectedEntry'
+  | 'entryMismatch'
+  | 'invalidInvoice';
+
+export interface BatchVerificationIssue {
+  code: BatchVerificationIssueCode;
+  message: string;
+  ordinalNumber?: number;
+  localId?: string;
+  fileName?: string;
+}
+
+export interface BatchVerificationResult {
+  /** True when no issue was found. */
+  valid: boolean;
+  /** Invoice entries read from the archive. */
+  entryCount: number;
+  issues: BatchVerificationIssue[];
+}
+
+export interface BatchWaitForCompletionOptions extends PollingOptions {
   isTerminal?: (status: SessionStatusResponse) => boolean;
 }
 
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import { pipeline, Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+import { streamTarEntries, streamZipEntries } from '../export/archive.js';
+import { decryptPart, sha256Base64 } from './crypto.js';
+import type {
+  BatchVerificationIssue,
+  BatchVerificationResult,
+  BatchVerifyOptions,
+  PreparedBatch,
+  StreamPreparedBatch
+} from './types.js';
+
+/**
+ * Checks a prepared batch without contacting KSeF: every encrypted part against its
+ * declared size and hash, the decrypted archive against `batchFile`, and every archive
+ * entry against the manifest. Parts are read one at a time, so memory use is bounded
+ * by the part size and the largest invoice rather than by the archive size.
+ */
+export async function verifyPreparedBatch(
+  prepared: PreparedBatch | StreamPreparedBatch,
+  readPart: (ordinalNumber: number) => Promise<Buffer>,
+  options: BatchVerifyOptions = {}
+): Promise<BatchVerificationResult> {
+  const issues: BatchVerificationIssue[] = [];
+  const archiveHash = createHash('sha256');
+  let archiveSize = 0;
+  let partsReadable = true;
+  let archiveComplete = false;
+
+  async function* decryptedArchive(): AsyncGenerator<Buffer, void, undefined> {
+    for (const part of prepared.batchFile.fileParts) {
+      const ordinalNumber = part.ordinalNumber;
+      let plain: Buffer;
+      try {
+        const encrypted = await readPart(ordinalNumber);
+        if (encrypted.byteLength !== part.fileSize || sha256Base64(encrypted) !== part.fileHash) {
+          issues.push({ code: 'partHash', ordinalNumber, message: `Part ${ordinalNumber} does not match its declared size and hash` });
+        }
+        plain = decryptPart(encrypted, prepared.encryptionMaterial);
+      } catch (error) {
+        partsReadable = false;
+        issues.push({
+          code: 'partDecryption',
+          ordinalNumber,
+          message: `Part ${ordinalNumber} could not be read and decrypted: ${errorMessage(error)}`
+        });
+        return;
+      }
+      archiveHash.update(plain);
+      archiveSize += plain.byteLength;
+      yield plain;
+    }
+    archiveComplete = true;
+  }
+
+  const source = decryptedArchive();
+  const gunzip = prepared.compressionType === 'TarGz'
+    ? pipeline(Readable.from(source), createGunzip(), () => undefined)
+    : null;
+  const entries = gunzip ? streamTarEntries(gunzip) : streamZipEntries(source);
+  const manifest = new Map(prepared.manifest.map((item) => [item.fileName, item]));
+  const seen = new Set<string>();
+  let entryCount = 0;
+
+  try {
+    for await (const entry of entries) {
+      entryCount++;
+      const item = manifest.get(entry.name);
+      if (!item || seen.has(entry.name)) {
+        issues.push({
+          code: 'unexpectedEntry',
+          fileName: entry.name,
+          message: item ? `Archive contains ${entry.name} more than once` : `Archive entry ${entry.name} is not in the manifest`
+        });
+        continue;
+      }
+      seen.add(entry.name);
+      if (entry.data.byteLength !== item.invoiceSize || sha256Base64(entry.data) !== item.invoiceHash) {
+        issues.push({
+          code: 'entryMismatch',
+          localId: item.localId,
+          fileName: item.fileName,
+          message: `Archive entry ${item.fileName} does not match the manifest size and hash of ${item.localId}`
+        });
+        continue;
+      }
+      if (options.validateInvoice) {
+        try {
+          await options.validateInvoice(entry.data.toString('utf8'), item);
+        } catch (error) {
+          issues.push({
+            code: 'invalidInvoice',
+            localId: item.localId,
+            fileName: item.fileName,
+            message: `Invoice ${item.localId} failed validation: ${errorMessage(error)}`
+          });
+        }
+      }
+    }
+  } catch (error) {
+    gunzip?.destroy();
+    // A part that could not be decrypted truncates the archive; that issue is already reported.
+    if (partsReadable) {
+      issues.push({ code: 'archiveFormat', message: `Archive could not be read: ${errorMessage(error)}` });
+    }
+    return { valid: false, entryCount, issues };
+  }
+
+  if (archiveComplete && (archiveSize !== prepared.batchFile.fileSize || archiveHash.digest('base64') !== prepared.batchFile.fileHash)) {
+    issues.push({ code: 'archiveHash', message: 'Decrypted archive does not match the batch file size and hash' });
+  }
+  for (const item of prepared.manifest) {
+    if (!seen.has(item.fileName)) {
+      issues.push({
+        code: 'missingEntry',
+        localId: item.localId,
+        fileName: item.fileName,
+        message: `Archive has no entry ${item.fileName} for ${item.localId}`
+      });
+    }
+  }
+  return { valid: issues.length === 0, entryCount, issues };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
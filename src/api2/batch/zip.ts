@@ -0,0 +1,176 @@
+import { deflateRawSync, constants as zlibConstants } from 'node:zlib';
+import { crc32 } from '@/utils/crc32.js';
+
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+/** 1980-01-01 00:00, the DOS epoch; a fixed timestamp keeps archive hashes reproducible. */
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+interface ZipCentralEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Minimal ZIP writer: deflated entries (stored when deflate does not help), UTF-8
+ * names, and ZIP64 records whenever a size, offset or the entry count needs them.
+ * Entries are emitted as they are added; the central directory is kept until `finish`.
+ */
+export class ZipWriter {
+  private offset = 0;
+  private readonly entries: ZipCentralEntry[] = [];
+
+  /** Returns the local header and data for `fileName`. */
+  addEntry(fileName: string, content: Buffer): Buffer[] {
+    const name = Buffer.from(fileName, 'utf8');
+    if (name.byteLength > UINT16_MAX) {
+      throw new Error(`Invoice fileName is too long for the built-in zip writer: ${fileName}`);
+    }
+    const deflated = deflateRawSync(content, { level: zlibConstants.Z_BEST_COMPRESSION });
+    const stored = deflated.byteLength >= content.byteLength;
+    const data = stored ? content : deflated;
+    const entry: ZipCentralEntry = {
+      name,
+      method: stored ? METHOD_STORED : METHOD_DEFLATED,
+      crc: crc32(content),
+      compressedSize: data.byteLength,
+      uncompressedSize: content.byteLength,
+      localHeaderOffset: this.offset
+    };
+    this.entries.push(entry);
+
+    const header = localFileHeader(entry);
+    this.offset += header.byteLength + data.byteLength;
+    return [header, data];
+  }
+
+  /** Returns the central directory and end records; the writer cannot be used afterwards. */
+  finish(): Buffer[] {
+    const directory = this.entries.map(centralDirectoryHeader);
+    const directoryOffset = this.offset;
+    const directorySize = directory.reduce((size, header) => size + header.byteLength, 0);
+    const entryCount = this.entries.length;
+    const records = [...directory];
+
+    if (entryCount >= UINT16_MAX || directorySize >= UINT32_MAX || directoryOffset >= UINT32_MAX) {
+      const zip64EndOffset = directoryOffset + directorySize;
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+      zip64End.writeBigUInt64LE(44n, 4);
+      zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+      zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+      zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+      zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+      zip64End.writeBigUInt64LE(BigInt(directorySize), 40);
+      zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, 0);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16);
+      records.push(zip64End, locator);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 8);
+    end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 10);
+    end.writeUInt32LE(Math.min(directorySize, UINT32_MAX), 12);
+    end.writeUInt32LE(Math.min(directoryOffset, UINT32_MAX), 16);
+    records.push(end);
+
+    this.entries.length = 0;
+    return records;
+  }
+}
+
+/**
+ * Upper bound of the ZIP size for entries of the given name and content sizes,
+ * assuming every entry is stored (deflate is only used when it is smaller).
+ */
+export function estimateZipSize(entries: Array<{ fileName: string; invoiceSize: number }>): number {
+  let offset = 0;
+  let directorySize = 0;
+  for (const entry of entries) {
+    const nameLength = Buffer.byteLength(entry.fileName, 'utf8');
+    const largeEntry = entry.invoiceSize >= UINT32_MAX;
+    const centralExtra = (largeEntry ? 16 : 0) + (offset >= UINT32_MAX ? 8 : 0);
+    directorySize += 46 + nameLength + (centralExtra > 0 ? 4 + centralExtra : 0);
+    offset += 30 + nameLength + (largeEntry ? 20 : 0) + entry.invoiceSize;
+  }
+  const zip64 = entries.length >= UINT16_MAX || directorySize >= UINT32_MAX || offset >= UINT32_MAX;
+  return offset + directorySize + (zip64 ? 76 : 0) + 22;
+}
+
+function localFileHeader(entry: ZipCentralEntry): Buffer {
+  const zip64 = entry.compressedSize >= UINT32_MAX || entry.uncompressedSize >= UINT32_MAX;
+  const extra = zip64
+    ? zip64ExtraField([entry.uncompressedSize, entry.compressedSize])
+    : Buffer.alloc(0);
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(ZIP_LOCAL_FILE_HEADER, 0);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(FLAG_UTF8, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(DOS_TIME, 10);
+  header.writeUInt16LE(DOS_DATE, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(zip64 ? UINT32_MAX : entry.compressedSize, 18);
+  header.writeUInt32LE(zip64 ? UINT32_MAX : entry.uncompressedSize, 22);
+  header.writeUInt16LE(entry.name.byteLength, 26);
+  header.writeUInt16LE(extra.byteLength, 28);
+  return Buffer.concat([header, entry.name, extra]);
+}
+
+function centralDirectoryHeader(entry: ZipCentralEntry): Buffer {
+  // ZIP64 extra values appear in this fixed order, each only when its 32-bit field overflows.
+  const large: number[] = [];
+  for (const value of [entry.uncompressedSize, entry.compressedSize, entry.localHeaderOffset]) {
+    if (value >= UINT32_MAX) {
+      large.push(value);
+    }
+  }
+  const extra = large.length > 0 ? zip64ExtraField(large) : Buffer.alloc(0);
+  const version = large.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(ZIP_CENTRAL_DIRECTORY_HEADER, 0);
+  header.writeUInt16LE(version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(FLAG_UTF8, 8);
+  header.writeUInt16LE(entry.method, 10);
+  header.writeUInt16LE(DOS_TIME, 12);
+  header.writeUInt16LE(DOS_DATE, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(Math.min(entry.compressedSize, UINT32_MAX), 20);
+  header.writeUInt32LE(Math.min(entry.uncompressedSize, UINT32_MAX), 24);
+  header.writeUInt16LE(entry.name.byteLength, 28);
+  header.writeUInt16LE(extra.byteLength, 30);
+  header.writeUInt32LE(Math.min(entry.localHeaderOffset, UINT32_MAX), 42);
+  return Buffer.concat([header, entry.name, extra]);
+}
+
+function zip64ExtraField(values: number[]): Buffer {
+  const field = Buffer.alloc(4 + values.length * 8);
+  field.writeUInt16LE(ZIP64_EXTRA_FIELD, 0);
+  field.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => field.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+  return field;
+}
@@ -7,6 +7,7 @@ import { AuthenticationV2Service } from './services/authentication.js';
 import {
   SessionV2Service,
   BatchSessionUploader,
+  type BatchUploadOptions,
   type OpenOnlineSessionOptions,
   type OpenBatchSessionOptions
 } from './services/sessions.js';
@@ -38,11 +39,24 @@ import type { FormCode as BatchFormCode, PartUploadRequest } from './types/commo
 import type { CompressionType } from './types/common.js';
 import type { BatchFileBuildResult } from './batch.js';
 import { BatchFileBuilder, KsefBatchService } from './batch.js';
+import {
+  runAuthenticationWorkflow,
+  type AuthenticateOptions,
+  type AuthenticateResult
+} from './workflows/authentication.js';
+import { OnlineSession } from './workflows/online-session.js';
+
+export interface OpenSessionOptions extends OpenOnlineSessionOptions {
+  /** Defaults to the access token stored in the client's AuthManager. */
+  accessToken?: string;
+}
 
 export interface KsefApiV2ClientOptions {
   environment: ApiV2Environment;
   httpClient?: HttpClient;
   authManager?: AuthManager;
+  /** Retry, timeout and host allow-list settings for batch part uploads. */
+  batchUpload?: BatchUploadOptions;
 }
 
 export class KsefApiV2Client {
@@ -70,7 +84,7 @@ export class KsefApiV2Client {
     this.rateLimits = new RateLimitsService(this.httpClient, options.environment);
     this.peppol = new PeppolService(this.httpClient, options.environment);
     this.certificates = new CertificateService(this.httpClient, options.environment);
-    this.batchUploader = new BatchSessionUploader();
+    this.batchUploader = new BatchSessionUploader(options.batchUpload);
     this.batch = new KsefBatchService(this.sessions, this.batchUploader, this.httpClient, options.environment);
 
     this.authManager = options.authManager ?? new DefaultAuthManager(async () => {
@@ -142,6 +156,19 @@ export class KsefApiV2Client {
     return refreshed;
   }
 
+  /**
+   * Runs challenge -> init -> status polling -> redeem and stores the redeemed
+   * access/refresh tokens in the client's AuthManager.
+   */
+  async authenticate(options: AuthenticateOptions): Promise<AuthenticateResult> {
+    const result = await runAuthenticationWorkflow(this.authentication, options);
+    this.setAuthenticationTokens({
+      accessToken: result.tokens.accessToken.token,
+      refreshToken: result.tokens.refreshToken.token
+    });
+    return result;
+  }
+
   async authenticateWithToken(
     credentials: TokenCredentials,
     contextIdentifier: ContextIdentifier
@@ -171,6 +198,21 @@ export class KsefApiV2Client {
     return await this.sessions.openOnlineSession(accessToken, formCode, options);
   }
 
+  /**
+   * Opens an online session and returns an `OnlineSession` handle that encrypts,
+   * sends, closes and collects UPO for the session.
+   */
+  async openSession(formCode: FormCode, options: OpenSessionOptions = {}): Promise<OnlineSession> {
+    const { accessToken, ...sessionOptions } = options;
+    return await OnlineSession.open(
+      this.sessions,
+      this.invoices,
+      () => accessToken ?? this.authManager.getAccessToken(),
+      formCode,
+      sessionOptions
+    );
+  }
+
   async createBatchSession(
     accessToken: string,
     formCode: BatchFormCode,
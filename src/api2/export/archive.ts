@@ -0,0 +1,444 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { gunzipSync, inflateRawSync } from 'node:zlib';
+import { crc32 } from '@/utils/crc32.js';
+import type { CompressionType } from '../types/common.js';
+import type { ExportArchiveEntry, ReadArchiveOptions } from './types.js';
+
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const ZIP_FLAG_ENCRYPTED = 0x0001;
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008;
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+/** Default cap on the unpacked size of an export package (zip-bomb protection). */
+export const DEFAULT_MAX_EXTRACTED_SIZE_BYTES = 2 * 1024 ** 3;
+
+/** Reads every regular file from an export package (`Zip` or `TarGz`). */
+export function readArchiveEntries(
+  archive: Buffer,
+  compressionType: CompressionType,
+  options: ReadArchiveOptions = {}
+): ExportArchiveEntry[] {
+  return compressionType === 'TarGz' ? readTarGzEntries(archive, options) : readZipEntries(archive, options);
+}
+
+/**
+ * Normalises an archive entry name and rejects anything that could escape the
+ * extraction directory (absolute paths, drive letters, `..` segments).
+ */
+export function safeArchivePath(name: string): string {
+  const normalized = name.replace(/\\/g, '/');
+  const segments = normalized.split('/').filter((segment) => segment !== '' && segment !== '.');
+  if (
+    normalized.startsWith('/')
+    || /^[a-zA-Z]:/.test(normalized)
+    || normalized.includes('\0')
+    || segments.includes('..')
+    || segments.length === 0
+  ) {
+    throw new Error(`Unsafe path in export archive: ${name}`);
+  }
+  return segments.join('/');
+}
+
+/** Writes entries below `directory`, refusing paths that resolve outside it. */
+export async function extractArchiveEntries(entries: ExportArchiveEntry[], directory: string): Promise<string[]> {
+  const root = resolve(directory);
+  const written: string[] = [];
+  for (const entry of entries) {
+    const target = resolve(root, safeArchivePath(entry.name));
+    if (!target.startsWith(root + sep)) {
+      throw new Error(`Unsafe path in export archive: ${entry.name}`);
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, entry.data);
+    written.push(target);
+  }
+  return written;
+}
+
+export function readZipEntries(archive: Buffer, options: ReadArchiveOptions = {}): ExportArchiveEntry[] {
+  const maxSize = maxExtractedSize(options);
+  const directory = findCentralDirectory(archive);
+  const entries: ExportArchiveEntry[] = [];
+  let offset = directory.offset;
+  let totalSize = 0;
+
+  for (let index = 0; index < directory.entryCount; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const expectedCrc = archive.readUInt32LE(offset + 16);
+    let compressedSize = archive.readUInt32LE(offset + 20);
+    let uncompressedSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    let localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const zip64 = readZip64Extra(
+      archive.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength),
+      { uncompressedSize, compressedSize, localHeaderOffset }
+    );
+    uncompressedSize = zip64.uncompressedSize;
+    compressedSize = zip64.compressedSize;
+    localHeaderOffset = zip64.localHeaderOffset;
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & ZIP_FLAG_ENCRYPTED) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+    }
+    if (archive.readUInt32LE(localHeaderOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP archive: missing local header for ${name}`);
+    }
+    const dataStart = localHeaderOffset + 30
+      + archive.readUInt16LE(localHeaderOffset + 26)
+      + archive.readUInt16LE(localHeaderOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    totalSize += uncompressedSize;
+    if (totalSize > maxSize) {
+      throw extractedSizeError(maxSize);
+    }
+
+    const data = decodeZipEntry(name, method, compressed, uncompressedSize, expectedCrc);
+    entries.push({ name: safeArchivePath(name), data });
+  }
+
+  return entries;
+}
+
+export function readTarGzEntries(archive: Buffer, options: ReadArchiveOptions = {}): ExportArchiveEntry[] {
+  const maxSize = maxExtractedSize(options);
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: maxSize });
+  } catch (error) {
+    throw (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' ? extractedSizeError(maxSize) : error;
+  }
+  const entries: ExportArchiveEntry[] = [];
+  const headers = new TarHeaderState();
+  let offset = 0;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = headers.dataSize(header);
+    const dataStart = offset + 512;
+    const data = tar.subarray(dataStart, dataStart + size);
+    if (data.length !== size) {
+      throw new Error('Invalid tar archive: truncated entry');
+    }
+    offset = dataStart + size + tarPadding(size);
+
+    const name = headers.entryName(header, data);
+    if (name !== null) {
+      entries.push({ name: safeArchivePath(name), data: Buffer.from(data) });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Streaming counterpart of `readTarGzEntries` for an already gunzipped tar stream.
+ * Names are returned as stored, without `safeArchivePath`.
+ */
+export async function* streamTarEntries(source: AsyncIterable<Buffer>): AsyncGenerator<ExportArchiveEntry, void, undefined> {
+  const reader = new ChunkReader(source);
+  const headers = new TarHeaderState();
+
+  for (;;) {
+    const header = await reader.read(512);
+    if (header.byteLength < 512) {
+      throw new Error('Invalid tar archive: missing end-of-archive marker');
+    }
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = headers.dataSize(header);
+    const padding = tarPadding(size);
+    const data = await reader.read(size);
+    if (data.byteLength < size || (await reader.read(padding)).byteLength < padding) {
+      throw new Error('Invalid tar archive: truncated entry');
+    }
+
+    const name = headers.entryName(header, data);
+    if (name !== null) {
+      yield { name, data };
+    }
+  }
+
+  await reader.drain();
+}
+
+/**
+ * Streaming counterpart of `readZipEntries` that reads entries from their local
+ * headers, so it cannot handle data descriptors (the writer in `batch/zip.ts` never
+ * uses them). Names are returned as stored, without `safeArchivePath`.
+ */
+export async function* streamZipEntries(source: AsyncIterable<Buffer>): AsyncGenerator<ExportArchiveEntry, void, undefined> {
+  const reader = new ChunkReader(source);
+
+  for (;;) {
+    const header = await reader.read(30);
+    if (header.byteLength < 4) {
+      throw new Error('Invalid ZIP archive: missing central directory');
+    }
+    if (header.readUInt32LE(0) !== ZIP_LOCAL_FILE_HEADER) {
+      break;
+    }
+    if (header.byteLength < 30) {
+      throw new Error('Invalid ZIP archive: truncated local header');
+    }
+    const flags = header.readUInt16LE(6);
+    const method = header.readUInt16LE(8);
+    const expectedCrc = header.readUInt32LE(14);
+    const nameLength = header.readUInt16LE(26);
+    const extraLength = header.readUInt16LE(28);
+    const name = (await reader.read(nameLength)).toString('utf8');
+    if (flags & (ZIP_FLAG_ENCRYPTED | ZIP_FLAG_DATA_DESCRIPTOR)) {
+      throw new Error(`Unsupported ZIP entry flags for ${name}`);
+    }
+    const { compressedSize, uncompressedSize } = readZip64Extra(await reader.read(extraLength), {
+      compressedSize: header.readUInt32LE(18),
+      uncompressedSize: header.readUInt32LE(22),
+      localHeaderOffset: 0
+    });
+    const compressed = await reader.read(compressedSize);
+    if (compressed.byteLength < compressedSize) {
+      throw new Error(`Invalid ZIP archive: truncated entry ${name}`);
+    }
+
+    yield { name, data: decodeZipEntry(name, method, compressed, uncompressedSize, expectedCrc) };
+  }
+
+  await reader.drain();
+}
+
+/** Follows PAX (`x`) and GNU long-name (`L`) records across the headers of a tar archive. */
+class TarHeaderState {
+  // No prototype, so a `__proto__` key is stored like any other.
+  private pending: Record<string, string> = Object.create(null);
+
+  /** Size of the data following `header`, taking a pending PAX `size` into account. */
+  dataSize(header: Buffer): number {
+    if (this.pending.size === undefined) {
+      return parseTarOctal(header.subarray(124, 136));
+    }
+    const size = Number(this.pending.size);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new Error('Invalid tar archive: bad PAX size record');
+    }
+    return size;
+  }
+
+  /** Name of a regular file entry, or `null` for metadata records, directories and links. */
+  entryName(header: Buffer, data: Buffer): string | null {
+    const type = String.fromCharCode(header[156] ?? 0);
+    if (type === 'x') {
+      Object.assign(this.pending, parsePaxRecords(data));
+      return null;
+    }
+    if (type === 'L') {
+      this.pending.path = data.toString('utf8').replace(/\0+$/, '');
+      return null;
+    }
+    const name = this.pending.path ?? readUstarName(header);
+    this.pending = Object.create(null);
+    return type === '0' || type === '\0' ? name : null;
+  }
+}
+
+function tarPadding(size: number): number {
+  return (512 - (size % 512)) % 512;
+}
+
+/** Inflates (or copies) one ZIP entry and checks it against its declared size and CRC. */
+function decodeZipEntry(name: string, method: number, compressed: Buffer, uncompressedSize: number, expectedCrc: number): Buffer {
+  let data: Buffer;
+  if (method === 0) {
+    data = Buffer.from(compressed);
+  } else if (method === 8) {
+    // Inflating past the declared size means the header lies; stop there.
+    data = inflateWithLimit(() => inflateRawSync(compressed, { maxOutputLength: Math.max(uncompressedSize, 1) }), name);
+  } else {
+    throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+  }
+  if (data.length !== uncompressedSize || crc32(data) !== expectedCrc) {
+    throw new Error(`ZIP entry ${name} failed size/CRC verification`);
+  }
+  return data;
+}
+
+/** Pulls exact byte counts out of a chunked stream. */
+class ChunkReader {
+  private readonly iterator: AsyncIterator<Buffer>;
+  private buffered: Buffer = Buffer.alloc(0);
+  private done = false;
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /** Returns `size` bytes, or fewer once the stream has ended. */
+  async read(size: number): Promise<Buffer> {
+    const chunks = [this.buffered];
+    let length = this.buffered.byteLength;
+    while (length < size && !this.done) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+      } else {
+        chunks.push(next.value);
+        length += next.value.byteLength;
+      }
+    }
+    const available = chunks.length === 1 ? this.buffered : Buffer.concat(chunks, length);
+    this.buffered = available.subarray(Math.min(size, length));
+    return available.subarray(0, Math.min(size, length));
+  }
+
+  /** Consumes the rest of the stream, e.g. the ZIP central directory, so the caller sees every byte. */
+  async drain(): Promise<void> {
+    while (!this.done) {
+      this.done = (await this.iterator.next()).done === true;
+    }
+    this.buffered = Buffer.alloc(0);
+  }
+}
+
+function maxExtractedSize(options: ReadArchiveOptions): number {
+  const maxSize = options.maxUncompressedSizeBytes ?? DEFAULT_MAX_EXTRACTED_SIZE_BYTES;
+  if (!Number.isSafeInteger(maxSize) || maxSize <= 0) {
+    throw new Error('maxUncompressedSizeBytes must be a positive integer');
+  }
+  return maxSize;
+}
+
+function extractedSizeError(maxSize: number): Error {
+  return new Error(`Export archive unpacks to more than ${maxSize} bytes`);
+}
+
+function inflateWithLimit(inflate: () => Buffer, name: string): Buffer {
+  try {
+    return inflate();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`ZIP entry ${name} failed size/CRC verification`);
+    }
+    throw error;
+  }
+}
+
+function findCentralDirectory(archive: Buffer): { offset: number; entryCount: number } {
+  const searchStart = Math.max(0, archive.length - (22 + UINT16_MAX));
+  for (let offset = archive.length - 22; offset >= searchStart; offset--) {
+    if (archive.readUInt32LE(offset) !== ZIP_END_OF_CENTRAL_DIRECTORY) {
+      continue;
+    }
+    const entryCount = archive.readUInt16LE(offset + 10);
+    const directoryOffset = archive.readUInt32LE(offset + 16);
+    if (entryCount !== UINT16_MAX && directoryOffset !== UINT32_MAX) {
+      return { offset: directoryOffset, entryCount };
+    }
+
+    const locatorOffset = offset - 20;
+    if (locatorOffset < 0 || archive.readUInt32LE(locatorOffset) !== ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+      throw new Error('Invalid ZIP archive: missing ZIP64 end of central directory locator');
+    }
+    const zip64Offset = Number(archive.readBigUInt64LE(locatorOffset + 8));
+    if (archive.readUInt32LE(zip64Offset) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('Invalid ZIP archive: corrupt ZIP64 end of central directory');
+    }
+    return {
+      entryCount: Number(archive.readBigUInt64LE(zip64Offset + 32)),
+      offset: Number(archive.readBigUInt64LE(zip64Offset + 48))
+    };
+  }
+  throw new Error('Invalid ZIP archive: end of central directory not found');
+}
+
+export function readZip64Extra(
+  extra: Buffer,
+  values: { uncompressedSize: number; compressedSize: number; localHeaderOffset: number }
+): { uncompressedSize: number; compressedSize: number; localHeaderOffset: number } {
+  const result = { ...values };
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const size = extra.readUInt16LE(offset + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let cursor = offset + 4;
+      if (values.uncompressedSize === UINT32_MAX) {
+        result.uncompressedSize = Number(extra.readBigUInt64LE(cursor));
+        cursor += 8;
+      }
+      if (values.compressedSize === UINT32_MAX) {
+        result.compressedSize = Number(extra.readBigUInt64LE(cursor));
+        cursor += 8;
+      }
+      if (values.localHeaderOffset === UINT32_MAX) {
+        result.localHeaderOffset = Number(extra.readBigUInt64LE(cursor));
+      }
+      break;
+    }
+    offset += 4 + size;
+  }
+  return result;
+}
+
+export function readUstarName(header: Buffer): string {
+  const name = readTarString(header.subarray(0, 100));
+  const isUstar = header.toString('ascii', 257, 262) === 'ustar';
+  const prefix = isUstar ? readTarString(header.subarray(345, 500)) : '';
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+function readTarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+export function parseTarOctal(field: Buffer): number {
+  const value = readTarString(field).trim();
+  const parsed = value === '' ? 0 : parseInt(value, 8);
+  if (Number.isNaN(parsed)) {
+    throw new Error('Invalid tar archive: bad size field');
+  }
+  return parsed;
+}
+
+/** Key/value records of a PAX extended header (`"<length> <key>=<value>\n"`). */
+export function parsePaxRecords(data: Buffer): Record<string, string> {
+  // No prototype, so a `__proto__` key is stored like any other.
+  const records: Record<string, string> = Object.create(null);
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) {
+      break;
+    }
+    const length = parseInt(data.toString('ascii', offset, space), 10);
+    if (!Number.isFinite(length) || length <= 0) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    records[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+  return records;
+}
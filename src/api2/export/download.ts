@@ -0,0 +1,87 @@
+import { runWithConcurrency } from '@/utils/concurrency.js';
+import type { InvoicePackagePart } from '../types/invoice.js';
+import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
+import { sha256Base64 } from '../crypto/encryption.js';
+import { decryptPart } from '../batch/crypto.js';
+import { DEFAULT_PRESIGNED_DOWNLOAD_TIMEOUT_MS, downloadWithRetry, fetchPresigned } from '../presigned-download.js';
+import type { ExportPartDownloadOptions } from './types.js';
+
+export interface DownloadExportPartsOptions extends ExportPartDownloadOptions {
+  /**
+   * Re-reads the package parts (links are regenerated on every status request).
+   * Called when a link has expired or was rejected with 401/403.
+   */
+  refreshParts?: () => Promise<InvoicePackagePart[]>;
+}
+
+/**
+ * Downloads every package part from its pre-signed URL, verifies the encrypted
+ * and decrypted SHA-256 hashes, decrypts each part with the export key and
+ * returns the reassembled archive.
+ */
+export async function downloadExportParts(
+  parts: InvoicePackagePart[],
+  encryptionMaterial: SymmetricKeyMaterial,
+  options: DownloadExportPartsOptions = {}
+): Promise<Buffer> {
+  const concurrency = options.downloadConcurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new Error('downloadConcurrency must be a positive integer');
+  }
+  const ordered = [...parts].sort((a, b) => a.ordinalNumber - b.ordinalNumber);
+  const decrypted = new Map<number, Buffer>();
+
+  await runWithConcurrency(ordered, concurrency, async (part) => {
+    decrypted.set(part.ordinalNumber, await downloadPartWithRetry(part, encryptionMaterial, options));
+  });
+
+  return Buffer.concat(ordered.map((part) => decrypted.get(part.ordinalNumber)!));
+}
+
+async function downloadPartWithRetry(
+  part: InvoicePackagePart,
+  encryptionMaterial: SymmetricKeyMaterial,
+  options: DownloadExportPartsOptions
+): Promise<Buffer> {
+  const timeoutMs = options.partTimeoutMs ?? DEFAULT_PRESIGNED_DOWNLOAD_TIMEOUT_MS;
+  const refreshParts = options.refreshParts;
+  return await downloadWithRetry(part, (current) => downloadPart(current, encryptionMaterial, timeoutMs), {
+    downloadAttempts: options.downloadAttempts,
+    retryDelayMs: options.retryDelayMs,
+    description: `export part #${part.ordinalNumber}`,
+    expiresAt: (current) => current.expirationDate,
+    refresh: refreshParts && ((current) => refreshPart(current, refreshParts))
+  });
+}
+
+async function downloadPart(
+  part: InvoicePackagePart,
+  encryptionMaterial: SymmetricKeyMaterial,
+  timeoutMs: number
+): Promise<Buffer> {
+  const { body: encrypted, headers } = await fetchPresigned(part.url, part.method || 'GET', timeoutMs);
+  const headerHash = headers.get('x-ms-meta-hash');
+  if (headerHash && headerHash !== part.encryptedPartHash) {
+    throw new Error('x-ms-meta-hash header does not match encryptedPartHash');
+  }
+  if (sha256Base64(encrypted) !== part.encryptedPartHash) {
+    throw new Error('encrypted part hash mismatch');
+  }
+
+  const decrypted = decryptPart(encrypted, encryptionMaterial);
+  if (sha256Base64(decrypted) !== part.partHash) {
+    throw new Error('decrypted part hash mismatch');
+  }
+  return decrypted;
+}
+
+async function refreshPart(
+  part: InvoicePackagePart,
+  refreshParts: () => Promise<InvoicePackagePart[]>
+): Promise<InvoicePackagePart> {
+  const refreshed = (await refreshParts()).find((candidate) => candidate.ordinalNumber === part.ordinalNumber);
+  if (!refreshed) {
+    throw new Error(`Export package no longer lists part #${part.ordinalNumber}`);
+  }
+  return refreshed;
+}
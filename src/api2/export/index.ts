@@ -0,0 +1,8 @@
+/**
+ * Invoice export download: part download/decryption and package unpacking.
+ */
+
+export * from './types.js';
+export * from './archive.js';
+export * from './download.js';
+export * from './pipeline.js';
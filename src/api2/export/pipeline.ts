@@ -0,0 +1,200 @@
+import { join, posix } from 'node:path';
+import { ProcessError } from '@/types/common.js';
+import type { ApiV2ResponseStatus } from '../types/common.js';
+import type {
+  InvoiceExportRequest,
+  InvoiceExportStatusResponse,
+  InvoiceMetadata,
+  InvoiceQueryFilters
+} from '../types/invoice.js';
+import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
+import type { InvoiceV2Service } from '../services/invoice.js';
+import { pollUntil, type PollingOptions } from '../workflows/polling.js';
+import { continueDateRange, packageLastDateFor } from '../truncation.js';
+import { extractArchiveEntries, readArchiveEntries } from './archive.js';
+import { downloadExportParts } from './download.js';
+import type {
+  ExportArchiveEntry,
+  ExportedInvoice,
+  InvoiceExportDownloadOptions,
+  InvoiceExportDownloadResult,
+  InvoiceExportPackageResult
+} from './types.js';
+
+const METADATA_FILE_NAME = '_metadata.json';
+
+/**
+ * Raised when `/invoices/exports/{referenceNumber}` reports a terminal status other
+ * than 200 (e.g. 210 expired, 415 key decryption error, 420 range beyond HWM, 550 cancelled).
+ */
+export class InvoiceExportFailedError extends ProcessError {
+  readonly status: ApiV2ResponseStatus;
+
+  constructor(referenceNumber: string, status: ApiV2ResponseStatus) {
+    const details = status.details?.length ? `: ${status.details.join(', ')}` : '';
+    super(
+      `Invoice export ${referenceNumber} failed with status ${status.code} (${status.description})${details}`,
+      { referenceNumber, processingCode: status.code }
+    );
+    this.name = 'InvoiceExportFailedError';
+    this.status = status;
+  }
+}
+
+/** Polls the export status until it leaves 100 and throws unless it finished with 200. */
+export async function waitForInvoiceExport(
+  invoices: InvoiceV2Service,
+  accessToken: string,
+  referenceNumber: string,
+  options: PollingOptions = {}
+): Promise<InvoiceExportStatusResponse> {
+  const status = await pollUntil(() => invoices.getInvoiceExportStatus(accessToken, referenceNumber), {
+    ...options,
+    isTerminal: (current) => current.status.code >= 200,
+    description: `Invoice export ${referenceNumber}`,
+    defaultInitialDelayMs: 2_000
+  });
+  if (status.status.code !== 200) {
+    throw new InvoiceExportFailedError(referenceNumber, status.status);
+  }
+  return status;
+}
+
+/**
+ * Runs a complete export: `POST /invoices/exports` -> poll status -> download and
+ * decrypt parts -> unpack. Parts are encrypted separately with the export key.
+ * With `autoContinue`, a truncated package is followed by exports starting from its
+ * last invoice date until the requested range is covered.
+ */
+export async function* runInvoiceExport(
+  invoices: InvoiceV2Service,
+  accessToken: string,
+  filters: InvoiceQueryFilters,
+  createMaterial: () => Promise<SymmetricKeyMaterial>,
+  options: InvoiceExportDownloadOptions = {}
+): AsyncGenerator<ExportedInvoice, InvoiceExportDownloadResult, undefined> {
+  const previousExports: InvoiceExportPackageResult[] = [];
+  let previousKsefNumbers = new Set<string>();
+  let duplicatesSkipped = 0;
+  let currentFilters = filters;
+
+  for (;;) {
+    const { result, entries } = await exportPackage(
+      invoices,
+      accessToken,
+      currentFilters,
+      await createMaterial(),
+      options
+    );
+    const ksefNumbers = new Set<string>();
+    for (const invoice of toExportedInvoices(entries)) {
+      ksefNumbers.add(invoice.ksefNumber);
+      if (previousKsefNumbers.has(invoice.ksefNumber)) {
+        duplicatesSkipped++;
+        continue;
+      }
+      yield invoice;
+    }
+
+    const invoicePackage = result.package;
+    if (!options.autoContinue || !invoicePackage.isTruncated) {
+      return { ...result, previousExports, duplicatesSkipped };
+    }
+    const dateType = currentFilters.dateRange.dateType;
+    const lastDate = packageLastDateFor(invoicePackage, dateType);
+    if (lastDate === null) {
+      throw new Error(
+        `Invoice export ${result.referenceNumber} was truncated without reporting the last ${dateType} date`
+      );
+    }
+    currentFilters = { ...currentFilters, dateRange: continueDateRange(currentFilters.dateRange, lastDate) };
+    previousExports.push(result);
+    previousKsefNumbers = ksefNumbers;
+  }
+}
+
+async function exportPackage(
+  invoices: InvoiceV2Service,
+  accessToken: string,
+  filters: InvoiceQueryFilters,
+  encryptionMaterial: SymmetricKeyMaterial,
+  options: InvoiceExportDownloadOptions
+): Promise<{ result: InvoiceExportPackageResult; entries: ExportArchiveEntry[] }> {
+  const compressionType = options.compressionType ?? 'Zip';
+  const request: InvoiceExportRequest = {
+    encryption: {
+      encryptedSymmetricKey: encryptionMaterial.encryptedSymmetricKey,
+      initializationVector: encryptionMaterial.initializationVectorBase64
+    },
+    filters,
+    compressionType
+  };
+  if (options.onlyMetadata !== undefined) {
+    request.onlyMetadata = options.onlyMetadata;
+  }
+
+  const { referenceNumber } = await invoices.exportInvoices(accessToken, request);
+  const status = await waitForInvoiceExport(invoices, accessToken, referenceNumber, options);
+  const invoicePackage = status.package;
+  if (!invoicePackage) {
+    throw new Error(`Invoice export ${referenceNumber} completed without a package`);
+  }
+
+  let entries: ExportArchiveEntry[] = [];
+  if (invoicePackage.parts.length > 0) {
+    const archive = await downloadExportParts(invoicePackage.parts, encryptionMaterial, {
+      ...options,
+      refreshParts: async () => {
+        const refreshed = await invoices.getInvoiceExportStatus(accessToken, referenceNumber);
+        return refreshed.package?.parts ?? [];
+      }
+    });
+    entries = readArchiveEntries(archive, compressionType, {
+      ...(options.maxUncompressedSizeBytes !== undefined ? { maxUncompressedSizeBytes: options.maxUncompressedSizeBytes } : {})
+    });
+  }
+
+  let extractedFiles: string[] = [];
+  if (options.extractTo) {
+    // Follow-up packages repeat file names at the boundary; keep each export apart.
+    const directory = options.autoContinue ? join(options.extractTo, referenceNumber) : options.extractTo;
+    extractedFiles = await extractArchiveEntries(entries, directory);
+  }
+
+  return { result: { referenceNumber, status, package: invoicePackage, extractedFiles }, entries };
+}
+
+function* toExportedInvoices(entries: ExportArchiveEntry[]): Generator<ExportedInvoice, void, undefined> {
+  const metadataEntry = entries.find((entry) => entry.name === METADATA_FILE_NAME);
+  const metadata = metadataEntry ? parseMetadataFile(metadataEntry.data) : [];
+  const metadataByKsefNumber = new Map(metadata.map((item) => [item.ksefNumber, item]));
+  const yielded = new Set<string>();
+
+  for (const entry of entries) {
+    if (!entry.name.toLowerCase().endsWith('.xml')) {
+      continue;
+    }
+    const ksefNumber = posix.basename(entry.name).slice(0, -'.xml'.length);
+    yielded.add(ksefNumber);
+    yield {
+      ksefNumber,
+      fileName: entry.name,
+      xml: entry.data.toString('utf8'),
+      metadata: metadataByKsefNumber.get(ksefNumber) ?? null
+    };
+  }
+
+  for (const item of metadata) {
+    if (!yielded.has(item.ksefNumber)) {
+      yield { ksefNumber: item.ksefNumber, fileName: null, xml: null, metadata: item };
+    }
+  }
+}
+
+function parseMetadataFile(data: Buffer): InvoiceMetadata[] {
+  const parsed = JSON.parse(data.toString('utf8')) as { invoices?: unknown };
+  if (!Array.isArray(parsed.invoices)) {
+    throw new Error(`${METADATA_FILE_NAME} does not contain an invoices array`);
+  }
+  return parsed.invoices as InvoiceMetadata[];
+}
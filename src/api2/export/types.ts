@@ -0,0 +1,85 @@
+import type { CompressionType } from '../types/common.js';
+import type {
+  InvoiceExportStatusResponse,
+  InvoiceMetadata,
+  InvoicePackage
+} from '../types/invoice.js';
+import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
+import type { PollingOptions } from '../workflows/polling.js';
+
+/** Regular file read from a decrypted export package. */
+export interface ExportArchiveEntry {
+  /** Entry path, already normalised by `safeArchivePath`. */
+  name: string;
+  data: Buffer;
+}
+
+export interface ExportPartDownloadOptions {
+  /** Parts downloaded in parallel (default: 4). */
+  downloadConcurrency?: number;
+  /** Attempts per part, including the first one (default: 3). */
+  downloadAttempts?: number;
+  /** Delay before the first retry, doubled for each further attempt (default: 1000). */
+  retryDelayMs?: number;
+  /** Time limit for downloading one part, per attempt (default: 300000). */
+  partTimeoutMs?: number;
+}
+
+export interface ReadArchiveOptions {
+  /**
+   * Largest total size of the unpacked entries; larger archives are rejected before
+   * they are fully inflated (default: `DEFAULT_MAX_EXTRACTED_SIZE_BYTES`, 2 GiB).
+   */
+  maxUncompressedSizeBytes?: number;
+}
+
+export interface InvoiceExportDownloadOptions extends PollingOptions, ExportPartDownloadOptions, ReadArchiveOptions {
+  /** Package format requested from KSeF (default: `Zip`). */
+  compressionType?: CompressionType;
+  /** Export only `_metadata.json`, without invoice XML files. */
+  onlyMetadata?: boolean;
+  /** Reuse a pre-generated AES key instead of creating a new one. */
+  encryptionMaterial?: SymmetricKeyMaterial;
+  /**
+   * Also write every archive entry below this directory. With `autoContinue`, each
+   * package is written to its own `{extractTo}/{referenceNumber}` subdirectory.
+   */
+  extractTo?: string;
+  /**
+   * When KSeF truncates the package, start follow-up exports from its last invoice
+   * date (field chosen by `dateRange.dateType`) until the whole range is covered.
+   * Invoices repeated at the boundary are yielded once.
+   */
+  autoContinue?: boolean;
+}
+
+/** Invoice yielded by `exportAndDownload`. */
+export interface ExportedInvoice {
+  ksefNumber: string;
+  /** Archive entry name (`{ksefNumber}.xml`); `null` for metadata-only exports. */
+  fileName: string | null;
+  /** Invoice XML; `null` for metadata-only exports. */
+  xml: string | null;
+  /** Matching entry from `_metadata.json`, when present. */
+  metadata: InvoiceMetadata | null;
+}
+
+/** Single export package downloaded by `exportAndDownload`. */
+export interface InvoiceExportPackageResult {
+  referenceNumber: string;
+  status: InvoiceExportStatusResponse;
+  package: InvoicePackage;
+  /** Files written when `extractTo` was set. */
+  extractedFiles: string[];
+}
+
+/**
+ * Value returned by the `exportAndDownload` generator once every invoice was yielded;
+ * describes the last package.
+ */
+export interface InvoiceExportDownloadResult extends InvoiceExportPackageResult {
+  /** Earlier truncated packages, in order (only with `autoContinue`). */
+  previousExports: InvoiceExportPackageResult[];
+  /** Invoices present in two consecutive packages and yielded only once. */
+  duplicatesSkipped: number;
+}
@@ -12,18 +12,56 @@ export * from './client.js';
 export * from './auth-manager.js';
 export {
   BatchFileBuilder,
+  BatchOfflineDeadlineError,
+  BatchUploadLinkExpiredError,
+  classifyInvoiceStatus,
+  DEFAULT_RETRYABLE_STATUS_CODES,
+  FileBatchPartStore,
+  InMemoryBatchPartStore,
+  InMemoryBatchSubmissionStateStore,
+  JsonFileBatchSubmissionStateStore,
   KsefBatchService
 } from './batch.js';
 export type {
   BatchCorrelatedResult,
+  BatchInvoiceFileInput,
   BatchInvoiceInput,
+  BatchInvoiceOutcome,
+  BatchInvoiceSource,
+  BatchInvoiceStatusKind,
+  BatchJob,
+  BatchJobBatch,
+  BatchJobInvoiceInput,
+  BatchJobOptions,
+  BatchJobStatus,
   BatchListOptions,
   BatchManifestItem,
+  BatchPartStore,
+  BatchPartUploadState,
+  BatchPartUploadStatus,
+  BatchPlan,
+  BatchPlanOptions,
+  BatchPlanRejection,
   BatchPrepareOptions,
   BatchResultCorrelation,
+  BatchResumableSubmitOptions,
+  BatchResumeOptions,
+  BatchRetryOptions,
+  BatchRetryResult,
+  BatchStreamPrepareOptions,
+  BatchSubmissionState,
+  BatchSubmissionStateStore,
   BatchSubmitOptions,
+  BatchUploadControlOptions,
+  BatchVerificationIssue,
+  BatchVerificationIssueCode,
+  BatchVerificationResult,
+  BatchVerifyOptions,
   BatchWaitForCompletionOptions,
+  PlannedBatch,
   PreparedBatch,
+  ResumableSubmittedBatch,
+  StreamPreparedBatch,
   SubmittedBatch
 } from './batch.js';
 export * from './routes.js';
@@ -43,9 +81,15 @@ export * from './crypto/symmetric.js';
 export * from './crypto/encryption.js';
 export * from './auth/xades-request.js';
 export { HttpClient } from '../utils/http.js';
-export type { HttpClientOptions, SystemWarningInfo } from '../types/config.js';
+export type { HttpClientOptions, HttpRequestOutcome, SystemWarningInfo } from '../types/config.js';
 export * from '../types/limits.js';
 export * from './rate-limits.js';
+export * from './pagination.js';
+export * from './truncation.js';
 export * from './qr/index.js';
 export * from './offline/index.js';
+export * from './metadata-sync/index.js';
+export * from './export/index.js';
+export * from './upo/index.js';
+export * from './workflows/index.js';
 export * from '../utils/validation.js';
@@ -0,0 +1,71 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MetadataSyncCheckpoint, MetadataSyncCheckpointStore } from './types.js';
+
+/**
+ * Keeps checkpoints in memory. Suitable for tests and short-lived processes only.
+ */
+export class InMemoryMetadataSyncCheckpointStore implements MetadataSyncCheckpointStore {
+  private checkpoints: Map<string, MetadataSyncCheckpoint> = new Map();
+
+  async load(key: string): Promise<MetadataSyncCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(key);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  async save(key: string, checkpoint: MetadataSyncCheckpoint): Promise<void> {
+    this.checkpoints.set(key, structuredClone(checkpoint));
+  }
+}
+
+interface CheckpointFile {
+  version: 1;
+  checkpoints: Record<string, MetadataSyncCheckpoint>;
+}
+
+/**
+ * Persists all checkpoints in a single JSON file. Writes go through a temporary
+ * file and `rename`, so a crash never leaves a half-written checkpoint behind.
+ */
+export class JsonFileMetadataSyncCheckpointStore implements MetadataSyncCheckpointStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(key: string): Promise<MetadataSyncCheckpoint | null> {
+    await this.pending;
+    const file = await this.readFile();
+    return file.checkpoints[key] ?? null;
+  }
+
+  async save(key: string, checkpoint: MetadataSyncCheckpoint): Promise<void> {
+    const write = this.pending.then(async () => {
+      const file = await this.readFile();
+      file.checkpoints[key] = checkpoint;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    });
+    this.pending = write.catch(() => undefined);
+    await write;
+  }
+
+  private async readFile(): Promise<CheckpointFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, checkpoints: {} };
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<CheckpointFile>;
+    if (parsed.version !== 1 || typeof parsed.checkpoints !== 'object' || parsed.checkpoints === null) {
+      throw new Error(`Unsupported metadata sync checkpoint file: ${this.filePath}`);
+    }
+    return parsed as CheckpointFile;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Incremental invoice metadata sync with pluggable checkpoint stores.
+ */
+
+export * from './types.js';
+export * from './checkpoint-store.js';
+export * from './sync.js';
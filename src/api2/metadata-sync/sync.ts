@@ -0,0 +1,191 @@
+import type { InvoiceV2Service } from '../services/invoice.js';
+import type { InvoiceMetadata, InvoiceQueryFilters } from '../types/invoice.js';
+import { continueDateRange } from '../truncation.js';
+import type {
+  InvoiceMetadataSyncOptions,
+  MetadataSyncCheckpoint,
+  MetadataSyncResult
+} from './types.js';
+
+/** `/invoices/query/metadata` rejects date ranges longer than 3 months. */
+const MAX_QUERY_WINDOW_MONTHS = 3;
+const DEFAULT_PAGE_SIZE = 250;
+
+/**
+ * Incremental download of invoice metadata for one subject type, following the
+ * recommended scenario from the `/invoices/query/metadata` docs: `PermanentStorage`
+ * dates, ascending order, `restrictToPermanentStorageHwmDate` and narrowing
+ * `dateRange.from` whenever the API truncates the result set.
+ *
+ * Each batch is passed to `onBatch` before the checkpoint is saved, so a crash
+ * replays at most the last batch (at-least-once delivery).
+ */
+export class InvoiceMetadataSync {
+  private running = false;
+
+  constructor(
+    private readonly invoices: InvoiceV2Service,
+    private readonly options: InvoiceMetadataSyncOptions
+  ) {}
+
+  get checkpointKey(): string {
+    return this.options.checkpointKey ?? this.options.subjectType;
+  }
+
+  /** Fetches everything stored since the last checkpoint and emits it in batches. */
+  async run(accessToken: string): Promise<MetadataSyncResult> {
+    if (this.running) {
+      throw new Error(`Metadata sync ${this.checkpointKey} is already running`);
+    }
+    this.running = true;
+    try {
+      return await this.sync(accessToken);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sync(accessToken: string): Promise<MetadataSyncResult> {
+    const { store, subjectType } = this.options;
+    const overlapMs = this.options.overlapMs ?? 0;
+    const now = (this.options.now ?? (() => new Date()))();
+
+    let checkpoint = await store.load(this.checkpointKey);
+    if (checkpoint && checkpoint.subjectType !== subjectType) {
+      throw new Error(
+        `Checkpoint ${this.checkpointKey} belongs to ${checkpoint.subjectType}, not ${subjectType}; use a different checkpointKey`
+      );
+    }
+
+    let highWaterMark = checkpoint?.highWaterMark ?? this.options.initialFrom;
+    if (Number.isNaN(Date.parse(highWaterMark))) {
+      throw new Error(`Invalid metadata sync start date: ${highWaterMark}`);
+    }
+    const seen = new Map<string, string>(
+      (checkpoint?.recentInvoices ?? []).map((invoice) => [invoice.ksefNumber, invoice.permanentStorageDate])
+    );
+    const result: MetadataSyncResult = { emitted: 0, duplicates: 0, requests: 0, checkpoint };
+
+    let windowFrom = new Date(Date.parse(highWaterMark) - overlapMs);
+    while (windowFrom.getTime() < now.getTime()) {
+      const windowTo = new Date(Math.min(addUtcMonths(windowFrom, MAX_QUERY_WINDOW_MONTHS).getTime(), now.getTime()));
+      const window = { from: windowFrom.toISOString(), to: windowTo.toISOString() };
+      let queryFrom = window.from;
+      let pageOffset = 0;
+      let storageHwmDate: string | null = null;
+
+      for (;;) {
+        const page = await this.invoices.queryMetadata(accessToken, this.buildFilters(queryFrom, window.to), {
+          pageOffset,
+          pageSize: this.options.pageSize ?? DEFAULT_PAGE_SIZE,
+          sortOrder: 'Asc'
+        });
+        result.requests++;
+        storageHwmDate = page.permanentStorageHwmDate ?? storageHwmDate;
+
+        const fresh: InvoiceMetadata[] = [];
+        for (const invoice of page.invoices) {
+          if (seen.has(invoice.ksefNumber)) {
+            result.duplicates++;
+            continue;
+          }
+          seen.set(invoice.ksefNumber, invoice.permanentStorageDate);
+          fresh.push(invoice);
+          highWaterMark = laterDate(highWaterMark, invoice.permanentStorageDate);
+        }
+
+        if (fresh.length > 0) {
+          checkpoint = this.buildCheckpoint(highWaterMark, seen, overlapMs);
+          await this.options.onBatch(fresh, { checkpoint, window });
+          await store.save(this.checkpointKey, checkpoint);
+          result.emitted += fresh.length;
+        }
+
+        // A truncated result ends at the offset limit whatever hasMore says; the rest
+        // is reached by restarting the range from the last returned date.
+        if (page.isTruncated) {
+          const last = page.invoices[page.invoices.length - 1];
+          if (!last) {
+            throw new Error('Metadata query was truncated without returning invoices');
+          }
+          queryFrom = continueDateRange(
+            { dateType: 'PermanentStorage', from: queryFrom },
+            last.permanentStorageDate
+          ).from;
+          pageOffset = 0;
+        } else if (page.hasMore) {
+          pageOffset++;
+        } else {
+          break;
+        }
+      }
+
+      // Everything below permanentStorageHwmDate is final; nothing past it may be skipped.
+      const completeUntil = storageHwmDate === null ? null : earlierDate(storageHwmDate, window.to);
+      if (completeUntil !== null && Date.parse(completeUntil) > Date.parse(highWaterMark)) {
+        highWaterMark = completeUntil;
+        checkpoint = this.buildCheckpoint(highWaterMark, seen, overlapMs);
+        await store.save(this.checkpointKey, checkpoint);
+      }
+      if (completeUntil === null || Date.parse(completeUntil) < windowTo.getTime()) {
+        break;
+      }
+      windowFrom = windowTo;
+    }
+
+    result.checkpoint = checkpoint;
+    return result;
+  }
+
+  private buildFilters(from: string, to: string): InvoiceQueryFilters {
+    return {
+      ...this.options.filters,
+      subjectType: this.options.subjectType,
+      dateRange: {
+        dateType: 'PermanentStorage',
+        from,
+        to,
+        restrictToPermanentStorageHwmDate: true
+      }
+    };
+  }
+
+  /** Drops remembered invoices older than the overlap window so checkpoints stay small. */
+  private buildCheckpoint(
+    highWaterMark: string,
+    seen: Map<string, string>,
+    overlapMs: number
+  ): MetadataSyncCheckpoint {
+    const keepFrom = Date.parse(highWaterMark) - overlapMs;
+    for (const [ksefNumber, permanentStorageDate] of seen) {
+      if (Date.parse(permanentStorageDate) < keepFrom) {
+        seen.delete(ksefNumber);
+      }
+    }
+
+    return {
+      subjectType: this.options.subjectType,
+      highWaterMark,
+      recentInvoices: Array.from(seen, ([ksefNumber, permanentStorageDate]) => ({ ksefNumber, permanentStorageDate })),
+      updatedAt: new Date().toISOString()
+    };
+  }
+}
+
+function laterDate(a: string, b: string): string {
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
+
+function earlierDate(a: string, b: string): string {
+  return Date.parse(b) < Date.parse(a) ? b : a;
+}
+
+function addUtcMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
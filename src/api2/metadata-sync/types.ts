@@ -0,0 +1,68 @@
+import type {
+  InvoiceMetadata,
+  InvoiceQueryFilters,
+  InvoiceQuerySubjectType
+} from '../types/invoice.js';
+
+/** Invoice already emitted by a sync run, remembered for deduplication. */
+export interface MetadataSyncSeenInvoice {
+  ksefNumber: string;
+  permanentStorageDate: string;
+}
+
+/**
+ * Durable progress of an incremental metadata sync. Every invoice with
+ * `permanentStorageDate` below `highWaterMark` has already been emitted.
+ */
+export interface MetadataSyncCheckpoint {
+  subjectType: InvoiceQuerySubjectType;
+  highWaterMark: string;
+  /** Invoices emitted at or after `highWaterMark - overlapMs`; skipped when returned again. */
+  recentInvoices: MetadataSyncSeenInvoice[];
+  updatedAt: string;
+}
+
+export interface MetadataSyncCheckpointStore {
+  load(key: string): Promise<MetadataSyncCheckpoint | null>;
+  save(key: string, checkpoint: MetadataSyncCheckpoint): Promise<void>;
+}
+
+export interface MetadataSyncBatchContext {
+  /** Checkpoint that will be saved once the callback resolves. */
+  checkpoint: MetadataSyncCheckpoint;
+  /** Date window of the query that produced the batch. */
+  window: { from: string; to: string };
+}
+
+export type MetadataSyncBatchHandler = (
+  invoices: InvoiceMetadata[],
+  context: MetadataSyncBatchContext
+) => void | Promise<void>;
+
+export interface InvoiceMetadataSyncOptions {
+  subjectType: InvoiceQuerySubjectType;
+  store: MetadataSyncCheckpointStore;
+  onBatch: MetadataSyncBatchHandler;
+  /** Start of the first sync when the store has no checkpoint yet (ISO-8601). */
+  initialFrom: string;
+  /** Store key (default: `subjectType`). Include the context NIP when syncing several taxpayers. */
+  checkpointKey?: string;
+  /** Extra filters applied to every query; `subjectType` and `dateRange` are managed by the sync. */
+  filters?: Omit<InvoiceQueryFilters, 'subjectType' | 'dateRange'>;
+  /** Page size requested from the API (default: 250). */
+  pageSize?: number;
+  /** Re-query this much time before the high-water mark on every run (default: 0). */
+  overlapMs?: number;
+  /** Clock used to bound query windows (default: `new Date()`). */
+  now?: () => Date;
+}
+
+export interface MetadataSyncResult {
+  /** Invoices passed to `onBatch`. */
+  emitted: number;
+  /** Invoices returned by the API but skipped as already emitted. */
+  duplicates: number;
+  /** Metadata requests made. */
+  requests: number;
+  checkpoint: MetadataSyncCheckpoint | null;
+}
@@ -0,0 +1,295 @@
+import { KsefApiError } from '@/types/common.js';
+import type { HttpClientOptions, HttpRequestOutcome, SystemWarningInfo } from '@/types/config.js';
+import { HTTP_NETWORK_ERROR_CODE, HTTP_TIMEOUT_ERROR_CODE } from '@/utils/http.js';
+import type { MaintenanceWindowAPI } from './types.js';
+
+const OUTAGE_WARNING_PATTERN = /niedostępn|niedostepn|przerw|awari|unavailab|outage|maintenance/i;
+
+export interface AvailabilityMonitorOptions {
+  /** Consecutive failures that mark KSeF unavailable (default: 3) */
+  failureThreshold?: number;
+  /** Consecutive successes that mark KSeF available again (default: 2) */
+  recoveryThreshold?: number;
+  /** Minimum time KSeF stays marked unavailable, so a flapping service is not reported back and forth (default: 60 s) */
+  minUnavailableMs?: number;
+  /** Whether an `X-System-Warning` on a 5xx response announces an outage (default: message mentions unavailability, a break or maintenance) */
+  isOutageWarning?: (warning: SystemWarningInfo) => boolean;
+  /** Opens a maintenance window when an outage is detected and closes it on recovery */
+  maintenanceWindows?: MaintenanceWindowAPI;
+  /** Lightweight request run every `probeIntervalMs` while `start`ed; a rejection counts as a failure */
+  probe?: () => Promise<unknown>;
+  /** Interval between probes (default: 60 s) */
+  probeIntervalMs?: number;
+  /** Clock (default: `new Date()`) */
+  now?: () => Date;
+}
+
+export type AvailabilityEvent =
+  | { type: 'unavailable'; since: string; reason: string; maintenanceWindowId?: string }
+  | { type: 'available'; since: string; unavailableSince: string; maintenanceWindowId?: string }
+  | { type: 'warning'; warning: SystemWarningInfo }
+  | { type: 'error'; error: Error };
+
+export interface AvailabilityStatus {
+  available: boolean;
+  /** When the current state began (ISO 8601) */
+  since: string;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  /** Description of the most recent failure */
+  lastFailure?: string;
+  /** Maintenance window opened for the current outage */
+  maintenanceWindowId?: string;
+}
+
+/**
+ * Tracks whether KSeF is reachable from the outcomes of real requests (via
+ * `httpClientOptions()`), `X-System-Warning` headers and an optional probe.
+ * `failureThreshold` consecutive 5xx responses, timeouts or network errors mark KSeF
+ * unavailable, as does a 5xx response whose `X-System-Warning` announces an outage; `recoveryThreshold` consecutive responses below 500, no sooner than
+ * `minUnavailableMs` after the outage began, mark it available again. Any HTTP
+ * response below 500 counts as success: a 4xx means KSeF answered.
+ *
+ * While KSeF is unavailable, issue invoices in `offline` mode. With
+ * `maintenanceWindows`, each outage is recorded as an unplanned maintenance window
+ * whose end is set on recovery, which extends the deadlines of invoices linked to it.
+ */
+export class KsefAvailabilityMonitor {
+  private available = true;
+  private since: Date;
+  private consecutiveFailures = 0;
+  private consecutiveSuccesses = 0;
+  private firstFailureAt: Date | null = null;
+  private lastFailure: string | undefined;
+  private maintenanceWindowId: string | undefined;
+  private pending: Promise<void> = Promise.resolve();
+  private probeTimer: ReturnType<typeof setInterval> | undefined;
+  private probing = false;
+  private readonly listeners = new Set<(event: AvailabilityEvent) => void>();
+  private readonly failureThreshold: number;
+  private readonly recoveryThreshold: number;
+  private readonly minUnavailableMs: number;
+
+  constructor(private readonly options: AvailabilityMonitorOptions = {}) {
+    this.failureThreshold = positiveInteger(options.failureThreshold ?? 3, 'failureThreshold');
+    this.recoveryThreshold = positiveInteger(options.recoveryThreshold ?? 2, 'recoveryThreshold');
+    this.minUnavailableMs = options.minUnavailableMs ?? 60_000;
+    this.since = this.now();
+  }
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  getStatus(): AvailabilityStatus {
+    return {
+      available: this.available,
+      since: this.since.toISOString(),
+      consecutiveFailures: this.consecutiveFailures,
+      consecutiveSuccesses: this.consecutiveSuccesses,
+      ...(this.lastFailure !== undefined ? { lastFailure: this.lastFailure } : {}),
+      ...(this.maintenanceWindowId !== undefined ? { maintenanceWindowId: this.maintenanceWindowId } : {})
+    };
+  }
+
+  /** Registers a listener; returns a function that removes it. */
+  subscribe(listener: (event: AvailabilityEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hooks for `HttpClient`: `new HttpClient({ ...options, ...monitor.httpClientOptions() })`.
+   * An existing `onSystemWarning` in `forward` is still called.
+   */
+  httpClientOptions(
+    forward: Pick<HttpClientOptions, 'onSystemWarning'> = {}
+  ): Required<Pick<HttpClientOptions, 'onRequestOutcome' | 'onSystemWarning'>> {
+    return {
+      onRequestOutcome: (outcome) => this.recordOutcome(outcome),
+      onSystemWarning: (warning) => {
+        forward.onSystemWarning?.(warning);
+        this.recordSystemWarning(warning);
+      }
+    };
+  }
+
+  recordOutcome(outcome: HttpRequestOutcome): void {
+    if (outcome.status !== undefined && outcome.status < 500) {
+      this.recordSuccess();
+      return;
+    }
+    const reason = outcome.status !== undefined
+      ? `HTTP ${outcome.status} from ${outcome.method} ${outcome.url}`
+      : `${outcome.failure === 'timeout' ? 'Timeout' : 'Network error'} on ${outcome.method} ${outcome.url}`;
+    this.recordFailure(reason);
+  }
+
+  recordSystemWarning(warning: SystemWarningInfo): void {
+    this.emit({ type: 'warning', warning });
+    // On a 5xx response KSeF itself says it is down: no need to wait for the threshold.
+    if (warning.status >= 500 && (this.options.isOutageWarning ?? defaultIsOutageWarning)(warning)) {
+      this.recordFailure(`X-System-Warning [${warning.code}]: ${warning.message}`, true);
+    }
+  }
+
+  /** Runs the probe every `probeIntervalMs` until `stop`. */
+  start(): void {
+    if (!this.options.probe || this.probeTimer) {
+      return;
+    }
+    this.probeTimer = setInterval(() => {
+      void this.probe();
+    }, this.options.probeIntervalMs ?? 60_000);
+    this.probeTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  /** Runs the probe once and records its result. */
+  async probe(): Promise<void> {
+    const probe = this.options.probe;
+    if (!probe || this.probing) {
+      return;
+    }
+    this.probing = true;
+    try {
+      await probe();
+      this.recordSuccess();
+    } catch (error) {
+      this.recordFailure(`Probe failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /** Resolves once maintenance window updates and events of past transitions are done. */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.consecutiveSuccesses++;
+    if (this.available) {
+      this.firstFailureAt = null;
+      return;
+    }
+    const now = this.now();
+    if (
+      this.consecutiveSuccesses >= this.recoveryThreshold
+      && now.getTime() - this.since.getTime() >= this.minUnavailableMs
+    ) {
+      const unavailableSince = this.since;
+      this.available = true;
+      this.since = now;
+      this.firstFailureAt = null;
+      const windowId = this.maintenanceWindowId;
+      this.maintenanceWindowId = undefined;
+      this.enqueue(async () => {
+        if (windowId !== undefined && this.options.maintenanceWindows) {
+          await this.options.maintenanceWindows.updateMaintenanceWindow(windowId, {
+            endTime: now.toISOString(),
+            active: false
+          });
+        }
+        this.emit({
+          type: 'available',
+          since: now.toISOString(),
+          unavailableSince: unavailableSince.toISOString(),
+          ...(windowId !== undefined ? { maintenanceWindowId: windowId } : {})
+        });
+      });
+    }
+  }
+
+  private recordFailure(reason: string, immediate = false): void {
+    const now = this.now();
+    this.consecutiveSuccesses = 0;
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.firstFailureAt ??= now;
+    if (!this.available || (!immediate && this.consecutiveFailures < this.failureThreshold)) {
+      return;
+    }
+
+    const since = this.firstFailureAt;
+    this.available = false;
+    this.since = since;
+    this.enqueue(async () => {
+      if (this.options.maintenanceWindows) {
+        const window = await this.options.maintenanceWindows.registerMaintenanceWindow({
+          startTime: since.toISOString(),
+          active: true,
+          planned: false,
+          reason: `Detected KSeF unavailability: ${reason}`
+        });
+        // Recovery may already have happened while the window was being registered.
+        if (this.available) {
+          await this.options.maintenanceWindows.updateMaintenanceWindow(window.id, {
+            endTime: this.since.toISOString(),
+            active: false
+          });
+        } else {
+          this.maintenanceWindowId = window.id;
+        }
+        this.emit({ type: 'unavailable', since: since.toISOString(), reason, maintenanceWindowId: window.id });
+        return;
+      }
+      this.emit({ type: 'unavailable', since: since.toISOString(), reason });
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending.then(task).catch((error: unknown) => {
+      this.emit({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+    });
+  }
+
+  private emit(event: AvailabilityEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // Listeners are observational and must not affect monitoring.
+      }
+    }
+  }
+
+  private now(): Date {
+    return (this.options.now ?? (() => new Date()))();
+  }
+}
+
+/**
+ * True for errors that mean KSeF could not be reached or failed on its side: 5xx
+ * responses and the network and timeout errors raised by `HttpClient`. Anything else,
+ * including `KsefApiError`s without a status such as authentication or verification
+ * failures, is not an availability failure.
+ */
+export function isAvailabilityFailure(error: unknown): error is KsefApiError {
+  if (!(error instanceof KsefApiError)) {
+    return false;
+  }
+  return error.statusCode !== undefined
+    ? error.statusCode >= 500
+    : error.code === HTTP_NETWORK_ERROR_CODE || error.code === HTTP_TIMEOUT_ERROR_CODE;
+}
+
+function defaultIsOutageWarning(warning: SystemWarningInfo): boolean {
+  return OUTAGE_WARNING_PATTERN.test(warning.message);
+}
+
+function positiveInteger(value: number, name: string): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid availability monitor ${name}: ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,201 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+const END_OF_DAY_MS = DAY_MS - 1;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+/** Christmas Eve became a public holiday in Poland in 2025. */
+const CHRISTMAS_EVE_SINCE = 2025;
+
+export interface PublicHoliday {
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  name: string;
+}
+
+export interface NonBusinessDay {
+  date: string;
+  reason: 'weekend' | 'holiday';
+  /** Holiday name when `reason` is 'holiday' */
+  name?: string;
+}
+
+export interface BusinessDayCalendarOptions {
+  /** Public holidays of a year (default: `polishPublicHolidays`) */
+  holidays?: (year: number) => PublicHoliday[];
+  /** Extra days off on top of `holidays`, e.g. ones announced after this release */
+  additionalHolidays?: PublicHoliday[];
+  /** IANA time zone the calendar dates are in (default: Europe/Warsaw) */
+  timeZone?: string;
+}
+
+/**
+ * Statutory public holidays in Poland (ustawa o dniach wolnych od pracy), including
+ * the movable feasts derived from Easter. Sundays among them are returned as well.
+ */
+export function polishPublicHolidays(year: number): PublicHoliday[] {
+  const easter = easterSunday(year);
+  const holidays: PublicHoliday[] = [
+    { date: `${year}-01-01`, name: 'Nowy Rok' },
+    { date: `${year}-01-06`, name: 'Święto Trzech Króli' },
+    { date: easter, name: 'Wielkanoc' },
+    { date: addDays(easter, 1), name: 'Poniedziałek Wielkanocny' },
+    { date: `${year}-05-01`, name: 'Święto Pracy' },
+    { date: `${year}-05-03`, name: 'Święto Konstytucji 3 Maja' },
+    { date: addDays(easter, 49), name: 'Zielone Świątki' },
+    { date: addDays(easter, 60), name: 'Boże Ciało' },
+    { date: `${year}-08-15`, name: 'Wniebowzięcie Najświętszej Maryi Panny' },
+    { date: `${year}-11-01`, name: 'Wszystkich Świętych' },
+    { date: `${year}-11-11`, name: 'Narodowe Święto Niepodległości' },
+    { date: `${year}-12-25`, name: 'Boże Narodzenie' },
+    { date: `${year}-12-26`, name: 'Drugi dzień Bożego Narodzenia' }
+  ];
+  if (year >= CHRISTMAS_EVE_SINCE) {
+    holidays.push({ date: `${year}-12-24`, name: 'Wigilia Bożego Narodzenia' });
+  }
+  return holidays.sort((left, right) => left.date.localeCompare(right.date));
+}
+
+/** Gregorian Easter Sunday (anonymous Gregorian algorithm), as YYYY-MM-DD. */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDate(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Working days in a time zone: Monday to Friday except public holidays. Dates are
+ * YYYY-MM-DD strings in the calendar's time zone; `dateOf` and `endOfDay` convert
+ * between them and instants.
+ */
+export class BusinessDayCalendar {
+  readonly timeZone: string;
+  private readonly holidaysOf: (year: number) => PublicHoliday[];
+  private readonly additionalHolidays: PublicHoliday[];
+  private readonly holidaysByYear = new Map<number, Map<string, PublicHoliday>>();
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(options: BusinessDayCalendarOptions = {}) {
+    this.timeZone = options.timeZone ?? 'Europe/Warsaw';
+    this.holidaysOf = options.holidays ?? polishPublicHolidays;
+    this.additionalHolidays = options.additionalHolidays ?? [];
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  /** Calendar date of `instant` in the calendar's time zone. */
+  dateOf(instant: Date): string {
+    const parts = this.zonedParts(instant.getTime());
+    return formatDate(Date.UTC(parts.year, parts.month - 1, parts.day));
+  }
+
+  /** Last millisecond of `date` in the calendar's time zone. */
+  endOfDay(date: string): Date {
+    const localAsUtc = parseDate(date) + END_OF_DAY_MS;
+    // Offsets only change around 02:00-03:00 local time, so two passes settle on the right one.
+    let instant = localAsUtc - this.offsetAt(localAsUtc);
+    instant = localAsUtc - this.offsetAt(instant);
+    return new Date(instant);
+  }
+
+  /** Why `date` is not a business day, or null when it is one. */
+  nonBusinessDay(date: string): NonBusinessDay | null {
+    const holiday = this.holidaysIn(Number(date.slice(0, 4))).get(date);
+    if (holiday) {
+      return { date, reason: 'holiday', name: holiday.name };
+    }
+    const weekday = new Date(parseDate(date)).getUTCDay();
+    return weekday === 0 || weekday === 6 ? { date, reason: 'weekend' } : null;
+  }
+
+  isBusinessDay(date: string): boolean {
+    return this.nonBusinessDay(date) === null;
+  }
+
+  /**
+   * The `days`-th business day after `date` (`date` itself is not counted), with the
+   * days passed over on the way.
+   */
+  addBusinessDays(date: string, days: number): { date: string; skippedDays: NonBusinessDay[] } {
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`Invalid number of business days: ${days}`);
+    }
+    const skippedDays: NonBusinessDay[] = [];
+    let current = date;
+    let remaining = days;
+    while (remaining > 0) {
+      current = addDays(current, 1);
+      const skipped = this.nonBusinessDay(current);
+      if (skipped) {
+        skippedDays.push(skipped);
+      } else {
+        remaining--;
+      }
+    }
+    return { date: current, skippedDays };
+  }
+
+  private holidaysIn(year: number): Map<string, PublicHoliday> {
+    let holidays = this.holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = new Map();
+      for (const holiday of [...this.holidaysOf(year), ...this.additionalHolidays]) {
+        if (holiday.date.startsWith(`${year}-`)) {
+          holidays.set(holiday.date, holiday);
+        }
+      }
+      this.holidaysByYear.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /** Milliseconds the time zone is ahead of UTC at `instant`. */
+  private offsetAt(instant: number): number {
+    const parts = this.zonedParts(instant);
+    const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return localAsUtc - Math.floor(instant / 1000) * 1000;
+  }
+
+  private zonedParts(instant: number): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+    const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+    for (const part of this.formatter.formatToParts(new Date(instant))) {
+      if (part.type in parts) {
+        parts[part.type as keyof typeof parts] = Number(part.value);
+      }
+    }
+    return parts;
+  }
+}
+
+function parseDate(date: string): number {
+  const time = DATE_PATTERN.test(date) ? Date.parse(`${date}T00:00:00Z`) : Number.NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid calendar date (expected YYYY-MM-DD): ${date}`);
+  }
+  return time;
+}
+
+function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,379 @@
+import { randomUUID } from 'node:crypto';
+import { link, mkdir, open, readdir, readFile, rename, stat, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { sleep } from '../workflows/polling.js';
+import {
+  isLeaseHeldByOther,
+  OfflineInvoiceLeaseError,
+  type LeasableOfflineInvoiceStorage,
+  type OfflineInvoiceLease,
+  type OfflineInvoiceMetadata,
+  type OfflineInvoiceStatus,
+  type OfflineInvoiceStorage,
+  type OfflineMode
+} from './types.js';
+
+const INVOICE_EXTENSION = '.json';
+const LOCK_RETRY_DELAY_MS = 25;
+
+export interface FileOfflineInvoiceStorageOptions {
+  /** How long a write waits for another process to release the lock (default: 10 s) */
+  lockTimeoutMs?: number;
+  /** Age after which a lock is considered left behind by a crashed process (default: 30 s) */
+  staleLockMs?: number;
+}
+
+interface IndexEntry {
+  status: OfflineInvoiceStatus;
+  mode: OfflineMode;
+  submitBy: string;
+}
+
+interface IndexFile {
+  version: 1;
+  invoices: Record<string, IndexEntry>;
+}
+
+type ListFilter = Parameters<OfflineInvoiceStorage['list']>[0];
+
+/**
+ * Keeps each offline invoice in its own JSON file under `<directory>/invoices`, plus
+ * `<directory>/index.json` with the status, mode and deadline of every invoice so
+ * `list` only reads the documents that match. Files are written through a temporary
+ * file and `rename`, and writers from several processes take `<directory>/.lock`,
+ * which also makes `acquireLease` and `updateLeased` atomic across processes.
+ *
+ * The index is rebuilt from the documents the first time a storage instance writes,
+ * after taking over a stale lock, and whenever `index.json` cannot be read. Documents
+ * that are not valid JSON are moved to `*.corrupt` during a rebuild and are reported
+ * as missing until then.
+ */
+export class FileOfflineInvoiceStorage implements LeasableOfflineInvoiceStorage {
+  private pending: Promise<void> = Promise.resolve();
+  private indexVerified = false;
+  private readonly invoiceDirectory: string;
+  private readonly indexPath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(directory: string, options: FileOfflineInvoiceStorageOptions = {}) {
+    this.invoiceDirectory = join(directory, 'invoices');
+    this.indexPath = join(directory, 'index.json');
+    this.lockPath = join(directory, '.lock');
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10_000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+  }
+
+  async save(invoice: OfflineInvoiceMetadata): Promise<void> {
+    const path = this.invoicePath(invoice.id);
+    await this.withLock(async (index) => {
+      await writeAtomic(path, JSON.stringify(invoice, null, 2));
+      index.invoices[invoice.id] = indexEntry(invoice);
+      return true;
+    });
+  }
+
+  async get(id: string): Promise<OfflineInvoiceMetadata | null> {
+    return await this.readInvoice(this.invoicePath(id));
+  }
+
+  async list(filter?: ListFilter): Promise<OfflineInvoiceMetadata[]> {
+    let index = await this.readIndex();
+    if (!index) {
+      index = await this.withLock(async () => false);
+    }
+
+    const expiringBefore = filter?.expiringBefore !== undefined ? Date.parse(filter.expiringBefore) : undefined;
+    const matches = (entry: IndexEntry): boolean =>
+      (!filter?.status || filter.status.includes(entry.status))
+      && (!filter?.mode || entry.mode === filter.mode)
+      && (expiringBefore === undefined || Date.parse(entry.submitBy) <= expiringBefore);
+
+    const results: OfflineInvoiceMetadata[] = [];
+    for (const [id, entry] of Object.entries(index.invoices)) {
+      if (!matches(entry)) {
+        continue;
+      }
+      // Another process may have changed the invoice since the index was read.
+      const invoice = await this.readInvoice(this.invoicePath(id));
+      if (invoice && matches(indexEntry(invoice))) {
+        results.push(invoice);
+      }
+    }
+    return results;
+  }
+
+  async update(id: string, updates: Partial<OfflineInvoiceMetadata>): Promise<void> {
+    const path = this.invoicePath(id);
+    await this.withLock(async (index) => {
+      const invoice = await this.readInvoice(path);
+      if (!invoice) {
+        return false;
+      }
+      const updated: OfflineInvoiceMetadata = { ...invoice, ...updates, id };
+      await writeAtomic(path, JSON.stringify(updated, null, 2));
+      index.invoices[id] = indexEntry(updated);
+      return true;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const path = this.invoicePath(id);
+    await this.withLock(async (index) => {
+      await unlinkIfExists(path);
+      delete index.invoices[id];
+      return true;
+    });
+  }
+
+  async acquireLease(id: string, lease: OfflineInvoiceLease, now: Date): Promise<OfflineInvoiceMetadata | null> {
+    const path = this.invoicePath(id);
+    let leased: OfflineInvoiceMetadata | null = null;
+    await this.withLock(async (index) => {
+      const invoice = await this.readInvoice(path);
+      if (!invoice || isLeaseHeldByOther(invoice.lease, lease.owner, now)) {
+        return false;
+      }
+      leased = { ...invoice, lease };
+      await writeAtomic(path, JSON.stringify(leased, null, 2));
+      index.invoices[id] = indexEntry(leased);
+      return true;
+    });
+    return leased;
+  }
+
+  async releaseLease(id: string, owner: string): Promise<void> {
+    const path = this.invoicePath(id);
+    await this.withLock(async () => {
+      const invoice = await this.readInvoice(path);
+      if (invoice?.lease?.owner !== owner) {
+        return false;
+      }
+      const { lease: _lease, ...released } = invoice;
+      await writeAtomic(path, JSON.stringify(released, null, 2));
+      return false;
+    });
+  }
+
+  async updateLeased(
+    id: string,
+    lease: OfflineInvoiceLease,
+    change: (invoice: OfflineInvoiceMetadata) => Partial<OfflineInvoiceMetadata>
+  ): Promise<OfflineInvoiceMetadata> {
+    const path = this.invoicePath(id);
+    let updated: OfflineInvoiceMetadata | null = null;
+    await this.withLock(async (index) => {
+      const invoice = await this.readInvoice(path);
+      if (!invoice || invoice.lease?.owner !== lease.owner) {
+        return false;
+      }
+      updated = { ...invoice, ...change(invoice), id, lease };
+      await writeAtomic(path, JSON.stringify(updated, null, 2));
+      index.invoices[id] = indexEntry(updated);
+      return true;
+    });
+    if (!updated) {
+      throw new OfflineInvoiceLeaseError(id, lease.owner);
+    }
+    return updated;
+  }
+
+  /**
+   * Runs `change` while holding the lock, on an up-to-date index. The index is written
+   * back when `change` returns true; it returns the index it worked on.
+   */
+  private async withLock(change: (index: IndexFile) => Promise<boolean>): Promise<IndexFile> {
+    const run = this.pending.then(async () => {
+      await mkdir(this.invoiceDirectory, { recursive: true });
+      const { release, tookOverStaleLock } = await this.acquireLock();
+      try {
+        let index = this.indexVerified && !tookOverStaleLock ? await this.readIndex() : null;
+        if (!index) {
+          index = await this.rebuildIndex();
+          this.indexVerified = true;
+        }
+        if (await change(index)) {
+          await writeAtomic(this.indexPath, JSON.stringify(index));
+        }
+        return index;
+      } finally {
+        await release();
+      }
+    });
+    this.pending = run.then(() => undefined, () => undefined);
+    return await run;
+  }
+
+  /**
+   * Creates `.lock` holding a token unique to this acquisition. Release removes the file
+   * only while it still holds that token, and a stale lock is taken over by renaming it
+   * away first, so two processes cannot both remove the same lock.
+   */
+  private async acquireLock(): Promise<{ release: () => Promise<void>; tookOverStaleLock: boolean }> {
+    const startedAt = Date.now();
+    const token = `${process.pid} ${randomUUID()} ${new Date().toISOString()}`;
+    let tookOverStaleLock = false;
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        try {
+          await handle.writeFile(token, 'utf8');
+        } finally {
+          await handle.close();
+        }
+        return { release: () => this.releaseLock(token), tookOverStaleLock };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.takeOverStaleLock()) {
+        tookOverStaleLock = true;
+        continue;
+      }
+      if (Date.now() - startedAt > this.lockTimeoutMs) {
+        throw new Error(`Timed out after ${this.lockTimeoutMs} ms waiting for offline invoice storage lock ${this.lockPath}`);
+      }
+      await sleep(LOCK_RETRY_DELAY_MS);
+    }
+  }
+
+  private async releaseLock(token: string): Promise<void> {
+    if (await readFileIfExists(this.lockPath) === token) {
+      await unlinkIfExists(this.lockPath);
+    }
+  }
+
+  /**
+   * Moves a lock older than `staleLockMs` aside and deletes it. When another process
+   * replaced the lock between the check and the rename, the moved lock is put back
+   * (unless yet another lock exists by then) and the takeover is abandoned.
+   */
+  private async takeOverStaleLock(): Promise<boolean> {
+    const lockedAt = await stat(this.lockPath).then((stats) => stats.mtimeMs, () => null);
+    if (lockedAt === null || Date.now() - lockedAt <= this.staleLockMs) {
+      return false;
+    }
+    const staleToken = await readFileIfExists(this.lockPath);
+    const movedPath = `${this.lockPath}.${randomUUID()}.stale`;
+    try {
+      await rename(this.lockPath, movedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+    if (await readFileIfExists(movedPath) !== staleToken) {
+      await link(movedPath, this.lockPath).catch(() => undefined);
+      await unlinkIfExists(movedPath);
+      return false;
+    }
+    await unlinkIfExists(movedPath);
+    return true;
+  }
+
+  /** Must be called with the lock held: rewrites the index from the invoice documents. */
+  private async rebuildIndex(): Promise<IndexFile> {
+    const index: IndexFile = { version: 1, invoices: {} };
+    for (const fileName of await readdir(this.invoiceDirectory)) {
+      const path = join(this.invoiceDirectory, fileName);
+      if (fileName.endsWith('.tmp')) {
+        // Left behind by a writer that crashed before its rename.
+        await unlinkIfExists(path);
+        continue;
+      }
+      if (!fileName.endsWith(INVOICE_EXTENSION)) {
+        continue;
+      }
+      const invoice = await this.readInvoice(path);
+      if (invoice && fileName === invoiceFileName(invoice.id)) {
+        index.invoices[invoice.id] = indexEntry(invoice);
+      } else if (!invoice) {
+        await rename(path, `${path}.corrupt`).catch(() => undefined);
+      }
+    }
+    await writeAtomic(this.indexPath, JSON.stringify(index));
+    return index;
+  }
+
+  /** Returns null when the index is missing, unreadable or of an unknown version. */
+  private async readIndex(): Promise<IndexFile | null> {
+    const raw = await readFileIfExists(this.indexPath);
+    if (raw === null) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw) as Partial<IndexFile>;
+      return parsed.version === 1 && typeof parsed.invoices === 'object' && parsed.invoices !== null
+        ? parsed as IndexFile
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readInvoice(path: string): Promise<OfflineInvoiceMetadata | null> {
+    const raw = await readFileIfExists(path);
+    if (raw === null) {
+      return null;
+    }
+    try {
+      const invoice = JSON.parse(raw) as OfflineInvoiceMetadata;
+      return typeof invoice.id === 'string' && typeof invoice.submitBy === 'string' ? invoice : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private invoicePath(id: string): string {
+    return join(this.invoiceDirectory, invoiceFileName(id));
+  }
+}
+
+function invoiceFileName(id: string): string {
+  if (id === '' || id === '.' || id === '..') {
+    throw new Error(`Invalid offline invoice id: "${id}"`);
+  }
+  return `${encodeURIComponent(id).replace(/\*/g, '%2A')}${INVOICE_EXTENSION}`;
+}
+
+function indexEntry(invoice: OfflineInvoiceMetadata): IndexEntry {
+  return { status: invoice.status, mode: invoice.mode, submitBy: invoice.submitBy };
+}
+
+/** Writes through a temporary file that is flushed to disk before it replaces `path`. */
+async function writeAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tempPath, path);
+}
+
+async function readFileIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function unlinkIfExists(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
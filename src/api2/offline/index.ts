@@ -3,4 +3,17 @@
  */
 
 export * from './types.js';
+export * from './calendar.js';
 
+export {
+  OFFLINE_INVOICE_TRANSITIONS,
+  OfflineInvoiceTransitionError,
+  canTransitionOfflineInvoice,
+  transitionLeasedOfflineInvoice,
+  transitionOfflineInvoice
+} from './state.js';
+export * from './manager.js';
+export * from './worker.js';
+export * from './file-storage.js';
+export * from './maintenance.js';
+export * from './availability.js';
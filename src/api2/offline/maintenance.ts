@@ -0,0 +1,262 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { canTransitionOfflineInvoice, OfflineInvoiceTransitionError } from './state.js';
+import {
+  extendDeadlineForMaintenance,
+  OfflineInvoiceLeaseError,
+  OfflineInvoiceStatus,
+  type MaintenanceWindow,
+  type MaintenanceWindowAPI,
+  type MaintenanceWindowServiceOptions,
+  type MaintenanceWindowStore,
+  type OfflineDeadlineChange,
+  type OfflineInvoiceMetadata
+} from './types.js';
+
+/** How long a deadline change keeps an invoice away from submission workers. */
+const DEADLINE_LEASE_MS = 60_000;
+
+/** Invoices that can still be sent; deadlines of the others no longer matter. */
+const OPEN_STATUSES = new Set<OfflineInvoiceStatus>([
+  OfflineInvoiceStatus.GENERATED,
+  OfflineInvoiceStatus.QUEUED,
+  OfflineInvoiceStatus.EXPIRED
+]);
+
+/**
+ * Keeps maintenance windows in memory. Suitable for tests and short-lived processes only.
+ */
+export class InMemoryMaintenanceWindowStore implements MaintenanceWindowStore {
+  private windows: Map<string, MaintenanceWindow> = new Map();
+
+  async save(window: MaintenanceWindow): Promise<void> {
+    this.windows.set(window.id, structuredClone(window));
+  }
+
+  async get(id: string): Promise<MaintenanceWindow | null> {
+    const window = this.windows.get(id);
+    return window ? structuredClone(window) : null;
+  }
+
+  async list(): Promise<MaintenanceWindow[]> {
+    return Array.from(this.windows.values(), (window) => structuredClone(window));
+  }
+}
+
+interface WindowFile {
+  version: 1;
+  windows: Record<string, MaintenanceWindow>;
+}
+
+/**
+ * Persists all maintenance windows in a single JSON file, written through a temporary
+ * file and `rename`.
+ */
+export class JsonFileMaintenanceWindowStore implements MaintenanceWindowStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async save(window: MaintenanceWindow): Promise<void> {
+    const write = this.pending.then(async () => {
+      const file = await this.readFile();
+      file.windows[window.id] = window;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    });
+    this.pending = write.catch(() => undefined);
+    await write;
+  }
+
+  async get(id: string): Promise<MaintenanceWindow | null> {
+    await this.pending;
+    return (await this.readFile()).windows[id] ?? null;
+  }
+
+  async list(): Promise<MaintenanceWindow[]> {
+    await this.pending;
+    return Object.values((await this.readFile()).windows);
+  }
+
+  private async readFile(): Promise<WindowFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, windows: {} };
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<WindowFile>;
+    if (parsed.version !== 1 || typeof parsed.windows !== 'object' || parsed.windows === null) {
+      throw new Error(`Unsupported maintenance window file: ${this.filePath}`);
+    }
+    return parsed as WindowFile;
+  }
+}
+
+/**
+ * `MaintenanceWindowAPI` over a `MaintenanceWindowStore` and an `OfflineInvoiceStorage`.
+ * Invoices belong to a window through `maintenanceWindowId`. Setting or moving a
+ * window's `endTime` recalculates the deadlines of its invoices that have not been
+ * submitted yet, and every change is appended to the invoice's `deadlineHistory`.
+ *
+ * Deadlines derived from the window are only ever extended: moving `endTime` earlier
+ * keeps the deadlines already given. Pass an explicit deadline to
+ * `extendInvoiceDeadlines` to correct them.
+ *
+ * Each invoice is leased while its deadline changes, like `OfflineSubmissionWorker`
+ * does, so a change cannot undo a status a worker has just written.
+ */
+export class MaintenanceWindowService implements MaintenanceWindowAPI {
+  private readonly leaseOwner = `maintenance-${randomUUID()}`;
+
+  constructor(private readonly options: MaintenanceWindowServiceOptions) {}
+
+  /** The window covering the current time, or the latest started one still open without an end. */
+  async getCurrentMaintenanceWindow(): Promise<MaintenanceWindow | null> {
+    const now = this.now().getTime();
+    const current = (await this.options.windows.list())
+      .filter((window) => {
+        if (Date.parse(window.startTime) > now) {
+          return false;
+        }
+        return window.endTime !== undefined ? now < Date.parse(window.endTime) : window.active;
+      })
+      .sort((left, right) => Date.parse(right.startTime) - Date.parse(left.startTime));
+    return current[0] ?? null;
+  }
+
+  async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | null> {
+    return await this.options.windows.get(id);
+  }
+
+  async registerMaintenanceWindow(window: Omit<MaintenanceWindow, 'id'>): Promise<MaintenanceWindow> {
+    assertWindowTimes(window);
+    const registered: MaintenanceWindow = { ...window, id: (this.options.createId ?? randomUUID)() };
+    await this.options.windows.save(registered);
+    return registered;
+  }
+
+  async updateMaintenanceWindow(
+    id: string,
+    updates: Partial<Omit<MaintenanceWindow, 'id'>>
+  ): Promise<MaintenanceWindow> {
+    const window = await this.requireWindow(id);
+    const updated: MaintenanceWindow = { ...window, ...updates, id };
+    assertWindowTimes(updated);
+    await this.options.windows.save(updated);
+
+    if (updated.endTime !== undefined && updated.endTime !== window.endTime) {
+      await this.extendInvoiceDeadlines(id);
+    }
+    return updated;
+  }
+
+  async getAffectedInvoices(maintenanceWindowId: string): Promise<OfflineInvoiceMetadata[]> {
+    return (await this.options.invoices.list())
+      .filter((invoice) => invoice.maintenanceWindowId === maintenanceWindowId);
+  }
+
+  /**
+   * Updates `submitBy` of the window's unsubmitted invoices, to `newDeadline` or to the
+   * deadline derived from the window end for each invoice's mode. Expired invoices
+   * whose new deadline lies ahead go back to GENERATED. Invoices leased by a worker
+   * are skipped; the stored status is checked again under the lease.
+   */
+  async extendInvoiceDeadlines(
+    maintenanceWindowId: string,
+    newDeadline?: Date
+  ): Promise<{ updated: number; invoices: OfflineInvoiceMetadata[] }> {
+    const window = await this.requireWindow(maintenanceWindowId);
+    const now = this.now();
+    const { invoices: storage } = this.options;
+    const lease = { owner: this.leaseOwner, expiresAt: new Date(now.getTime() + DEADLINE_LEASE_MS).toISOString() };
+    const changeFor = (invoice: OfflineInvoiceMetadata): Partial<OfflineInvoiceMetadata> | null => {
+      if (!OPEN_STATUSES.has(invoice.status)) {
+        return null;
+      }
+      const currentDeadline = new Date(invoice.submitBy);
+      const deadline = newDeadline
+        ?? extendDeadlineForMaintenance(currentDeadline, window, invoice.mode, this.options.calendar);
+      if (deadline.getTime() === currentDeadline.getTime()) {
+        return null;
+      }
+      const change: OfflineDeadlineChange = {
+        previousSubmitBy: invoice.submitBy,
+        submitBy: deadline.toISOString(),
+        changedAt: now.toISOString(),
+        maintenanceWindowId,
+        source: newDeadline ? 'manual' : 'maintenanceWindow'
+      };
+      const reopen = invoice.status === OfflineInvoiceStatus.EXPIRED && deadline > now;
+      if (reopen && !canTransitionOfflineInvoice(invoice.status, OfflineInvoiceStatus.GENERATED)) {
+        throw new OfflineInvoiceTransitionError(invoice.id, invoice.status, OfflineInvoiceStatus.GENERATED);
+      }
+      return {
+        submitBy: change.submitBy,
+        deadlineHistory: [...(invoice.deadlineHistory ?? []), change],
+        ...(reopen ? { status: OfflineInvoiceStatus.GENERATED } : {})
+      };
+    };
+
+    const invoices: OfflineInvoiceMetadata[] = [];
+    for (const candidate of await this.getAffectedInvoices(maintenanceWindowId)) {
+      if (!changeFor(candidate)) {
+        continue;
+      }
+      const leased = await storage.acquireLease(candidate.id, lease, now);
+      if (!leased) {
+        continue;
+      }
+      try {
+        let changed = false;
+        const { lease: _lease, ...updated } = await storage.updateLeased(candidate.id, lease, (stored) => {
+          const updates = changeFor(stored);
+          changed = updates !== null;
+          return updates ?? {};
+        });
+        if (changed) {
+          invoices.push(updated);
+        }
+      } catch (error) {
+        if (!(error instanceof OfflineInvoiceLeaseError)) {
+          throw error;
+        }
+      } finally {
+        await storage.releaseLease(candidate.id, this.leaseOwner);
+      }
+    }
+    return { updated: invoices.length, invoices };
+  }
+
+  private async requireWindow(id: string): Promise<MaintenanceWindow> {
+    const window = await this.options.windows.get(id);
+    if (!window) {
+      throw new Error(`Maintenance window ${id} not found`);
+    }
+    return window;
+  }
+
+  private now(): Date {
+    return (this.options.now ?? (() => new Date()))();
+  }
+}
+
+function assertWindowTimes(window: Pick<MaintenanceWindow, 'startTime' | 'endTime'>): void {
+  const start = Date.parse(window.startTime);
+  if (Number.isNaN(start)) {
+    throw new Error(`Invalid maintenance window startTime: ${window.startTime}`);
+  }
+  if (window.endTime !== undefined) {
+    const end = Date.parse(window.endTime);
+    if (Number.isNaN(end) || end < start) {
+      throw new Error(`Invalid maintenance window endTime: ${window.endTime}`);
+    }
+  }
+}
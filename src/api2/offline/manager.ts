@@ -0,0 +1,194 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { ContextIdentifierType } from '../types/common.js';
+import type { OnlineSession } from '../workflows/online-session.js';
+import { isAvailabilityFailure } from './availability.js';
+import {
+  calculateOfflineDeadline,
+  getDefaultOfflineReason,
+  OfflineInvoiceStatus,
+  type MaintenanceWindow,
+  type OfflineInvoiceBatchOptions,
+  type OfflineInvoiceBatchResult,
+  type OfflineInvoiceInputData,
+  type OfflineInvoiceManagerOptions,
+  type OfflineInvoiceMetadata,
+  type OfflineInvoiceOptions,
+  type SendOrQueueContext,
+  type SendOrQueueResult
+} from './types.js';
+import { OfflineSubmissionWorker } from './worker.js';
+
+/**
+ * Generates offline invoices (deadline, KOD I and KOD II), keeps them in a
+ * `LeasableOfflineInvoiceStorage` and sends them through an online session with
+ * `offlineMode: true` once KSeF is reachable.
+ *
+ * Status flow: GENERATED -> QUEUED -> SUBMITTED -> ACCEPTED | REJECTED. An invoice
+ * whose deadline passed before it was sent becomes EXPIRED and is still sent late
+ * unless `statusFilter` leaves EXPIRED out. Submission and reconciliation run the
+ * leased flow of `OfflineSubmissionWorker`, so they can share the storage with workers.
+ */
+export class OfflineInvoiceManager {
+  constructor(private readonly options: OfflineInvoiceManagerOptions) {}
+
+  /** Creates and stores an offline invoice for `invoiceXml`. */
+  async generate(
+    invoiceXml: string,
+    data: OfflineInvoiceInputData,
+    options: OfflineInvoiceOptions = {}
+  ): Promise<OfflineInvoiceMetadata> {
+    if (options.generateQRCodes === false) {
+      throw new Error('Offline invoices must carry KOD I and KOD II; generateQRCodes: false is not supported');
+    }
+    if (!options.offlineCertificate) {
+      throw new Error('An offline certificate is required to generate KOD II for an offline invoice');
+    }
+    if (data.sellerIdentifier.type !== ContextIdentifierType.NIP) {
+      throw new Error(`Offline invoice seller must be identified by NIP, got ${data.sellerIdentifier.type}`);
+    }
+
+    const mode = options.mode ?? 'offline24';
+    const generatedAt = this.now();
+    const maintenanceWindow = await this.findMaintenanceWindow(mode, options.maintenanceWindowId);
+    const submitBy = options.customDeadline !== undefined
+      ? toDate(options.customDeadline, 'customDeadline')
+      : calculateOfflineDeadline(mode, generatedAt, maintenanceWindow ?? undefined, this.options.calendar);
+
+    const qrCodes = await this.options.qrCodes.generateInvoiceQRCodes(
+      {
+        invoiceXml,
+        invoiceDate: data.invoiceDate,
+        sellerNip: data.sellerIdentifier.value,
+        contextIdentifier: data.sellerIdentifier,
+        isOffline: true
+      },
+      options.offlineCertificate,
+      {
+        ...(options.qrCodeOptions?.format ? { format: options.qrCodeOptions.format } : {}),
+        ...(options.qrCodeOptions?.width !== undefined ? { width: options.qrCodeOptions.width } : {})
+      }
+    );
+
+    const invoice: OfflineInvoiceMetadata = {
+      id: (this.options.createId ?? randomUUID)(),
+      mode,
+      reason: options.reason ?? getDefaultOfflineReason(mode),
+      invoiceNumber: data.invoiceNumber,
+      invoiceXml,
+      sellerIdentifier: data.sellerIdentifier,
+      ...(data.buyerIdentifier ? { buyerIdentifier: data.buyerIdentifier } : {}),
+      qrCodes,
+      generatedAt: generatedAt.toISOString(),
+      submitBy: submitBy.toISOString(),
+      ...(maintenanceWindow ? { maintenanceWindowId: maintenanceWindow.id } : {}),
+      status: OfflineInvoiceStatus.GENERATED
+    };
+
+    if (options.savePath) {
+      await mkdir(dirname(options.savePath), { recursive: true });
+      await writeFile(options.savePath, invoiceXml, 'utf8');
+    }
+    await this.options.storage.save(invoice);
+    return invoice;
+  }
+
+  /**
+   * Sends the invoice online and, when that fails because KSeF is unavailable (5xx,
+   * timeout, network error, or `availability` reporting an outage), issues it as an
+   * offline invoice instead: KOD I and KOD II, deadline and reason, stored for
+   * `submitPending`. Any other failure is rethrown, since it would not go away offline.
+   */
+  async sendOrQueue(invoiceXml: string, context: SendOrQueueContext): Promise<SendOrQueueResult> {
+    let cause: string;
+    if (this.options.availability && !this.options.availability.isAvailable()) {
+      cause = 'KSeF is reported unavailable';
+    } else {
+      try {
+        const session = typeof context.session === 'function' ? await context.session() : context.session;
+        const sent = await session.send(invoiceXml);
+        return { status: 'sent', referenceNumber: sent.referenceNumber, sessionReferenceNumber: session.referenceNumber };
+      } catch (error) {
+        if (!isAvailabilityFailure(error)) {
+          throw error;
+        }
+        cause = error.message;
+      }
+    }
+
+    const offlineCertificate = context.offline?.offlineCertificate ?? this.options.offlineCertificate;
+    const invoice = await this.generate(invoiceXml, context.invoice, {
+      mode: 'offline',
+      ...context.offline,
+      ...(offlineCertificate ? { offlineCertificate } : {})
+    });
+    return { status: 'queued', invoice, qrCodes: invoice.qrCodes, submitBy: invoice.submitBy, cause };
+  }
+
+  /**
+   * Sends stored invoices through `session` with `offlineMode: true`, earliest deadline
+   * first, and leaves the session open. Sent invoices become SUBMITTED; call `reconcile`
+   * with the same session to record whether KSeF accepted them.
+   */
+  async submitPending(
+    session: OnlineSession,
+    options: OfflineInvoiceBatchOptions = {}
+  ): Promise<OfflineInvoiceBatchResult> {
+    return await this.submissionWorker(options).submitPending(session);
+  }
+
+  /**
+   * Records KSeF's verdict for invoices submitted in `session`: status 200 marks them
+   * ACCEPTED (with `ksefNumber`), any other final status REJECTED. Invoices still being
+   * processed stay SUBMITTED and are not counted.
+   */
+  async reconcile(session: OnlineSession): Promise<OfflineInvoiceBatchResult> {
+    return await this.submissionWorker().reconcile(session);
+  }
+
+  /** A worker for one call; sessions come from the caller, so it never opens one itself. */
+  private submissionWorker(batch: OfflineInvoiceBatchOptions = {}): OfflineSubmissionWorker {
+    return new OfflineSubmissionWorker({
+      storage: this.options.storage,
+      openSession: async () => {
+        throw new Error('OfflineInvoiceManager sends through the session passed to submitPending');
+      },
+      getInvoiceStatus: async () => {
+        throw new Error('OfflineInvoiceManager reads statuses through the session passed to reconcile');
+      },
+      batch,
+      ...(this.options.now ? { now: this.options.now } : {})
+    });
+  }
+
+  private async findMaintenanceWindow(
+    mode: OfflineInvoiceMetadata['mode'],
+    maintenanceWindowId: string | undefined
+  ): Promise<MaintenanceWindow | null> {
+    const api = this.options.maintenanceWindows;
+    if (!api) {
+      return null;
+    }
+    if (maintenanceWindowId !== undefined) {
+      const window = await api.getMaintenanceWindow(maintenanceWindowId);
+      if (!window) {
+        throw new Error(`Maintenance window ${maintenanceWindowId} not found`);
+      }
+      return window;
+    }
+    return mode === 'offline24' ? null : await api.getCurrentMaintenanceWindow();
+  }
+
+  private now(): Date {
+    return (this.options.now ?? (() => new Date()))();
+  }
+}
+
+function toDate(value: Date | string, label: string): Date {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${label}: ${String(value)}`);
+  }
+  return date;
+}
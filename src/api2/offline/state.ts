@@ -0,0 +1,116 @@
+import { ProcessError } from '@/types/common.js';
+import type { SessionInvoiceStatus } from '../types/session.js';
+import {
+  OfflineInvoiceStatus,
+  type LeasableOfflineInvoiceStorage,
+  type OfflineInvoiceBatchResult,
+  type OfflineInvoiceLease,
+  type OfflineInvoiceMetadata,
+  type OfflineInvoiceStorage,
+  type OfflineInvoiceSubmissionResult
+} from './types.js';
+
+/**
+ * Allowed status changes. EXPIRED invoices can still be queued, since late invoices
+ * must reach KSeF as well, and return to GENERATED when their deadline is extended.
+ */
+export const OFFLINE_INVOICE_TRANSITIONS: Readonly<Record<OfflineInvoiceStatus, readonly OfflineInvoiceStatus[]>> = {
+  [OfflineInvoiceStatus.GENERATED]: [OfflineInvoiceStatus.QUEUED, OfflineInvoiceStatus.EXPIRED],
+  [OfflineInvoiceStatus.QUEUED]: [OfflineInvoiceStatus.SUBMITTED, OfflineInvoiceStatus.EXPIRED],
+  [OfflineInvoiceStatus.SUBMITTED]: [OfflineInvoiceStatus.ACCEPTED, OfflineInvoiceStatus.REJECTED],
+  [OfflineInvoiceStatus.ACCEPTED]: [],
+  [OfflineInvoiceStatus.REJECTED]: [],
+  [OfflineInvoiceStatus.EXPIRED]: [OfflineInvoiceStatus.QUEUED, OfflineInvoiceStatus.GENERATED]
+};
+
+export class OfflineInvoiceTransitionError extends ProcessError {
+  constructor(
+    public readonly invoiceId: string,
+    public readonly from: OfflineInvoiceStatus,
+    public readonly to: OfflineInvoiceStatus
+  ) {
+    super(`Offline invoice ${invoiceId} cannot move from ${from} to ${to}`);
+    this.name = 'OfflineInvoiceTransitionError';
+  }
+}
+
+/** Staying in the same status is always allowed. */
+export function canTransitionOfflineInvoice(from: OfflineInvoiceStatus, to: OfflineInvoiceStatus): boolean {
+  return from === to || OFFLINE_INVOICE_TRANSITIONS[from].includes(to);
+}
+
+/** Moves `invoice` to `to` in `storage`, or throws `OfflineInvoiceTransitionError`. */
+export async function transitionOfflineInvoice(
+  storage: OfflineInvoiceStorage,
+  invoice: OfflineInvoiceMetadata,
+  to: OfflineInvoiceStatus,
+  updates: Partial<OfflineInvoiceMetadata> = {}
+): Promise<OfflineInvoiceMetadata> {
+  if (!canTransitionOfflineInvoice(invoice.status, to)) {
+    throw new OfflineInvoiceTransitionError(invoice.id, invoice.status, to);
+  }
+  const changes = { ...updates, status: to };
+  await storage.update(invoice.id, changes);
+  return { ...invoice, ...changes };
+}
+
+/**
+ * Moves the invoice to `to` while `lease.owner` still holds its lease, renewing the lease.
+ * The transition is checked against the stored status within the same atomic update;
+ * throws `OfflineInvoiceTransitionError`, or `OfflineInvoiceLeaseError` when the lease is gone.
+ */
+export async function transitionLeasedOfflineInvoice(
+  storage: LeasableOfflineInvoiceStorage,
+  id: string,
+  lease: OfflineInvoiceLease,
+  to: OfflineInvoiceStatus,
+  updates: Partial<OfflineInvoiceMetadata> = {}
+): Promise<OfflineInvoiceMetadata> {
+  return await storage.updateLeased(id, lease, (invoice) => {
+    if (!canTransitionOfflineInvoice(invoice.status, to)) {
+      throw new OfflineInvoiceTransitionError(id, invoice.status, to);
+    }
+    return { ...updates, status: to };
+  });
+}
+
+/**
+ * Status and details to store for an invoice KSeF has finished processing: 200 is
+ * ACCEPTED with its KSeF number, any other final code REJECTED with the error.
+ * Returns null while KSeF is still processing (codes below 200).
+ */
+export function sessionInvoiceStatusUpdates(
+  status: SessionInvoiceStatus
+): Partial<OfflineInvoiceMetadata> & { status: OfflineInvoiceStatus } | null {
+  const { code, description, details } = status.status;
+  if (code < 200) {
+    return null;
+  }
+  if (code === 200) {
+    return { status: OfflineInvoiceStatus.ACCEPTED, ...(status.ksefNumber ? { ksefNumber: status.ksefNumber } : {}) };
+  }
+  return {
+    status: OfflineInvoiceStatus.REJECTED,
+    error: { code: String(code), message: description, ...(details ? { details } : {}) }
+  };
+}
+
+export function emptyBatchResult(): OfflineInvoiceBatchResult {
+  return { total: 0, submitted: 0, accepted: 0, rejected: 0, failed: 0, expired: 0, results: [] };
+}
+
+/** Submission result entry for an invoice KSeF accepted or rejected. */
+export function verdictResult(
+  invoice: OfflineInvoiceMetadata,
+  updates: Partial<OfflineInvoiceMetadata>,
+  now: Date
+): OfflineInvoiceSubmissionResult {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    success: updates.status === OfflineInvoiceStatus.ACCEPTED,
+    ...(invoice.ksefReferenceNumber ? { ksefReferenceNumber: invoice.ksefReferenceNumber } : {}),
+    ...(updates.error ? { error: { code: updates.error.code, message: updates.error.message } } : {}),
+    timestamp: now.toISOString()
+  };
+}
@@ -5,8 +5,13 @@
  * - https://github.com/CIRFMF/ksef-docs/blob/main/certyfikaty-KSeF.md
  */
 
+import { ProcessError } from '@/types/common.js';
 import type { ContextIdentifier } from '../types/common.js';
 import type { InvoiceQRCodes, OfflineCertificate } from '../qr/types.js';
+import type { QRCodeService } from '../qr/service.js';
+import type { SessionInvoiceStatus } from '../types/session.js';
+import type { OnlineSession } from '../workflows/online-session.js';
+import { BusinessDayCalendar, type NonBusinessDay } from './calendar.js';
 
 /**
  * Input data for generating offline invoices
@@ -35,10 +40,10 @@ export interface OfflineInvoiceInputData {
 /**
  * Offline invoice modes per tryby-offline.md
  * 
- * - offline24: Planned offline invoice (must submit within 24h)
- * - offline: Unplanned offline due to system unavailability
- * - awaryjny: Emergency mode during system failures
- * - awaria_calkowita: Total system failure mode
+ * - offline24: Planned offline invoice (submit by the next business day)
+ * - offline: Unplanned offline due to system unavailability (next business day after it ends)
+ * - awaryjny: Emergency mode during system failures (7 business days after it ends)
+ * - awaria_calkowita: Total system failure mode (7 business days after it ends)
  */
 export type OfflineMode = 'offline24' | 'offline' | 'awaryjny' | 'awaria_calkowita';
 
@@ -153,6 +158,12 @@ export interface OfflineInvoiceMetadata {
   /** KSeF reference number (after successful submission) */
   ksefReferenceNumber?: string;
   
+  /** Reference number of the online session the invoice was sent in */
+  sessionReferenceNumber?: string;
+  
+  /** KSeF number assigned once the invoice is accepted */
+  ksefNumber?: string;
+  
   /** Submission timestamp */
   submittedAt?: string;
   
@@ -162,6 +173,43 @@ export interface OfflineInvoiceMetadata {
     message: string;
     details?: unknown;
   };
+  
+  /** Changes of `submitBy` after generation, oldest first */
+  deadlineHistory?: OfflineDeadlineChange[];
+  
+  /** Worker currently processing the invoice (see `LeasableOfflineInvoiceStorage`) */
+  lease?: OfflineInvoiceLease;
+}
+
+/**
+ * Claim of a worker on an offline invoice
+ */
+export interface OfflineInvoiceLease {
+  /** Worker ID */
+  owner: string;
+  
+  /** When the claim lapses if the worker does not release it (ISO 8601) */
+  expiresAt: string;
+}
+
+/**
+ * Audit record of a submission deadline change
+ */
+export interface OfflineDeadlineChange {
+  /** Deadline before the change (ISO 8601) */
+  previousSubmitBy: string;
+  
+  /** Deadline after the change (ISO 8601) */
+  submitBy: string;
+  
+  /** When the change was made (ISO 8601) */
+  changedAt: string;
+  
+  /** Maintenance window that caused the change */
+  maintenanceWindowId: string;
+  
+  /** 'maintenanceWindow' when derived from the window end, 'manual' when a deadline was given explicitly */
+  source: 'maintenanceWindow' | 'manual';
 }
 
 /**
@@ -224,6 +272,104 @@ export interface OfflineInvoiceBatchOptions {
   continueOnError?: boolean;
 }
 
+/**
+ * Dependencies of `OfflineInvoiceManager`
+ */
+export interface OfflineInvoiceManagerOptions {
+  /** Where offline invoices are persisted; leases keep `submitPending` and workers apart */
+  storage: LeasableOfflineInvoiceStorage;
+  
+  /** Generates KOD I and KOD II; its environment decides the QR base URL */
+  qrCodes: QRCodeService;
+  
+  /** Looked up for deadlines of invoices generated during system unavailability */
+  maintenanceWindows?: MaintenanceWindowAPI;
+  
+  /** Business day calendar for deadlines (default: Polish public holidays, Europe/Warsaw) */
+  calendar?: BusinessDayCalendar;
+  
+  /** Offline certificate used by `sendOrQueue` unless the call provides one */
+  offlineCertificate?: OfflineCertificate;
+  
+  /** When it reports KSeF unavailable, `sendOrQueue` queues without trying online (e.g. `KsefAvailabilityMonitor`) */
+  availability?: { isAvailable(): boolean };
+  
+  /** Clock (default: `new Date()`) */
+  now?: () => Date;
+  
+  /** Id of a new offline invoice (default: `randomUUID()`) */
+  createId?: () => string;
+}
+
+/**
+ * Input of `OfflineInvoiceManager.sendOrQueue`
+ */
+export interface SendOrQueueContext {
+  /** Invoice metadata needed if the invoice has to be issued offline */
+  invoice: OfflineInvoiceInputData;
+  
+  /** Online session to send through, or a function opening one */
+  session: OnlineSession | (() => Promise<OnlineSession>);
+  
+  /** Options of the offline invoice (default mode: 'offline') */
+  offline?: OfflineInvoiceOptions;
+}
+
+/**
+ * Result of `OfflineInvoiceManager.sendOrQueue`
+ */
+export type SendOrQueueResult =
+  | {
+    status: 'sent';
+    /** Invoice reference number returned by KSeF */
+    referenceNumber: string;
+    /** Reference number of the online session */
+    sessionReferenceNumber: string;
+  }
+  | {
+    status: 'queued';
+    /** The stored offline invoice */
+    invoice: OfflineInvoiceMetadata;
+    /** KOD I and KOD II to print on the invoice */
+    qrCodes: InvoiceQRCodes;
+    /** Submission deadline (ISO 8601) */
+    submitBy: string;
+    /** Why the invoice was not sent online */
+    cause: string;
+  };
+
+/**
+ * Dependencies of `OfflineSubmissionWorker`
+ */
+export interface OfflineSubmissionWorkerOptions {
+  /** Invoices to process; leases keep concurrent workers apart */
+  storage: LeasableOfflineInvoiceStorage;
+  
+  /** Opens the online session pending invoices are sent in; it is closed after each run */
+  openSession: () => Promise<OnlineSession>;
+  
+  /** Reads the status of a sent invoice, e.g. `sessions.getInvoiceStatus(token, session, invoice)` */
+  getInvoiceStatus: (sessionReferenceNumber: string, invoiceReferenceNumber: string) => Promise<SessionInvoiceStatus>;
+  
+  /** Selection and error handling of each run (`statusFilter` defaults to GENERATED, QUEUED and EXPIRED) */
+  batch?: OfflineInvoiceBatchOptions;
+  
+  /** Interval between runs after `start` (default: 60 s) */
+  intervalMs?: number;
+  
+  /** How long a claimed invoice stays reserved for this worker (default: 5 min) */
+  leaseMs?: number;
+  
+  /** Lease owner (default: `randomUUID()`) */
+  workerId?: string;
+  
+  /** Called with errors of runs started by `start` */
+  onError?: (error: Error) => void;
+  
+  /** Clock (default: `new Date()`) */
+  now?: () => Date;
+}
+
 /**
  * Offline invoice batch result
  */
@@ -301,10 +447,58 @@ export interface OfflineInvoiceStorage {
   delete(id: string): Promise<void>;
 }
 
+/**
+ * Storage that lets several workers share invoices: a lease is taken atomically, so
+ * only one worker processes an invoice until it releases the lease or the lease expires
+ */
+export interface LeasableOfflineInvoiceStorage extends OfflineInvoiceStorage {
+  /**
+   * Give `lease` to the invoice unless another owner holds a lease that has not expired
+   * at `now`. Returns the leased invoice, or null when it is missing or held by another owner.
+   */
+  acquireLease(id: string, lease: OfflineInvoiceLease, now: Date): Promise<OfflineInvoiceMetadata | null>;
+  
+  /** Remove the invoice's lease if `owner` holds it */
+  releaseLease(id: string, owner: string): Promise<void>;
+  
+  /**
+   * Apply the updates returned by `change` and renew the lease to `lease`, as long as
+   * `lease.owner` still holds the invoice's lease. `change` receives the stored invoice
+   * inside the same atomic step, so checks it makes (e.g. on the status) cannot race
+   * with other writers. Returns the updated invoice; throws `OfflineInvoiceLeaseError`
+   * when the invoice is missing or its lease now belongs to someone else or nobody.
+   */
+  updateLeased(
+    id: string,
+    lease: OfflineInvoiceLease,
+    change: (invoice: OfflineInvoiceMetadata) => Partial<OfflineInvoiceMetadata>
+  ): Promise<OfflineInvoiceMetadata>;
+}
+
+/**
+ * Raised by `updateLeased` when the writer no longer holds the invoice's lease
+ */
+export class OfflineInvoiceLeaseError extends ProcessError {
+  constructor(
+    public readonly invoiceId: string,
+    public readonly owner: string
+  ) {
+    super(`Offline invoice ${invoiceId} is no longer leased to ${owner}`);
+    this.name = 'OfflineInvoiceLeaseError';
+  }
+}
+
+/**
+ * Whether `lease` stops `owner` from taking the invoice at `now`
+ */
+export function isLeaseHeldByOther(lease: OfflineInvoiceLease | undefined, owner: string, now: Date): boolean {
+  return lease !== undefined && lease.owner !== owner && Date.parse(lease.expiresAt) > now.getTime();
+}
+
 /**
  * In-memory storage implementation (for testing/simple use cases)
  */
-export class InMemoryOfflineInvoiceStorage implements OfflineInvoiceStorage {
+export class InMemoryOfflineInvoiceStorage implements LeasableOfflineInvoiceStorage {
   private invoices: Map<string, OfflineInvoiceMetadata> = new Map();
 
   async save(invoice: OfflineInvoiceMetadata): Promise<void> {
@@ -349,6 +543,38 @@ export class InMemoryOfflineInvoiceStorage implements OfflineInvoiceStorage {
     this.invoices.delete(id);
   }
 
+  async acquireLease(id: string, lease: OfflineInvoiceLease, now: Date): Promise<OfflineInvoiceMetadata | null> {
+    const invoice = this.invoices.get(id);
+    if (!invoice || isLeaseHeldByOther(invoice.lease, lease.owner, now)) {
+      return null;
+    }
+    const leased = { ...invoice, lease };
+    this.invoices.set(id, leased);
+    return leased;
+  }
+
+  async releaseLease(id: string, owner: string): Promise<void> {
+    const invoice = this.invoices.get(id);
+    if (invoice?.lease?.owner === owner) {
+      const { lease: _lease, ...released } = invoice;
+      this.invoices.set(id, released);
+    }
+  }
+
+  async updateLeased(
+    id: string,
+    lease: OfflineInvoiceLease,
+    change: (invoice: OfflineInvoiceMetadata) => Partial<OfflineInvoiceMetadata>
+  ): Promise<OfflineInvoiceMetadata> {
+    const invoice = this.invoices.get(id);
+    if (!invoice || invoice.lease?.owner !== lease.owner) {
+      throw new OfflineInvoiceLeaseError(id, lease.owner);
+    }
+    const updated = { ...invoice, ...change(invoice), id, lease };
+    this.invoices.set(id, updated);
+    return updated;
+  }
+
   /**
    * Clear all invoices (for testing)
    */
@@ -364,47 +590,121 @@ export class InMemoryOfflineInvoiceStorage implements OfflineInvoiceStorage {
   }
 }
 
+/**
+ * How a submission deadline was derived, as returned by `explainOfflineDeadline`
+ */
+export interface OfflineDeadlineExplanation {
+  /** Offline mode the rule belongs to */
+  mode: OfflineMode;
+  
+  /** The rule applied, e.g. "next business day after the invoice was generated" */
+  rule: string;
+  
+  /** What the business days are counted from */
+  basis: 'generatedAt' | 'maintenanceWindowEnd';
+  
+  /** Instant the count starts from (ISO 8601) */
+  basisTime: string;
+  
+  /**
+   * True when the mode counts from the end of the maintenance window but its end is
+   * not known yet, so the generation time was used. The real deadline will be later.
+   */
+  estimated: boolean;
+  
+  /** Calendar date the count starts after (YYYY-MM-DD, calendar time zone) */
+  startDate: string;
+  
+  /** Number of business days added */
+  businessDays: number;
+  
+  /** Weekends and holidays passed over while counting */
+  skippedDays: NonBusinessDay[];
+  
+  /** Last day for submission (YYYY-MM-DD, calendar time zone) */
+  deadlineDate: string;
+  
+  /** End of `deadlineDate` (ISO 8601) */
+  deadline: string;
+  
+  /** Time zone of the calendar dates */
+  timeZone: string;
+}
+
+const DEADLINE_RULES: Record<OfflineMode, { businessDays: number; afterMaintenance: boolean; rule: string }> = {
+  offline24: { businessDays: 1, afterMaintenance: false, rule: 'next business day after the invoice was generated' },
+  offline: { businessDays: 1, afterMaintenance: true, rule: 'next business day after KSeF unavailability ended' },
+  awaryjny: { businessDays: 7, afterMaintenance: true, rule: '7 business days after the KSeF failure ended' },
+  awaria_calkowita: { businessDays: 7, afterMaintenance: true, rule: '7 business days after the KSeF failure ended' }
+};
+
+const defaultCalendar = new BusinessDayCalendar();
+
+/**
+ * Derive the submission deadline of an offline invoice per tryby-offline.md: the end
+ * (Europe/Warsaw) of the next business day after generation for offline24, the next
+ * business day after the unavailability ends for offline, and 7 business days after
+ * the failure ends for awaryjny and awaria_calkowita.
+ * 
+ * @param mode Offline mode
+ * @param generatedAt Invoice generation time (default: now)
+ * @param maintenanceWindow Maintenance window the invoice was generated in
+ * @param calendar Business day calendar (default: Polish public holidays, Europe/Warsaw)
+ */
+export function explainOfflineDeadline(
+  mode: OfflineMode,
+  generatedAt: Date = new Date(),
+  maintenanceWindow?: MaintenanceWindow,
+  calendar: BusinessDayCalendar = defaultCalendar
+): OfflineDeadlineExplanation {
+  const rule = DEADLINE_RULES[mode];
+  if (!rule) {
+    throw new Error(`Unknown offline mode: ${mode}`);
+  }
+  
+  const windowEnd = rule.afterMaintenance && maintenanceWindow?.endTime
+    ? new Date(maintenanceWindow.endTime)
+    : null;
+  if (windowEnd && Number.isNaN(windowEnd.getTime())) {
+    throw new Error(`Invalid maintenance window endTime: ${maintenanceWindow?.endTime}`);
+  }
+  const basisTime = windowEnd ?? generatedAt;
+  const startDate = calendar.dateOf(basisTime);
+  const { date: deadlineDate, skippedDays } = calendar.addBusinessDays(startDate, rule.businessDays);
+  
+  return {
+    mode,
+    rule: rule.rule,
+    basis: windowEnd ? 'maintenanceWindowEnd' : 'generatedAt',
+    basisTime: basisTime.toISOString(),
+    estimated: rule.afterMaintenance && !windowEnd,
+    startDate,
+    businessDays: rule.businessDays,
+    skippedDays,
+    deadlineDate,
+    deadline: calendar.endOfDay(deadlineDate).toISOString(),
+    timeZone: calendar.timeZone
+  };
+}
+
 /**
  * Calculate submission deadline for offline invoice
+ * See `explainOfflineDeadline` for the rules; while the end of the maintenance window
+ * is unknown, modes that count from it use the generation time instead.
  * 
  * @param mode Offline mode
  * @param generatedAt Invoice generation time (default: now)
  * @param maintenanceWindow Optional maintenance window for deadline extension
+ * @param calendar Business day calendar (default: Polish public holidays, Europe/Warsaw)
  * @returns Calculated deadline
  */
 export function calculateOfflineDeadline(
   mode: OfflineMode, 
   generatedAt: Date = new Date(),
-  maintenanceWindow?: MaintenanceWindow
+  maintenanceWindow?: MaintenanceWindow,
+  calendar: BusinessDayCalendar = defaultCalendar
 ): Date {
-  const deadline = new Date(generatedAt);
-  
-  switch (mode) {
-    case 'offline24':
-      // Must be submitted within 24 hours from generation
-      deadline.setHours(deadline.getHours() + 24);
-      break;
-      
-    case 'offline':
-    case 'awaryjny':
-    case 'awaria_calkowita':
-      // For system unavailability modes, deadline calculation is pending official guidance
-      // Currently: assume 24h after maintenance window ends (if known), otherwise 7 days
-      if (maintenanceWindow?.endTime) {
-        const maintenanceEnd = new Date(maintenanceWindow.endTime);
-        deadline.setTime(maintenanceEnd.getTime());
-        deadline.setHours(deadline.getHours() + 24); // 24h after system is back
-      } else {
-        // Conservative fallback: 7 days from generation
-        deadline.setDate(deadline.getDate() + 7);
-      }
-      break;
-      
-    default:
-      throw new Error(`Unknown offline mode: ${mode}`);
-  }
-  
-  return deadline;
+  return new Date(explainOfflineDeadline(mode, generatedAt, maintenanceWindow, calendar).deadline);
 }
 
 /**
@@ -413,25 +713,62 @@ export function calculateOfflineDeadline(
  * 
  * @param currentDeadline Current deadline
  * @param maintenanceWindow Updated maintenance window
+ * @param mode Offline mode of the invoice (default: offline)
+ * @param calendar Business day calendar (default: Polish public holidays, Europe/Warsaw)
  * @returns New extended deadline
  */
 export function extendDeadlineForMaintenance(
   currentDeadline: Date,
-  maintenanceWindow: MaintenanceWindow
+  maintenanceWindow: MaintenanceWindow,
+  mode: OfflineMode = 'offline',
+  calendar: BusinessDayCalendar = defaultCalendar
 ): Date {
-  if (!maintenanceWindow.endTime) {
-    // If maintenance end time is unknown, keep current deadline
+  if (!maintenanceWindow.endTime || !DEADLINE_RULES[mode]?.afterMaintenance) {
+    // Unknown end, or a mode whose deadline does not depend on the window
     return currentDeadline;
   }
   
-  const maintenanceEnd = new Date(maintenanceWindow.endTime);
-  const extendedDeadline = new Date(maintenanceEnd);
-  extendedDeadline.setHours(extendedDeadline.getHours() + 24); // 24h after maintenance ends
+  const extendedDeadline = calculateOfflineDeadline(mode, currentDeadline, maintenanceWindow, calendar);
   
   // Only extend if new deadline is later than current
   return extendedDeadline > currentDeadline ? extendedDeadline : currentDeadline;
 }
 
+/**
+ * Dependencies of `MaintenanceWindowService`
+ */
+export interface MaintenanceWindowServiceOptions {
+  /** Where maintenance windows are persisted */
+  windows: MaintenanceWindowStore;
+  
+  /** Offline invoices linked to windows through `maintenanceWindowId`; deadlines change under a lease */
+  invoices: LeasableOfflineInvoiceStorage;
+  
+  /** Business day calendar for deadlines (default: Polish public holidays, Europe/Warsaw) */
+  calendar?: BusinessDayCalendar;
+  
+  /** Clock (default: `new Date()`) */
+  now?: () => Date;
+  
+  /** Id of a registered window (default: `randomUUID()`) */
+  createId?: () => string;
+}
+
+/**
+ * Maintenance window storage interface
+ * Implement this to persist maintenance windows for `MaintenanceWindowService`
+ */
+export interface MaintenanceWindowStore {
+  /** Save (insert or replace) a maintenance window */
+  save(window: MaintenanceWindow): Promise<void>;
+  
+  /** Get maintenance window by ID */
+  get(id: string): Promise<MaintenanceWindow | null>;
+  
+  /** List all maintenance windows */
+  list(): Promise<MaintenanceWindow[]>;
+}
+
 /**
  * External maintenance window API interface
  * Implement this to integrate with your external storage system
@@ -0,0 +1,390 @@
+import { randomUUID } from 'node:crypto';
+import type { SessionInvoiceStatus } from '../types/session.js';
+import type { OnlineSession } from '../workflows/online-session.js';
+import {
+  emptyBatchResult,
+  sessionInvoiceStatusUpdates,
+  transitionLeasedOfflineInvoice,
+  verdictResult
+} from './state.js';
+import {
+  OfflineInvoiceLeaseError,
+  OfflineInvoiceStatus,
+  type OfflineInvoiceBatchResult,
+  type OfflineInvoiceMetadata,
+  type OfflineInvoiceSubmissionResult,
+  type OfflineSubmissionWorkerOptions
+} from './types.js';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_STATUS_FILTER = [
+  OfflineInvoiceStatus.GENERATED,
+  OfflineInvoiceStatus.QUEUED,
+  OfflineInvoiceStatus.EXPIRED
+];
+
+type OfflineInvoiceOutcome = 'submitted' | 'accepted' | 'rejected' | 'failed' | 'expired';
+
+/**
+ * Result of one run with one entry per invoice: an invoice that reaches another outcome
+ * later in the same run (e.g. expired, then sent late) is reported with the last one.
+ */
+class RunResult {
+  readonly result = emptyBatchResult();
+  private readonly outcomes = new Map<string, OfflineInvoiceOutcome>();
+
+  record(outcome: OfflineInvoiceOutcome, entry: OfflineInvoiceSubmissionResult): void {
+    const previous = this.outcomes.get(entry.id);
+    if (previous) {
+      this.result[previous]--;
+      this.result.results.splice(this.result.results.findIndex((earlier) => earlier.id === entry.id), 1);
+    } else {
+      this.result.total++;
+    }
+    this.outcomes.set(entry.id, outcome);
+    this.result[outcome]++;
+    this.result.results.push(entry);
+  }
+}
+
+/**
+ * Drives stored offline invoices through their statuses. Each run
+ * 1. marks GENERATED and QUEUED invoices past their deadline EXPIRED,
+ * 2. sends up to `batchSize` invoices from `statusFilter` (GENERATED, QUEUED and
+ *    EXPIRED by default, since late invoices still have to reach KSeF), earliest
+ *    deadline first (only those due within `expiringWithinHours` when set), in one
+ *    online session with `offlineMode: true`,
+ * 3. polls every SUBMITTED invoice and records ACCEPTED with its KSeF number, or
+ *    REJECTED with the error details.
+ * An invoice appears once in the result of a run, with the last outcome it reached.
+ *
+ * Every invoice is leased before it is touched, so workers in several processes can
+ * share one storage. Each write goes through `updateLeased`, which renews the lease and
+ * fails once another worker has taken the invoice over (e.g. after this worker stalled
+ * past `leaseMs`); such an invoice is skipped. Status changes are checked against
+ * `OFFLINE_INVOICE_TRANSITIONS` on the stored status.
+ */
+export class OfflineSubmissionWorker {
+  readonly workerId: string;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<OfflineInvoiceBatchResult> | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: OfflineSubmissionWorkerOptions) {
+    this.workerId = options.workerId ?? randomUUID();
+  }
+
+  /** Runs every `intervalMs` until `stop`; a run still in progress is not overlapped. */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (!this.running) {
+        this.runOnce().catch((error: unknown) => {
+          this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+        });
+      }
+    }, this.options.intervalMs ?? 60_000);
+    this.timer.unref?.();
+  }
+
+  /** Stops scheduling runs and waits for the current one. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  async runOnce(): Promise<OfflineInvoiceBatchResult> {
+    if (this.running) {
+      return await this.running;
+    }
+    this.running = this.exclusive(() => this.run());
+    try {
+      return await this.running;
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  /**
+   * Expires overdue invoices and sends pending ones like a run does, but through
+   * `session`, which is left open for the caller. Submitted invoices are not polled.
+   */
+  async submitPending(session: OnlineSession): Promise<OfflineInvoiceBatchResult> {
+    return await this.exclusive(async () => {
+      const run = new RunResult();
+      await this.expireOverdue(run);
+      await this.submitDue(run, session);
+      return run.result;
+    });
+  }
+
+  /**
+   * Records KSeF's verdict for the invoices submitted in `session`, read from
+   * `session.invoiceStatuses()`. Invoices still being processed stay SUBMITTED.
+   */
+  async reconcile(session: OnlineSession): Promise<OfflineInvoiceBatchResult> {
+    return await this.exclusive(async () => {
+      const run = new RunResult();
+      await this.pollSubmitted(run, session);
+      return run.result;
+    });
+  }
+
+  /** Runs `task` after the previous run, submission or reconciliation of this worker. */
+  private async exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return await next;
+  }
+
+  private async run(): Promise<OfflineInvoiceBatchResult> {
+    const run = new RunResult();
+    await this.expireOverdue(run);
+    const proceed = await this.submitDue(run);
+    if (proceed) {
+      await this.pollSubmitted(run);
+    }
+    return run.result;
+  }
+
+  private async expireOverdue(run: RunResult): Promise<void> {
+    const now = this.now();
+    const overdue = await this.options.storage.list({
+      status: [OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.QUEUED],
+      expiringBefore: now.toISOString()
+    });
+    for (const candidate of overdue) {
+      await this.withLease(candidate.id, async (invoice) => {
+        if (!isOverdue(invoice, now) || invoice.status === OfflineInvoiceStatus.EXPIRED) {
+          return;
+        }
+        await transitionLeasedOfflineInvoice(this.options.storage, invoice.id, this.lease(), OfflineInvoiceStatus.EXPIRED);
+        run.record('expired', {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          success: false,
+          error: { code: 'EXPIRED', message: `Submission deadline passed at ${invoice.submitBy}` },
+          timestamp: now.toISOString()
+        });
+      });
+    }
+  }
+
+  /**
+   * Sends through `provided` when given, otherwise through a session opened and closed
+   * here. Returns false when the run should stop because of `continueOnError: false`.
+   */
+  private async submitDue(run: RunResult, provided?: OnlineSession): Promise<boolean> {
+    const { storage, batch = {} } = this.options;
+    const now = this.now();
+    const statusFilter = batch.statusFilter ?? DEFAULT_STATUS_FILTER;
+    const candidates = (await storage.list({
+      status: statusFilter,
+      ...(batch.expiringWithinHours !== undefined
+        ? { expiringBefore: new Date(now.getTime() + batch.expiringWithinHours * 3_600_000).toISOString() }
+        : {})
+    }))
+      .filter((invoice) => invoice.status === OfflineInvoiceStatus.EXPIRED || !isOverdue(invoice, now))
+      .sort((left, right) => Date.parse(left.submitBy) - Date.parse(right.submitBy));
+
+    const leased: OfflineInvoiceMetadata[] = [];
+    for (const candidate of candidates) {
+      if (leased.length >= (batch.batchSize ?? DEFAULT_BATCH_SIZE)) {
+        break;
+      }
+      const invoice = await storage.acquireLease(candidate.id, this.lease(), now);
+      if (invoice && statusFilter.includes(invoice.status)) {
+        leased.push(invoice);
+      } else if (invoice) {
+        await storage.releaseLease(invoice.id, this.workerId);
+      }
+    }
+    if (leased.length === 0) {
+      return true;
+    }
+
+    let session = provided;
+    try {
+      if (!session) {
+        try {
+          session = await this.options.openSession();
+        } catch (error) {
+          for (const invoice of leased) {
+            await this.recordFailure(run, invoice, 'SUBMISSION_FAILED', error);
+          }
+          return batch.continueOnError !== false;
+        }
+      }
+
+      for (const invoice of leased) {
+        const timestamp = this.now().toISOString();
+        try {
+          // Renews the lease right before sending and fails if it was lost meanwhile.
+          await transitionLeasedOfflineInvoice(storage, invoice.id, this.lease(), OfflineInvoiceStatus.QUEUED);
+        } catch (error) {
+          if (error instanceof OfflineInvoiceLeaseError) {
+            continue;
+          }
+          throw error;
+        }
+        let sent: { referenceNumber: string };
+        try {
+          sent = await session.send(invoice.invoiceXml, { offlineMode: true });
+        } catch (error) {
+          await this.recordFailure(run, invoice, 'SUBMISSION_FAILED', error);
+          if (batch.continueOnError === false) {
+            return false;
+          }
+          continue;
+        }
+        try {
+          await transitionLeasedOfflineInvoice(storage, invoice.id, this.lease(), OfflineInvoiceStatus.SUBMITTED, {
+            ksefReferenceNumber: sent.referenceNumber,
+            sessionReferenceNumber: session.referenceNumber,
+            submittedAt: timestamp
+          });
+        } catch (error) {
+          // KSeF has the invoice either way; reporting it as failed would invite a second send.
+          if (!(error instanceof OfflineInvoiceLeaseError)) {
+            throw error;
+          }
+        }
+        run.record('submitted', {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          success: true,
+          ksefReferenceNumber: sent.referenceNumber,
+          timestamp
+        });
+      }
+      return true;
+    } finally {
+      if (!provided) {
+        await session?.close().catch(() => {
+          // KSeF closes idle sessions itself; sent invoices are processed either way.
+        });
+      }
+      for (const invoice of leased) {
+        await storage.releaseLease(invoice.id, this.workerId);
+      }
+    }
+  }
+
+  /**
+   * Polls `getInvoiceStatus` for every SUBMITTED invoice or, with `session`, reads the
+   * statuses of the invoices sent in that session from one `invoiceStatuses()` listing.
+   */
+  private async pollSubmitted(run: RunResult, session?: OnlineSession): Promise<void> {
+    const submitted = (await this.options.storage.list({ status: [OfflineInvoiceStatus.SUBMITTED] }))
+      .filter((invoice) => !session || invoice.sessionReferenceNumber === session.referenceNumber)
+      .sort((left, right) => (left.submittedAt ?? '').localeCompare(right.submittedAt ?? ''));
+    let sessionStatuses: Promise<Map<string, SessionInvoiceStatus>> | undefined;
+    const getStatus = async (sessionReferenceNumber: string, invoiceReferenceNumber: string) => {
+      if (!session) {
+        return await this.options.getInvoiceStatus(sessionReferenceNumber, invoiceReferenceNumber);
+      }
+      sessionStatuses ??= session.invoiceStatuses()
+        .then((statuses) => new Map(statuses.map((status) => [status.referenceNumber, status])));
+      return (await sessionStatuses).get(invoiceReferenceNumber);
+    };
+
+    for (const candidate of submitted) {
+      const proceed = await this.withLease(candidate.id, async (invoice) => {
+        if (
+          invoice.status !== OfflineInvoiceStatus.SUBMITTED
+          || !invoice.sessionReferenceNumber
+          || !invoice.ksefReferenceNumber
+        ) {
+          return true;
+        }
+        let updates: ReturnType<typeof sessionInvoiceStatusUpdates>;
+        try {
+          const status = await getStatus(invoice.sessionReferenceNumber, invoice.ksefReferenceNumber);
+          updates = status ? sessionInvoiceStatusUpdates(status) : null;
+        } catch (error) {
+          await this.recordFailure(run, invoice, 'STATUS_CHECK_FAILED', error);
+          return this.options.batch?.continueOnError !== false;
+        }
+        if (!updates) {
+          return true;
+        }
+
+        const { status: next, ...details } = updates;
+        await transitionLeasedOfflineInvoice(this.options.storage, invoice.id, this.lease(), next, details);
+        run.record(
+          next === OfflineInvoiceStatus.ACCEPTED ? 'accepted' : 'rejected',
+          verdictResult(invoice, updates, this.now())
+        );
+        return true;
+      });
+      if (proceed === false) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Runs `action` on the leased invoice; returns undefined when another worker holds it
+   * or takes it over before `action` is done.
+   */
+  private async withLease<T>(id: string, action: (invoice: OfflineInvoiceMetadata) => Promise<T>): Promise<T | undefined> {
+    const invoice = await this.options.storage.acquireLease(id, this.lease(), this.now());
+    if (!invoice) {
+      return undefined;
+    }
+    try {
+      return await action(invoice);
+    } catch (error) {
+      if (error instanceof OfflineInvoiceLeaseError) {
+        return undefined;
+      }
+      throw error;
+    } finally {
+      await this.options.storage.releaseLease(id, this.workerId);
+    }
+  }
+
+  private async recordFailure(
+    run: RunResult,
+    invoice: OfflineInvoiceMetadata,
+    code: string,
+    error: unknown
+  ): Promise<void> {
+    const failure = { code, message: error instanceof Error ? error.message : String(error) };
+    try {
+      await this.options.storage.updateLeased(invoice.id, this.lease(), () => ({ error: failure }));
+    } catch (updateError) {
+      // The worker that took the invoice over records its own outcome.
+      if (!(updateError instanceof OfflineInvoiceLeaseError)) {
+        throw updateError;
+      }
+    }
+    run.record('failed', {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      success: false,
+      error: failure,
+      timestamp: this.now().toISOString()
+    });
+  }
+
+  private lease(): { owner: string; expiresAt: string } {
+    return {
+      owner: this.workerId,
+      expiresAt: new Date(this.now().getTime() + (this.options.leaseMs ?? 5 * 60_000)).toISOString()
+    };
+  }
+
+  private now(): Date {
+    return (this.options.now ?? (() => new Date()))();
+  }
+}
+
+function isOverdue(invoice: OfflineInvoiceMetadata, now: Date): boolean {
+  return Date.parse(invoice.submitBy) <= now.getTime();
+}
@@ -0,0 +1,126 @@
+/**
+ * Async-iterator helpers for the two pagination styles used by API v2:
+ * - `x-continuation-token` header (sessions, session invoices, tokens, auth sessions)
+ * - `pageOffset` + `hasMore` (invoice metadata, permissions, certificates, Peppol providers)
+ */
+
+export interface PaginationLimits {
+  /** Stop after yielding this many items in total. */
+  maxItems?: number;
+  /** Safety cap on the number of pages fetched (default: 10000). */
+  maxPages?: number;
+}
+
+export interface PaginationOptions extends PaginationLimits {
+  /** Page size requested from the API. */
+  pageSize?: number;
+}
+
+export interface ContinuationTokenPage<T> {
+  items: T[];
+  continuationToken?: string | null | undefined;
+}
+
+export interface PageOffsetPage<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+const DEFAULT_MAX_PAGES = 10_000;
+
+/**
+ * Follows continuation tokens until the API stops returning one. Throws when the
+ * API repeats a token, which would otherwise loop forever.
+ */
+export async function* paginateByContinuationToken<T>(
+  fetchPage: (continuationToken: string | undefined) => Promise<ContinuationTokenPage<T>>,
+  label: string,
+  limits: PaginationLimits = {}
+): AsyncGenerator<T, void, undefined> {
+  const maxPages = resolveMaxPages(limits);
+  const maxItems = limits.maxItems ?? Number.POSITIVE_INFINITY;
+  const seenTokens = new Set<string>();
+  let continuationToken: string | undefined;
+  let yielded = 0;
+
+  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+    const page = await fetchPage(continuationToken);
+    for (const item of page.items) {
+      if (yielded >= maxItems) {
+        return;
+      }
+      yield item;
+      yielded++;
+    }
+
+    continuationToken = page.continuationToken ?? undefined;
+    if (!continuationToken || yielded >= maxItems) {
+      return;
+    }
+    if (seenTokens.has(continuationToken)) {
+      throw new Error(`${label} pagination returned a repeated continuation token`);
+    }
+    seenTokens.add(continuationToken);
+  }
+
+  throw new Error(`${label} pagination exceeded ${maxPages} pages`);
+}
+
+/**
+ * Walks `pageOffset = 0, 1, 2, ...` while the API reports `hasMore`. Throws when a
+ * page claims more results but returns no items, which would otherwise loop forever.
+ */
+export async function* paginateByPageOffset<T>(
+  fetchPage: (pageOffset: number) => Promise<PageOffsetPage<T>>,
+  label: string,
+  limits: PaginationLimits = {}
+): AsyncGenerator<T, void, undefined> {
+  const maxPages = resolveMaxPages(limits);
+  const maxItems = limits.maxItems ?? Number.POSITIVE_INFINITY;
+  let yielded = 0;
+
+  for (let pageOffset = 0; pageOffset < maxPages; pageOffset++) {
+    const page = await fetchPage(pageOffset);
+    for (const item of page.items) {
+      if (yielded >= maxItems) {
+        return;
+      }
+      yield item;
+      yielded++;
+    }
+
+    if (!page.hasMore || yielded >= maxItems) {
+      return;
+    }
+    if (page.items.length === 0) {
+      throw new Error(`${label} pagination reported more results on an empty page (pageOffset ${pageOffset})`);
+    }
+  }
+
+  throw new Error(`${label} pagination exceeded ${maxPages} pages`);
+}
+
+/** Builds the `{ pageOffset, pageSize? }` options accepted by the `query*` service methods. */
+export function pageOffsetOptions(
+  pageOffset: number,
+  pageSize: number | undefined
+): { pageOffset: number; pageSize?: number } {
+  return pageSize !== undefined ? { pageOffset, pageSize } : { pageOffset };
+}
+
+/** Drains an async iterable into an array. */
+export async function collectAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+function resolveMaxPages(limits: PaginationLimits): number {
+  const maxPages = limits.maxPages ?? DEFAULT_MAX_PAGES;
+  if (!Number.isInteger(maxPages) || maxPages <= 0) {
+    throw new Error('maxPages must be a positive integer');
+  }
+  return maxPages;
+}
@@ -0,0 +1,97 @@
+/**
+ * Downloads from the pre-signed storage links returned by KSeF (export package parts,
+ * UPO pages): per-attempt time limit, retries with exponential backoff, and a fresh
+ * link from the API when the current one has expired or was rejected with 401/403.
+ */
+import { sleep } from './workflows/polling.js';
+
+export const DEFAULT_PRESIGNED_DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+
+export interface PresignedDownloadResponse {
+  body: Buffer;
+  headers: Headers;
+}
+
+export interface PresignedDownloadRetryOptions<T> {
+  /** Attempts including the first one (default: 3). */
+  downloadAttempts?: number | undefined;
+  /** Delay before the first retry, doubled for each further attempt (default: 1000). */
+  retryDelayMs?: number | undefined;
+  /** Names the download in the final error, e.g. `export part #2`. */
+  description: string;
+  /** Expiration date of the link held by `item`. */
+  expiresAt: (item: T) => string;
+  /** Returns `item` with a fresh link; without it expired links are tried as they are. */
+  refresh?: ((item: T) => Promise<T>) | undefined;
+}
+
+class PresignedLinkRejectedError extends Error {}
+
+/**
+ * Runs `download` until it succeeds or the attempts are used up, refreshing the link
+ * before an attempt when it has expired or the previous one was rejected.
+ */
+export async function downloadWithRetry<T, R>(
+  item: T,
+  download: (item: T) => Promise<R>,
+  options: PresignedDownloadRetryOptions<T>
+): Promise<R> {
+  const attempts = options.downloadAttempts ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1_000;
+  let current = item;
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      if (options.refresh && (lastError instanceof PresignedLinkRejectedError || isLinkExpired(options.expiresAt(current)))) {
+        current = await options.refresh(current);
+      }
+      return await download(current);
+    } catch (error) {
+      lastError = error;
+      if (attempt < attempts) {
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new Error(`Failed to download ${options.description} after ${attempts} attempts: ${reason}`);
+}
+
+/**
+ * Fetches a pre-signed link and reads the whole body within `timeoutMs`. Throws on
+ * non-2xx responses; 401/403 mark the link for refreshing by `downloadWithRetry`.
+ */
+export async function fetchPresigned(url: string, method: string, timeoutMs: number): Promise<PresignedDownloadResponse> {
+  const fetchImpl = globalThis.fetch;
+  if (!fetchImpl) {
+    throw new Error('Global fetch is not available. Please provide a polyfill (Node 18+ required).');
+  }
+
+  // The signal also aborts reading the body, so a stalled transfer cannot hang the download.
+  const signal = AbortSignal.timeout(timeoutMs);
+  let response: Response;
+  let body: Buffer;
+  try {
+    response = await fetchImpl(url, { method, signal });
+    body = response.ok ? Buffer.from(await response.arrayBuffer()) : Buffer.alloc(0);
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error(`timed out after ${timeoutMs} ms`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    const message = `HTTP ${response.status} ${response.statusText}`;
+    throw response.status === 401 || response.status === 403
+      ? new PresignedLinkRejectedError(message)
+      : new Error(message);
+  }
+  return { body, headers: response.headers };
+}
+
+function isLinkExpired(expirationDate: string): boolean {
+  const expiresAt = Date.parse(expirationDate);
+  return !Number.isNaN(expiresAt) && expiresAt <= Date.now();
+}
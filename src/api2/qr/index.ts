@@ -6,4 +6,5 @@
 export * from './types.js';
 export * from './signing.js';
 export * from './service.js';
+export * from './verify.js';
 
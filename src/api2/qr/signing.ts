@@ -160,6 +160,66 @@ export function verifyRSA_PSS(
   }
 }
 
+/**
+ * Verify an ECDSA P-256 signature
+ *
+ * Accepts IEEE P1363 (64 bytes, as generated) and DER encoded signatures.
+ * Keys on other curves never verify.
+ */
+export function verifyECDSA_P256(
+  data: string,
+  signatureBase64URL: string,
+  publicKey: KeyLike
+): boolean {
+  try {
+    const signature = Buffer.from(fromBase64URL(signatureBase64URL), 'base64');
+    const keyObject: KeyObject = publicKey instanceof KeyObject
+      ? publicKey
+      : createPublicKey(publicKey);
+
+    if (keyObject.asymmetricKeyType !== 'ec' || keyObject.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+      return false;
+    }
+
+    return verify(
+      'sha256',
+      Buffer.from(data, 'utf8'),
+      {
+        key: keyObject,
+        dsaEncoding: signature.length === 64 ? 'ieee-p1363' : 'der'
+      },
+      signature
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a KOD II signature with the algorithm matching the public key
+ * (RSA-PSS for RSA keys, ECDSA P-256 for EC keys)
+ */
+export function verifyAuto(
+  data: string,
+  signatureBase64URL: string,
+  publicKey: KeyLike
+): boolean {
+  let keyObject: KeyObject;
+  try {
+    keyObject = publicKey instanceof KeyObject ? publicKey : createPublicKey(publicKey);
+  } catch {
+    return false;
+  }
+
+  if (keyObject.asymmetricKeyType === 'ec') {
+    return verifyECDSA_P256(data, signatureBase64URL, keyObject);
+  }
+  if (keyObject.asymmetricKeyType === 'rsa') {
+    return verifyRSA_PSS(data, signatureBase64URL, keyObject);
+  }
+  return false;
+}
+
 /**
  * Extract path from URL for signing
  *
@@ -3,6 +3,7 @@
  * Based on: https://github.com/CIRFMF/ksef-docs/blob/main/kody-qr.md
  */
 
+import type { KeyObject, X509Certificate } from 'node:crypto';
 import type { ApiV2Environment, ContextIdentifier } from '../types/common.js';
 
 /** QR code output format */
@@ -144,6 +145,70 @@ export interface InvoiceQRCodes {
   isOffline: boolean;
 }
 
+/** Fields of a KOD I URL */
+export interface ParsedKod1Url {
+  type: 'invoice';
+
+  /** Environment whose QR host the URL points to */
+  environment: ApiV2Environment;
+
+  /** The parsed URL */
+  url: string;
+
+  /** Seller NIP */
+  sellerNip: string;
+
+  /** Invoice issue date (YYYY-MM-DD) */
+  invoiceDate: string;
+
+  /** SHA-256 of the invoice XML (Base64URL) */
+  invoiceHash: string;
+}
+
+/** Fields of a KOD II URL */
+export interface ParsedKod2Url {
+  type: 'certificate';
+
+  /** Environment whose QR host the URL points to */
+  environment: ApiV2Environment;
+
+  /** The parsed URL */
+  url: string;
+
+  /** Context the offline certificate was used in */
+  contextIdentifier: ContextIdentifier;
+
+  /** Seller NIP */
+  sellerNip: string;
+
+  /** Serial number of the offline certificate (hex) */
+  certificateSerialNumber: string;
+
+  /** SHA-256 of the invoice XML (Base64URL) */
+  invoiceHash: string;
+
+  /** Signature over `signedData` (Base64URL) */
+  signature: string;
+
+  /** Signed part of the URL: host and path up to the invoice hash, as `extractPathForSigning` returns it */
+  signedData: string;
+}
+
+/** KOD I or KOD II URL, told apart by `type` */
+export type ParsedQRCodeUrl = ParsedKod1Url | ParsedKod2Url;
+
+/** Offline certificate verifying KOD II: X.509 certificate (PEM or DER) or its public key */
+export type QRVerificationCertificate = string | Buffer | KeyObject | X509Certificate;
+
+/** QR code verification options */
+export interface QRCodeVerificationOptions {
+  /** Environment the code must belong to (default: any environment in `QR_BASE_URLS`) */
+  environment?: ApiV2Environment;
+
+  /** Invoice XML whose hash KOD II must carry (`verifyKod1` always takes it) */
+  invoiceXml?: string;
+}
+
 /** QR base URLs by environment */
 export const QR_BASE_URLS: Record<ApiV2Environment, string> = {
   test: 'https://qr-test.ksef.mf.gov.pl',
@@ -0,0 +1,247 @@
+/**
+ * KOD I and KOD II verification for invoices received outside KSeF
+ * Based on: https://github.com/CIRFMF/ksef-docs/blob/main/kody-qr.md
+ */
+
+import { createHash, createPublicKey, KeyObject, X509Certificate } from 'node:crypto';
+import { KsefApiError } from '@/types/common.js';
+import { ContextIdentifierType, type ApiV2Environment } from '../types/common.js';
+import { extractPathForSigning, verifyAuto } from './signing.js';
+import {
+  QR_BASE_URLS,
+  fromBase64URL,
+  toBase64URL,
+  type ParsedKod1Url,
+  type ParsedKod2Url,
+  type ParsedQRCodeUrl,
+  type QRCodeVerificationOptions,
+  type QRVerificationCertificate
+} from './types.js';
+
+export type QRCodeVerificationErrorCode =
+  | 'QR_URL_MALFORMED'
+  | 'QR_HOST_UNKNOWN'
+  | 'QR_ENVIRONMENT_MISMATCH'
+  | 'QR_HASH_MISMATCH'
+  | 'QR_CERTIFICATE_MISMATCH'
+  | 'QR_SIGNATURE_INVALID';
+
+/** Raised when a KOD I or KOD II URL cannot be parsed or fails a check. */
+export class QRCodeVerificationError extends KsefApiError {
+  declare readonly code: QRCodeVerificationErrorCode;
+
+  constructor(message: string, code: QRCodeVerificationErrorCode) {
+    super(message, { code });
+    this.name = 'QRCodeVerificationError';
+  }
+}
+
+const NIP_PATTERN = /^\d{10}$/;
+const DATE_PATTERN = /^(\d{2})-(\d{2})-(\d{4})$/;
+const HASH_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+const SERIAL_PATTERN = /^[0-9A-Fa-f]+$/;
+const CONTEXT_TYPES = new Set<string>(Object.values(ContextIdentifierType));
+
+/**
+ * Splits a KOD I (`/invoice/{nip}/{DD-MM-YYYY}/{hash}`) or KOD II
+ * (`/certificate/{contextType}/{contextValue}/{nip}/{serial}/{hash}/{signature}`) URL
+ * into its fields. The host must be one of `QR_BASE_URLS`.
+ */
+export function parseQRCodeUrl(url: string): ParsedQRCodeUrl {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new QRCodeVerificationError(`Not a URL: ${url}`, 'QR_URL_MALFORMED');
+  }
+
+  const environment = environmentOf(parsed);
+  const segments = parsed.pathname.replace(/\/$/, '').split('/').slice(1);
+  const [kind, ...fields] = segments;
+
+  if (kind === 'invoice' && fields.length === 3) {
+    const [sellerNip, date, invoiceHash] = fields as [string, string, string];
+    return {
+      type: 'invoice',
+      environment,
+      url,
+      sellerNip: checkNip(sellerNip, url),
+      invoiceDate: checkDate(date, url),
+      invoiceHash: checkHash(invoiceHash, url)
+    };
+  }
+
+  if (kind === 'certificate' && fields.length === 6) {
+    const [contextType, contextValue, sellerNip, serialNumber, invoiceHash, signature] = fields as [
+      string, string, string, string, string, string
+    ];
+    if (!CONTEXT_TYPES.has(contextType)) {
+      throw new QRCodeVerificationError(`Unknown context identifier type "${contextType}" in ${url}`, 'QR_URL_MALFORMED');
+    }
+    if (!SERIAL_PATTERN.test(serialNumber)) {
+      throw new QRCodeVerificationError(`Invalid certificate serial number "${serialNumber}" in ${url}`, 'QR_URL_MALFORMED');
+    }
+    if (!BASE64URL_PATTERN.test(signature)) {
+      throw new QRCodeVerificationError(`Invalid signature in ${url}`, 'QR_URL_MALFORMED');
+    }
+    return {
+      type: 'certificate',
+      environment,
+      url,
+      contextIdentifier: { type: contextType as ContextIdentifierType, value: decodeSegment(contextValue, url) },
+      sellerNip: checkNip(sellerNip, url),
+      certificateSerialNumber: serialNumber,
+      invoiceHash: checkHash(invoiceHash, url),
+      signature,
+      signedData: extractPathForSigning(`${parsed.host}/${segments.slice(0, 6).join('/')}`)
+    };
+  }
+
+  throw new QRCodeVerificationError(`Not a KOD I or KOD II path: ${parsed.pathname}`, 'QR_URL_MALFORMED');
+}
+
+/**
+ * Checks a KOD I URL against the invoice it was printed on: the host (and, with
+ * `environment`, the environment) and the SHA-256 of `invoiceXml`.
+ */
+export function verifyKod1(
+  url: string,
+  invoiceXml: string,
+  options: Omit<QRCodeVerificationOptions, 'invoiceXml'> = {}
+): ParsedKod1Url {
+  const code = parseQRCodeUrl(url);
+  if (code.type !== 'invoice') {
+    throw new QRCodeVerificationError(`Expected a KOD I (/invoice) URL: ${url}`, 'QR_URL_MALFORMED');
+  }
+  checkEnvironment(code, options.environment);
+  checkInvoiceHash(code, invoiceXml);
+  return code;
+}
+
+/**
+ * Checks a KOD II URL: the host (and, with `environment`, the environment), the
+ * invoice hash when `invoiceXml` is given, the serial number when `certificate` is an
+ * X.509 certificate, and the RSA-PSS or ECDSA P-256 signature over `signedData`.
+ */
+export function verifyKod2(
+  url: string,
+  certificate: QRVerificationCertificate,
+  options: QRCodeVerificationOptions = {}
+): ParsedKod2Url {
+  const code = parseQRCodeUrl(url);
+  if (code.type !== 'certificate') {
+    throw new QRCodeVerificationError(`Expected a KOD II (/certificate) URL: ${url}`, 'QR_URL_MALFORMED');
+  }
+  checkEnvironment(code, options.environment);
+  if (options.invoiceXml !== undefined) {
+    checkInvoiceHash(code, options.invoiceXml);
+  }
+
+  const { publicKey, serialNumber } = resolveCertificate(certificate);
+  if (serialNumber !== undefined && normalizeSerial(serialNumber) !== normalizeSerial(code.certificateSerialNumber)) {
+    throw new QRCodeVerificationError(
+      `KOD II names certificate ${code.certificateSerialNumber}, but certificate ${serialNumber} was supplied`,
+      'QR_CERTIFICATE_MISMATCH'
+    );
+  }
+  if (!verifyAuto(code.signedData, code.signature, publicKey)) {
+    throw new QRCodeVerificationError(
+      `KOD II signature does not match certificate ${code.certificateSerialNumber}`,
+      'QR_SIGNATURE_INVALID'
+    );
+  }
+  return code;
+}
+
+function environmentOf(url: URL): ApiV2Environment {
+  const entry = Object.entries(QR_BASE_URLS).find(([, baseUrl]) => new URL(baseUrl).origin === url.origin);
+  if (!entry) {
+    throw new QRCodeVerificationError(`${url.origin} is not a KSeF QR code host`, 'QR_HOST_UNKNOWN');
+  }
+  return entry[0] as ApiV2Environment;
+}
+
+function checkEnvironment(code: ParsedQRCodeUrl, environment: ApiV2Environment | undefined): void {
+  if (environment !== undefined && code.environment !== environment) {
+    throw new QRCodeVerificationError(
+      `QR code belongs to the ${code.environment} environment, expected ${environment}`,
+      'QR_ENVIRONMENT_MISMATCH'
+    );
+  }
+}
+
+function checkInvoiceHash(code: ParsedQRCodeUrl, invoiceXml: string): void {
+  const hash = toBase64URL(createHash('sha256').update(invoiceXml, 'utf8').digest('base64'));
+  if (hash !== code.invoiceHash) {
+    throw new QRCodeVerificationError(
+      `Invoice hash ${hash} does not match ${code.invoiceHash} in the QR code`,
+      'QR_HASH_MISMATCH'
+    );
+  }
+}
+
+function checkNip(nip: string, url: string): string {
+  if (!NIP_PATTERN.test(nip)) {
+    throw new QRCodeVerificationError(`Invalid seller NIP "${nip}" in ${url}`, 'QR_URL_MALFORMED');
+  }
+  return nip;
+}
+
+/** DD-MM-YYYY to YYYY-MM-DD, rejecting dates that do not exist. */
+function checkDate(date: string, url: string): string {
+  const match = date.match(DATE_PATTERN);
+  const isoDate = match ? `${match[3]}-${match[2]}-${match[1]}` : '';
+  const parsed = new Date(`${isoDate}T00:00:00Z`);
+  if (!match || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== isoDate) {
+    throw new QRCodeVerificationError(`Invalid invoice date "${date}" in ${url}`, 'QR_URL_MALFORMED');
+  }
+  return isoDate;
+}
+
+function checkHash(hash: string, url: string): string {
+  if (!HASH_PATTERN.test(hash) || Buffer.from(fromBase64URL(hash), 'base64').length !== 32) {
+    throw new QRCodeVerificationError(`Invalid invoice hash "${hash}" in ${url}`, 'QR_URL_MALFORMED');
+  }
+  return hash;
+}
+
+function decodeSegment(segment: string, url: string): string {
+  try {
+    const value = decodeURIComponent(segment);
+    if (value !== '') {
+      return value;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new QRCodeVerificationError(`Invalid context identifier "${segment}" in ${url}`, 'QR_URL_MALFORMED');
+}
+
+function resolveCertificate(certificate: QRVerificationCertificate): { publicKey: KeyObject; serialNumber?: string } {
+  if (certificate instanceof X509Certificate) {
+    return { publicKey: certificate.publicKey, serialNumber: certificate.serialNumber };
+  }
+  if (certificate instanceof KeyObject) {
+    return { publicKey: certificate.type === 'public' ? certificate : createPublicKey(certificate) };
+  }
+  try {
+    const x509 = new X509Certificate(certificate);
+    return { publicKey: x509.publicKey, serialNumber: x509.serialNumber };
+  } catch {
+    // Not a certificate: a public key (PEM or DER).
+  }
+  try {
+    const isPem = typeof certificate === 'string' || certificate.includes('-----BEGIN');
+    return { publicKey: createPublicKey(isPem ? certificate : { key: certificate, format: 'der', type: 'spki' }) };
+  } catch (error) {
+    throw new QRCodeVerificationError(
+      `Offline certificate is neither an X.509 certificate nor a public key: ${(error as Error).message}`,
+      'QR_CERTIFICATE_MISMATCH'
+    );
+  }
+}
+
+function normalizeSerial(serialNumber: string): string {
+  return serialNumber.toUpperCase().replace(/^0+(?=.)/, '');
+}
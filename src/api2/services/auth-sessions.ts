@@ -4,8 +4,9 @@ import {
   API_V2_BASE_URLS,
   type ApiV2Environment
 } from '../types/common.js';
-import type { AuthenticationListResponse } from '../types/auth-session.js';
+import type { AuthenticationListItem, AuthenticationListResponse } from '../types/auth-session.js';
 import { Routes } from '../routes.js';
+import { paginateByContinuationToken, type PaginationOptions } from '../pagination.js';
 
 export interface ListSessionsOptions {
   continuationToken?: string;
@@ -42,6 +43,24 @@ export class AuthSessionService {
     return response.data;
   }
 
+  /** Iterates over every authentication session, following continuation tokens. */
+  iterateSessions(
+    token: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<AuthenticationListItem, void, undefined> {
+    return paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.listSessions(token, {
+          ...(continuationToken !== undefined ? { continuationToken } : {}),
+          ...(options.pageSize !== undefined ? { pageSize: options.pageSize } : {})
+        });
+        return { items: page.items, continuationToken: page.continuationToken };
+      },
+      'Authentication session',
+      options
+    );
+  }
+
   async revokeCurrentSession(token: string): Promise<void> {
     await this.httpClient.request({
       method: 'DELETE',
@@ -15,8 +15,10 @@ import type {
   RetrieveCertificatesResponse,
   RevokeCertificateRequest,
   QueryCertificatesRequest,
-  QueryCertificatesResponse
+  QueryCertificatesResponse,
+  CertificateListItem
 } from '../types/certificates.js';
+import { paginateByPageOffset, pageOffsetOptions, type PaginationOptions } from '../pagination.js';
 
 export class CertificateService {
   private readonly baseUrl: string;
@@ -137,4 +139,20 @@ export class CertificateService {
 
     return response.data;
   }
+
+  /** Iterates over every certificate matching `request`, walking `pageOffset` while `hasMore`. */
+  iterateCertificates(
+    accessToken: string,
+    request: QueryCertificatesRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<CertificateListItem, void, undefined> {
+    return paginateByPageOffset(
+      async (pageOffset) => {
+        const page = await this.queryCertificates(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize));
+        return { items: page.certificates, hasMore: page.hasMore };
+      },
+      'Certificate',
+      options
+    );
+  }
 }
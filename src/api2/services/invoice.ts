@@ -5,25 +5,52 @@ import {
   type ApiV2Environment
 } from '../types/common.js';
 import type { EncryptedInvoicePayload } from '../crypto/encryption.js';
+import { SymmetricKeyManager } from '../crypto/symmetric.js';
+import { SecurityService } from '../security.js';
 import { Routes } from '../routes.js';
+import { paginateByPageOffset, pageOffsetOptions, type PaginationOptions } from '../pagination.js';
+import { continueDateRange, metadataDateFor, TruncationBoundary } from '../truncation.js';
+import type { PollingOptions } from '../workflows/polling.js';
+import { runInvoiceExport, waitForInvoiceExport } from '../export/pipeline.js';
+import type {
+  ExportedInvoice,
+  InvoiceExportDownloadOptions,
+  InvoiceExportDownloadResult
+} from '../export/types.js';
 import type {
   ExportInvoicesResponse,
   InvoiceExportRequest,
   InvoiceExportStatusResponse,
+  InvoiceMetadata,
   InvoiceQueryFilters,
   QueryInvoicesMetadataResponse,
   SendInvoiceResponse,
   SortOrder
 } from '../types/invoice.js';
 
+export interface IterateMetadataOptions extends PaginationOptions {
+  sortOrder?: SortOrder;
+  /**
+   * Keep querying after a truncated result, starting from the date of the last
+   * returned invoice (field chosen by `dateRange.dateType`), until the whole range
+   * is covered. Invoices returned again at the boundary are skipped.
+   */
+  continueTruncated?: boolean;
+}
+
 export class InvoiceV2Service {
   private readonly baseUrl: string;
+  private readonly symmetricManager: SymmetricKeyManager;
 
   constructor(
     private readonly httpClient: HttpClient,
-    environment: ApiV2Environment
+    environment: ApiV2Environment,
+    securityService?: SecurityService
   ) {
     this.baseUrl = API_V2_BASE_URLS[environment];
+    this.symmetricManager = new SymmetricKeyManager(
+      securityService ?? new SecurityService(httpClient, environment)
+    );
   }
 
   async sendInvoice(
@@ -65,6 +92,66 @@ export class InvoiceV2Service {
     return response.data;
   }
 
+  /**
+   * Iterates over invoice metadata matching `filters`, walking `pageOffset` while `hasMore`.
+   * When the API truncates the result set (10 000 records) it either throws or, with
+   * `continueTruncated`, re-queries from the last returned date and skips repeated invoices.
+   */
+  async *iterateMetadata(
+    accessToken: string,
+    filters: InvoiceQueryFilters,
+    options: IterateMetadataOptions = {}
+  ): AsyncGenerator<InvoiceMetadata, void, undefined> {
+    const sortOrder = options.sortOrder ?? 'Asc';
+    const maxItems = options.maxItems ?? Number.POSITIVE_INFINITY;
+    const boundary = new TruncationBoundary();
+    let currentFilters = filters;
+    let yielded = 0;
+
+    for (;;) {
+      let truncated = false;
+      const pages = paginateByPageOffset(
+        async (pageOffset) => {
+          const page = await this.queryMetadata(accessToken, currentFilters, {
+            ...pageOffsetOptions(pageOffset, options.pageSize),
+            ...(options.sortOrder !== undefined ? { sortOrder: options.sortOrder } : {})
+          });
+          truncated = page.isTruncated;
+          return { items: page.invoices, hasMore: page.hasMore && !page.isTruncated };
+        },
+        'Invoice metadata',
+        options.maxPages !== undefined ? { maxPages: options.maxPages } : {}
+      );
+
+      for await (const invoice of pages) {
+        if (options.continueTruncated) {
+          boundary.observe(invoice.ksefNumber, metadataDateFor(invoice, currentFilters.dateRange.dateType));
+          if (boundary.isDuplicate(invoice.ksefNumber)) {
+            continue;
+          }
+        }
+        yield invoice;
+        if (++yielded >= maxItems) {
+          return;
+        }
+      }
+
+      if (!truncated) {
+        return;
+      }
+      const lastDate = options.continueTruncated ? boundary.advance() : null;
+      if (lastDate === null) {
+        throw new Error(
+          `Invoice metadata query was truncated after ${yielded} records; narrow dateRange starting from the last returned invoice and query again`
+        );
+      }
+      currentFilters = {
+        ...currentFilters,
+        dateRange: continueDateRange(currentFilters.dateRange, lastDate, sortOrder)
+      };
+    }
+  }
+
   async exportInvoices(
     accessToken: string,
     request: InvoiceExportRequest
@@ -96,6 +183,35 @@ export class InvoiceV2Service {
     return response.data;
   }
 
+  /** Polls an export until it finishes; throws `InvoiceExportFailedError` unless status is 200. */
+  async waitForExport(
+    accessToken: string,
+    referenceNumber: string,
+    options: PollingOptions = {}
+  ): Promise<InvoiceExportStatusResponse> {
+    return await waitForInvoiceExport(this, accessToken, referenceNumber, options);
+  }
+
+  /**
+   * Starts an export with a freshly generated AES key, waits for the package,
+   * downloads and verifies every part, unpacks the archive and yields each invoice
+   * together with its `_metadata.json` entry. The generator's return value carries
+   * the final status and package details (e.g. `isTruncated`). With `autoContinue`,
+   * truncated packages are followed by further exports, each with a new key unless
+   * `encryptionMaterial` is given.
+   */
+  async *exportAndDownload(
+    accessToken: string,
+    filters: InvoiceQueryFilters,
+    options: InvoiceExportDownloadOptions = {}
+  ): AsyncGenerator<ExportedInvoice, InvoiceExportDownloadResult, undefined> {
+    const { encryptionMaterial } = options;
+    const createMaterial = encryptionMaterial
+      ? () => Promise.resolve(encryptionMaterial)
+      : () => this.symmetricManager.createMaterial();
+    return yield* runInvoiceExport(this, accessToken, filters, createMaterial, options);
+  }
+
   async getInvoiceByKsefNumber(
     accessToken: string,
     ksefNumber: string
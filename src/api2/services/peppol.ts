@@ -4,8 +4,9 @@ import {
   type ApiV2Environment
 } from '../types/common.js';
 import { buildQueryString } from '@/utils/http.js';
-import type { QueryPeppolProvidersResponse } from '../types/peppol.js';
+import type { PeppolProvider, QueryPeppolProvidersResponse } from '../types/peppol.js';
 import { Routes } from '../routes.js';
+import { paginateByPageOffset, pageOffsetOptions, type PaginationOptions } from '../pagination.js';
 
 export class PeppolService {
   private readonly baseUrl: string;
@@ -35,4 +36,19 @@ export class PeppolService {
 
     return response.data;
   }
+
+  /** Iterates over every registered Peppol provider, walking `pageOffset` while `hasMore`. */
+  iterateProviders(
+    accessToken: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<PeppolProvider, void, undefined> {
+    return paginateByPageOffset(
+      async (pageOffset) => {
+        const page = await this.queryProviders(accessToken, pageOffsetOptions(pageOffset, options.pageSize));
+        return { items: page.peppolProviders, hasMore: page.hasMore };
+      },
+      'Peppol provider',
+      options
+    );
+  }
 }
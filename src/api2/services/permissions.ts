@@ -24,8 +24,15 @@ import type {
   QueryPermissionsResponse,
   EntityAuthorizationPermissionsQueryRequest,
   QueryEntityAuthorizationPermissionsResponse,
+  EntityAuthorizationGrant,
   PersonalPermission
 } from '../types/permissions.js';
+import {
+  paginateByPageOffset,
+  pageOffsetOptions,
+  type PageOffsetPage,
+  type PaginationOptions
+} from '../pagination.js';
 
 export class PermissionsV2Service {
   private readonly baseUrl: string;
@@ -373,5 +380,126 @@ export class PermissionsV2Service {
     return response.data;
   }
 
+  // Iterators walk `pageOffset` while the API reports `hasMore`; see ../pagination.ts.
+
+  iteratePersonalPermissions(
+    accessToken: string,
+    request: PersonalPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<PersonalPermission, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryPersonalPermissions(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Personal permission',
+      options
+    );
+  }
+
+  iteratePersonPermissions(
+    accessToken: string,
+    request: PersonPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryPersonPermissions(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Person permission',
+      options
+    );
+  }
+
+  iterateEntityGrants(
+    accessToken: string,
+    request: EntityPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryEntityGrants(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Entity grant',
+      options
+    );
+  }
+
+  iterateSubunitPermissions(
+    accessToken: string,
+    request: SubunitPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.querySubunitPermissions(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Subunit permission',
+      options
+    );
+  }
+
+  iterateEntityRoles(
+    accessToken: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryEntityRoles(accessToken, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Entity role',
+      options
+    );
+  }
+
+  iterateSubordinateEntityRoles(
+    accessToken: string,
+    request: SubunitPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.querySubordinateEntityRoles(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'Subordinate entity role',
+      options
+    );
+  }
+
+  iterateAuthorizationGrants(
+    accessToken: string,
+    request: EntityAuthorizationPermissionsQueryRequest,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<EntityAuthorizationGrant, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryAuthorizationGrants(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.authorizationGrants,
+      'Authorization grant',
+      options
+    );
+  }
+
+  iterateEuEntityGrants(
+    accessToken: string,
+    request: Record<string, unknown>,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<any, void, undefined> {
+    return this.paginate(
+      (pageOffset) => this.queryEuEntityGrants(accessToken, request, pageOffsetOptions(pageOffset, options.pageSize)),
+      (page) => page.permissions,
+      'EU entity grant',
+      options
+    );
+  }
+
+  private paginate<TPage extends { hasMore: boolean }, TItem>(
+    fetchPage: (pageOffset: number) => Promise<TPage>,
+    selectItems: (page: TPage) => TItem[],
+    label: string,
+    options: PaginationOptions
+  ): AsyncGenerator<TItem, void, undefined> {
+    return paginateByPageOffset(
+      async (pageOffset): Promise<PageOffsetPage<TItem>> => {
+        const page = await fetchPage(pageOffset);
+        return { items: selectItems(page), hasMore: page.hasMore };
+      },
+      label,
+      options
+    );
+  }
+
   // All test data helpers live under TestDataService to highlight their TE-only scope.
 }
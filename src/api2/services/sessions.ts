@@ -1,5 +1,6 @@
 import type { HttpClient } from '@/utils/http.js';
 import { createRequestBody, buildQueryString } from '@/utils/http.js';
+import { KsefApiError } from '@/types/common.js';
 import {
   API_V2_BASE_URLS,
   type ApiV2Environment,
@@ -14,14 +15,24 @@ import {
 import { SecurityService } from '../security.js';
 import { SymmetricKeyManager, type SymmetricKeyMaterial } from '../crypto/symmetric.js';
 import { Routes } from '../routes.js';
+import {
+  paginateByContinuationToken,
+  type PaginationLimits,
+  type PaginationOptions
+} from '../pagination.js';
 import type {
   SessionStatusResponse,
   SessionInvoicesResponse,
   SessionInvoiceStatus,
   UpoDownloadResult,
+  UpoPageResponse,
   SessionsQueryResponse,
+  SessionListItem,
   SessionListQueryOptions
 } from '../types/session.js';
+import { collectUpoReceipts, downloadUpoPages } from '../upo/download.js';
+import { verifyUpo } from '../upo/verify.js';
+import type { SessionUpoDownloadOptions, SessionUpoReceipts, UpoInvoiceReceipt, UpoVerificationOptions } from '../upo/types.js';
 
 export interface OpenOnlineSessionOptions {
   /**
@@ -47,12 +58,16 @@ export interface OpenBatchSessionOptions {
    * If omitted, the server default applies (v4-3 from 2025-12-22).
    */
   upoVersion?: UpoVersion;
+  /** Declares the batch as invoices issued in offline mode. */
+  offlineMode?: boolean;
 }
 
 export interface OpenBatchSessionResult extends OpenBatchSessionResponse {
   encryptionMaterial: SymmetricKeyMaterial;
 }
 
+export type IterateSessionsOptions = Omit<SessionListQueryOptions, 'continuationToken'> & PaginationLimits;
+
 export class SessionV2Service {
   private readonly baseUrl: string;
   private readonly securityService: SecurityService;
@@ -130,7 +145,8 @@ export class SessionV2Service {
       encryption: {
         encryptedSymmetricKey: encryptionMaterial.encryptedSymmetricKey,
         initializationVector: encryptionMaterial.initializationVectorBase64
-      }
+      },
+      ...(options.offlineMode ? { offlineMode: true } : {})
     };
 
     const headers: Record<string, string> = {
@@ -277,6 +293,65 @@ export class SessionV2Service {
     return response.data;
   }
 
+  /** Iterates over every session matching `options`, following continuation tokens. */
+  iterateSessions(
+    accessToken: string,
+    options: IterateSessionsOptions
+  ): AsyncGenerator<SessionListItem, void, undefined> {
+    const { maxItems: _maxItems, maxPages: _maxPages, ...query } = options;
+    return paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.listSessions(accessToken, {
+          ...query,
+          ...(continuationToken !== undefined ? { continuationToken } : {})
+        });
+        return { items: page.sessions, continuationToken: page.continuationToken };
+      },
+      'Session list',
+      options
+    );
+  }
+
+  /** Iterates over every invoice submitted in a session, following continuation tokens. */
+  iterateSessionInvoices(
+    accessToken: string,
+    referenceNumber: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SessionInvoiceStatus, void, undefined> {
+    return paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.listSessionInvoices(
+          accessToken,
+          referenceNumber,
+          continuationPageOptions(continuationToken, options.pageSize)
+        );
+        return { items: page.invoices, continuationToken: page.continuationToken };
+      },
+      'Session invoice',
+      options
+    );
+  }
+
+  /** Iterates over invoices rejected in a session, following continuation tokens. */
+  iterateFailedSessionInvoices(
+    accessToken: string,
+    referenceNumber: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SessionInvoiceStatus, void, undefined> {
+    return paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.listFailedSessionInvoices(
+          accessToken,
+          referenceNumber,
+          continuationPageOptions(continuationToken, options.pageSize)
+        );
+        return { items: page.invoices, continuationToken: page.continuationToken };
+      },
+      'Failed session invoice',
+      options
+    );
+  }
+
   async getInvoiceStatus(
     accessToken: string,
     referenceNumber: string,
@@ -353,6 +428,65 @@ export class SessionV2Service {
     );
   }
 
+  /**
+   * Downloads every page of the session UPO from the pre-signed links in
+   * `SessionStatusResponse.upo` (refreshing expired links from the session status),
+   * verifies each page with `verifyUpo` and indexes the confirmed invoices by KSeF number.
+   */
+  async downloadSessionUpoReceipts(
+    accessToken: string,
+    referenceNumber: string,
+    options: SessionUpoDownloadOptions = {}
+  ): Promise<SessionUpoReceipts> {
+    const status = await this.getSessionStatus(accessToken, referenceNumber);
+    const pages = status.upo?.pages ?? [];
+    if (pages.length === 0) {
+      throw new Error(`Session UPO for ${referenceNumber} is not available yet (status ${status.status.code})`);
+    }
+
+    const downloads = await downloadUpoPages(pages, {
+      ...options,
+      refreshPages: async () => (await this.getSessionStatus(accessToken, referenceNumber)).upo?.pages ?? []
+    });
+    return collectUpoReceipts(referenceNumber, downloads.map((download) => verifyUpo(download, presignedUpoOptions(options))));
+  }
+
+  /**
+   * Downloads the UPO of a single invoice from `SessionInvoiceStatus.upoDownloadUrl`
+   * (refreshing an expired link from the invoice status), verifies it with `verifyUpo`
+   * and returns the entry confirming the invoice.
+   */
+  async downloadInvoiceUpoReceipt(
+    accessToken: string,
+    referenceNumber: string,
+    invoiceReferenceNumber: string,
+    options: SessionUpoDownloadOptions = {}
+  ): Promise<UpoInvoiceReceipt> {
+    const readLink = async (): Promise<UpoPageResponse> => {
+      const status = await this.getInvoiceStatus(accessToken, referenceNumber, invoiceReferenceNumber);
+      if (!status.upoDownloadUrl) {
+        throw new Error(
+          `UPO for invoice ${invoiceReferenceNumber} is not available yet (status ${status.status.code})`
+        );
+      }
+      return {
+        referenceNumber: invoiceReferenceNumber,
+        downloadUrl: status.upoDownloadUrl,
+        downloadUrlExpirationDate: status.upoDownloadUrlExpirationDate ?? ''
+      };
+    };
+
+    const [download] = await downloadUpoPages([await readLink()], {
+      ...options,
+      refreshPages: async () => [await readLink()]
+    });
+    const page = verifyUpo(download!, presignedUpoOptions(options));
+    if (page.upo.sessionReferenceNumber !== referenceNumber || page.upo.documents.length !== 1) {
+      throw new Error(`UPO for invoice ${invoiceReferenceNumber} does not confirm exactly one invoice of session ${referenceNumber}`);
+    }
+    return { document: page.upo.documents[0]!, page };
+  }
+
   private async downloadUpoWithHash(
     accessToken: string,
     url: string
@@ -372,23 +506,283 @@ export class SessionV2Service {
   }
 }
 
+function continuationPageOptions(
+  continuationToken: string | undefined,
+  pageSize: number | undefined
+): { continuationToken?: string; pageSize?: number } {
+  return {
+    ...(continuationToken !== undefined ? { continuationToken } : {}),
+    ...(pageSize !== undefined ? { pageSize } : {})
+  };
+}
+
+/**
+ * Pre-signed storage links do not always return `x-ms-meta-hash`; the hash is checked
+ * when present and the signature carries the proof otherwise.
+ */
+function presignedUpoOptions(options: UpoVerificationOptions): UpoVerificationOptions {
+  return { ...options, requireHash: options.requireHash ?? false };
+}
+
+/** Where KSeF issues batch part upload links: its own hosts and Azure Blob Storage. */
+export const DEFAULT_BATCH_UPLOAD_HOSTS: readonly string[] = ['.ksef.mf.gov.pl', '.blob.core.windows.net'];
+
+const RETRYABLE_UPLOAD_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const UPLOAD_PROGRESS_CHUNK_BYTES = 64 * 1024;
+
+export interface BatchUploadOptions {
+  /** Attempts per part, including the first one (default: 5). */
+  maxAttempts?: number;
+  /** Base of the exponential backoff; up to the same amount of random jitter is added (default: 1000). */
+  retryDelayMs?: number;
+  /** Upper bound for a single backoff or `Retry-After` wait (default: 60000). */
+  maxRetryDelayMs?: number;
+  /** Timeout of a single upload attempt (default: 300000). */
+  timeoutMs?: number;
+  /**
+   * Hosts upload URLs may point to: exact names, or names starting with a dot
+   * (`.blob.core.windows.net`) for any subdomain. Replaces `DEFAULT_BATCH_UPLOAD_HOSTS`;
+   * spread the defaults to add a host rather than replace them.
+   */
+  allowedHosts?: string[];
+}
+
+export interface BatchUploadProgress {
+  ordinalNumber: number;
+  /** Bytes handed to `fetch` in the current attempt. */
+  bytesSent: number;
+  totalBytes: number;
+  attempt: number;
+}
+
+export interface BatchPartUploadOptions {
+  /** Aborts the upload, including retries that are still pending. */
+  signal?: AbortSignal;
+  /** Called as the payload is streamed; enables a streamed request body. */
+  onProgress?: (progress: BatchUploadProgress) => void;
+}
+
+export type BatchPartUploadErrorCode =
+  | 'BATCH_PART_URL_REJECTED'
+  | 'BATCH_PART_UPLOAD_FAILED'
+  | 'BATCH_PART_UPLOAD_ABORTED';
+
+/**
+ * Terminal failure of a part upload. The pre-signed URL is never included in the
+ * message, as its query string grants write access to the part.
+ */
+export class BatchPartUploadError extends KsefApiError {
+  declare readonly code: BatchPartUploadErrorCode;
+  /** Attempts made before giving up (0 when the URL was rejected up front). */
+  readonly attempts: number;
+  readonly responseBody: string | null;
+
+  constructor(
+    message: string,
+    public readonly ordinalNumber: number,
+    options: {
+      code: BatchPartUploadErrorCode;
+      attempts: number;
+      statusCode?: number;
+      responseBody?: string | null;
+    }
+  ) {
+    super(message, options.statusCode === undefined ? { code: options.code } : { code: options.code, statusCode: options.statusCode });
+    this.name = 'BatchPartUploadError';
+    this.attempts = options.attempts;
+    this.responseBody = options.responseBody ?? null;
+  }
+}
+
 export class BatchSessionUploader {
+  constructor(private readonly options: BatchUploadOptions = {}) {}
+
+  /**
+   * Uploads one encrypted part to its pre-signed URL. Network errors, timeouts and
+   * 408/429/5xx responses are retried with exponential backoff and jitter, honouring
+   * `Retry-After`; other responses fail immediately with `BatchPartUploadError`.
+   */
   async uploadPart(
     uploadRequest: PartUploadRequest,
-    payload: Buffer
+    payload: Buffer,
+    options: BatchPartUploadOptions = {}
   ): Promise<void> {
     const fetchImpl = globalThis.fetch;
     if (!fetchImpl) {
       throw new Error('Global fetch is not available. Please provide a polyfill (Node 18+ required).');
     }
+    assertAllowedUploadUrl(uploadRequest, this.options.allowedHosts ?? DEFAULT_BATCH_UPLOAD_HOSTS);
+
+    const ordinalNumber = uploadRequest.ordinalNumber;
+    const maxAttempts = this.options.maxAttempts ?? 5;
+    const retryDelayMs = this.options.retryDelayMs ?? 1_000;
+    const maxRetryDelayMs = this.options.maxRetryDelayMs ?? 60_000;
+    const timeoutMs = this.options.timeoutMs ?? 300_000;
+    let lastError: BatchPartUploadError | undefined;
+    let retryAfterMs: number | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const backoffMs = retryDelayMs * 2 ** (attempt - 2) + Math.random() * retryDelayMs;
+        await abortableSleep(Math.min(maxRetryDelayMs, retryAfterMs ?? backoffMs), options.signal, ordinalNumber, attempt - 1);
+      }
+      throwIfUploadAborted(options.signal, ordinalNumber, attempt - 1);
+
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const timer = setTimeout(abort, timeoutMs);
+      options.signal?.addEventListener('abort', abort, { once: true });
+      let response: Response;
+      try {
+        response = await fetchImpl(uploadRequest.url, {
+          method: uploadRequest.method,
+          headers: options.onProgress
+            ? { ...uploadRequest.headers, 'Content-Length': String(payload.byteLength) }
+            : uploadRequest.headers,
+          signal: controller.signal,
+          ...(options.onProgress
+            ? { body: progressBody(payload, ordinalNumber, attempt, options.onProgress), duplex: 'half' }
+            : { body: new Uint8Array(payload) })
+        });
+      } catch (error) {
+        throwIfUploadAborted(options.signal, ordinalNumber, attempt);
+        const reason = controller.signal.aborted
+          ? `timed out after ${timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error);
+        lastError = new BatchPartUploadError(`Failed to upload batch part #${ordinalNumber}: ${reason}`, ordinalNumber, {
+          code: 'BATCH_PART_UPLOAD_FAILED',
+          attempts: attempt
+        });
+        retryAfterMs = undefined;
+        continue;
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abort);
+      }
 
-    const response = await fetchImpl(uploadRequest.url, {
-      method: uploadRequest.method,
-      headers: uploadRequest.headers,
-      body: new Uint8Array(payload)
+      if (response.ok) {
+        return;
+      }
+      const responseBody = await readResponseText(response);
+      lastError = new BatchPartUploadError(
+        `Failed to upload batch part #${ordinalNumber}: ${response.status} ${response.statusText}`
+        + (responseBody ? ` - ${responseBody.slice(0, 500)}` : ''),
+        ordinalNumber,
+        { code: 'BATCH_PART_UPLOAD_FAILED', attempts: attempt, statusCode: response.status, responseBody }
+      );
+      if (!RETRYABLE_UPLOAD_STATUSES.has(response.status)) {
+        throw lastError;
+      }
+      retryAfterMs = parseRetryAfterMs(response.headers.get('retry-after') ?? null);
+    }
+
+    throw new BatchPartUploadError(`${lastError!.message} (gave up after ${maxAttempts} attempts)`, ordinalNumber, {
+      code: 'BATCH_PART_UPLOAD_FAILED',
+      attempts: maxAttempts,
+      ...(lastError!.statusCode === undefined ? {} : { statusCode: lastError!.statusCode }),
+      responseBody: lastError!.responseBody
     });
-    if (!response.ok) {
-      throw new Error(`Failed to upload batch part #${uploadRequest.ordinalNumber}: ${response.status} ${response.statusText}`);
+  }
+}
+
+function assertAllowedUploadUrl(uploadRequest: PartUploadRequest, allowedHosts: readonly string[]): void {
+  const reject = (reason: string) => new BatchPartUploadError(
+    `Refusing to upload batch part #${uploadRequest.ordinalNumber}: ${reason}`,
+    uploadRequest.ordinalNumber,
+    { code: 'BATCH_PART_URL_REJECTED', attempts: 0 }
+  );
+
+  let url: URL;
+  try {
+    url = new URL(uploadRequest.url);
+  } catch {
+    throw reject('upload URL is malformed');
+  }
+  if (url.protocol !== 'https:') {
+    throw reject(`upload URL must use HTTPS, got ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw reject('upload URL must not contain credentials');
+  }
+  const host = url.hostname.toLowerCase();
+  if (!allowedHosts.some((allowed) => {
+    const normalized = allowed.toLowerCase();
+    return normalized.startsWith('.') ? host.endsWith(normalized) : host === normalized;
+  })) {
+    throw reject(`host ${host} is not in allowedHosts`);
+  }
+}
+
+function progressBody(
+  payload: Buffer,
+  ordinalNumber: number,
+  attempt: number,
+  onProgress: (progress: BatchUploadProgress) => void
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= payload.byteLength) {
+        controller.close();
+        return;
+      }
+      const chunk = payload.subarray(offset, offset + UPLOAD_PROGRESS_CHUNK_BYTES);
+      offset += chunk.byteLength;
+      controller.enqueue(new Uint8Array(chunk));
+      onProgress({ ordinalNumber, bytesSent: offset, totalBytes: payload.byteLength, attempt });
     }
+  });
+}
+
+function throwIfUploadAborted(signal: AbortSignal | undefined, ordinalNumber: number, attempts: number): void {
+  if (signal?.aborted) {
+    throw new BatchPartUploadError(`Upload of batch part #${ordinalNumber} was aborted`, ordinalNumber, {
+      code: 'BATCH_PART_UPLOAD_ABORTED',
+      attempts
+    });
+  }
+}
+
+async function abortableSleep(
+  delayMs: number,
+  signal: AbortSignal | undefined,
+  ordinalNumber: number,
+  attempts: number
+): Promise<void> {
+  throwIfUploadAborted(signal, ordinalNumber, attempts);
+  if (delayMs <= 0) {
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+  throwIfUploadAborted(signal, ordinalNumber, attempts);
+}
+
+/** `Retry-After` as delay-seconds or an HTTP date. */
+function parseRetryAfterMs(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function readResponseText(response: Response): Promise<string | null> {
+  try {
+    const text = await response.text();
+    return text || null;
+  } catch {
+    return null;
   }
 }
@@ -6,10 +6,12 @@ import {
   type TokenReferenceNumber
 } from '../types/common.js';
 import { Routes } from '../routes.js';
+import { paginateByContinuationToken, type PaginationLimits } from '../pagination.js';
 import type {
   GenerateTokenRequest,
   GenerateTokenResponse,
   QueryTokensResponse,
+  TokenListItem,
   AuthenticationTokenStatus,
   TokenStatusResponse
 } from '../types/token.js';
@@ -23,6 +25,8 @@ export interface QueryTokensOptions {
   continuationToken?: string;
 }
 
+export type IterateTokensOptions = Omit<QueryTokensOptions, 'continuationToken'> & PaginationLimits;
+
 export class TokenService {
   private readonly baseUrl: string;
 
@@ -77,6 +81,25 @@ export class TokenService {
     return response.data;
   }
 
+  /** Iterates over every token matching `options`, following continuation tokens. */
+  iterateTokens(
+    accessToken: string,
+    options: IterateTokensOptions = {}
+  ): AsyncGenerator<TokenListItem, void, undefined> {
+    const { maxItems: _maxItems, maxPages: _maxPages, ...query } = options;
+    return paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.queryTokens(accessToken, {
+          ...query,
+          ...(continuationToken !== undefined ? { continuationToken } : {})
+        });
+        return { items: page.tokens, continuationToken: page.continuationToken };
+      },
+      'Token',
+      options
+    );
+  }
+
   async getToken(
     accessToken: string,
     referenceNumber: TokenReferenceNumber
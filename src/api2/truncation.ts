@@ -0,0 +1,105 @@
+/**
+ * Continuation of truncated `/invoices/query/metadata` results (10 000 records) and
+ * `/invoices/exports` packages (10 000 invoices or 1 GB): the follow-up request
+ * narrows `dateRange` to start (or, for descending queries, end) at the date of the
+ * last returned invoice, using the field that matches `dateRange.dateType`.
+ */
+import type {
+  InvoiceMetadata,
+  InvoicePackage,
+  InvoiceQueryDateRange,
+  InvoiceQueryDateType,
+  SortOrder
+} from './types/invoice.js';
+
+const METADATA_DATE_FIELDS = {
+  Issue: 'issueDate',
+  Invoicing: 'invoicingDate',
+  PermanentStorage: 'permanentStorageDate'
+} as const satisfies Record<InvoiceQueryDateType, keyof InvoiceMetadata>;
+
+const PACKAGE_DATE_FIELDS = {
+  Issue: 'lastIssueDate',
+  Invoicing: 'lastInvoicingDate',
+  PermanentStorage: 'lastPermanentStorageDate'
+} as const satisfies Record<InvoiceQueryDateType, keyof InvoicePackage>;
+
+/** Date of `invoice` compared by queries filtered on `dateType`. */
+export function metadataDateFor(invoice: InvoiceMetadata, dateType: InvoiceQueryDateType): string {
+  return invoice[METADATA_DATE_FIELDS[dateType]];
+}
+
+/** Date of the last invoice in a truncated package, or `null` when KSeF did not report it. */
+export function packageLastDateFor(invoicePackage: InvoicePackage, dateType: InvoiceQueryDateType): string | null {
+  return invoicePackage[PACKAGE_DATE_FIELDS[dateType]] ?? null;
+}
+
+/**
+ * Returns the date range of the follow-up query. Throws when the range would not
+ * shrink, i.e. the limit was reached by invoices sharing a single date.
+ */
+export function continueDateRange(
+  dateRange: InvoiceQueryDateRange,
+  lastDate: string,
+  sortOrder: SortOrder = 'Asc'
+): InvoiceQueryDateRange {
+  const boundary = toDateTime(lastDate);
+  const boundaryTime = Date.parse(boundary);
+  if (Number.isNaN(boundaryTime)) {
+    throw new Error(`Cannot continue truncated result from invalid date ${lastDate}`);
+  }
+
+  if (sortOrder === 'Asc') {
+    if (boundaryTime <= Date.parse(toDateTime(dateRange.from))) {
+      throw new Error(
+        `Result was truncated within a single ${dateRange.dateType} date (${lastDate}); cannot narrow dateRange any further`
+      );
+    }
+    return { ...dateRange, from: boundary };
+  }
+
+  if (dateRange.to && boundaryTime >= Date.parse(toDateTime(dateRange.to))) {
+    throw new Error(
+      `Result was truncated within a single ${dateRange.dateType} date (${lastDate}); cannot narrow dateRange any further`
+    );
+  }
+  return { ...dateRange, to: boundary };
+}
+
+/**
+ * Tracks the invoices sharing the most recent boundary date. After narrowing the
+ * range to that date, the follow-up query returns them again; only they need to be
+ * remembered for deduplication.
+ */
+export class TruncationBoundary {
+  private date: string | null = null;
+  private ksefNumbers = new Set<string>();
+  private previous = new Set<string>();
+
+  /** True when the invoice was already returned before the last continuation. */
+  isDuplicate(ksefNumber: string): boolean {
+    return this.previous.has(ksefNumber);
+  }
+
+  /** Records an invoice returned by the current query, in result order. */
+  observe(ksefNumber: string, date: string): void {
+    if (date !== this.date) {
+      this.date = date;
+      this.ksefNumbers = new Set();
+    }
+    this.ksefNumbers.add(ksefNumber);
+  }
+
+  /** Call when issuing a follow-up query; returns the boundary date to continue from. */
+  advance(): string | null {
+    this.previous = this.ksefNumbers;
+    this.ksefNumbers = new Set();
+    const date = this.date;
+    this.date = null;
+    return date;
+  }
+}
+
+function toDateTime(value: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value;
+}
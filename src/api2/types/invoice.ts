@@ -151,6 +151,7 @@ export interface InvoiceExportRequest {
   encryption: EncryptionInfo;
   filters: InvoiceQueryFilters;
   compressionType?: CompressionType | null;
+  onlyMetadata?: boolean;
 }
 
 export interface ExportInvoicesResponse {
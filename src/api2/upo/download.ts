@@ -0,0 +1,98 @@
+import { runWithConcurrency } from '@/utils/concurrency.js';
+import type { UpoDownloadResult, UpoPageResponse } from '../types/session.js';
+import { DEFAULT_PRESIGNED_DOWNLOAD_TIMEOUT_MS, downloadWithRetry, fetchPresigned } from '../presigned-download.js';
+import type { SessionUpoReceipts, UpoInvoiceReceipt, UpoPageDownloadOptions, VerifiedUpo } from './types.js';
+import { verifyUpoHash } from './verify.js';
+
+export interface DownloadUpoPagesOptions extends UpoPageDownloadOptions {
+  /**
+   * Re-reads the UPO pages from the session status. Called when a link has expired
+   * or was rejected with 401/403.
+   */
+  refreshPages?: () => Promise<UpoPageResponse[]>;
+}
+
+/**
+ * Downloads UPO pages from their pre-signed URLs, in the given order. When the
+ * response carries `x-ms-meta-hash` the content is checked against it and the
+ * page is downloaded again on mismatch.
+ */
+export async function downloadUpoPages(
+  pages: UpoPageResponse[],
+  options: DownloadUpoPagesOptions = {}
+): Promise<UpoDownloadResult[]> {
+  const concurrency = options.downloadConcurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new Error('downloadConcurrency must be a positive integer');
+  }
+  const downloaded = new Map<string, UpoDownloadResult>();
+
+  await runWithConcurrency(pages, concurrency, async (page) => {
+    downloaded.set(page.referenceNumber, await downloadPageWithRetry(page, options));
+  });
+
+  return pages.map((page) => downloaded.get(page.referenceNumber)!);
+}
+
+/**
+ * Indexes the invoices confirmed by verified UPO pages by KSeF number. Throws when
+ * a page belongs to another session or the pages disagree with their descriptions.
+ */
+export function collectUpoReceipts(referenceNumber: string, pages: VerifiedUpo[]): SessionUpoReceipts {
+  const ordered = [...pages].sort((a, b) => (a.upo.page?.pageNumber ?? 0) - (b.upo.page?.pageNumber ?? 0));
+  const invoices = new Map<string, UpoInvoiceReceipt>();
+  for (const page of ordered) {
+    if (page.upo.sessionReferenceNumber !== referenceNumber) {
+      throw new Error(
+        `UPO page belongs to session ${page.upo.sessionReferenceNumber}, expected ${referenceNumber}`
+      );
+    }
+    for (const document of page.upo.documents) {
+      invoices.set(document.ksefNumber, { document, page });
+    }
+  }
+
+  const totals = new Set(ordered.flatMap((page) => (page.upo.page ? [page.upo.page.totalDocuments] : [])));
+  const [total] = totals;
+  if (totals.size > 1 || (total !== undefined && total !== invoices.size)) {
+    throw new Error(
+      `Session UPO for ${referenceNumber} confirms ${invoices.size} invoices but its pages report ${[...totals].join(', ')}`
+    );
+  }
+  return { referenceNumber, pages: ordered, invoices };
+}
+
+async function downloadPageWithRetry(
+  page: UpoPageResponse,
+  options: DownloadUpoPagesOptions
+): Promise<UpoDownloadResult> {
+  const refreshPages = options.refreshPages;
+  return await downloadWithRetry(page, downloadPage, {
+    downloadAttempts: options.downloadAttempts,
+    retryDelayMs: options.retryDelayMs,
+    description: `UPO page ${page.referenceNumber}`,
+    expiresAt: (current) => current.downloadUrlExpirationDate,
+    refresh: refreshPages && ((current) => refreshPage(current, refreshPages))
+  });
+}
+
+async function downloadPage(page: UpoPageResponse): Promise<UpoDownloadResult> {
+  const { body, headers } = await fetchPresigned(page.downloadUrl, 'GET', DEFAULT_PRESIGNED_DOWNLOAD_TIMEOUT_MS);
+  const result: UpoDownloadResult = {
+    xml: body.toString('utf8'),
+    hash: headers.get('x-ms-meta-hash')
+  };
+  verifyUpoHash(result, false);
+  return result;
+}
+
+async function refreshPage(
+  page: UpoPageResponse,
+  refreshPages: () => Promise<UpoPageResponse[]>
+): Promise<UpoPageResponse> {
+  const refreshed = (await refreshPages()).find((candidate) => candidate.referenceNumber === page.referenceNumber);
+  if (!refreshed) {
+    throw new Error(`Session status no longer lists UPO page ${page.referenceNumber}`);
+  }
+  return refreshed;
+}
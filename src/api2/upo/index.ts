@@ -0,0 +1,10 @@
+/**
+ * UPO (official acknowledgement of receipt): parsing, hash and XAdES signature checks,
+ * and downloading session UPO pages from their pre-signed links.
+ */
+
+export * from './types.js';
+export * from './parser.js';
+export * from './xades.js';
+export * from './verify.js';
+export * from './download.js';
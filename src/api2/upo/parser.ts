@@ -0,0 +1,137 @@
+import { DOMParser, onErrorStopParsing, type Document, type Element } from '@xmldom/xmldom';
+import { ContextIdentifierType, type ContextIdentifier, type UpoVersion } from '../types/common.js';
+import type { Upo, UpoAuthentication, UpoDocument, UpoPageDescription } from './types.js';
+
+const CONTEXT_ELEMENTS: Record<string, ContextIdentifierType> = {
+  Nip: ContextIdentifierType.NIP,
+  IdWewn: ContextIdentifierType.INTERNAL_ID,
+  IdZlozonyVatUE: ContextIdentifierType.NIP_VAT_UE,
+  IdDostawcyUslugPeppol: ContextIdentifierType.PEPPOL_ID
+};
+
+/** Parses UPO XML (`upo-v4-2` or `upo-v4-3`) without verifying it; see `verifyUpo`. */
+export function parseUpo(xml: string): Upo {
+  return readUpo(parseUpoXml(xml));
+}
+
+/** @internal Parses XML and rejects DTDs, which UPO documents never contain. */
+export function parseUpoXml(xml: string): Document {
+  const document = new DOMParser({ onError: onErrorStopParsing }).parseFromString(xml, 'text/xml');
+  if (document.doctype) {
+    throw new Error('Invalid UPO: DOCTYPE declarations are not allowed');
+  }
+  return document;
+}
+
+/** @internal */
+export function readUpo(document: Document): Upo {
+  const root = document.documentElement;
+  if (!root || root.localName !== 'Potwierdzenie') {
+    throw new Error(`Invalid UPO: expected Potwierdzenie root element, got ${root?.localName ?? 'none'}`);
+  }
+
+  const authentication = requiredChild(root, 'Uwierzytelnienie');
+  const description = child(root, 'OpisPotwierdzenia');
+  return {
+    version: detectVersion(root),
+    receivingEntityName: requiredText(root, 'NazwaPodmiotuPrzyjmujacego'),
+    sessionReferenceNumber: requiredText(root, 'NumerReferencyjnySesji'),
+    authentication: readAuthentication(authentication),
+    schemaName: text(root, 'NazwaStrukturyLogicznej'),
+    formCode: text(root, 'KodFormularza'),
+    page: description ? readPageDescription(description) : null,
+    documents: children(root, 'Dokument').map(readDocument)
+  };
+}
+
+function detectVersion(root: Element): UpoVersion {
+  const match = /\/v4-([23])\/?$/.exec(root.namespaceURI ?? '');
+  if (!match) {
+    throw new Error(`Unsupported UPO namespace: ${root.namespaceURI ?? '(none)'}`);
+  }
+  return `upo-v4-${match[1]}` as UpoVersion;
+}
+
+function readAuthentication(element: Element): UpoAuthentication {
+  return {
+    context: readContext(requiredChild(element, 'IdKontekstu')),
+    tokenReferenceNumber: text(element, 'NumerReferencyjnyTokenaKSeF'),
+    authenticationDocumentHash: text(element, 'SkrotDokumentuUwierzytelniajacego')
+  };
+}
+
+function readContext(element: Element): ContextIdentifier {
+  for (const item of children(element)) {
+    const type = CONTEXT_ELEMENTS[item.localName ?? ''];
+    if (type) {
+      return { type, value: (item.textContent ?? '').trim() };
+    }
+  }
+  throw new Error('Invalid UPO: unsupported IdKontekstu');
+}
+
+function readPageDescription(element: Element): UpoPageDescription {
+  return {
+    pageNumber: requiredNumber(element, 'Strona'),
+    pageCount: requiredNumber(element, 'LiczbaStron'),
+    firstDocument: requiredNumber(element, 'ZakresDokumentowOd'),
+    lastDocument: requiredNumber(element, 'ZakresDokumentowDo'),
+    totalDocuments: requiredNumber(element, 'CalkowitaLiczbaDokumentow')
+  };
+}
+
+function readDocument(element: Element): UpoDocument {
+  return {
+    sellerNip: requiredText(element, 'NipSprzedawcy'),
+    ksefNumber: requiredText(element, 'NumerKSeFDokumentu'),
+    invoiceNumber: requiredText(element, 'NumerFaktury'),
+    issueDate: requiredText(element, 'DataWystawieniaFaktury'),
+    invoicingDate: requiredText(element, 'DataPrzeslaniaDokumentu'),
+    acquisitionDate: requiredText(element, 'DataNadaniaNumeruKSeF'),
+    invoiceHash: requiredText(element, 'SkrotDokumentu'),
+    invoicingMode: text(element, 'TrybWysylki')
+  };
+}
+
+function children(element: Element, localName?: string): Element[] {
+  const result: Element[] = [];
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === node.ELEMENT_NODE && (localName === undefined || node.localName === localName)) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+function child(element: Element, localName: string): Element | null {
+  return children(element, localName)[0] ?? null;
+}
+
+function requiredChild(element: Element, localName: string): Element {
+  const found = child(element, localName);
+  if (!found) {
+    throw new Error(`Invalid UPO: missing ${localName} in ${element.localName}`);
+  }
+  return found;
+}
+
+function text(element: Element, localName: string): string | null {
+  const value = child(element, localName)?.textContent?.trim();
+  return value ? value : null;
+}
+
+function requiredText(element: Element, localName: string): string {
+  const value = text(element, localName);
+  if (value === null) {
+    throw new Error(`Invalid UPO: missing ${localName} in ${element.localName}`);
+  }
+  return value;
+}
+
+function requiredNumber(element: Element, localName: string): number {
+  const value = Number(requiredText(element, localName));
+  if (!Number.isInteger(value)) {
+    throw new Error(`Invalid UPO: ${localName} is not an integer`);
+  }
+  return value;
+}
@@ -0,0 +1,123 @@
+import type { X509Certificate } from 'node:crypto';
+import type { ContextIdentifier, UpoVersion } from '../types/common.js';
+
+/** Invoice confirmed by a UPO (`Dokument` element). */
+export interface UpoDocument {
+  /** `NipSprzedawcy` */
+  sellerNip: string;
+  /** `NumerKSeFDokumentu` */
+  ksefNumber: string;
+  /** `NumerFaktury` */
+  invoiceNumber: string;
+  /** `DataWystawieniaFaktury` */
+  issueDate: string;
+  /** `DataPrzeslaniaDokumentu` – when KSeF accepted the invoice. */
+  invoicingDate: string;
+  /** `DataNadaniaNumeruKSeF` */
+  acquisitionDate: string;
+  /** `SkrotDokumentu` – SHA-256 of the invoice XML, Base64. */
+  invoiceHash: string;
+  /** `TrybWysylki` (`Online` / `Offline`), when present. */
+  invoicingMode: string | null;
+}
+
+/** `Uwierzytelnienie` – how the session was authenticated. */
+export interface UpoAuthentication {
+  context: ContextIdentifier;
+  /** `NumerReferencyjnyTokenaKSeF`, for sessions opened with a KSeF token. */
+  tokenReferenceNumber: string | null;
+  /** `SkrotDokumentuUwierzytelniajacego`, for sessions opened with a signed XAdES request. */
+  authenticationDocumentHash: string | null;
+}
+
+/** `OpisPotwierdzenia` – position of this page in a multi-page UPO. */
+export interface UpoPageDescription {
+  pageNumber: number;
+  pageCount: number;
+  firstDocument: number;
+  lastDocument: number;
+  totalDocuments: number;
+}
+
+/** Official acknowledgement of receipt (UPO), parsed from `upo-v4-2` or `upo-v4-3` XML. */
+export interface Upo {
+  version: UpoVersion;
+  /** `NazwaPodmiotuPrzyjmujacego` */
+  receivingEntityName: string;
+  /** `NumerReferencyjnySesji` */
+  sessionReferenceNumber: string;
+  authentication: UpoAuthentication;
+  /** `NazwaStrukturyLogicznej`, e.g. `schemat_FA(3)_v1-0E.xsd`. */
+  schemaName: string | null;
+  /** `KodFormularza`, e.g. `FA (3)`. */
+  formCode: string | null;
+  page: UpoPageDescription | null;
+  documents: UpoDocument[];
+}
+
+export interface UpoVerificationOptions {
+  /**
+   * Certificates the UPO signer must chain to (PEM, DER or `X509Certificate`):
+   * the Ministry's signing certificate itself or an issuing CA. Required unless
+   * `allowUntrusted` is set.
+   */
+  trustedCertificates?: Array<string | Buffer | X509Certificate>;
+  /**
+   * Accept a signature that is intact but not anchored in `trustedCertificates`
+   * (default: false). Anyone can produce such a UPO; use only for diagnostics.
+   */
+  allowUntrusted?: boolean;
+  /** Fail when the download carried no `x-ms-meta-hash` (default: true). */
+  requireHash?: boolean;
+}
+
+/** Details of a verified XAdES signature. */
+export interface UpoSignatureInfo {
+  certificate: X509Certificate;
+  signatureMethod: string;
+  /** `xades:SigningTime`, when the signature carries XAdES properties. */
+  signingTime: string | null;
+  /** True when the certificate chains to one of `trustedCertificates`. */
+  trusted: boolean;
+}
+
+/**
+ * UPO whose hash and signature were checked. It is proof of receipt only when
+ * `signature.trusted` is true.
+ */
+export interface VerifiedUpo {
+  upo: Upo;
+  xml: string;
+  /** SHA-256 of `xml` (Base64), equal to `x-ms-meta-hash` when it was returned. */
+  hash: string;
+  signature: UpoSignatureInfo;
+}
+
+export interface UpoPageDownloadOptions {
+  /** Pages downloaded in parallel (default: 4). */
+  downloadConcurrency?: number;
+  /** Attempts per page, including the first one (default: 3). */
+  downloadAttempts?: number;
+  /** Delay before the first retry, doubled for each further attempt (default: 1000). */
+  retryDelayMs?: number;
+}
+
+/**
+ * Options for downloading UPO from pre-signed links. `requireHash` defaults to false
+ * here: the links may omit `x-ms-meta-hash`, which is still checked when returned.
+ */
+export interface SessionUpoDownloadOptions extends UpoPageDownloadOptions, UpoVerificationOptions {}
+
+/** Receipt for a single invoice: its UPO entry and the verified page containing it. */
+export interface UpoInvoiceReceipt {
+  document: UpoDocument;
+  page: VerifiedUpo;
+}
+
+/** Every page of a session UPO, verified and indexed by KSeF number. */
+export interface SessionUpoReceipts {
+  referenceNumber: string;
+  /** Verified pages in page order. */
+  pages: VerifiedUpo[];
+  invoices: Map<string, UpoInvoiceReceipt>;
+}
@@ -0,0 +1,104 @@
+import { X509Certificate } from 'node:crypto';
+import type { Document } from '@xmldom/xmldom';
+import { KsefApiError } from '@/types/common.js';
+import { sha256Base64 } from '../crypto/encryption.js';
+import type { UpoDownloadResult } from '../types/session.js';
+import { parseUpoXml, readUpo } from './parser.js';
+import type { UpoSignatureInfo, UpoVerificationOptions, VerifiedUpo } from './types.js';
+import { verifyEnvelopedXadesSignature } from './xades.js';
+
+export type UpoVerificationErrorCode =
+  | 'UPO_HASH_MISSING'
+  | 'UPO_HASH_MISMATCH'
+  | 'UPO_MALFORMED'
+  | 'UPO_SIGNATURE_INVALID'
+  | 'UPO_CERTIFICATE_UNTRUSTED';
+
+/** Raised when a downloaded UPO fails the hash, structure or signature checks. */
+export class UpoVerificationError extends KsefApiError {
+  declare readonly code: UpoVerificationErrorCode;
+
+  constructor(message: string, code: UpoVerificationErrorCode) {
+    super(message, { code });
+    this.name = 'UpoVerificationError';
+  }
+}
+
+/**
+ * Checks a downloaded UPO end to end: the content against `x-ms-meta-hash`, the
+ * Ministry's XAdES signature and its chain to `trustedCertificates`, then parses it
+ * into a typed receipt. Without trust anchors it fails unless `allowUntrusted` is set.
+ */
+export function verifyUpo(download: UpoDownloadResult, options: UpoVerificationOptions = {}): VerifiedUpo {
+  const hash = verifyUpoHash(download, options.requireHash ?? true);
+
+  const document = parseDocument(download.xml);
+  const signature = verifySignature(document, options);
+
+  try {
+    return { upo: readUpo(document), xml: download.xml, hash, signature };
+  } catch (error) {
+    throw new UpoVerificationError((error as Error).message, 'UPO_MALFORMED');
+  }
+}
+
+/**
+ * Compares the SHA-256 of the UPO content with the `x-ms-meta-hash` returned by the
+ * download endpoint and returns the computed hash.
+ */
+export function verifyUpoHash(download: UpoDownloadResult, requireHash = true): string {
+  const hash = sha256Base64(Buffer.from(download.xml, 'utf8'));
+  if (!download.hash) {
+    if (requireHash) {
+      throw new UpoVerificationError('UPO download did not include x-ms-meta-hash', 'UPO_HASH_MISSING');
+    }
+    return hash;
+  }
+  if (download.hash !== hash) {
+    throw new UpoVerificationError(
+      `UPO content hash ${hash} does not match x-ms-meta-hash ${download.hash}`,
+      'UPO_HASH_MISMATCH'
+    );
+  }
+  return hash;
+}
+
+/** Verifies only the XAdES signature of UPO XML. */
+export function verifyUpoSignature(xml: string, options: UpoVerificationOptions = {}): UpoSignatureInfo {
+  return verifySignature(parseDocument(xml), options);
+}
+
+function parseDocument(xml: string): Document {
+  try {
+    return parseUpoXml(xml);
+  } catch (error) {
+    throw new UpoVerificationError(`UPO is not well-formed XML: ${(error as Error).message}`, 'UPO_MALFORMED');
+  }
+}
+
+function verifySignature(document: Document, options: UpoVerificationOptions): UpoSignatureInfo {
+  const trustedCertificates = (options.trustedCertificates ?? []).map(toCertificate);
+  let result: UpoSignatureInfo;
+  try {
+    result = verifyEnvelopedXadesSignature(document, trustedCertificates);
+  } catch (error) {
+    throw new UpoVerificationError(
+      `UPO signature verification failed: ${(error as Error).message}`,
+      'UPO_SIGNATURE_INVALID'
+    );
+  }
+  if (!result.trusted && !options.allowUntrusted) {
+    const reason = trustedCertificates.length > 0
+      ? 'is not trusted'
+      : 'cannot be trusted without trustedCertificates (pass allowUntrusted: true to skip this check)';
+    throw new UpoVerificationError(
+      `UPO signing certificate (${result.certificate.subject.replace(/\n/g, ', ')}) ${reason}`,
+      'UPO_CERTIFICATE_UNTRUSTED'
+    );
+  }
+  return result;
+}
+
+function toCertificate(certificate: string | Buffer | X509Certificate): X509Certificate {
+  return certificate instanceof X509Certificate ? certificate : new X509Certificate(certificate);
+}
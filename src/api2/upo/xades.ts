@@ -0,0 +1,358 @@
+import { constants, createHash, verify as cryptoVerify, X509Certificate } from 'node:crypto';
+import type { Document, Element } from '@xmldom/xmldom';
+import {
+  C14nCanonicalization,
+  C14nCanonicalizationWithComments,
+  ExclusiveCanonicalization,
+  ExclusiveCanonicalizationWithComments
+} from 'xml-crypto';
+
+const DS_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const XADES_NS = 'http://uri.etsi.org/01903/v1.3.2#';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+const C14N = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+const C14N_WITH_COMMENTS = `${C14N}#WithComments`;
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+const EXC_C14N_WITH_COMMENTS = `${EXC_C14N}WithComments`;
+const MAX_CHAIN_DEPTH = 8;
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#sha384': 'sha384',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512'
+};
+
+interface SignatureAlgorithm {
+  hash: string;
+  type: 'rsa' | 'rsa-pss' | 'ecdsa';
+}
+
+const SIGNATURE_ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': { hash: 'sha256', type: 'rsa' },
+  // Non-standard URI also used by this SDK's own XAdES requests.
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha256': { hash: 'sha256', type: 'rsa' },
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha384': { hash: 'sha384', type: 'rsa' },
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': { hash: 'sha512', type: 'rsa' },
+  'http://www.w3.org/2007/05/xmldsig-more#sha256-rsa-MGF1': { hash: 'sha256', type: 'rsa-pss' },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256': { hash: 'sha256', type: 'ecdsa' },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha384': { hash: 'sha384', type: 'ecdsa' },
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha512': { hash: 'sha512', type: 'ecdsa' }
+};
+
+export interface XadesVerificationResult {
+  certificate: X509Certificate;
+  signatureMethod: string;
+  signingTime: string | null;
+  trusted: boolean;
+}
+
+/**
+ * Verifies the single enveloped XMLDSig/XAdES signature of `document`: every
+ * reference digest, the `SignedInfo` signature with the embedded certificate and,
+ * when present, the XAdES `SigningCertificate` digest. The signature must cover the
+ * whole document. Throws on any mismatch; an untrusted certificate is reported via
+ * `trusted` so the caller decides how to handle it.
+ */
+export function verifyEnvelopedXadesSignature(
+  document: Document,
+  trustedCertificates: X509Certificate[] = []
+): XadesVerificationResult {
+  const root = document.documentElement;
+  if (!root) {
+    throw new Error('document is empty');
+  }
+  const signatures = elementsByTagNameNS(document, DS_NS, 'Signature');
+  if (signatures.length !== 1) {
+    throw new Error(`expected exactly one ds:Signature, found ${signatures.length}`);
+  }
+  const signature = signatures[0]!;
+  const signedInfo = requiredDsChild(signature, 'SignedInfo');
+
+  let coversDocument = false;
+  const referenced = new Set<Element>();
+  for (const reference of dsChildren(signedInfo, 'Reference')) {
+    const target = verifyReference(document, signature, reference);
+    referenced.add(target);
+    coversDocument ||= target === root;
+  }
+  if (!coversDocument) {
+    throw new Error('signature does not reference the whole document');
+  }
+
+  const certificates = dsDescendants(signature, 'X509Certificate').map(
+    (element) => new X509Certificate(Buffer.from(textOf(element), 'base64'))
+  );
+  const signedProperties = elementsByTagNameNS(signature, XADES_NS, 'SignedProperties');
+  if (signedProperties.length > 1) {
+    throw new Error('signature contains more than one xades:SignedProperties');
+  }
+  const properties = signedProperties[0];
+  if (properties && !referenced.has(properties)) {
+    throw new Error('xades:SignedProperties is not covered by the signature');
+  }
+
+  const certificate = properties ? findSigningCertificate(properties, certificates) : certificates[0];
+  if (!certificate) {
+    throw new Error('signature does not embed the signing certificate');
+  }
+
+  const signatureMethod = requiredDsChild(signedInfo, 'SignatureMethod').getAttribute('Algorithm') ?? '';
+  const algorithm = SIGNATURE_ALGORITHMS[signatureMethod];
+  if (!algorithm) {
+    throw new Error(`unsupported signature method ${signatureMethod}`);
+  }
+  const canonicalizationMethod = requiredDsChild(signedInfo, 'CanonicalizationMethod').getAttribute('Algorithm') ?? '';
+  const canonicalSignedInfo = canonicalize(canonicalizationMethod, signedInfo, null);
+  const signatureValue = Buffer.from(textOf(requiredDsChild(signature, 'SignatureValue')).replace(/\s+/g, ''), 'base64');
+  if (!verifySignatureValue(algorithm, certificate, Buffer.from(canonicalSignedInfo, 'utf8'), signatureValue)) {
+    throw new Error('SignatureValue does not match SignedInfo');
+  }
+
+  const signingTime = properties ? elementsByTagNameNS(properties, XADES_NS, 'SigningTime')[0] : undefined;
+  const signingTimeValue = signingTime ? textOf(signingTime) : null;
+  assertValidAt(certificate, signingTimeValue ? new Date(signingTimeValue) : new Date());
+
+  return {
+    certificate,
+    signatureMethod,
+    signingTime: signingTimeValue,
+    trusted: trustedCertificates.length > 0 && chainsToTrusted(certificate, certificates, trustedCertificates)
+  };
+}
+
+function verifyReference(document: Document, signature: Element, reference: Element): Element {
+  const uri = reference.getAttribute('URI') ?? '';
+  const target = resolveReference(document, uri);
+  const transforms = dsChild(reference, 'Transforms');
+  const algorithms = transforms ? dsChildren(transforms, 'Transform') : [];
+
+  let canonicalization: { algorithm: string; transform: Element | null } = { algorithm: C14N, transform: null };
+  let enveloped = false;
+  for (const transform of algorithms) {
+    const algorithm = transform.getAttribute('Algorithm') ?? '';
+    if (algorithm === ENVELOPED_SIGNATURE) {
+      enveloped = true;
+    } else {
+      canonicalization = { algorithm, transform };
+    }
+  }
+
+  const digestMethod = requiredDsChild(reference, 'DigestMethod').getAttribute('Algorithm') ?? '';
+  const expected = textOf(requiredDsChild(reference, 'DigestValue')).replace(/\s+/g, '');
+
+  // Detach the signature for the enveloped-signature transform and restore it afterwards.
+  const parent = enveloped && isAncestor(target, signature) ? signature.parentNode : null;
+  const nextSibling = signature.nextSibling;
+  parent?.removeChild(signature);
+  try {
+    const canonical = canonicalize(canonicalization.algorithm, target, canonicalization.transform);
+    if (digest(digestMethod, Buffer.from(canonical, 'utf8')) !== expected) {
+      throw new Error(`digest mismatch for reference ${uri === '' ? '""' : uri}`);
+    }
+  } finally {
+    parent?.insertBefore(signature, nextSibling);
+  }
+  return target;
+}
+
+function resolveReference(document: Document, uri: string): Element {
+  if (uri === '') {
+    return document.documentElement!;
+  }
+  if (!uri.startsWith('#')) {
+    throw new Error(`unsupported reference URI ${uri}`);
+  }
+  const id = uri.slice(1);
+  const matches = elementsByTagNameNS(document, '*', '*').filter(
+    (element) => ['Id', 'ID', 'id'].some((name) => element.getAttribute(name) === id)
+  );
+  if (matches.length !== 1) {
+    throw new Error(`reference ${uri} must match exactly one element, found ${matches.length}`);
+  }
+  return matches[0]!;
+}
+
+function findSigningCertificate(properties: Element, certificates: X509Certificate[]): X509Certificate {
+  const certDigests = elementsByTagNameNS(properties, XADES_NS, 'CertDigest');
+  if (certDigests.length === 0) {
+    throw new Error('xades:SigningCertificate is missing');
+  }
+  for (const certDigest of certDigests) {
+    const method = requiredDsChild(certDigest, 'DigestMethod').getAttribute('Algorithm') ?? '';
+    const expected = textOf(requiredDsChild(certDigest, 'DigestValue')).replace(/\s+/g, '');
+    const match = certificates.find((certificate) => digest(method, certificate.raw) === expected);
+    if (match) {
+      return match;
+    }
+  }
+  throw new Error('xades:SigningCertificate does not match any embedded certificate');
+}
+
+function verifySignatureValue(
+  algorithm: SignatureAlgorithm,
+  certificate: X509Certificate,
+  data: Buffer,
+  signatureValue: Buffer
+): boolean {
+  const key = certificate.publicKey;
+  switch (algorithm.type) {
+    case 'ecdsa':
+      // XMLDSig encodes ECDSA signatures as r||s.
+      return cryptoVerify(algorithm.hash, data, { key, dsaEncoding: 'ieee-p1363' }, signatureValue);
+    case 'rsa-pss':
+      return cryptoVerify(
+        algorithm.hash,
+        data,
+        { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+        signatureValue
+      );
+    default:
+      return cryptoVerify(algorithm.hash, data, key, signatureValue);
+  }
+}
+
+function assertValidAt(certificate: X509Certificate, at: Date): void {
+  const time = at.getTime();
+  if (Number.isNaN(time)) {
+    throw new Error('xades:SigningTime is not a valid date');
+  }
+  if (time < Date.parse(certificate.validFrom) || time > Date.parse(certificate.validTo)) {
+    throw new Error(`signing certificate is not valid at ${at.toISOString()}`);
+  }
+}
+
+function chainsToTrusted(
+  certificate: X509Certificate,
+  intermediates: X509Certificate[],
+  trusted: X509Certificate[]
+): boolean {
+  let current = certificate;
+  for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+    if (trusted.some((anchor) => anchor.fingerprint256 === current.fingerprint256 || isIssuedBy(current, anchor))) {
+      return true;
+    }
+    const issuer = intermediates.find(
+      (candidate) => candidate.fingerprint256 !== current.fingerprint256 && isIssuedBy(current, candidate)
+    );
+    if (!issuer) {
+      return false;
+    }
+    current = issuer;
+  }
+  return false;
+}
+
+function isIssuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+}
+
+function canonicalize(algorithm: string, element: Element, transform: Element | null): string {
+  switch (algorithm) {
+    case C14N:
+    case C14N_WITH_COMMENTS: {
+      const c14n = algorithm === C14N ? new C14nCanonicalization() : new C14nCanonicalizationWithComments();
+      return c14n.process(element, inclusiveContext(element));
+    }
+    case EXC_C14N:
+    case EXC_C14N_WITH_COMMENTS: {
+      const c14n = algorithm === EXC_C14N ? new ExclusiveCanonicalization() : new ExclusiveCanonicalizationWithComments();
+      const inclusiveNamespaces = transform?.getElementsByTagNameNS(EXC_C14N, 'InclusiveNamespaces')[0];
+      const prefixList = inclusiveNamespaces?.getAttribute('PrefixList')?.split(/\s+/).filter(Boolean) ?? [];
+      return c14n.process(element, {
+        inclusiveNamespacesPrefixList: prefixList,
+        ancestorNamespaces: ancestorNamespaces(element)
+      });
+    }
+    default:
+      throw new Error(`unsupported canonicalization method ${algorithm}`);
+  }
+}
+
+/** Inclusive C14N of a subtree also renders the namespaces inherited from its ancestors. */
+function inclusiveContext(element: Element): { ancestorNamespaces: Array<{ prefix: string; namespaceURI: string }>; defaultNs?: string } {
+  const namespaces = ancestorNamespaces(element);
+  if (!element.prefix) {
+    return { ancestorNamespaces: namespaces.filter((namespace) => namespace.prefix !== '') };
+  }
+  const inheritedDefault = namespaces.find((namespace) => namespace.prefix === '')?.namespaceURI;
+  return inheritedDefault ? { ancestorNamespaces: namespaces, defaultNs: inheritedDefault } : { ancestorNamespaces: namespaces };
+}
+
+function ancestorNamespaces(element: Element): Array<{ prefix: string; namespaceURI: string }> {
+  const seen = new Set(declaredNamespaces(element).map((namespace) => namespace.prefix));
+  const result: Array<{ prefix: string; namespaceURI: string }> = [];
+  for (let node = element.parentNode; node && node.nodeType === node.ELEMENT_NODE; node = node.parentNode) {
+    for (const namespace of declaredNamespaces(node as Element)) {
+      if (!seen.has(namespace.prefix)) {
+        seen.add(namespace.prefix);
+        if (namespace.namespaceURI) {
+          result.push(namespace);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+function declaredNamespaces(element: Element): Array<{ prefix: string; namespaceURI: string }> {
+  const result: Array<{ prefix: string; namespaceURI: string }> = [];
+  for (let index = 0; index < element.attributes.length; index++) {
+    const attribute = element.attributes.item(index)!;
+    if (attribute.namespaceURI === XMLNS_NS) {
+      result.push({ prefix: attribute.prefix ? attribute.localName ?? '' : '', namespaceURI: attribute.value });
+    }
+  }
+  return result;
+}
+
+function digest(algorithm: string, data: Buffer): string {
+  const hash = DIGEST_ALGORITHMS[algorithm];
+  if (!hash) {
+    throw new Error(`unsupported digest method ${algorithm}`);
+  }
+  return createHash(hash).update(data).digest('base64');
+}
+
+function isAncestor(ancestor: Element, node: Element): boolean {
+  for (let current = node.parentNode; current; current = current.parentNode) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function elementsByTagNameNS(root: Document | Element, namespace: string, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS(namespace, localName));
+}
+
+function dsChildren(element: Element, localName: string): Element[] {
+  const result: Element[] = [];
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === node.ELEMENT_NODE && node.namespaceURI === DS_NS && node.localName === localName) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+function dsChild(element: Element, localName: string): Element | null {
+  return dsChildren(element, localName)[0] ?? null;
+}
+
+function requiredDsChild(element: Element, localName: string): Element {
+  const found = dsChild(element, localName);
+  if (!found) {
+    throw new Error(`ds:${localName} is missing in ${element.localName}`);
+  }
+  return found;
+}
+
+function dsDescendants(element: Element, localName: string): Element[] {
+  return elementsByTagNameNS(element, DS_NS, localName);
+}
+
+function textOf(element: Element): string {
+  return (element.textContent ?? '').trim();
+}
@@ -0,0 +1,120 @@
+import { ProcessError } from '@/types/common.js';
+import type { CertificateCredentials } from '@/types/auth.js';
+import type {
+  ApiV2ResponseStatus,
+  AuthenticationInitResponse,
+  AuthenticationOperationStatusResponse,
+  AuthenticationTokenRedeemResponse,
+  AuthenticationTokens,
+  ContextIdentifier
+} from '../types/common.js';
+import type { AuthenticationV2Service } from '../services/authentication.js';
+import type { SubjectIdentifierTypeV2 } from '../auth/xades-request.js';
+import { pollUntil, type PollingOptions } from './polling.js';
+
+const AUTHENTICATION_IN_PROGRESS = 100;
+const AUTHENTICATION_SUCCEEDED = 200;
+
+interface AuthenticateBaseOptions extends PollingOptions {
+  contextIdentifier: ContextIdentifier;
+}
+
+export interface TokenAuthenticateOptions extends AuthenticateBaseOptions {
+  /** KSeF token issued in the portal or via `/tokens`. */
+  token: string;
+  ipAddressPolicy?: 'STRICT' | 'NONE';
+}
+
+export interface CertificateAuthenticateOptions extends AuthenticateBaseOptions {
+  /** Certificate used to sign the XAdES AuthTokenRequest. */
+  certificate: CertificateCredentials;
+  subjectIdentifierType?: SubjectIdentifierTypeV2;
+  verifyCertificateChain?: boolean;
+}
+
+export type AuthenticateOptions = TokenAuthenticateOptions | CertificateAuthenticateOptions;
+
+export interface AuthenticateResult {
+  /** Reference number of the authentication operation (`/auth/{referenceNumber}`). */
+  referenceNumber: string;
+  authenticationToken: AuthenticationTokens;
+  status: AuthenticationOperationStatusResponse;
+  tokens: AuthenticationTokenRedeemResponse;
+}
+
+/**
+ * Raised when `/auth/{referenceNumber}` reports a terminal status other than 200
+ * (e.g. 415 missing permissions, 450 invalid token, 460 certificate error).
+ */
+export class AuthenticationFailedError extends ProcessError {
+  readonly status: ApiV2ResponseStatus;
+
+  constructor(referenceNumber: string, status: ApiV2ResponseStatus) {
+    const details = status.details?.length ? `: ${status.details.join(', ')}` : '';
+    super(
+      `Authentication ${referenceNumber} failed with status ${status.code} (${status.description})${details}`,
+      { referenceNumber, processingCode: status.code }
+    );
+    this.name = 'AuthenticationFailedError';
+    this.status = status;
+  }
+}
+
+/**
+ * Runs the complete API 2.0 authentication flow:
+ * challenge -> init (token or XAdES) -> poll `/auth/{referenceNumber}` -> redeem.
+ * See https://github.com/CIRFMF/ksef-docs/blob/main/uwierzytelnianie.md
+ */
+export async function runAuthenticationWorkflow(
+  authentication: AuthenticationV2Service,
+  options: AuthenticateOptions
+): Promise<AuthenticateResult> {
+  const init = await initiateAuthentication(authentication, options);
+  const authenticationToken = init.authenticationToken.token;
+
+  const status = await pollUntil(
+    () => authentication.getAuthenticationStatus(init.referenceNumber, authenticationToken),
+    {
+      ...options,
+      isTerminal: (operation) => operation.status.code !== AUTHENTICATION_IN_PROGRESS,
+      description: `Authentication ${init.referenceNumber}`,
+      defaultTimeoutMs: 2 * 60_000,
+      defaultInitialDelayMs: 1_000,
+      defaultMaxDelayMs: 5_000
+    }
+  );
+
+  if (status.status.code !== AUTHENTICATION_SUCCEEDED) {
+    throw new AuthenticationFailedError(init.referenceNumber, status.status);
+  }
+
+  const tokens = await authentication.redeemTokens(authenticationToken);
+  return {
+    referenceNumber: init.referenceNumber,
+    authenticationToken: init.authenticationToken,
+    status,
+    tokens
+  };
+}
+
+async function initiateAuthentication(
+  authentication: AuthenticationV2Service,
+  options: AuthenticateOptions
+): Promise<AuthenticationInitResponse> {
+  if ('token' in options) {
+    return await authentication.initiateTokenAuthentication(
+      options.contextIdentifier,
+      options.token,
+      options.ipAddressPolicy ? { ipAddressPolicy: options.ipAddressPolicy } : undefined
+    );
+  }
+
+  return await authentication.initiateXadesAuthenticationWithCertificate(
+    options.certificate,
+    options.contextIdentifier,
+    options.subjectIdentifierType,
+    options.verifyCertificateChain !== undefined
+      ? { verifyCertificateChain: options.verifyCertificateChain }
+      : undefined
+  );
+}
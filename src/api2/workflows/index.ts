@@ -0,0 +1,7 @@
+/**
+ * High-level workflows composed from the low-level API v2 services.
+ */
+
+export * from './polling.js';
+export * from './authentication.js';
+export * from './online-session.js';
@@ -0,0 +1,245 @@
+import { ProcessError } from '@/types/common.js';
+import type { FormCode } from '../types/common.js';
+import type { SendInvoiceResponse } from '../types/invoice.js';
+import type {
+  SessionInvoiceStatus,
+  SessionStatusResponse,
+  UpoDownloadResult
+} from '../types/session.js';
+import type { SymmetricKeyMaterial } from '../crypto/symmetric.js';
+import {
+  encryptInvoiceCorrectionPayload,
+  encryptInvoicePayload
+} from '../crypto/encryption.js';
+import type {
+  OpenOnlineSessionOptions,
+  OpenOnlineSessionResult,
+  SessionV2Service
+} from '../services/sessions.js';
+import type { InvoiceV2Service } from '../services/invoice.js';
+import { collectAll, paginateByContinuationToken } from '../pagination.js';
+import { pollUntil, type PollingOptions } from './polling.js';
+
+/** Returns the access token to use for the next request (re-read so AuthManager refreshes apply). */
+export type AccessTokenProvider = () => string | undefined;
+
+export interface OnlineSessionSendOptions {
+  offlineMode?: boolean;
+}
+
+export interface OnlineSessionWaitOptions extends PollingOptions {
+  /**
+   * Keep polling after status 200 until `upo.pages` is populated (default: true).
+   * Disable when the UPO is not needed right away.
+   */
+  waitForUpo?: boolean;
+  /**
+   * How long to keep polling for the UPO once the session is processed with status
+   * 200 (default: 60 s). Afterwards `SessionUpoUnavailableError` is thrown.
+   */
+  upoTimeoutMs?: number;
+}
+
+export interface OnlineSessionListOptions {
+  pageSize?: number;
+}
+
+/**
+ * Thrown by `waitUntilProcessed` when the session finished with status 200 but KSeF
+ * did not publish its UPO within `upoTimeoutMs`. The invoices are processed; fetch
+ * the UPO later with `downloadUpo()`.
+ */
+export class SessionUpoUnavailableError extends ProcessError {
+  constructor(referenceNumber: string, public readonly status: SessionStatusResponse) {
+    super(`Online session ${referenceNumber} is processed, but its UPO is not available yet`, { referenceNumber });
+    this.name = 'SessionUpoUnavailableError';
+  }
+}
+
+/**
+ * Stateful handle for an interactive (online) session built on top of
+ * `SessionV2Service` and `InvoiceV2Service`. It keeps the negotiated AES key,
+ * encrypts invoices before sending and guards against use after close/expiry.
+ * Flow: https://github.com/CIRFMF/ksef-docs/blob/main/sesja-interaktywna.md
+ */
+export class OnlineSession {
+  readonly referenceNumber: string;
+  readonly formCode: FormCode;
+  readonly encryptionMaterial: SymmetricKeyMaterial;
+  private currentValidUntil: string;
+  private closed = false;
+
+  constructor(
+    private readonly sessions: SessionV2Service,
+    private readonly invoices: InvoiceV2Service,
+    private readonly getAccessToken: AccessTokenProvider,
+    opened: OpenOnlineSessionResult,
+    formCode: FormCode
+  ) {
+    this.referenceNumber = opened.referenceNumber;
+    this.currentValidUntil = opened.validUntil;
+    this.encryptionMaterial = opened.encryptionMaterial;
+    this.formCode = formCode;
+  }
+
+  static async open(
+    sessions: SessionV2Service,
+    invoices: InvoiceV2Service,
+    getAccessToken: AccessTokenProvider,
+    formCode: FormCode,
+    options: OpenOnlineSessionOptions = {}
+  ): Promise<OnlineSession> {
+    const accessToken = requireAccessToken(getAccessToken);
+    const opened = await sessions.openOnlineSession(accessToken, formCode, options);
+    return new OnlineSession(sessions, invoices, getAccessToken, opened, formCode);
+  }
+
+  get validUntil(): string {
+    return this.currentValidUntil;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    const validUntil = Date.parse(this.currentValidUntil);
+    return !Number.isNaN(validUntil) && validUntil <= now.getTime();
+  }
+
+  async send(
+    invoiceXml: string | Buffer,
+    options: OnlineSessionSendOptions = {}
+  ): Promise<SendInvoiceResponse> {
+    this.assertWritable();
+    const payload = encryptInvoicePayload(invoiceXml, this.encryptionMaterial, options);
+    return await this.invoices.sendInvoice(this.accessToken(), this.referenceNumber, payload);
+  }
+
+  /**
+   * Sends a correction invoice. `correctedInvoiceXml` is the original invoice being
+   * corrected; its hash is sent as `hashOfCorrectedInvoice`.
+   */
+  async sendCorrection(
+    invoiceXml: string | Buffer,
+    correctedInvoiceXml: string | Buffer,
+    options: OnlineSessionSendOptions = {}
+  ): Promise<SendInvoiceResponse> {
+    this.assertWritable();
+    const payload = encryptInvoiceCorrectionPayload(
+      invoiceXml,
+      correctedInvoiceXml,
+      this.encryptionMaterial,
+      options
+    );
+    return await this.invoices.sendInvoice(this.accessToken(), this.referenceNumber, payload);
+  }
+
+  /** Closes the session. Calling it again is a no-op. */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    await this.sessions.closeOnlineSession(this.accessToken(), this.referenceNumber);
+    this.closed = true;
+  }
+
+  async getStatus(): Promise<SessionStatusResponse> {
+    const status = await this.sessions.getSessionStatus(this.accessToken(), this.referenceNumber);
+    if (status.validUntil) {
+      this.currentValidUntil = status.validUntil;
+    }
+    return status;
+  }
+
+  /**
+   * Polls the session status until processing finished (status code >= 200) and,
+   * unless disabled, the session UPO has been generated. A processed session whose
+   * UPO does not appear within `upoTimeoutMs` raises `SessionUpoUnavailableError`.
+   */
+  async waitUntilProcessed(options: OnlineSessionWaitOptions = {}): Promise<SessionStatusResponse> {
+    const waitForUpo = options.waitForUpo ?? true;
+    const upoTimeoutMs = options.upoTimeoutMs ?? 60_000;
+    let processedAt: number | undefined;
+    const status = await pollUntil(() => this.getStatus(), {
+      ...options,
+      isTerminal: (current) => {
+        if (current.status.code < 200) {
+          return false;
+        }
+        if (waitForUpo && current.status.code === 200 && !hasUpo(current)) {
+          processedAt ??= Date.now();
+          return Date.now() - processedAt >= upoTimeoutMs;
+        }
+        return true;
+      },
+      description: `Online session ${this.referenceNumber}`,
+      defaultInitialDelayMs: 2_000
+    });
+    if (waitForUpo && status.status.code === 200 && !hasUpo(status)) {
+      throw new SessionUpoUnavailableError(this.referenceNumber, status);
+    }
+    return status;
+  }
+
+  /** Lists every invoice submitted in this session, following continuation tokens. */
+  async invoiceStatuses(options: OnlineSessionListOptions = {}): Promise<SessionInvoiceStatus[]> {
+    return await collectAll(paginateByContinuationToken(
+      async (continuationToken) => {
+        const page = await this.sessions.listSessionInvoices(this.accessToken(), this.referenceNumber, {
+          ...(continuationToken !== undefined ? { continuationToken } : {}),
+          ...(options.pageSize !== undefined ? { pageSize: options.pageSize } : {})
+        });
+        return { items: page.invoices, continuationToken: page.continuationToken };
+      },
+      'Session invoice'
+    ));
+  }
+
+  /**
+   * Downloads every page of the session UPO. Pass a status obtained from
+   * `waitUntilProcessed()` to skip the extra status request.
+   */
+  async downloadUpo(status?: SessionStatusResponse): Promise<UpoDownloadResult[]> {
+    const current = status ?? await this.getStatus();
+    const pages = current.upo?.pages ?? [];
+    if (pages.length === 0) {
+      throw new Error(`Session UPO for ${this.referenceNumber} is not available yet (status ${current.status.code})`);
+    }
+
+    const results: UpoDownloadResult[] = [];
+    for (const page of pages) {
+      results.push(await this.sessions.downloadSessionUpoWithHash(
+        this.accessToken(),
+        this.referenceNumber,
+        page.referenceNumber
+      ));
+    }
+    return results;
+  }
+
+  private assertWritable(): void {
+    if (this.closed) {
+      throw new Error(`Online session ${this.referenceNumber} is closed; open a new session to send invoices`);
+    }
+    if (this.isExpired()) {
+      throw new Error(`Online session ${this.referenceNumber} expired at ${this.currentValidUntil}`);
+    }
+  }
+
+  private accessToken(): string {
+    return requireAccessToken(this.getAccessToken);
+  }
+}
+
+function hasUpo(status: SessionStatusResponse): boolean {
+  return (status.upo?.pages.length ?? 0) > 0;
+}
+
+function requireAccessToken(getAccessToken: AccessTokenProvider): string {
+  const token = getAccessToken();
+  if (!token) {
+    throw new Error('Access token is not available. Authenticate first or pass accessToken explicitly.');
+  }
+  return token;
+}
@@ -0,0 +1,55 @@
+export interface PollingOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  timeoutMs?: number;
+  maxAttempts?: number;
+}
+
+export interface PollUntilOptions<T> extends PollingOptions {
+  isTerminal: (value: T) => boolean;
+  /** Label used in timeout errors, e.g. `Batch session 20250101-SB-...`. */
+  description: string;
+  defaultTimeoutMs?: number;
+  defaultInitialDelayMs?: number;
+  defaultMaxDelayMs?: number;
+}
+
+/**
+ * Repeatedly calls `fetchValue` until `isTerminal` accepts the result, sleeping with
+ * exponential backoff between attempts. Shared by the batch, auth and session workflows.
+ */
+export async function pollUntil<T>(
+  fetchValue: () => Promise<T>,
+  options: PollUntilOptions<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  const timeoutMs = options.timeoutMs ?? options.defaultTimeoutMs ?? 15 * 60_000;
+  const maxAttempts = options.maxAttempts ?? Number.POSITIVE_INFINITY;
+  let delayMs = options.initialDelayMs ?? options.defaultInitialDelayMs ?? 5_000;
+  const maxDelayMs = options.maxDelayMs ?? options.defaultMaxDelayMs ?? 30_000;
+  const backoffFactor = options.backoffFactor ?? 1.5;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const value = await fetchValue();
+    if (options.isTerminal(value)) {
+      return value;
+    }
+    if (Date.now() - startedAt >= timeoutMs) {
+      throw new Error(`${options.description} did not complete within ${timeoutMs}ms`);
+    }
+    if (attempt < maxAttempts) {
+      await sleep(delayMs);
+      delayMs = Math.min(maxDelayMs, Math.ceil(delayMs * backoffFactor));
+    }
+  }
+
+  throw new Error(`${options.description} did not complete within ${maxAttempts} attempts`);
+}
+
+export function sleep(delayMs: number): Promise<void> {
+  if (delayMs <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
@@ -14,6 +14,17 @@ export interface SystemWarningInfo {
   status: number;
 }
 
+/** Result of a single HTTP attempt; retries are reported separately */
+export interface HttpRequestOutcome {
+  method: string;
+  url: string;
+  /** Response status, absent when no response arrived */
+  status?: number;
+  /** Why no response arrived */
+  failure?: 'timeout' | 'network';
+  durationMs: number;
+}
+
 export interface HttpClientOptions {
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
@@ -41,4 +52,7 @@ export interface HttpClientOptions {
 
   /** Called when KSeF returns the X-System-Warning response header */
   onSystemWarning?: (warning: SystemWarningInfo) => void;
+
+  /** Called after every request attempt that reached the network, e.g. to monitor availability */
+  onRequestOutcome?: (outcome: HttpRequestOutcome) => void;
 }
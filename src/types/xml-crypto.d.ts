@@ -1,8 +1,15 @@
 declare module 'xml-crypto' {
+  export interface CanonicalizationOptions {
+    defaultNs?: string;
+    ancestorNamespaces?: Array<{ prefix: string; namespaceURI: string }>;
+    inclusiveNamespacesPrefixList?: string[];
+  }
   export class C14nCanonicalization {
-    process(node: import('@xmldom/xmldom').Node): string;
+    process(node: import('@xmldom/xmldom').Node, options?: CanonicalizationOptions): string;
   }
+  export class C14nCanonicalizationWithComments extends C14nCanonicalization {}
   export class ExclusiveCanonicalization {
-    process(node: import('@xmldom/xmldom').Node): string;
+    process(node: import('@xmldom/xmldom').Node, options?: CanonicalizationOptions): string;
   }
+  export class ExclusiveCanonicalizationWithComments extends ExclusiveCanonicalization {}
 }
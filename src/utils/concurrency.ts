@@ -0,0 +1,15 @@
+/** Runs `worker` over `items` with at most `concurrency` calls in flight. */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++]!;
+      await worker(item);
+    }
+  });
+  await Promise.all(workers);
+}
@@ -4,12 +4,17 @@
 
 import { request } from 'node:https';
 import { Agent } from 'node:https';
-import type { HttpClientOptions, SystemWarningInfo } from '@/types/config.js';
+import type { HttpClientOptions, HttpRequestOutcome, SystemWarningInfo } from '@/types/config.js';
 import { KsefApiError, AuthenticationError, ValidationError } from '@/types/common.js';
 import { RateLimiter, createRateLimiter } from './rate-limiter.js';
 import type { RateLimitError } from '@/types/limits.js';
 import type { AuthManager } from '@/api2/auth-manager.js';
 
+/** `KsefApiError.code` of a request that failed before any response arrived. */
+export const HTTP_NETWORK_ERROR_CODE = 'NETWORK_ERROR';
+/** `KsefApiError.code` of a request that exceeded its timeout. */
+export const HTTP_TIMEOUT_ERROR_CODE = 'REQUEST_TIMEOUT';
+
 export interface HttpRequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   url: string;
@@ -34,10 +39,11 @@ export interface HttpResponse<T = any> {
 
 export class HttpClient {
   private readonly agent: Agent;
-  private readonly options: Required<Omit<HttpClientOptions, 'rateLimitConfig' | 'authManager' | 'onSystemWarning'>>;
+  private readonly options: Required<Omit<HttpClientOptions, 'rateLimitConfig' | 'authManager' | 'onSystemWarning' | 'onRequestOutcome'>>;
   private readonly rateLimiter?: RateLimiter;
   private authManager: AuthManager | undefined;
   private readonly onSystemWarning: ((warning: SystemWarningInfo) => void) | undefined;
+  private readonly onRequestOutcome: ((outcome: HttpRequestOutcome) => void) | undefined;
 
   constructor(options: HttpClientOptions = {}) {
     this.options = {
@@ -49,6 +55,7 @@ export class HttpClient {
       userAgent: options.userAgent ?? 'KSeF-TypeScript-Client/1.7.0'
     };
     this.onSystemWarning = options.onSystemWarning;
+    this.onRequestOutcome = options.onRequestOutcome;
 
     // Initialize rate limiter if configured
     if (options.rateLimitConfig) {
@@ -78,7 +85,15 @@ export class HttpClient {
         }
 
         const requestWithAuth = this.withManagedAuthorization(currentOptions);
-        const response = await this.executeRequest<T>(requestWithAuth, url);
+        const startedAt = Date.now();
+        let response: HttpResponse<T>;
+        try {
+          response = await this.executeRequest<T>(requestWithAuth, url);
+        } catch (error) {
+          this.emitRequestOutcome(requestWithAuth, url, startedAt, this.failureOutcome(error));
+          throw error;
+        }
+        this.emitRequestOutcome(requestWithAuth, url, startedAt, { status: response.status });
         this.emitSystemWarnings(response, requestWithAuth, url);
         return response;
       } catch (error) {
@@ -214,12 +229,12 @@ export class HttpClient {
       });
 
       req.on('error', (error) => {
-        reject(new KsefApiError(`Network error: ${error.message}`));
+        reject(new KsefApiError(`Network error: ${error.message}`, { code: HTTP_NETWORK_ERROR_CODE }));
       });
 
       req.on('timeout', () => {
         req.destroy();
-        reject(new KsefApiError('Request timeout'));
+        reject(new KsefApiError('Request timeout', { code: HTTP_TIMEOUT_ERROR_CODE }));
       });
 
       if (requestOptions.body) {
@@ -367,6 +382,35 @@ export class HttpClient {
     }
   }
 
+  private emitRequestOutcome(
+    requestOptions: HttpRequestOptions,
+    url: URL,
+    startedAt: number,
+    result: Pick<HttpRequestOutcome, 'status' | 'failure'>
+  ): void {
+    if (!this.onRequestOutcome) {
+      return;
+    }
+
+    try {
+      this.onRequestOutcome({
+        method: requestOptions.method,
+        url: url.toString(),
+        ...result,
+        durationMs: Date.now() - startedAt
+      });
+    } catch {
+      // Outcome callbacks are observational and must not change HTTP request semantics.
+    }
+  }
+
+  private failureOutcome(error: unknown): Pick<HttpRequestOutcome, 'status' | 'failure'> {
+    if (error instanceof KsefApiError && error.statusCode !== undefined) {
+      return { status: error.statusCode };
+    }
+    return { failure: error instanceof KsefApiError && error.code === HTTP_TIMEOUT_ERROR_CODE ? 'timeout' : 'network' };
+  }
+
   private getHeader(headers: Record<string, string>, name: string): string | undefined {
     const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
     return key ? headers[key] : undefined;
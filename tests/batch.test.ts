@@ -1,13 +1,23 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createDecipheriv, randomBytes } from 'node:crypto';
 import { gunzipSync } from 'node:zlib';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   BatchFileBuilder,
+  BatchOfflineDeadlineError,
+  BatchUploadLinkExpiredError,
+  FileBatchPartStore,
+  InMemoryBatchPartStore,
+  InMemoryBatchSubmissionStateStore,
   KsefBatchService,
   sha256Base64,
   type PreparedBatch
 } from '../src/api2/batch.js';
+import { readTarGzEntries, readZipEntries } from '../src/api2/export/archive.js';
 import type { SymmetricKeyMaterial } from '../src/api2/crypto/symmetric.js';
+import { createMockHttpClient, createMockSecurityService } from './helpers/mock-http-client.js';
 import type { SessionInvoiceStatus } from '../src/api2/types/session.js';
 
 const formCode = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' } as const;
@@ -271,6 +281,147 @@ describe('KsefBatchService', () => {
         ]
       })).rejects.toThrow(/uncompressed tar size 2048 exceeds buffered prepare limit of 2047 bytes/);
     });
+
+    it('builds a Zip archive when requested', async () => {
+      const material = createTestMaterial();
+      const longName = `${'nested/'.repeat(20)}invoice-1.xml`;
+
+      const prepared = await createBatchService().prepare({
+        formCode,
+        compression: 'Zip',
+        encryptionMaterial: material,
+        partSizeBytes: 100,
+        invoices: [
+          { localId: 'invoice-1', fileName: longName, xml: '<Faktura>1</Faktura>' },
+          { localId: 'invoice-2', fileName: 'invoice-2.xml', xml: '<Faktura>2</Faktura>' }
+        ]
+      });
+
+      expect(prepared.compressionType).toBe('Zip');
+      expect(prepared.batchFile.compressionType).toBe('Zip');
+      expect(prepared.manifest.map((item) => item.fileName)).toEqual([longName, 'invoice-2.xml']);
+      const archive = Buffer.concat(prepared.encryptedParts.map((part) => decryptPart(part, material)));
+      expect(prepared.batchFile.fileHash).toBe(sha256Base64(archive));
+      expect(readZipEntries(archive)).toEqual([
+        { name: longName, data: Buffer.from('<Faktura>1</Faktura>') },
+        { name: 'invoice-2.xml', data: Buffer.from('<Faktura>2</Faktura>') }
+      ]);
+    });
+
+    it('writes long and non-ASCII names to TarGz and applies the zip size estimate to Zip', async () => {
+      const service = createBatchService();
+      const material = createTestMaterial();
+      const invoices = [{ localId: 'invoice-1', fileName: `${'x'.repeat(101)}.xml`, xml: '<Faktura>1</Faktura>' }];
+
+      const prepared = await service.prepare({
+        formCode,
+        encryptionMaterial: material,
+        invoices: [...invoices, { localId: 'invoice-2', fileName: 'faktury/Żółć-2.xml', xml: '<Faktura>2</Faktura>' }]
+      });
+      const archive = Buffer.concat(prepared.encryptedParts.map((part) => decryptPart(part, material)));
+      expect(readTarGzEntries(archive).map((entry) => entry.name)).toEqual([`${'x'.repeat(101)}.xml`, 'faktury/Żółć-2.xml']);
+      await expect(service.prepare({
+        formCode,
+        compression: 'Zip',
+        encryptionMaterial: createTestMaterial(),
+        maxUncompressedArchiveSizeBytes: 100,
+        invoices
+      })).rejects.toThrow(/uncompressed zip size 328 exceeds buffered prepare limit of 100 bytes/);
+    });
+  });
+
+  describe('prepareStream', () => {
+    const invoices = Array.from({ length: 20 }, (_, index) => ({
+      localId: `invoice-${index}`,
+      fileName: `invoice-${index}.xml`,
+      xml: `<Faktura><Numer>${index}</Numer>${randomBytes(200).toString('hex')}</Faktura>`
+    }));
+
+    async function* lazily<T>(items: T[]): AsyncGenerator<T> {
+      for (const item of items) {
+        yield item;
+      }
+    }
+
+    it('produces the same archive, parts and manifest as the buffered prepare', async () => {
+      const material = createTestMaterial();
+      const service = createBatchService();
+      const partStore = new InMemoryBatchPartStore();
+
+      const streamed = await service.prepareStream({
+        formCode,
+        encryptionMaterial: material,
+        partSizeBytes: 1000,
+        invoices: lazily(invoices),
+        partStore
+      });
+      const buffered = await service.prepare({ formCode, encryptionMaterial: material, partSizeBytes: 1000, invoices });
+
+      expect(streamed.batchFile).toEqual(buffered.batchFile);
+      expect(streamed.batchFile.fileParts.length).toBeGreaterThan(2);
+      expect(streamed.manifest).toEqual(buffered.manifest);
+      expect(streamed.archiveHash).toBe(buffered.archiveHash);
+      for (const [index, part] of buffered.encryptedParts.entries()) {
+        expect(await partStore.readPart(index + 1)).toEqual(part);
+      }
+    });
+
+    it('streams Zip archives identical to the buffered prepare', async () => {
+      const material = createTestMaterial();
+      const service = createBatchService();
+      const partStore = new InMemoryBatchPartStore();
+      const options = { formCode, compression: 'Zip' as const, encryptionMaterial: material, partSizeBytes: 1000 };
+
+      const streamed = await service.prepareStream({ ...options, invoices: lazily(invoices), partStore });
+      const buffered = await service.prepare({ ...options, invoices });
+
+      expect(streamed.batchFile).toEqual(buffered.batchFile);
+      expect(streamed.manifest).toEqual(buffered.manifest);
+      for (const [index, part] of buffered.encryptedParts.entries()) {
+        expect(await partStore.readPart(index + 1)).toEqual(part);
+      }
+    });
+
+    it('reads invoice files and writes parts to a temporary directory', async () => {
+      const material = createTestMaterial();
+      const dir = await mkdtemp(join(tmpdir(), 'ksef-batch-input-'));
+      try {
+        await writeFile(join(dir, 'a.xml'), '<Faktura>A</Faktura>');
+        await writeFile(join(dir, 'b.xml'), '<Faktura>B</Faktura>');
+
+        const prepared = await createBatchService().prepareStream({
+          formCode,
+          encryptionMaterial: material,
+          partSizeBytes: 50,
+          invoices: [
+            { localId: 'a', path: join(dir, 'a.xml') },
+            { localId: 'b', path: join(dir, 'b.xml'), fileName: 'renamed.xml' }
+          ]
+        });
+        const partStore = prepared.partStore as FileBatchPartStore;
+        const parts = await Promise.all(
+          prepared.batchFile.fileParts.map((part) => partStore.readPart(part.ordinalNumber))
+        );
+        const tar = gunzipSync(Buffer.concat(parts.map((part) => decryptPart(part, material))));
+
+        expect(prepared.manifest.map((item) => item.fileName)).toEqual(['a.xml', 'renamed.xml']);
+        expect(tar.includes(Buffer.from('<Faktura>B</Faktura>'))).toBe(true);
+        await partStore.dispose();
+        await expect(readdir(partStore.directory)).rejects.toThrow();
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('rejects duplicates and empty input', async () => {
+      const service = createBatchService();
+      const options = { formCode, encryptionMaterial: createTestMaterial(), partStore: new InMemoryBatchPartStore() };
+
+      await expect(service.prepareStream({ ...options, invoices: lazily([invoices[0]!, { ...invoices[1]!, localId: 'invoice-0' }]) }))
+        .rejects.toThrow('Batch contains duplicate localId: invoice-0');
+      await expect(service.prepareStream({ ...options, invoices: [] }))
+        .rejects.toThrow('Batch must contain at least one invoice');
+    });
   });
 
   describe('submit', () => {
@@ -313,19 +464,515 @@ describe('KsefBatchService', () => {
       expect(uploader.uploadPart).toHaveBeenNthCalledWith(
         1,
         expect.objectContaining({ ordinalNumber: 1 }),
-        prepared.encryptedParts[0]
+        prepared.encryptedParts[0],
+        {}
       );
       if (prepared.encryptedParts.length > 1) {
         expect(uploader.uploadPart).toHaveBeenNthCalledWith(
           2,
           expect.objectContaining({ ordinalNumber: 2 }),
-          prepared.encryptedParts[1]
+          prepared.encryptedParts[1],
+          {}
         );
       }
       expect(sessions.closeBatchSession).toHaveBeenCalledWith('token', 'batch-ref');
     });
   });
 
+  describe('offline mode', () => {
+    const inOneHour = () => new Date(Date.now() + 3_600_000).toISOString();
+
+    function createOfflineService() {
+      const sessions = {
+        openBatchSession: vi.fn(async (_token: string, batchFile: { fileParts: Array<{ ordinalNumber: number }> }) => ({
+          referenceNumber: 'offline-batch',
+          partUploadRequests: batchFile.fileParts.map((part) => ({
+            ordinalNumber: part.ordinalNumber,
+            method: 'PUT' as const,
+            url: `https://upload.test/${part.ordinalNumber}`,
+            headers: {}
+          })),
+          encryptionMaterial: createTestMaterial()
+        })),
+        closeBatchSession: vi.fn().mockResolvedValue(undefined)
+      };
+      const uploader = { uploadPart: vi.fn().mockResolvedValue(undefined) };
+      return { service: createBatchService(sessions, uploader), sessions };
+    }
+
+    it('opens the session in offline mode and keeps each deadline in the manifest', async () => {
+      const { service, sessions } = createOfflineService();
+      const submitBy = inOneHour();
+      const material = createTestMaterial();
+
+      const prepared = await service.prepare({
+        formCode,
+        encryptionMaterial: material,
+        offlineMode: true,
+        invoices: [{ localId: 'off-1', fileName: 'off-1.xml', xml: '<Faktura>off</Faktura>', offlineSubmitBy: submitBy }]
+      });
+      await service.submit('token', prepared);
+
+      expect(prepared.offlineMode).toBe(true);
+      expect(prepared.manifest[0]!.offlineSubmitBy).toBe(submitBy);
+      expect(sessions.openBatchSession).toHaveBeenCalledWith('token', prepared.batchFile, formCode, {
+        encryptionMaterial: material,
+        offlineMode: true
+      });
+    });
+
+    it('accepts only offline invoices in offline batches and keeps them out of online ones', async () => {
+      const { service } = createOfflineService();
+      const online = { localId: 'on-1', fileName: 'on-1.xml', xml: '<Faktura>on</Faktura>' };
+      const offline = { localId: 'off-1', fileName: 'off-1.xml', xml: '<Faktura>off</Faktura>', offlineSubmitBy: inOneHour() };
+
+      await expect(service.prepare({ formCode, offlineMode: true, invoices: [offline, online] }))
+        .rejects.toThrow('Invoice on-1 is not an offline invoice: offlineSubmitBy is missing');
+      await expect(service.prepare({ formCode, invoices: [online, offline] }))
+        .rejects.toThrow('Invoice off-1 is an offline invoice; submit it in a batch with offlineMode: true');
+      await expect(service.prepare({ formCode, offlineMode: true, invoices: [{ ...offline, offlineSubmitBy: 'soon' }] }))
+        .rejects.toThrow('Invoice off-1 has an invalid offlineSubmitBy: soon');
+    });
+
+    it('refuses invoices whose deadline passed, also when it lapses between prepare and submit', async () => {
+      const { service, sessions } = createOfflineService();
+      const past = new Date(Date.now() - 1000).toISOString();
+
+      const error = await service.prepare({
+        formCode,
+        encryptionMaterial: createTestMaterial(),
+        offlineMode: true,
+        invoices: [{ localId: 'late', fileName: 'late.xml', xml: '<Faktura>late</Faktura>', offlineSubmitBy: past }]
+      }).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(BatchOfflineDeadlineError);
+      expect((error as BatchOfflineDeadlineError).expired).toEqual([{ localId: 'late', offlineSubmitBy: past }]);
+
+      vi.useFakeTimers({ now: Date.now(), toFake: ['Date'] });
+      try {
+        const prepared = await service.prepare({
+          formCode,
+          encryptionMaterial: createTestMaterial(),
+          offlineMode: true,
+          invoices: [{ localId: 'off-1', fileName: 'off-1.xml', xml: '<Faktura>off</Faktura>', offlineSubmitBy: inOneHour() }]
+        });
+        vi.advanceTimersByTime(2 * 3_600_000);
+        await expect(service.submit('token', prepared)).rejects.toBeInstanceOf(BatchOfflineDeadlineError);
+        expect(sessions.openBatchSession).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('streams offline invoice files with their deadlines', async () => {
+      const { service } = createOfflineService();
+      const submitBy = inOneHour();
+
+      const prepared = await service.prepareStream({
+        formCode,
+        encryptionMaterial: createTestMaterial(),
+        offlineMode: true,
+        partStore: new InMemoryBatchPartStore(),
+        invoices: [{ localId: 'off-1', fileName: 'off-1.xml', xml: '<Faktura>off</Faktura>', offlineSubmitBy: submitBy }]
+      });
+
+      expect(prepared.offlineMode).toBe(true);
+      expect(prepared.manifest[0]!.offlineSubmitBy).toBe(submitBy);
+    });
+  });
+
+  describe('submit (streamed)', () => {
+    it('reads each part from the part store just before uploading it', async () => {
+      const material = createTestMaterial();
+      const sessions = {
+        openBatchSession: vi.fn(),
+        closeBatchSession: vi.fn().mockResolvedValue(undefined)
+      };
+      const uploader = { uploadPart: vi.fn().mockResolvedValue(undefined) };
+      const service = createBatchService(sessions, uploader);
+      const partStore = new InMemoryBatchPartStore();
+      const prepared = await service.prepareStream({
+        formCode,
+        encryptionMaterial: material,
+        partSizeBytes: 80,
+        partStore,
+        invoices: [{ localId: 'invoice-1', fileName: 'invoice-1.xml', xml: '<Faktura>1</Faktura>' }]
+      });
+      sessions.openBatchSession.mockResolvedValue({
+        referenceNumber: 'batch-ref',
+        partUploadRequests: prepared.batchFile.fileParts.map((part) => ({
+          ordinalNumber: part.ordinalNumber,
+          method: 'PUT' as const,
+          url: `https://upload.test/${part.ordinalNumber}`,
+          headers: {}
+        })),
+        encryptionMaterial: material
+      });
+      const readPart = vi.spyOn(partStore, 'readPart');
+
+      await service.submit('token', prepared);
+
+      expect(readPart).toHaveBeenCalledTimes(prepared.batchFile.fileParts.length);
+      expect(uploader.uploadPart).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ ordinalNumber: 1 }),
+        await partStore.readPart(1),
+        {}
+      );
+    });
+  });
+
+  describe('submitResumable / resume', () => {
+    async function setup(uploadUrl: (ordinalNumber: number) => string) {
+      const material = createTestMaterial();
+      const sessions = {
+        openBatchSession: vi.fn(),
+        closeBatchSession: vi.fn().mockResolvedValue(undefined)
+      };
+      const uploader = { uploadPart: vi.fn().mockResolvedValue(undefined) };
+      const service = createBatchService(sessions, uploader);
+      const partStore = new InMemoryBatchPartStore();
+      const prepared = await service.prepareStream({
+        formCode,
+        encryptionMaterial: material,
+        partSizeBytes: 40,
+        partStore,
+        invoices: [{ localId: 'invoice-1', fileName: 'invoice-1.xml', xml: `<Faktura>${randomBytes(60).toString('hex')}</Faktura>` }]
+      });
+      sessions.openBatchSession.mockResolvedValue({
+        referenceNumber: 'batch-ref',
+        partUploadRequests: prepared.batchFile.fileParts.map((part) => ({
+          ordinalNumber: part.ordinalNumber,
+          method: 'PUT' as const,
+          url: uploadUrl(part.ordinalNumber),
+          headers: {}
+        })),
+        encryptionMaterial: material
+      });
+      return { sessions, uploader, service, partStore, prepared, stateStore: new InMemoryBatchSubmissionStateStore() };
+    }
+
+    it('records per-part status and uploads only the missing parts on resume', async () => {
+      const { sessions, uploader, service, partStore, prepared, stateStore } = await setup((n) => `https://upload.test/${n}`);
+      const partCount = prepared.batchFile.fileParts.length;
+      expect(partCount).toBeGreaterThan(2);
+      uploader.uploadPart.mockImplementation(async (request: { ordinalNumber: number }) => {
+        if (request.ordinalNumber === 2) {
+          throw new Error('socket hang up');
+        }
+      });
+
+      await expect(service.submitResumable('token', prepared, { stateStore, uploadConcurrency: 1 }))
+        .rejects.toThrow('socket hang up');
+
+      const interrupted = await stateStore.load('batch-ref');
+      expect(interrupted).toMatchObject({
+        status: 'uploading',
+        referenceNumber: 'batch-ref',
+        encryption: {
+          encryptedSymmetricKey: 'encrypted-key',
+          initializationVector: prepared.encryptionMaterial.initializationVectorBase64
+        }
+      });
+      expect(JSON.stringify(interrupted)).not.toContain(prepared.encryptionMaterial.symmetricKey.toString('base64'));
+      expect(interrupted!.parts[1]).toEqual({ ordinalNumber: 2, status: 'failed', lastError: 'socket hang up' });
+      expect(interrupted!.parts.filter((part) => part.status === 'uploaded')).toHaveLength(partCount - 1);
+      expect(sessions.closeBatchSession).not.toHaveBeenCalled();
+
+      uploader.uploadPart.mockReset().mockResolvedValue(undefined);
+      const resumed = await service.resume('token', 'batch-ref', { stateStore, partStore });
+
+      expect(uploader.uploadPart).toHaveBeenCalledTimes(1);
+      expect(uploader.uploadPart).toHaveBeenCalledWith(expect.objectContaining({ ordinalNumber: 2 }), await partStore.readPart(2), {});
+      expect(sessions.closeBatchSession).toHaveBeenCalledWith('token', 'batch-ref');
+      expect(resumed.status).toBe('closed');
+      expect((await stateStore.load('batch-ref'))!.parts.every((part) => part.status === 'uploaded')).toBe(true);
+    });
+
+    it('keeps uploading and saving part statuses after a state save fails', async () => {
+      const { uploader, service, prepared, stateStore } = await setup((n) => `https://upload.test/${n}`);
+      const partCount = prepared.batchFile.fileParts.length;
+      uploader.uploadPart.mockImplementation(async (request: { ordinalNumber: number }) => {
+        if (request.ordinalNumber === partCount) {
+          throw new Error('socket hang up');
+        }
+      });
+      const save = stateStore.save.bind(stateStore);
+      let saves = 0;
+      // Fails the saves after part #1 and after the last part; the first save opens the state.
+      vi.spyOn(stateStore, 'save').mockImplementation(async (state) => {
+        saves++;
+        if (saves === 2 || saves === partCount + 1) {
+          throw new Error('disk full');
+        }
+        await save(state);
+      });
+
+      await expect(service.submitResumable('token', prepared, { stateStore, uploadConcurrency: 1 }))
+        .rejects.toThrow('socket hang up');
+
+      expect(uploader.uploadPart).toHaveBeenCalledTimes(partCount);
+      expect(saves).toBe(partCount + 2);
+      const saved = await stateStore.load('batch-ref');
+      expect(saved!.parts.filter((part) => part.status === 'uploaded')).toHaveLength(partCount - 1);
+      expect(saved!.parts[partCount - 1]).toMatchObject({ status: 'failed', lastError: 'socket hang up' });
+    });
+
+    it('refuses to resume once the pending upload links have expired', async () => {
+      const { uploader, service, partStore, prepared, stateStore } = await setup(
+        (n) => `https://upload.test/${n}?sv=2024-01-01&se=${encodeURIComponent(new Date(Date.now() + 30_000).toISOString())}&sig=x`
+      );
+      uploader.uploadPart.mockRejectedValue(new Error('timeout'));
+      await expect(service.submitResumable('token', prepared, { stateStore, stateId: 'job-1' })).rejects.toThrow('timeout');
+      uploader.uploadPart.mockReset();
+
+      const error = await service.resume('token', 'job-1', { stateStore, partStore }).catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(BatchUploadLinkExpiredError);
+      expect(error.referenceNumber).toBe('batch-ref');
+      expect(error.ordinalNumbers).toEqual(prepared.batchFile.fileParts.map((part) => part.ordinalNumber));
+      expect(uploader.uploadPart).not.toHaveBeenCalled();
+      expect((await stateStore.load('job-1'))!.status).toBe('expired');
+      await expect(service.submitResumable('token', prepared, { stateStore, stateId: 'job-1' }))
+        .rejects.toThrow('Batch submission state job-1 already exists; use resume() to continue it');
+    });
+
+    it('rejects parts that do not match the hashes declared for the session', async () => {
+      const { uploader, service, prepared, stateStore } = await setup((n) => `https://upload.test/${n}`);
+      uploader.uploadPart.mockRejectedValueOnce(new Error('timeout'));
+      await expect(service.submitResumable('token', prepared, { stateStore, uploadConcurrency: 1 })).rejects.toThrow('timeout');
+
+      await expect(service.resume('token', 'batch-ref', {
+        stateStore,
+        partStore: { readPart: async () => Buffer.from('other part') }
+      })).rejects.toThrow('Batch part #1 does not match the hash declared when the session was opened');
+    });
+  });
+
+  describe('submitJob', () => {
+    const fa2 = { systemCode: 'FA (2)', schemaVersion: '1-0E', value: 'FA' } as const;
+
+    function createJobService() {
+      let opened = 0;
+      const sessions = {
+        openBatchSession: vi.fn(async (_token: string, batchFile: { fileParts: Array<{ ordinalNumber: number }> }) => {
+          opened++;
+          if (opened === 2) {
+            throw new Error('21405: form code not allowed');
+          }
+          return {
+            referenceNumber: `batch-${opened}`,
+            partUploadRequests: batchFile.fileParts.map((part) => ({
+              ordinalNumber: part.ordinalNumber,
+              method: 'PUT' as const,
+              url: `https://upload.test/${opened}/${part.ordinalNumber}`,
+              headers: {}
+            })),
+            encryptionMaterial: createTestMaterial()
+          };
+        }),
+        closeBatchSession: vi.fn().mockResolvedValue(undefined),
+        getSessionStatus: vi.fn().mockResolvedValue({ status: { code: 200, description: 'Processed' } }),
+        listSessionInvoices: vi.fn(async (_token: string, referenceNumber: string) => ({
+          continuationToken: null,
+          invoices: referenceNumber === 'batch-1'
+            ? [createSessionInvoice({ invoiceHash: sha256Base64(Buffer.from('<Faktura>a</Faktura>')) })]
+            : [createSessionInvoice({ invoiceHash: sha256Base64(Buffer.from('<Faktura>d</Faktura>')) })]
+        })),
+        listFailedSessionInvoices: vi.fn().mockResolvedValue({ continuationToken: null, invoices: [] })
+      };
+      const uploader = { uploadPart: vi.fn().mockResolvedValue(undefined) };
+      const httpClient = createMockHttpClient();
+      httpClient.mockResponse({
+        onlineSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 10 },
+        batchSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 2 }
+      });
+      const service = new KsefBatchService(
+        sessions as any,
+        uploader as any,
+        httpClient as any,
+        'test',
+        createMockSecurityService() as any
+      );
+      return { service, sessions, httpClient };
+    }
+
+    const invoices = [
+      { localId: 'a', fileName: 'a.xml', xml: '<Faktura>a</Faktura>', formCode },
+      { localId: 'b', fileName: 'b.xml', xml: '<Faktura>b</Faktura>', formCode: fa2 },
+      { localId: 'c', fileName: 'c.xml', xml: '<Faktura>c</Faktura>', formCode },
+      { localId: 'd', fileName: 'd.xml', xml: '<Faktura>d</Faktura>', formCode },
+      { localId: 'big', fileName: 'big.xml', xml: 'x'.repeat(1_000_001), formCode }
+    ];
+
+    it('submits one session per planned batch using the context limits and combines the results', async () => {
+      const { service, sessions, httpClient } = createJobService();
+
+      const job = await service.submitJob('token', invoices);
+
+      expect(httpClient.getRequests()[0]?.url).toContain('/limits/context');
+      expect(job.rejected.map((item) => item.localId)).toEqual(['big']);
+      expect(job.batches.map((batch) => [batch.localIds, batch.referenceNumber ?? null])).toEqual([
+        [['a', 'c'], 'batch-1'],
+        [['b'], null],
+        [['d'], 'batch-3']
+      ]);
+      expect(job.batches[1]!.error?.message).toBe('21405: form code not allowed');
+      expect(sessions.openBatchSession.mock.calls[1]![2]).toEqual(fa2);
+      expect(sessions.closeBatchSession).toHaveBeenCalledTimes(2);
+
+      const statuses = await service.waitForJob('token', job, { initialDelayMs: 0 });
+      expect(statuses.map((item) => item.batch.referenceNumber)).toEqual(['batch-1', 'batch-3']);
+
+      const results = await service.getJobResults('token', job);
+      expect(results.matched.map((item) => item.localId)).toEqual(['a', 'd']);
+      expect(results.missingManifestItems.map((item) => item.localId)).toEqual(['c', 'b']);
+    });
+
+    it('reports the invoices of a batch that fails to prepare as missing', async () => {
+      const { service, sessions } = createJobService();
+      vi.spyOn(service, 'prepare').mockRejectedValueOnce(new Error('Encryption key unavailable'));
+
+      const job = await service.submitJob('token', [invoices[0]!, invoices[2]!]);
+
+      expect(job.batches).toHaveLength(1);
+      expect(job.batches[0]).toMatchObject({ localIds: ['a', 'c'], error: { message: 'Encryption key unavailable' } });
+      expect(job.batches[0]!.referenceNumber).toBeUndefined();
+      expect(sessions.openBatchSession).not.toHaveBeenCalled();
+
+      const results = await service.getJobResults('token', job);
+      expect(results.missingManifestItems.map((item) => [item.localId, item.fileName])).toEqual([['a', 'a.xml'], ['c', 'c.xml']]);
+    });
+
+    it('does not open further sessions once the job is aborted', async () => {
+      const { service, sessions } = createJobService();
+      const controller = new AbortController();
+      controller.abort();
+
+      const job = await service.submitJob('token', invoices, {
+        signal: controller.signal,
+        limits: { onlineSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 10 }, batchSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 10 } }
+      });
+
+      expect(sessions.openBatchSession).not.toHaveBeenCalled();
+      expect(job.batches.every((batch) => batch.error?.message === 'Batch job was aborted before this batch was submitted')).toBe(true);
+    });
+  });
+
+  describe('retryFailed', () => {
+    function createRetryService(openError?: Error) {
+      const sessions = {
+        openBatchSession: vi.fn(async (_token: string, batchFile: { fileParts: Array<{ ordinalNumber: number }> }) => {
+          if (openError) {
+            throw openError;
+          }
+          return {
+            referenceNumber: 'retry-1',
+            partUploadRequests: batchFile.fileParts.map((part) => ({
+              ordinalNumber: part.ordinalNumber,
+              method: 'PUT' as const,
+              url: `https://upload.test/${part.ordinalNumber}`,
+              headers: {}
+            })),
+            encryptionMaterial: createTestMaterial()
+          };
+        }),
+        closeBatchSession: vi.fn().mockResolvedValue(undefined)
+      };
+      const uploader = { uploadPart: vi.fn().mockResolvedValue(undefined) };
+      const service = new KsefBatchService(
+        sessions as any,
+        uploader as any,
+        createMockHttpClient() as any,
+        'test',
+        createMockSecurityService() as any
+      );
+      return { service, sessions };
+    }
+
+    const limits = {
+      onlineSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 10 },
+      batchSession: { maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3, maxInvoices: 10 }
+    };
+    const originals = ['ok', 'dup', 'cancelled', 'pending', 'lost'].map((localId) => ({
+      localId,
+      fileName: `${localId}.xml`,
+      xml: `<Faktura>${localId}</Faktura>`
+    }));
+
+    function correlated(localId: string, code: number) {
+      return {
+        localId,
+        fileName: `${localId}.xml`,
+        invoiceHash: `${localId}-hash`,
+        invoiceSize: 10,
+        sessionInvoice: createSessionInvoice({ status: { code, description: String(code) } })
+      };
+    }
+
+    const correlation = {
+      matched: [correlated('ok', 200), correlated('dup', 440), correlated('cancelled', 550), correlated('pending', 150)],
+      unmatchedSessionInvoices: [],
+      missingManifestItems: [{ localId: 'lost', fileName: 'lost.xml', invoiceHash: 'lost-hash', invoiceSize: 10 }]
+    };
+
+    it('resubmits only retryable and unreported invoices and links them to the original session', async () => {
+      const { service, sessions } = createRetryService();
+
+      const result = await service.retryFailed('token', correlation, originals, {
+        formCode,
+        limits,
+        original: 'batch-1'
+      });
+
+      expect(sessions.openBatchSession).toHaveBeenCalledTimes(1);
+      expect(result.retry?.batches.map((batch) => batch.localIds)).toEqual([['cancelled', 'lost']]);
+      expect(result.originalReferenceNumbers).toEqual(['batch-1']);
+      expect(result.outcomes.map((item) => [item.localId, item.status, item.retryReferenceNumber ?? null])).toEqual([
+        ['ok', 'succeeded', null],
+        ['dup', 'permanentFailure', null],
+        ['cancelled', 'resubmitted', 'retry-1'],
+        ['pending', 'pending', null],
+        ['lost', 'resubmitted', 'retry-1']
+      ]);
+    });
+
+    it('reports resubmitFailed when the retry session cannot be opened', async () => {
+      const { service } = createRetryService(new Error('21405: form code not allowed'));
+
+      const result = await service.retryFailed('token', correlation, originals, {
+        formCode,
+        limits,
+        retryableStatusCodes: []
+      });
+
+      expect(result.outcomes.filter((item) => item.status === 'resubmitFailed')).toEqual([
+        { localId: 'lost', status: 'resubmitFailed', sessionInvoice: null, reason: '21405: form code not allowed' }
+      ]);
+      expect(result.outcomes.find((item) => item.localId === 'cancelled')?.status).toBe('permanentFailure');
+    });
+
+    it('requires the original invoice and a form code for every resubmitted item', async () => {
+      const { service, sessions } = createRetryService();
+
+      await expect(service.retryFailed('token', correlation, originals.slice(0, 4), { formCode, limits }))
+        .rejects.toThrow('Original invoice for localId lost was not provided');
+      await expect(service.retryFailed('token', correlation, originals, { limits }))
+        .rejects.toThrow('Invoice cancelled has no formCode; pass options.formCode');
+      expect(sessions.openBatchSession).not.toHaveBeenCalled();
+    });
+
+    it('does not open a session when nothing is retryable', async () => {
+      const { service, sessions } = createRetryService();
+
+      const result = await service.retryFailed('token', { ...correlation, missingManifestItems: [] }, originals, {
+        retryableStatusCodes: []
+      });
+
+      expect(result.retry).toBeNull();
+      expect(sessions.openBatchSession).not.toHaveBeenCalled();
+    });
+  });
+
   describe('waitForCompletion', () => {
     it('polls until session status is terminal', async () => {
       const sessions = {
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { gunzipSync } from 'node:zlib';
+import { buildManifest, buildTarGz, estimateTarSize, tarEntryHeaders } from '../../src/api2/batch/archive.js';
+import { parsePaxRecords, readTarGzEntries } from '../../src/api2/export/archive.js';
+
+const longAsciiName = `${'2026/01/'.repeat(10)}${'FV-2026-000123-'.repeat(6)}.xml`;
+const longFlatName = `${'FV-2026-000123-'.repeat(10)}.xml`;
+const polishName = 'faktury/Faktura Łódź źdźbło.xml';
+
+describe('tar writer', () => {
+  it('splits long ASCII paths into the ustar prefix without a PAX header', () => {
+    const [header, ...rest] = tarEntryHeaders(longAsciiName, 10);
+
+    expect(rest).toEqual([]);
+    const prefix = header!.toString('utf8', 345, 500).replace(/\0+$/, '');
+    const name = header!.toString('utf8', 0, 100).replace(/\0+$/, '');
+    expect(`${prefix}/${name}`).toBe(longAsciiName);
+    expect(name.length).toBeLessThanOrEqual(100);
+  });
+
+  it('writes PAX path records for names ustar cannot hold', () => {
+    for (const fileName of [longFlatName, polishName]) {
+      const [paxHeader, paxData, header] = tarEntryHeaders(fileName, 10);
+
+      expect(paxHeader!.toString('ascii', 156, 157)).toBe('x');
+      expect(parsePaxRecords(paxData!)).toEqual({ path: fileName, mtime: '0' });
+      expect(paxData!.byteLength % 512).toBe(0);
+      expect(header!.toString('ascii', 0, 100)).toMatch(/^[\x20-\x7e]+\0*$/);
+    }
+  });
+
+  it('writes PAX size records for entries of 8 GiB and more', () => {
+    const size = 9 * 1024 ** 3;
+    const [, paxData, header] = tarEntryHeaders('big.xml', size);
+
+    expect(parsePaxRecords(paxData!)).toEqual({ size: String(size), mtime: '0' });
+    expect(header!.toString('ascii', 124, 135)).toBe('00000000000');
+    expect(estimateTarSize([{ localId: 'big', fileName: 'big.xml', invoiceHash: '', invoiceSize: size }]))
+      .toBe(1024 + 512 + 512 + 512 + size);
+  });
+
+  it('round-trips the names and matches estimateTarSize exactly', () => {
+    const invoices = [longAsciiName, longFlatName, polishName, 'short.xml'].map((fileName, index) => ({
+      localId: String(index),
+      fileName,
+      xml: `<Faktura>${index}</Faktura>`
+    }));
+
+    const archive = buildTarGz(invoices);
+
+    expect(readTarGzEntries(archive).map((entry) => [entry.name, entry.data.toString('utf8')])).toEqual(
+      invoices.map((invoice) => [invoice.fileName, invoice.xml])
+    );
+    expect(gunzipSync(archive).byteLength).toBe(estimateTarSize(buildManifest(invoices)));
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { planBatches } from '../../src/api2/batch/planner.js';
+import type { BatchJobInvoiceInput } from '../../src/api2/batch/types.js';
+
+const fa3 = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' } as const;
+const fa2 = { systemCode: 'FA (2)', schemaVersion: '1-0E', value: 'FA' } as const;
+const limits = { maxInvoices: 2, maxInvoiceSizeInMB: 1, maxInvoiceWithAttachmentSizeInMB: 3 };
+
+function invoice(localId: string, formCode = fa3, xml = `<Faktura>${localId}</Faktura>`): BatchJobInvoiceInput {
+  return { localId, fileName: `${localId}.xml`, xml, formCode };
+}
+
+describe('planBatches', () => {
+  it('groups invoices by form code and splits them at maxInvoices', () => {
+    const plan = planBatches(
+      [invoice('a'), invoice('b', fa2), invoice('c'), invoice('d'), invoice('e')],
+      limits
+    );
+
+    expect(plan.batches.map((batch) => [batch.formCode.systemCode, batch.invoices.map((item) => item.localId)])).toEqual([
+      ['FA (3)', ['a', 'c']],
+      ['FA (2)', ['b']],
+      ['FA (3)', ['d', 'e']]
+    ]);
+    expect(plan.batches[0]!.invoices[0]).toEqual({ localId: 'a', fileName: 'a.xml', xml: '<Faktura>a</Faktura>' });
+    expect(plan.rejected).toEqual([]);
+  });
+
+  it('keeps attachment invoices apart and applies their own size limit', () => {
+    const withAttachment = `<Faktura><Zalacznik><BlokDanych/></Zalacznik>${'x'.repeat(1_500_000)}</Faktura>`;
+    const plan = planBatches(
+      [
+        invoice('plain'),
+        invoice('attachment', fa3, withAttachment),
+        invoice('too-big', fa3, 'x'.repeat(1_000_001)),
+        { ...invoice('flagged'), hasAttachment: true }
+      ],
+      limits
+    );
+
+    expect(plan.batches.map((batch) => [batch.hasAttachments, batch.invoices.map((item) => item.localId)])).toEqual([
+      [false, ['plain']],
+      [true, ['attachment', 'flagged']]
+    ]);
+    expect(plan.rejected).toEqual([
+      { localId: 'too-big', invoiceSize: 1_000_001, reason: 'Invoice exceeds the batch limit of 1 MB' }
+    ]);
+  });
+
+  it('starts a new batch before the archive size cap is reached', () => {
+    const plan = planBatches(
+      [invoice('a', fa3, 'a'.repeat(1000)), invoice('b', fa3, 'b'.repeat(1000)), invoice('c', fa3, 'x'.repeat(5000))],
+      { ...limits, maxInvoices: 100 },
+      { maxUncompressedArchiveSizeBytes: 4096 }
+    );
+
+    // tar: 1024-byte trailer + 512-byte header + 1024 padded bytes per 1000-byte invoice
+    expect(plan.batches.map((batch) => [batch.invoices.length, batch.uncompressedArchiveSize])).toEqual([[2, 4096]]);
+    expect(plan.rejected).toEqual([
+      { localId: 'c', invoiceSize: 5000, reason: 'Invoice does not fit in a batch archive of 4096 bytes' }
+    ]);
+
+    const split = planBatches(
+      [invoice('a', fa3, 'a'.repeat(1000)), invoice('b', fa3, 'b'.repeat(1000))],
+      { ...limits, maxInvoices: 100 },
+      { maxUncompressedArchiveSizeBytes: 4095 }
+    );
+    expect(split.batches.map((batch) => batch.invoices.length)).toEqual([1, 1]);
+  });
+
+  it('plans offline invoices apart and rejects those past their deadline', () => {
+    const future = new Date(Date.now() + 3_600_000).toISOString();
+    const past = new Date(Date.now() - 1000).toISOString();
+    const plan = planBatches(
+      [
+        invoice('a'),
+        { ...invoice('b'), offlineSubmitBy: future },
+        { ...invoice('c'), offlineSubmitBy: past },
+        invoice('d')
+      ],
+      limits
+    );
+
+    expect(plan.batches.map((batch) => [batch.offlineMode, batch.invoices.map((item) => item.localId)])).toEqual([
+      [false, ['a', 'd']],
+      [true, ['b']]
+    ]);
+    expect(plan.batches[1]!.invoices[0]!.offlineSubmitBy).toBe(future);
+    expect(plan.rejected).toEqual([
+      { localId: 'c', invoiceSize: 20, reason: `Offline submission deadline passed at ${past}` }
+    ]);
+  });
+
+  it('rejects duplicate local ids across the job', () => {
+    expect(() => planBatches([invoice('a'), invoice('a', fa2)], limits))
+      .toThrow('Batch job contains duplicate localId: a');
+  });
+
+  it('rejects invalid file names and file names or contents already used in the job', () => {
+    const plan = planBatches(
+      [
+        invoice('a'),
+        { ...invoice('same-name'), fileName: 'a.xml' },
+        invoice('same-content', fa2, '<Faktura>a</Faktura>'),
+        { ...invoice('escape'), fileName: '../escape.xml' },
+        invoice('b')
+      ],
+      limits
+    );
+
+    expect(plan.batches.map((batch) => batch.invoices.map((item) => item.localId))).toEqual([['a', 'b']]);
+    expect(plan.rejected.map(({ localId, reason }) => [localId, reason])).toEqual([
+      ['same-name', 'Invoice has the same file name as a'],
+      ['same-content', 'Invoice has the same content as a'],
+      ['escape', 'Invalid invoice fileName: ../escape.xml']
+    ]);
+  });
+});
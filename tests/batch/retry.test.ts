@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { classifyInvoiceStatus } from '../../src/api2/batch/retry.js';
+
+describe('classifyInvoiceStatus', () => {
+  it('separates success, pending, retryable and permanent status codes', () => {
+    expect(classifyInvoiceStatus(200)).toBe('succeeded');
+    expect(classifyInvoiceStatus(100)).toBe('pending');
+    expect(classifyInvoiceStatus(150)).toBe('pending');
+    expect([405, 435, 500, 550].map((code) => classifyInvoiceStatus(code))).toEqual(Array(4).fill('retryable'));
+    expect([410, 415, 430, 440, 450].map((code) => classifyInvoiceStatus(code))).toEqual(Array(5).fill('permanent'));
+  });
+
+  it('accepts a custom list of retryable codes', () => {
+    expect(classifyInvoiceStatus(450, [450])).toBe('retryable');
+    expect(classifyInvoiceStatus(550, [])).toBe('permanent');
+  });
+});
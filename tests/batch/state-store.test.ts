@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonFileBatchSubmissionStateStore } from '../../src/api2/batch/state-store.js';
+import { uploadLinkExpiry } from '../../src/api2/batch/resumable.js';
+import type { BatchSubmissionState } from '../../src/api2/batch/types.js';
+
+function state(stateId: string): BatchSubmissionState {
+  return {
+    stateId,
+    status: 'uploading',
+    referenceNumber: `ref-${stateId}`,
+    formCode: { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' },
+    batchFile: { fileSize: 10, fileHash: 'hash', fileParts: [{ ordinalNumber: 1, fileSize: 16, fileHash: 'part' }] },
+    manifest: [],
+    encryption: { encryptedSymmetricKey: 'key', initializationVector: 'iv' },
+    partUploadRequests: [{ ordinalNumber: 1, method: 'PUT', url: 'https://upload.test/1', headers: {} }],
+    parts: [{ ordinalNumber: 1, status: 'pending' }],
+    createdAt: '2026-01-15T10:00:00.000Z',
+    updatedAt: '2026-01-15T10:00:00.000Z'
+  };
+}
+
+describe('JsonFileBatchSubmissionStateStore', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('persists, reloads and deletes states across store instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ksef-batch-state-'));
+    const filePath = join(dir, 'nested', 'batch-state.json');
+    const store = new JsonFileBatchSubmissionStateStore(filePath);
+
+    await Promise.all([store.save(state('a')), store.save(state('b'))]);
+    await store.delete('a');
+
+    const reopened = new JsonFileBatchSubmissionStateStore(filePath);
+    expect(await reopened.load('a')).toBeNull();
+    expect(await reopened.load('b')).toEqual(state('b'));
+    expect(JSON.parse(await readFile(filePath, 'utf8')).version).toBe(1);
+  });
+
+  it.skipIf(process.platform === 'win32')('creates the state file readable by its owner only', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ksef-batch-state-'));
+    const filePath = join(dir, 'batch-state.json');
+
+    await new JsonFileBatchSubmissionStateStore(filePath).save(state('a'));
+
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects files in an unknown format', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ksef-batch-state-'));
+    const filePath = join(dir, 'batch-state.json');
+    await writeFile(filePath, JSON.stringify({ version: 2 }));
+
+    await expect(new JsonFileBatchSubmissionStateStore(filePath).load('a'))
+      .rejects.toThrow(/Unsupported batch submission state file/);
+  });
+});
+
+describe('uploadLinkExpiry', () => {
+  it('reads Azure SAS and S3 pre-signed URL expiry', () => {
+    expect(uploadLinkExpiry('https://blob.test/part?sv=2024-01-01&se=2026-01-15T12%3A00%3A00Z&sig=abc'))
+      .toEqual(new Date('2026-01-15T12:00:00Z'));
+    expect(uploadLinkExpiry('https://s3.test/part?X-Amz-Date=20260115T100000Z&X-Amz-Expires=3600'))
+      .toEqual(new Date('2026-01-15T11:00:00Z'));
+    expect(uploadLinkExpiry('https://upload.test/part')).toBeNull();
+  });
+});
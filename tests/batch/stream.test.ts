@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { prepareBatchStream } from '../../src/api2/batch/stream.js';
+import { InMemoryBatchPartStore } from '../../src/api2/batch/part-store.js';
+import type { SymmetricKeyMaterial } from '../../src/api2/crypto/symmetric.js';
+
+// The real 5 GB limit cannot be reached in a unit test.
+vi.mock('../../src/api2/batch/limits.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/api2/batch/limits.js')>(),
+  MAX_BATCH_FILE_SIZE_BYTES: 4096
+}));
+
+const formCode = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' } as const;
+
+function createMaterial(): SymmetricKeyMaterial {
+  const initializationVector = randomBytes(16);
+  return {
+    symmetricKey: randomBytes(32),
+    initializationVector,
+    encryptedSymmetricKey: 'encrypted-key',
+    initializationVectorBase64: initializationVector.toString('base64')
+  };
+}
+
+describe('prepareBatchStream', () => {
+  it('stops streaming once the archive exceeds the batch file size limit', async () => {
+    const produced: string[] = [];
+    async function* invoices() {
+      for (let index = 0; index < 10; index++) {
+        produced.push(`invoice-${index}`);
+        yield {
+          localId: `invoice-${index}`,
+          fileName: `invoice-${index}.xml`,
+          xml: `<Faktura>${randomBytes(1024).toString('hex')}</Faktura>`
+        };
+      }
+    }
+
+    await expect(prepareBatchStream(
+      { formCode, invoices: invoices(), partStore: new InMemoryBatchPartStore(), compression: 'Zip' },
+      createMaterial()
+    )).rejects.toThrow('Batch archive exceeds KSeF limit of 4096 bytes');
+    expect(produced.length).toBeLessThan(10);
+  });
+});
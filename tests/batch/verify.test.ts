@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { InMemoryBatchPartStore, KsefBatchService } from '../../src/api2/batch.js';
+import type { SymmetricKeyMaterial } from '../../src/api2/crypto/symmetric.js';
+
+const formCode = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' } as const;
+
+function material(keyByte: number): SymmetricKeyMaterial {
+  const initializationVector = Buffer.alloc(16, 7);
+  return {
+    symmetricKey: Buffer.alloc(32, keyByte),
+    initializationVector,
+    encryptedSymmetricKey: 'encrypted-key',
+    initializationVectorBase64: initializationVector.toString('base64')
+  };
+}
+
+// Random content keeps the archive larger than one part after compression.
+const invoices = ['a', 'b', 'c'].map((localId) => ({
+  localId,
+  fileName: `${localId}.xml`,
+  xml: `<Faktura>${randomBytes(200).toString('hex')}</Faktura>`
+}));
+
+function createService(): KsefBatchService {
+  return new KsefBatchService({} as any, {} as any, {} as any, 'test');
+}
+
+describe('KsefBatchService.verify', () => {
+  it('accepts an intact multi-part TarGz batch and runs the invoice validator on every entry', async () => {
+    const service = createService();
+    const prepared = await service.prepare({ formCode, invoices, encryptionMaterial: material(1), partSizeBytes: 256 });
+    const validateInvoice = vi.fn();
+
+    const result = await service.verify(prepared, { validateInvoice });
+
+    expect(prepared.batchFile.fileParts.length).toBeGreaterThan(1);
+    expect(result).toEqual({ valid: true, entryCount: 3, issues: [] });
+    expect(validateInvoice).toHaveBeenCalledTimes(3);
+    expect(validateInvoice).toHaveBeenCalledWith(invoices[0]!.xml, prepared.manifest[0]);
+  });
+
+  it('accepts an intact Zip batch prepared by prepareStream', async () => {
+    const service = createService();
+    const prepared = await service.prepareStream({
+      formCode,
+      invoices,
+      compression: 'Zip',
+      encryptionMaterial: material(1),
+      partSizeBytes: 256,
+      partStore: new InMemoryBatchPartStore()
+    });
+
+    expect(await service.verify(prepared)).toEqual({ valid: true, entryCount: 3, issues: [] });
+  });
+
+  it('reads entries written with PAX and ustar prefix headers', async () => {
+    const service = createService();
+    const named = [`${'dir/'.repeat(30)}a.xml`, `${'b'.repeat(120)}.xml`, 'faktury/Łódź.xml']
+      .map((fileName, index) => ({ ...invoices[index]!, fileName }));
+    const prepared = await service.prepare({ formCode, invoices: named, encryptionMaterial: material(1) });
+
+    expect(await service.verify(prepared)).toEqual({ valid: true, entryCount: 3, issues: [] });
+  });
+
+  it('reports a wrong key as a decryption failure of the first part', async () => {
+    const service = createService();
+    const prepared = await service.prepare({ formCode, invoices, encryptionMaterial: material(1) });
+
+    const result = await service.verify({ ...prepared, encryptionMaterial: material(2) });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => [issue.code, issue.ordinalNumber])).toEqual([['partDecryption', 1]]);
+  });
+
+  it('reports corrupted parts and manifest mismatches', async () => {
+    const service = createService();
+    const prepared = await service.prepare({ formCode, invoices, encryptionMaterial: material(1), compression: 'Zip' });
+
+    const corrupted = Buffer.from(prepared.encryptedParts[0]!);
+    corrupted[0] = corrupted[0]! ^ 0xff;
+    const partResult = await service.verify({ ...prepared, encryptedParts: [corrupted] });
+    expect(partResult.issues[0]).toMatchObject({ code: 'partHash', ordinalNumber: 1 });
+    expect(partResult.valid).toBe(false);
+
+    const manifest = [
+      { ...prepared.manifest[0]!, invoiceSize: 1 },
+      prepared.manifest[1]!,
+      { ...prepared.manifest[2]!, fileName: 'other.xml' }
+    ];
+    const manifestResult = await service.verify({ ...prepared, manifest });
+    expect(manifestResult.issues.map((issue) => [issue.code, issue.fileName])).toEqual([
+      ['entryMismatch', 'a.xml'],
+      ['unexpectedEntry', 'c.xml'],
+      ['missingEntry', 'other.xml']
+    ]);
+  });
+
+  it('reports invoices rejected by the validator', async () => {
+    const service = createService();
+    const prepared = await service.prepare({ formCode, invoices, encryptionMaterial: material(1) });
+
+    const result = await service.verify(prepared, {
+      validateInvoice: (_xml, item) => {
+        if (item.localId === 'b') {
+          throw new Error('missing Naglowek');
+        }
+      }
+    });
+
+    expect(result.issues).toEqual([
+      { code: 'invalidInvoice', localId: 'b', fileName: 'b.xml', message: 'Invoice b failed validation: missing Naglowek' }
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { buildZip, estimateArchiveSize, buildManifest } from '../../src/api2/batch/archive.js';
+import { readZipEntries } from '../../src/api2/export/archive.js';
+
+describe('buildZip', () => {
+  it('writes deflated entries with UTF-8 names that round-trip through the ZIP reader', () => {
+    const invoices = [
+      { localId: '1', fileName: 'faktury/zażółć-1.xml', xml: `<Faktura>${'a'.repeat(500)}</Faktura>` },
+      { localId: '2', fileName: 'random.bin', xml: randomBytes(64) }
+    ];
+
+    const zip = buildZip(invoices);
+
+    expect(readZipEntries(zip)).toEqual([
+      { name: 'faktury/zażółć-1.xml', data: Buffer.from(invoices[0]!.xml as string) },
+      { name: 'random.bin', data: invoices[1]!.xml }
+    ]);
+    // General purpose flag bit 11 (UTF-8) and deflate for the compressible entry, stored for random data.
+    expect(zip.readUInt16LE(6)).toBe(0x0800);
+    expect(zip.readUInt16LE(8)).toBe(8);
+    expect(zip.length).toBeLessThan(500);
+    expect(buildZip(invoices)).toEqual(zip);
+  });
+
+  it('switches to ZIP64 end records at 65535 entries', () => {
+    const invoices = Array.from({ length: 0xffff }, (_, index) => ({
+      localId: String(index),
+      fileName: `${index}.xml`,
+      xml: String(index)
+    }));
+
+    const zip = buildZip(invoices);
+
+    expect(zip.readUInt32LE(zip.length - 22 - 20)).toBe(0x07064b50);
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(0xffff);
+    const entries = readZipEntries(zip);
+    expect(entries).toHaveLength(0xffff);
+    expect(entries[0xfffe]).toEqual({ name: '65534.xml', data: Buffer.from('65534') });
+    expect(estimateArchiveSize(buildManifest(invoices, 'Zip'), 'Zip')).toBe(zip.length);
+  });
+
+  it('estimates the stored ZIP size as an upper bound', () => {
+    const invoices = [{ localId: '1', fileName: 'a.xml', xml: randomBytes(100) }];
+    const manifest = buildManifest(invoices, 'Zip');
+
+    expect(estimateArchiveSize(manifest, 'Zip')).toBe(buildZip(invoices).length);
+    expect(estimateArchiveSize(manifest, 'Zip')).toBe(30 + 5 + 100 + 46 + 5 + 22);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import {
+  extractArchiveEntries,
+  readArchiveEntries,
+  readTarGzEntries,
+  readZipEntries,
+  safeArchivePath,
+  streamTarEntries,
+  streamZipEntries
+} from '../../src/api2/export/archive.js';
+import { buildTarGz } from '../../src/api2/batch/archive.js';
+import { createZip } from '../helpers/zip.js';
+
+function tarHeader(name: string, size: number, type: string): Buffer {
+  const header = Buffer.alloc(512, 0);
+  header.write(name, 0, 100, 'utf8');
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 12, 'ascii');
+  header.write(type, 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  return header;
+}
+
+function tarEntry(name: string, data: Buffer, type = '0'): Buffer {
+  const padding = Buffer.alloc((512 - (data.length % 512)) % 512);
+  return Buffer.concat([tarHeader(name, data.length, type), data, padding]);
+}
+
+describe('readZipEntries', () => {
+  it('reads stored and deflated entries with UTF-8 names', () => {
+    const zip = createZip([
+      { name: '_metadata.json', data: '{"invoices":[]}' },
+      { name: 'faktura-żółć.xml', data: '<Faktura/>'.repeat(50), deflate: true },
+      { name: 'folder/', data: '' }
+    ]);
+
+    const entries = readZipEntries(zip);
+
+    expect(entries.map((entry) => entry.name)).toEqual(['_metadata.json', 'faktura-żółć.xml']);
+    expect(entries[1]!.data.toString()).toBe('<Faktura/>'.repeat(50));
+  });
+
+  it('rejects entries with a wrong CRC', () => {
+    const zip = createZip([{ name: 'a.xml', data: '<a/>' }]);
+    const dataOffset = 30 + 'a.xml'.length;
+    zip[dataOffset] = 'b'.charCodeAt(0);
+
+    expect(() => readZipEntries(zip)).toThrow(/failed size\/CRC verification/);
+  });
+
+  it('rejects zip-slip entry names', () => {
+    const zip = createZip([{ name: '../../etc/passwd', data: 'x' }]);
+
+    expect(() => readZipEntries(zip)).toThrow('Unsafe path in export archive: ../../etc/passwd');
+  });
+
+  it('fails on data that is not a ZIP archive', () => {
+    expect(() => readArchiveEntries(Buffer.alloc(64), 'Zip')).toThrow(/end of central directory not found/);
+  });
+
+  it('rejects archives whose declared sizes exceed the limit', () => {
+    const zip = createZip([
+      { name: 'a.xml', data: 'a'.repeat(600) },
+      { name: 'b.xml', data: 'b'.repeat(600) }
+    ]);
+
+    expect(() => readZipEntries(zip, { maxUncompressedSizeBytes: 1000 }))
+      .toThrow('Export archive unpacks to more than 1000 bytes');
+  });
+
+  it('stops inflating an entry at its declared size', () => {
+    const data = Buffer.alloc(64 * 1024, 'x');
+    const zip = createZip([{ name: 'bomb.xml', data, deflate: true }]);
+    const centralDirectory = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    zip.writeUInt32LE(16, centralDirectory + 24);
+
+    expect(() => readZipEntries(zip)).toThrow('ZIP entry bomb.xml failed size/CRC verification');
+  });
+});
+
+describe('readTarGzEntries', () => {
+  it('reads archives produced by the batch tar writer', () => {
+    const archive = buildTarGz([
+      { localId: '1', fileName: 'a.xml', xml: '<a/>' },
+      { localId: '2', fileName: 'b.xml', xml: '<b/>' }
+    ]);
+
+    const entries = readArchiveEntries(archive, 'TarGz');
+
+    expect(entries.map((entry) => [entry.name, entry.data.toString()])).toEqual([
+      ['a.xml', '<a/>'],
+      ['b.xml', '<b/>']
+    ]);
+  });
+
+  it('honours PAX path records and skips directories', () => {
+    const longName = `${'x'.repeat(120)}.xml`;
+    const record = ` path=${longName}\n`;
+    const length = String(record.length + 3).length + record.length;
+    const pax = Buffer.from(`${length}${record}`);
+    const tar = Buffer.concat([
+      tarEntry('dir/', Buffer.alloc(0), '5'),
+      tarEntry('PaxHeader', pax, 'x'),
+      tarEntry('truncated-name', Buffer.from('<long/>')),
+      Buffer.alloc(1024)
+    ]);
+
+    const entries = readTarGzEntries(gzipSync(tar));
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.name).toBe(longName);
+  });
+
+  it('rejects archives that unpack beyond the limit', () => {
+    const archive = gzipSync(Buffer.concat([tarEntry('a.xml', Buffer.alloc(4096, 'a')), Buffer.alloc(1024)]));
+
+    expect(() => readTarGzEntries(archive, { maxUncompressedSizeBytes: 2048 }))
+      .toThrow('Export archive unpacks to more than 2048 bytes');
+  });
+});
+
+describe('streamTarEntries / streamZipEntries', () => {
+  async function collect(entries: AsyncIterable<{ name: string; data: Buffer }>) {
+    const result: Array<[string, string]> = [];
+    for await (const entry of entries) {
+      result.push([entry.name, entry.data.toString()]);
+    }
+    return result;
+  }
+
+  async function* chunked(buffer: Buffer, size = 100): AsyncGenerator<Buffer> {
+    for (let offset = 0; offset < buffer.length; offset += size) {
+      yield buffer.subarray(offset, offset + size);
+    }
+  }
+
+  it('reads the same tar entries as the buffered reader, including long-name records', async () => {
+    const longName = `${'y'.repeat(120)}.xml`;
+    const tar = Buffer.concat([
+      tarEntry('././@LongLink', Buffer.from(`${longName}\0`), 'L'),
+      tarEntry('short', Buffer.from('<long/>')),
+      tarEntry('b.xml', Buffer.from('<b/>')),
+      Buffer.alloc(1024)
+    ]);
+
+    const streamed = await collect(streamTarEntries(chunked(tar)));
+
+    expect(streamed).toEqual([[longName, '<long/>'], ['b.xml', '<b/>']]);
+    expect(readTarGzEntries(gzipSync(tar)).map((entry) => [entry.name, entry.data.toString()])).toEqual(streamed);
+  });
+
+  it('checks the size and CRC of streamed ZIP entries', async () => {
+    const zip = createZip([{ name: 'a.xml', data: '<a/>'.repeat(20), deflate: true }]);
+    expect(await collect(streamZipEntries(chunked(zip)))).toEqual([['a.xml', '<a/>'.repeat(20)]]);
+
+    zip.writeUInt32LE(1, 14);
+    await expect(collect(streamZipEntries(chunked(zip)))).rejects.toThrow('ZIP entry a.xml failed size/CRC verification');
+  });
+});
+
+describe('safeArchivePath', () => {
+  it.each([
+    '/etc/passwd',
+    'C:\\Windows\\system.ini',
+    'a/../../b.xml',
+    '..\\evil.xml',
+    ''
+  ])('rejects %j', (name) => {
+    expect(() => safeArchivePath(name)).toThrow(/Unsafe path/);
+  });
+
+  it('normalises separators and dot segments', () => {
+    expect(safeArchivePath('.\\dir\\./file.xml')).toBe('dir/file.xml');
+  });
+});
+
+describe('extractArchiveEntries', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('writes entries below the target directory', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ksef-export-'));
+
+    const written = await extractArchiveEntries(
+      [{ name: 'nested/a.xml', data: Buffer.from('<a/>') }],
+      dir
+    );
+
+    expect(written).toEqual([join(dir, 'nested', 'a.xml')]);
+    expect(await readFile(written[0]!, 'utf8')).toBe('<a/>');
+  });
+});
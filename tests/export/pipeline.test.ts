@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCipheriv, randomBytes } from 'node:crypto';
+import { InvoiceV2Service } from '../../src/api2/services/invoice.js';
+import { InvoiceExportFailedError } from '../../src/api2/export/pipeline.js';
+import { downloadExportParts } from '../../src/api2/export/download.js';
+import { sha256Base64 } from '../../src/api2/crypto/encryption.js';
+import type { SymmetricKeyMaterial } from '../../src/api2/crypto/symmetric.js';
+import type { InvoicePackagePart } from '../../src/api2/types/invoice.js';
+import { createZip } from '../helpers/zip.js';
+
+const filters = {
+  subjectType: 'Subject1',
+  dateRange: { dateType: 'PermanentStorage', from: '2026-01-01T00:00:00Z' }
+} as const;
+
+function createMaterial(): SymmetricKeyMaterial {
+  const initializationVector = randomBytes(16);
+  return {
+    symmetricKey: randomBytes(32),
+    initializationVector,
+    encryptedSymmetricKey: 'encrypted-key',
+    initializationVectorBase64: initializationVector.toString('base64')
+  };
+}
+
+function encrypt(data: Buffer, material: SymmetricKeyMaterial): Buffer {
+  const cipher = createCipheriv('aes-256-cbc', material.symmetricKey, material.initializationVector);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/** Splits the archive into separately encrypted parts served from fake URLs. */
+function packageParts(archive: Buffer, material: SymmetricKeyMaterial, partSize: number, prefix = 'part') {
+  const bodies = new Map<string, Buffer>();
+  const parts: InvoicePackagePart[] = [];
+  for (let offset = 0, ordinal = 1; offset < archive.length; offset += partSize, ordinal++) {
+    const plain = archive.subarray(offset, offset + partSize);
+    const encrypted = encrypt(plain, material);
+    const url = `https://storage.example/${prefix}-${ordinal}`;
+    bodies.set(url, encrypted);
+    parts.push({
+      ordinalNumber: ordinal,
+      partName: `part-${ordinal}.zip.aes`,
+      method: 'GET',
+      url,
+      partSize: plain.length,
+      partHash: sha256Base64(plain),
+      encryptedPartSize: encrypted.length,
+      encryptedPartHash: sha256Base64(encrypted),
+      expirationDate: '2999-01-01T00:00:00Z'
+    });
+  }
+  return { parts: parts.reverse(), bodies };
+}
+
+function stubFetch(bodies: Map<string, Buffer>, failures: Record<string, number[]> = {}) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const status = failures[url]?.shift();
+    if (status) {
+      return new Response(null, { status, statusText: 'Error' });
+    }
+    const body = bodies.get(url);
+    return body ? new Response(new Uint8Array(body)) : new Response(null, { status: 404, statusText: 'Not Found' });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function createService() {
+  const service = new InvoiceV2Service({ request: vi.fn() } as any, 'test', {} as any);
+  const exportInvoices = vi.spyOn(service, 'exportInvoices').mockResolvedValue({ referenceNumber: 'export-ref' });
+  const getStatus = vi.spyOn(service, 'getInvoiceExportStatus');
+  return { service, exportInvoices, getStatus };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('InvoiceV2Service.exportAndDownload', () => {
+  it('downloads, decrypts and unpacks the package, pairing XML with _metadata.json', async () => {
+    const material = createMaterial();
+    const archive = createZip([
+      { name: '_metadata.json', data: JSON.stringify({ invoices: [{ ksefNumber: 'K1', invoiceNumber: 'FV/1' }, { ksefNumber: 'K2' }] }) },
+      { name: 'K1.xml', data: '<Faktura>1</Faktura>', deflate: true },
+      { name: 'K2.xml', data: '<Faktura>2</Faktura>' }
+    ]);
+    const { parts, bodies } = packageParts(archive, material, 64);
+    const fetchMock = stubFetch(bodies);
+    const { service, exportInvoices, getStatus } = createService();
+    const invoicePackage = { invoiceCount: 2, size: archive.length, parts, isTruncated: false };
+    getStatus
+      .mockResolvedValueOnce({ status: { code: 100, description: 'W toku' } })
+      .mockResolvedValueOnce({ status: { code: 200, description: 'OK' }, package: invoicePackage });
+
+    const iterator = service.exportAndDownload('token', filters as any, {
+      encryptionMaterial: material,
+      initialDelayMs: 0,
+      downloadConcurrency: 2
+    });
+    const invoices = [];
+    let next = await iterator.next();
+    while (!next.done) {
+      invoices.push(next.value);
+      next = await iterator.next();
+    }
+
+    expect(exportInvoices).toHaveBeenCalledWith('token', {
+      encryption: { encryptedSymmetricKey: 'encrypted-key', initializationVector: material.initializationVectorBase64 },
+      filters,
+      compressionType: 'Zip'
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(parts.length);
+    expect(invoices.map((invoice) => [invoice.ksefNumber, invoice.xml, invoice.metadata?.invoiceNumber])).toEqual([
+      ['K1', '<Faktura>1</Faktura>', 'FV/1'],
+      ['K2', '<Faktura>2</Faktura>', undefined]
+    ]);
+    expect(next.value.referenceNumber).toBe('export-ref');
+    expect(next.value.package).toBe(invoicePackage);
+  });
+
+  it('yields metadata-only entries when the package has no XML files', async () => {
+    const material = createMaterial();
+    const archive = createZip([{ name: '_metadata.json', data: JSON.stringify({ invoices: [{ ksefNumber: 'K1' }] }) }]);
+    const { parts, bodies } = packageParts(archive, material, 1024);
+    stubFetch(bodies);
+    const { service, exportInvoices, getStatus } = createService();
+    getStatus.mockResolvedValue({
+      status: { code: 200, description: 'OK' },
+      package: { invoiceCount: 1, size: archive.length, parts, isTruncated: false }
+    });
+
+    const invoices = [];
+    for await (const invoice of service.exportAndDownload('token', filters as any, {
+      encryptionMaterial: material,
+      onlyMetadata: true,
+      initialDelayMs: 0
+    })) {
+      invoices.push(invoice);
+    }
+
+    expect(exportInvoices.mock.calls[0]![1].onlyMetadata).toBe(true);
+    expect(invoices).toEqual([{ ksefNumber: 'K1', fileName: null, xml: null, metadata: { ksefNumber: 'K1' } }]);
+  });
+
+  it('continues a truncated package from its last date and yields boundary invoices once', async () => {
+    const material = createMaterial();
+    const first = packageParts(
+      createZip([{ name: 'K1.xml', data: '<a/>' }, { name: 'K2.xml', data: '<b/>' }]),
+      material,
+      1024,
+      'first'
+    );
+    const second = packageParts(
+      createZip([{ name: 'K2.xml', data: '<b/>' }, { name: 'K3.xml', data: '<c/>' }]),
+      material,
+      1024,
+      'second'
+    );
+    stubFetch(new Map([...first.bodies, ...second.bodies]));
+    const { service, exportInvoices, getStatus } = createService();
+    exportInvoices
+      .mockResolvedValueOnce({ referenceNumber: 'export-1' })
+      .mockResolvedValueOnce({ referenceNumber: 'export-2' });
+    getStatus
+      .mockResolvedValueOnce({
+        status: { code: 200, description: 'OK' },
+        package: {
+          invoiceCount: 2,
+          size: 1,
+          parts: first.parts,
+          isTruncated: true,
+          lastPermanentStorageDate: '2026-01-09T08:00:00Z'
+        }
+      })
+      .mockResolvedValueOnce({
+        status: { code: 200, description: 'OK' },
+        package: { invoiceCount: 2, size: 1, parts: second.parts, isTruncated: false }
+      });
+
+    const iterator = service.exportAndDownload('token', filters as any, {
+      encryptionMaterial: material,
+      autoContinue: true,
+      initialDelayMs: 0
+    });
+    const ksefNumbers = [];
+    let next = await iterator.next();
+    while (!next.done) {
+      ksefNumbers.push(next.value.ksefNumber);
+      next = await iterator.next();
+    }
+
+    expect(ksefNumbers).toEqual(['K1', 'K2', 'K3']);
+    expect(exportInvoices.mock.calls[1]![1].filters.dateRange).toEqual({
+      dateType: 'PermanentStorage',
+      from: '2026-01-09T08:00:00Z'
+    });
+    expect(next.value.referenceNumber).toBe('export-2');
+    expect(next.value.previousExports.map((result) => result.referenceNumber)).toEqual(['export-1']);
+    expect(next.value.duplicatesSkipped).toBe(1);
+  });
+
+  it('throws InvoiceExportFailedError for a failed export', async () => {
+    const { service, getStatus } = createService();
+    getStatus.mockResolvedValue({ status: { code: 420, description: 'Zakres filtrowania wykracza poza dostępny zakres danych' } });
+
+    const iterator = service.exportAndDownload('token', filters as any, { encryptionMaterial: createMaterial(), initialDelayMs: 0 });
+    const error = await iterator.next().catch((err) => err);
+
+    expect(error).toBeInstanceOf(InvoiceExportFailedError);
+    expect(error.processingCode).toBe(420);
+    expect(error.referenceNumber).toBe('export-ref');
+  });
+});
+
+describe('downloadExportParts', () => {
+  it('retries failed downloads and refreshes rejected links', async () => {
+    const material = createMaterial();
+    const archive = Buffer.from('archive-bytes');
+    const { parts, bodies } = packageParts(archive, material, 1024);
+    const part = parts[0]!;
+    const freshUrl = 'https://storage.example/fresh';
+    bodies.set(freshUrl, bodies.get(part.url)!);
+    const fetchMock = stubFetch(bodies, { [part.url]: [403] });
+    const refreshParts = vi.fn().mockResolvedValue([{ ...part, url: freshUrl }]);
+
+    const result = await downloadExportParts(parts, material, { retryDelayMs: 0, refreshParts });
+
+    expect(result.toString()).toBe('archive-bytes');
+    expect(refreshParts).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([part.url, freshUrl]);
+  });
+
+  it('fails after exhausting attempts on hash mismatches', async () => {
+    const material = createMaterial();
+    const { parts, bodies } = packageParts(Buffer.from('archive-bytes'), material, 1024);
+    const tampered = { ...parts[0]!, encryptedPartHash: sha256Base64(Buffer.from('other')) };
+    stubFetch(bodies);
+
+    await expect(downloadExportParts([tampered], material, { retryDelayMs: 0, downloadAttempts: 2 }))
+      .rejects.toThrow('Failed to download export part #1 after 2 attempts: encrypted part hash mismatch');
+  });
+
+  it('aborts part downloads that exceed partTimeoutMs', async () => {
+    const material = createMaterial();
+    const { parts } = packageParts(Buffer.from('archive-bytes'), material, 1024);
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    })));
+
+    await expect(downloadExportParts(parts, material, { retryDelayMs: 0, downloadAttempts: 1, partTimeoutMs: 20 }))
+      .rejects.toThrow('Failed to download export part #1 after 1 attempts: timed out after 20 ms');
+  });
+});
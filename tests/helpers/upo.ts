@@ -0,0 +1,41 @@
+const DEFAULT_KSEF_NUMBERS = ['5265877635-20260115-0100001AF629-AF', '5265877635-20260115-0100002BF629-1C'];
+
+function documentXml(ksefNumber: string, index: number): string {
+  return `
+  <Dokument>
+    <NipSprzedawcy>5265877635</NipSprzedawcy>
+    <NumerKSeFDokumentu>${ksefNumber}</NumerKSeFDokumentu>
+    <NumerFaktury>FV/${index + 1}/2026</NumerFaktury>
+    <DataWystawieniaFaktury>2026-01-15</DataWystawieniaFaktury>
+    <DataPrzeslaniaDokumentu>2026-01-15T10:00:0${index % 10}.123+01:00</DataPrzeslaniaDokumentu>
+    <DataNadaniaNumeruKSeF>2026-01-15T10:00:0${index % 10}.456+01:00</DataNadaniaNumeruKSeF>
+    <SkrotDokumentu>Zm9vYmFy${index}</SkrotDokumentu>${index === 0 ? '\n    <TrybWysylki>Online</TrybWysylki>' : ''}
+  </Dokument>`;
+}
+
+/** UPO fixture; `body` is inserted after `Uwierzytelnienie`. */
+export function upoXml(
+  version: '4-2' | '4-3',
+  body = '',
+  ksefNumbers = DEFAULT_KSEF_NUMBERS,
+  sessionReferenceNumber = '20260115-SO-2C3E6C8000-B4A3F8E2A1-2F'
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Potwierdzenie xmlns="http://upo.schematy.mf.gov.pl/KSeF/v${version}">
+  <NazwaPodmiotuPrzyjmujacego>Ministerstwo Finansów</NazwaPodmiotuPrzyjmujacego>
+  <NumerReferencyjnySesji>${sessionReferenceNumber}</NumerReferencyjnySesji>
+  <Uwierzytelnienie>
+    <IdKontekstu><Nip>5265877635</Nip></IdKontekstu>
+    <NumerReferencyjnyTokenaKSeF>20260101-EC-1A2B3C4D5E-0F1E2D3C4B-12</NumerReferencyjnyTokenaKSeF>
+  </Uwierzytelnienie>
+  ${body}
+  <NazwaStrukturyLogicznej>schemat_FA(3)_v1-0E.xsd</NazwaStrukturyLogicznej>
+  <KodFormularza>FA (3)</KodFormularza>${ksefNumbers.map(documentXml).join('')}
+</Potwierdzenie>`;
+}
+
+/** Page `pageNumber` of a multi-page `upo-v4-3` UPO. */
+export function upoPageXml(pageNumber: number, pageCount: number, ksefNumbers: string[], totalDocuments: number): string {
+  const description = `<OpisPotwierdzenia><Strona>${pageNumber}</Strona><LiczbaStron>${pageCount}</LiczbaStron><ZakresDokumentowOd>1</ZakresDokumentowOd><ZakresDokumentowDo>${totalDocuments}</ZakresDokumentowDo><CalkowitaLiczbaDokumentow>${totalDocuments}</CalkowitaLiczbaDokumentow></OpisPotwierdzenia>`;
+  return upoXml('4-3', description, ksefNumbers);
+}
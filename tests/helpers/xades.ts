@@ -0,0 +1,73 @@
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import * as forge from 'node-forge';
+import { DOMParser } from '@xmldom/xmldom';
+import { C14nCanonicalization, ExclusiveCanonicalization } from 'xml-crypto';
+
+const DS_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const XADES_NS = 'http://uri.etsi.org/01903/v1.3.2#';
+const SHA256 = 'http://www.w3.org/2001/04/xmlenc#sha256';
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+
+export interface TestSigner {
+  certificatePem: string;
+  privateKeyPem: string;
+  certificateDer: Buffer;
+}
+
+/** Self-signed RSA certificate, optionally issued by `issuer` instead. */
+export function createTestSigner(commonName = 'Ministerstwo Finansow Test', issuer?: TestSigner): TestSigner {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.publicKeyFromPem(publicKey);
+  certificate.serialNumber = `0${Math.floor(Math.random() * 1e8).toString(16)}`;
+  certificate.validity.notBefore = new Date(Date.now() - 86_400_000);
+  certificate.validity.notAfter = new Date(Date.now() + 365 * 86_400_000);
+  certificate.setSubject([{ name: 'commonName', value: commonName }, { name: 'countryName', value: 'PL' }]);
+  const issuerCertificate = issuer ? forge.pki.certificateFromPem(issuer.certificatePem) : certificate;
+  certificate.setIssuer(issuerCertificate.subject.attributes);
+  certificate.sign(forge.pki.privateKeyFromPem(issuer?.privateKeyPem ?? privateKey), forge.md.sha256.create());
+
+  const certificatePem = forge.pki.certificateToPem(certificate);
+  const certificateDer = Buffer.from(forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes(), 'binary');
+  return { certificatePem, privateKeyPem: privateKey, certificateDer };
+}
+
+/**
+ * Appends an enveloped XAdES-BES signature (RSA-SHA256, exc-c14n SignedInfo) to the
+ * root element of `xml`, the way KSeF signs UPO documents.
+ */
+export function signEnveloped(xml: string, signer: TestSigner, extraCertificates: TestSigner[] = []): string {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  const rootDigest = sha256(new C14nCanonicalization().process(document.documentElement!));
+
+  const certificateDigest = sha256(signer.certificateDer);
+  const signedProperties = `<xades:SignedProperties Id="SignedProperties-1"><xades:SignedSignatureProperties><xades:SigningTime>${new Date().toISOString()}</xades:SigningTime><xades:SigningCertificate><xades:Cert><xades:CertDigest><ds:DigestMethod Algorithm="${SHA256}"></ds:DigestMethod><ds:DigestValue>${certificateDigest}</ds:DigestValue></xades:CertDigest></xades:Cert></xades:SigningCertificate></xades:SignedSignatureProperties></xades:SignedProperties>`;
+  const certificates = [signer, ...extraCertificates]
+    .map((item) => `<ds:X509Certificate>${item.certificateDer.toString('base64')}</ds:X509Certificate>`)
+    .join('');
+
+  const build = (propertiesDigest: string, signatureValue: string) =>
+    `<ds:Signature xmlns:ds="${DS_NS}" Id="Signature-1"><ds:SignedInfo><ds:CanonicalizationMethod Algorithm="${EXC_C14N}"></ds:CanonicalizationMethod><ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></ds:SignatureMethod><ds:Reference URI=""><ds:Transforms><ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></ds:Transform></ds:Transforms><ds:DigestMethod Algorithm="${SHA256}"></ds:DigestMethod><ds:DigestValue>${rootDigest}</ds:DigestValue></ds:Reference><ds:Reference Type="http://uri.etsi.org/01903#SignedProperties" URI="#SignedProperties-1"><ds:Transforms><ds:Transform Algorithm="${EXC_C14N}"></ds:Transform></ds:Transforms><ds:DigestMethod Algorithm="${SHA256}"></ds:DigestMethod><ds:DigestValue>${propertiesDigest}</ds:DigestValue></ds:Reference></ds:SignedInfo><ds:SignatureValue>${signatureValue}</ds:SignatureValue><ds:KeyInfo><ds:X509Data>${certificates}</ds:X509Data></ds:KeyInfo><ds:Object><xades:QualifyingProperties xmlns:xades="${XADES_NS}" Target="#Signature-1">${signedProperties}</xades:QualifyingProperties></ds:Object></ds:Signature>`;
+
+  const closingTag = xml.lastIndexOf('</');
+  const insert = (signature: string) => `${xml.slice(0, closingTag)}${signature}${xml.slice(closingTag)}`;
+
+  const withProperties = new DOMParser().parseFromString(insert(build('', '')), 'text/xml');
+  const properties = withProperties.getElementsByTagNameNS(XADES_NS, 'SignedProperties')[0]!;
+  const propertiesDigest = sha256(new ExclusiveCanonicalization().process(properties));
+
+  const unsigned = new DOMParser().parseFromString(insert(build(propertiesDigest, '')), 'text/xml');
+  const signedInfo = unsigned.getElementsByTagNameNS(DS_NS, 'SignedInfo')[0]!;
+  const canonicalSignedInfo = new ExclusiveCanonicalization().process(signedInfo);
+  const signatureValue = sign('RSA-SHA256', Buffer.from(canonicalSignedInfo, 'utf8'), signer.privateKeyPem).toString('base64');
+
+  return insert(build(propertiesDigest, signatureValue));
+}
+
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('base64');
+}
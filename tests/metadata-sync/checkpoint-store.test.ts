@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemoryMetadataSyncCheckpointStore,
+  JsonFileMetadataSyncCheckpointStore
+} from '../../src/api2/metadata-sync/checkpoint-store.js';
+import type { MetadataSyncCheckpoint } from '../../src/api2/metadata-sync/types.js';
+
+const checkpoint: MetadataSyncCheckpoint = {
+  subjectType: 'Subject1',
+  highWaterMark: '2026-02-01T00:00:00.000Z',
+  recentInvoices: [{ ksefNumber: 'K1', permanentStorageDate: '2026-02-01T00:00:00.000Z' }],
+  updatedAt: '2026-02-01T00:00:01.000Z'
+};
+
+describe('InMemoryMetadataSyncCheckpointStore', () => {
+  it('returns copies of saved checkpoints', async () => {
+    const store = new InMemoryMetadataSyncCheckpointStore();
+    await store.save('key', checkpoint);
+
+    const loaded = await store.load('key');
+    loaded!.recentInvoices.push({ ksefNumber: 'K2', permanentStorageDate: checkpoint.highWaterMark });
+
+    expect((await store.load('key'))?.recentInvoices).toHaveLength(1);
+    expect(await store.load('other')).toBeNull();
+  });
+});
+
+describe('JsonFileMetadataSyncCheckpointStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ksef-sync-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists checkpoints per key across instances', async () => {
+    const filePath = join(dir, 'nested', 'checkpoints.json');
+    const store = new JsonFileMetadataSyncCheckpointStore(filePath);
+
+    expect(await store.load('Subject1')).toBeNull();
+    await Promise.all([
+      store.save('Subject1', checkpoint),
+      store.save('Subject2', { ...checkpoint, subjectType: 'Subject2' })
+    ]);
+
+    const reopened = new JsonFileMetadataSyncCheckpointStore(filePath);
+    expect(await reopened.load('Subject1')).toEqual(checkpoint);
+    expect((await reopened.load('Subject2'))?.subjectType).toBe('Subject2');
+    expect(JSON.parse(await readFile(filePath, 'utf8')).version).toBe(1);
+  });
+
+  it('rejects files in an unknown format', async () => {
+    const filePath = join(dir, 'checkpoints.json');
+    await writeFile(filePath, JSON.stringify({ highWaterMark: 'x' }));
+
+    await expect(new JsonFileMetadataSyncCheckpointStore(filePath).load('Subject1'))
+      .rejects.toThrow(/Unsupported metadata sync checkpoint file/);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InvoiceMetadataSync } from '../../src/api2/metadata-sync/sync.js';
+import { InMemoryMetadataSyncCheckpointStore } from '../../src/api2/metadata-sync/checkpoint-store.js';
+import type { InvoiceMetadataSyncOptions } from '../../src/api2/metadata-sync/types.js';
+import type { QueryInvoicesMetadataResponse } from '../../src/api2/types/invoice.js';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function invoice(ksefNumber: string, permanentStorageDate: string) {
+  return { ksefNumber, permanentStorageDate } as any;
+}
+
+function page(
+  invoices: any[],
+  overrides: Partial<QueryInvoicesMetadataResponse> = {}
+): QueryInvoicesMetadataResponse {
+  return {
+    hasMore: false,
+    isTruncated: false,
+    permanentStorageHwmDate: '2026-03-01T11:55:00.000Z',
+    invoices,
+    ...overrides
+  };
+}
+
+function createSync(
+  responses: QueryInvoicesMetadataResponse[],
+  overrides: Partial<InvoiceMetadataSyncOptions> = {}
+) {
+  const queryMetadata = vi.fn();
+  for (const response of responses) {
+    queryMetadata.mockResolvedValueOnce(response);
+  }
+  const store = new InMemoryMetadataSyncCheckpointStore();
+  const batches: string[][] = [];
+  const sync = new InvoiceMetadataSync({ queryMetadata } as any, {
+    subjectType: 'Subject2',
+    store,
+    initialFrom: '2026-02-01T00:00:00.000Z',
+    now: () => NOW,
+    onBatch: (invoices) => {
+      batches.push(invoices.map((item) => item.ksefNumber));
+    },
+    ...overrides
+  });
+  return { sync, store, queryMetadata, batches };
+}
+
+describe('InvoiceMetadataSync', () => {
+  it('queries by PermanentStorage ascending and stores the high-water mark', async () => {
+    const { sync, store, queryMetadata, batches } = createSync([
+      page([invoice('K1', '2026-02-10T10:00:00.000Z')], { hasMore: true }),
+      page([invoice('K2', '2026-02-11T10:00:00.000Z')])
+    ], { filters: { formType: 'FA' } });
+
+    const result = await sync.run('token');
+
+    expect(batches).toEqual([['K1'], ['K2']]);
+    expect(result).toMatchObject({ emitted: 2, duplicates: 0, requests: 2 });
+    const [, filters, options] = queryMetadata.mock.calls[0]!;
+    expect(filters).toEqual({
+      formType: 'FA',
+      subjectType: 'Subject2',
+      dateRange: {
+        dateType: 'PermanentStorage',
+        from: '2026-02-01T00:00:00.000Z',
+        to: NOW.toISOString(),
+        restrictToPermanentStorageHwmDate: true
+      }
+    });
+    expect(options).toEqual({ pageOffset: 0, pageSize: 250, sortOrder: 'Asc' });
+    expect(queryMetadata.mock.calls[1]![2].pageOffset).toBe(1);
+    const checkpoint = await store.load('Subject2');
+    expect(checkpoint?.highWaterMark).toBe('2026-03-01T11:55:00.000Z');
+  });
+
+  it('narrows the date window and resets pageOffset when results are truncated', async () => {
+    const { sync, queryMetadata, batches } = createSync([
+      page([invoice('K1', '2026-02-10T10:00:00.000Z'), invoice('K2', '2026-02-12T10:00:00.000Z')], {
+        hasMore: true,
+        isTruncated: true
+      }),
+      page([invoice('K2', '2026-02-12T10:00:00.000Z'), invoice('K3', '2026-02-13T10:00:00.000Z')])
+    ]);
+
+    const result = await sync.run('token');
+
+    const [, filters, options] = queryMetadata.mock.calls[1]!;
+    expect(filters.dateRange.from).toBe('2026-02-12T10:00:00.000Z');
+    expect(options.pageOffset).toBe(0);
+    expect(batches).toEqual([['K1', 'K2'], ['K3']]);
+    expect(result.duplicates).toBe(1);
+  });
+
+  it('continues a truncated result even when hasMore is false', async () => {
+    const { sync, store, queryMetadata, batches } = createSync([
+      page([invoice('K1', '2026-02-10T10:00:00.000Z'), invoice('K2', '2026-02-12T10:00:00.000Z')], {
+        hasMore: false,
+        isTruncated: true
+      }),
+      page([invoice('K3', '2026-02-14T10:00:00.000Z')])
+    ]);
+
+    const result = await sync.run('token');
+
+    expect(queryMetadata).toHaveBeenCalledTimes(2);
+    expect(queryMetadata.mock.calls[1]![1].dateRange.from).toBe('2026-02-12T10:00:00.000Z');
+    expect(queryMetadata.mock.calls[1]![2].pageOffset).toBe(0);
+    expect(batches).toEqual([['K1', 'K2'], ['K3']]);
+    expect(result.emitted).toBe(3);
+    expect((await store.load('Subject2'))?.highWaterMark).toBe('2026-03-01T11:55:00.000Z');
+  });
+
+  it('resumes from the checkpoint and skips invoices at the high-water mark', async () => {
+    const { sync, store, queryMetadata, batches } = createSync([
+      page([invoice('K1', '2026-02-10T10:00:00.000Z')], { permanentStorageHwmDate: '2026-02-10T10:00:00.000Z' }),
+      page([invoice('K1', '2026-02-10T10:00:00.000Z'), invoice('K2', '2026-02-20T10:00:00.000Z')])
+    ]);
+
+    await sync.run('token');
+    const second = await sync.run('token');
+
+    expect(queryMetadata.mock.calls[1]![1].dateRange.from).toBe('2026-02-10T10:00:00.000Z');
+    expect(batches).toEqual([['K1'], ['K2']]);
+    expect(second).toMatchObject({ emitted: 1, duplicates: 1 });
+    expect((await store.load('Subject2'))?.recentInvoices).toEqual([]);
+  });
+
+  it('re-queries the overlap window without re-emitting remembered invoices', async () => {
+    const { sync, store, queryMetadata, batches } = createSync([
+      page([invoice('K1', '2026-02-28T10:00:00.000Z')], { permanentStorageHwmDate: '2026-02-28T10:30:00.000Z' }),
+      page([invoice('K1', '2026-02-28T10:00:00.000Z'), invoice('K2', '2026-02-28T10:45:00.000Z')], {
+        permanentStorageHwmDate: '2026-02-28T11:00:00.000Z'
+      })
+    ], { overlapMs: 60 * 60 * 1000 });
+
+    await sync.run('token');
+    await sync.run('token');
+
+    expect(queryMetadata.mock.calls[1]![1].dateRange.from).toBe('2026-02-28T09:30:00.000Z');
+    expect(batches).toEqual([['K1'], ['K2']]);
+    const checkpoint = await store.load('Subject2');
+    expect(checkpoint?.highWaterMark).toBe('2026-02-28T11:00:00.000Z');
+    expect(checkpoint?.recentInvoices.map((item) => item.ksefNumber)).toEqual(['K1', 'K2']);
+  });
+
+  it('splits long catch-ups into 3-month windows', async () => {
+    const { sync, queryMetadata } = createSync([
+      page([], { permanentStorageHwmDate: '2025-12-15T00:00:00.000Z' }),
+      page([])
+    ], { initialFrom: '2025-09-15T00:00:00.000Z' });
+
+    const result = await sync.run('token');
+
+    expect(queryMetadata.mock.calls.map(([, filters]) => [filters.dateRange.from, filters.dateRange.to])).toEqual([
+      ['2025-09-15T00:00:00.000Z', '2025-12-15T00:00:00.000Z'],
+      ['2025-12-15T00:00:00.000Z', NOW.toISOString()]
+    ]);
+    expect(result.checkpoint?.highWaterMark).toBe('2026-03-01T11:55:00.000Z');
+  });
+
+  it('does not save the checkpoint when the batch handler fails', async () => {
+    const { sync, store } = createSync([page([invoice('K1', '2026-02-10T10:00:00.000Z')])], {
+      onBatch: () => {
+        throw new Error('database down');
+      }
+    });
+
+    await expect(sync.run('token')).rejects.toThrow('database down');
+    expect(await store.load('Subject2')).toBeNull();
+  });
+
+  it('rejects a checkpoint stored for a different subject type', async () => {
+    const { sync, store } = createSync([]);
+    await store.save('Subject2', {
+      subjectType: 'Subject1',
+      highWaterMark: '2026-02-01T00:00:00.000Z',
+      recentInvoices: [],
+      updatedAt: '2026-02-01T00:00:00.000Z'
+    });
+
+    await expect(sync.run('token')).rejects.toThrow(/belongs to Subject1/);
+  });
+
+  it('fails when truncation cannot be narrowed any further', async () => {
+    const { sync } = createSync([
+      page([invoice('K1', '2026-02-01T00:00:00.000Z')], { hasMore: true, isTruncated: true })
+    ]);
+
+    await expect(sync.run('token')).rejects.toThrow(/cannot narrow dateRange/);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isAvailabilityFailure, KsefAvailabilityMonitor, type AvailabilityEvent } from '../../src/api2/offline/availability.js';
+import { InMemoryMaintenanceWindowStore, MaintenanceWindowService } from '../../src/api2/offline/maintenance.js';
+import { InMemoryOfflineInvoiceStorage } from '../../src/api2/offline/types.js';
+import { HttpClient, HTTP_NETWORK_ERROR_CODE, HTTP_TIMEOUT_ERROR_CODE, type HttpRequestOptions, type HttpResponse } from '../../src/utils/http.js';
+import { KsefApiError, ProcessError } from '../../src/types/common.js';
+import type { HttpClientOptions, HttpRequestOutcome } from '../../src/types/config.js';
+
+const url = 'https://api-test.ksef.mf.gov.pl/v2/sessions';
+
+function outcome(status?: number): HttpRequestOutcome {
+  return status === undefined
+    ? { method: 'GET', url, failure: 'timeout', durationMs: 30_000 }
+    : { method: 'GET', url, status, durationMs: 20 };
+}
+
+function createMonitor(extra: ConstructorParameters<typeof KsefAvailabilityMonitor>[0] = {}) {
+  const clock = { now: new Date('2026-01-15T10:00:00Z') };
+  const events: AvailabilityEvent[] = [];
+  const monitor = new KsefAvailabilityMonitor({ now: () => clock.now, minUnavailableMs: 60_000, ...extra });
+  monitor.subscribe((event) => events.push(event));
+  const advance = (ms: number) => {
+    clock.now = new Date(clock.now.getTime() + ms);
+  };
+  return { monitor, events, advance };
+}
+
+class TestHttpClient extends HttpClient {
+  constructor(
+    private readonly run: (options: HttpRequestOptions) => Promise<HttpResponse<unknown>>,
+    options: HttpClientOptions = {}
+  ) {
+    super({ maxRetries: 0, ...options });
+  }
+
+  protected override async executeRequest<T>(requestOptions: HttpRequestOptions, _url: URL): Promise<HttpResponse<T>> {
+    return await this.run(requestOptions) as HttpResponse<T>;
+  }
+}
+
+describe('KsefAvailabilityMonitor', () => {
+  it('marks KSeF unavailable after consecutive failures and ignores client errors', async () => {
+    const { monitor, events, advance } = createMonitor();
+
+    monitor.recordOutcome(outcome(503));
+    monitor.recordOutcome(outcome(400));
+    monitor.recordOutcome(outcome(503));
+    advance(1000);
+    monitor.recordOutcome(outcome());
+    expect(monitor.isAvailable()).toBe(true);
+
+    advance(1000);
+    monitor.recordOutcome(outcome(502));
+    await monitor.flush();
+
+    expect(monitor.isAvailable()).toBe(false);
+    expect(monitor.getStatus()).toMatchObject({
+      available: false,
+      since: '2026-01-15T10:00:00.000Z',
+      consecutiveFailures: 3,
+      lastFailure: `HTTP 502 from GET ${url}`
+    });
+    expect(events).toEqual([{
+      type: 'unavailable',
+      since: '2026-01-15T10:00:00.000Z',
+      reason: `HTTP 502 from GET ${url}`
+    }]);
+  });
+
+  it('recovers only after enough successes and the minimum outage time', async () => {
+    const { monitor, events, advance } = createMonitor({ failureThreshold: 1 });
+    monitor.recordOutcome(outcome());
+
+    advance(10_000);
+    monitor.recordOutcome(outcome(200));
+    expect(monitor.isAvailable()).toBe(false);
+    monitor.recordOutcome(outcome(200));
+    expect(monitor.isAvailable()).toBe(false);
+
+    advance(60_000);
+    monitor.recordOutcome(outcome(404));
+    await monitor.flush();
+
+    expect(monitor.isAvailable()).toBe(true);
+    expect(events.at(-1)).toEqual({
+      type: 'available',
+      since: '2026-01-15T10:01:10.000Z',
+      unavailableSince: '2026-01-15T10:00:00.000Z'
+    });
+  });
+
+  it('opens and closes maintenance windows for detected outages', async () => {
+    const windows = new InMemoryMaintenanceWindowStore();
+    const maintenanceWindows = new MaintenanceWindowService({ windows, invoices: new InMemoryOfflineInvoiceStorage() });
+    const { monitor, events, advance } = createMonitor({ failureThreshold: 1, recoveryThreshold: 1, maintenanceWindows });
+
+    monitor.recordOutcome(outcome(500));
+    await monitor.flush();
+    const [window] = await windows.list();
+    expect(window).toMatchObject({ startTime: '2026-01-15T10:00:00.000Z', active: true, planned: false });
+    expect(monitor.getStatus().maintenanceWindowId).toBe(window!.id);
+    expect(events[0]).toMatchObject({ type: 'unavailable', maintenanceWindowId: window!.id });
+
+    advance(120_000);
+    monitor.recordOutcome(outcome(200));
+    await monitor.flush();
+
+    expect(await windows.get(window!.id)).toMatchObject({ endTime: '2026-01-15T10:02:00.000Z', active: false });
+    expect(events[1]).toMatchObject({ type: 'available', maintenanceWindowId: window!.id });
+  });
+
+  it('reports maintenance window errors as events', async () => {
+    const maintenanceWindows = new MaintenanceWindowService({
+      windows: { save: vi.fn(async () => { throw new Error('disk full'); }), get: vi.fn(), list: vi.fn(async () => []) },
+      invoices: new InMemoryOfflineInvoiceStorage()
+    });
+    const { monitor, events } = createMonitor({ failureThreshold: 1, maintenanceWindows });
+
+    monitor.recordOutcome(outcome(500));
+    await monitor.flush();
+
+    expect(monitor.isAvailable()).toBe(false);
+    expect(events).toEqual([{ type: 'error', error: new Error('disk full') }]);
+  });
+
+  it('uses the probe and treats outage warnings on 5xx responses as immediate', async () => {
+    const probe = vi.fn()
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValue(undefined);
+    const { monitor, events } = createMonitor({ failureThreshold: 1, probe });
+
+    await monitor.probe();
+    expect(monitor.getStatus().lastFailure).toBe('Probe failed: connect ECONNREFUSED');
+    expect(monitor.isAvailable()).toBe(false);
+
+    const warned = createMonitor();
+    const warning = { code: 'MAINT', message: 'System KSeF jest niedostępny', raw: '', method: 'GET', url, status: 200 };
+    warned.monitor.recordSystemWarning(warning);
+    expect(warned.monitor.isAvailable()).toBe(true);
+    warned.monitor.recordSystemWarning({ ...warning, status: 503 });
+    expect(warned.monitor.isAvailable()).toBe(false);
+    expect(warned.events.map((event) => event.type)).toEqual(['warning', 'warning']);
+    expect(events.map((event) => event.type)).toEqual(['unavailable']);
+  });
+
+  it('observes every HttpClient attempt through httpClientOptions', async () => {
+    const forwarded = vi.fn();
+    const { monitor } = createMonitor({ failureThreshold: 2 });
+    const run = vi.fn()
+      .mockRejectedValueOnce(new KsefApiError('Request timeout', { code: HTTP_TIMEOUT_ERROR_CODE }))
+      .mockRejectedValueOnce(new KsefApiError('Service Unavailable', { statusCode: 503 }))
+      .mockResolvedValueOnce({ status: 200, statusText: 'OK', headers: { 'x-system-warning': '[W1]: Planowana przerwa' }, data: {} });
+    const client = new TestHttpClient(run, { ...monitor.httpClientOptions({ onSystemWarning: forwarded }), maxRetries: 2, retryDelay: 0 });
+    const recorded = vi.spyOn(monitor, 'recordOutcome');
+
+    await client.request({ method: 'GET', url });
+
+    expect(recorded.mock.calls.map(([call]) => call.status ?? call.failure)).toEqual(['timeout', 503, 200]);
+    expect(forwarded).toHaveBeenCalledWith(expect.objectContaining({ code: 'W1', message: 'Planowana przerwa' }));
+    expect(monitor.getStatus()).toMatchObject({ available: false, consecutiveSuccesses: 1 });
+  });
+});
+
+describe('isAvailabilityFailure', () => {
+  it('accepts 5xx responses and HttpClient network and timeout errors only', () => {
+    expect(isAvailabilityFailure(new KsefApiError('Bad Gateway', { statusCode: 502 }))).toBe(true);
+    expect(isAvailabilityFailure(new KsefApiError('Network error: ECONNRESET', { code: HTTP_NETWORK_ERROR_CODE }))).toBe(true);
+    expect(isAvailabilityFailure(new KsefApiError('Request timeout', { code: HTTP_TIMEOUT_ERROR_CODE }))).toBe(true);
+    expect(isAvailabilityFailure(new KsefApiError('Bad Request', { statusCode: 400 }))).toBe(false);
+    expect(isAvailabilityFailure(new ProcessError('Session failed', { processingCode: 440 }))).toBe(false);
+    expect(isAvailabilityFailure(new Error('Network error'))).toBe(false);
+  });
+});
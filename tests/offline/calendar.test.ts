@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BusinessDayCalendar,
+  easterSunday,
+  polishPublicHolidays
+} from '../../src/api2/offline/calendar.js';
+import {
+  calculateOfflineDeadline,
+  explainOfflineDeadline,
+  extendDeadlineForMaintenance,
+  type MaintenanceWindow
+} from '../../src/api2/offline/types.js';
+
+function maintenanceWindow(endTime?: string): MaintenanceWindow {
+  return {
+    id: 'mw-1',
+    startTime: '2026-01-15T08:00:00Z',
+    ...(endTime ? { endTime } : {}),
+    active: endTime === undefined,
+    planned: false
+  };
+}
+
+describe('polishPublicHolidays', () => {
+  it('computes Easter and the feasts that move with it', () => {
+    expect(easterSunday(2024)).toBe('2024-03-31');
+    expect(easterSunday(2025)).toBe('2025-04-20');
+    expect(easterSunday(2026)).toBe('2026-04-05');
+
+    const holidays = polishPublicHolidays(2026);
+    expect(holidays).toContainEqual({ date: '2026-04-06', name: 'Poniedziałek Wielkanocny' });
+    expect(holidays).toContainEqual({ date: '2026-05-24', name: 'Zielone Świątki' });
+    expect(holidays).toContainEqual({ date: '2026-06-04', name: 'Boże Ciało' });
+    expect(holidays).toHaveLength(14);
+  });
+
+  it('includes Christmas Eve from 2025', () => {
+    expect(polishPublicHolidays(2024).map((holiday) => holiday.date)).not.toContain('2024-12-24');
+    expect(polishPublicHolidays(2025).map((holiday) => holiday.date)).toContain('2025-12-24');
+  });
+});
+
+describe('BusinessDayCalendar', () => {
+  const calendar = new BusinessDayCalendar();
+
+  it('converts between instants and Warsaw calendar dates across DST', () => {
+    expect(calendar.dateOf(new Date('2026-01-15T23:30:00Z'))).toBe('2026-01-16');
+    expect(calendar.dateOf(new Date('2026-07-15T21:59:59Z'))).toBe('2026-07-15');
+    expect(calendar.endOfDay('2026-01-16').toISOString()).toBe('2026-01-16T22:59:59.999Z');
+    expect(calendar.endOfDay('2026-03-29').toISOString()).toBe('2026-03-29T21:59:59.999Z');
+    expect(calendar.endOfDay('2026-10-25').toISOString()).toBe('2026-10-25T22:59:59.999Z');
+    expect(() => calendar.endOfDay('16.01.2026')).toThrow(/expected YYYY-MM-DD/);
+  });
+
+  it('skips weekends and holidays when adding business days', () => {
+    expect(calendar.isBusinessDay('2026-04-03')).toBe(true);
+    expect(calendar.addBusinessDays('2026-04-03', 1)).toEqual({
+      date: '2026-04-07',
+      skippedDays: [
+        { date: '2026-04-04', reason: 'weekend' },
+        { date: '2026-04-05', reason: 'holiday', name: 'Wielkanoc' },
+        { date: '2026-04-06', reason: 'holiday', name: 'Poniedziałek Wielkanocny' }
+      ]
+    });
+    expect(() => calendar.addBusinessDays('2026-04-03', -1)).toThrow(/Invalid number of business days/);
+  });
+
+  it('accepts a replacement holiday list and additional days off', () => {
+    const custom = new BusinessDayCalendar({
+      holidays: () => [],
+      additionalHolidays: [{ date: '2026-01-16', name: 'Dzień wolny' }]
+    });
+
+    expect(custom.isBusinessDay('2026-01-06')).toBe(true);
+    expect(custom.nonBusinessDay('2026-01-16')).toEqual({ date: '2026-01-16', reason: 'holiday', name: 'Dzień wolny' });
+    expect(custom.addBusinessDays('2026-01-15', 1).date).toBe('2026-01-19');
+  });
+});
+
+describe('offline deadlines', () => {
+  it('gives offline24 invoices until the end of the next business day', () => {
+    expect(calculateOfflineDeadline('offline24', new Date('2026-01-15T10:00:00Z')).toISOString())
+      .toBe('2026-01-16T22:59:59.999Z');
+
+    const explanation = explainOfflineDeadline('offline24', new Date('2026-04-30T20:00:00Z'));
+    expect(explanation).toEqual({
+      mode: 'offline24',
+      rule: 'next business day after the invoice was generated',
+      basis: 'generatedAt',
+      basisTime: '2026-04-30T20:00:00.000Z',
+      estimated: false,
+      startDate: '2026-04-30',
+      businessDays: 1,
+      skippedDays: [
+        { date: '2026-05-01', reason: 'holiday', name: 'Święto Pracy' },
+        { date: '2026-05-02', reason: 'weekend' },
+        { date: '2026-05-03', reason: 'holiday', name: 'Święto Konstytucji 3 Maja' }
+      ],
+      deadlineDate: '2026-05-04',
+      deadline: '2026-05-04T21:59:59.999Z',
+      timeZone: 'Europe/Warsaw'
+    });
+  });
+
+  it('counts unavailability modes from the end of the maintenance window', () => {
+    const offline = explainOfflineDeadline('offline', new Date('2026-01-15T10:00:00Z'), maintenanceWindow('2026-01-16T15:00:00Z'));
+    expect(offline).toMatchObject({ basis: 'maintenanceWindowEnd', estimated: false, deadlineDate: '2026-01-19' });
+
+    const emergency = explainOfflineDeadline('awaryjny', new Date('2025-12-20T10:00:00Z'), maintenanceWindow('2025-12-22T12:00:00Z'));
+    expect(emergency).toMatchObject({ businessDays: 7, deadlineDate: '2026-01-07', deadline: '2026-01-07T22:59:59.999Z' });
+  });
+
+  it('marks deadlines as estimated while the maintenance window is still open', () => {
+    const explanation = explainOfflineDeadline('awaria_calkowita', new Date('2026-01-15T10:00:00Z'), maintenanceWindow());
+
+    expect(explanation).toMatchObject({ basis: 'generatedAt', estimated: true, deadlineDate: '2026-01-26' });
+  });
+
+  it('extends deadlines only for modes that follow the maintenance window', () => {
+    const current = new Date('2026-01-16T22:59:59.999Z');
+
+    expect(extendDeadlineForMaintenance(current, maintenanceWindow('2026-01-20T10:00:00Z')).toISOString())
+      .toBe('2026-01-21T22:59:59.999Z');
+    expect(extendDeadlineForMaintenance(current, maintenanceWindow('2026-01-20T10:00:00Z'), 'offline24')).toBe(current);
+    expect(extendDeadlineForMaintenance(current, maintenanceWindow('2026-01-14T10:00:00Z'))).toBe(current);
+    expect(extendDeadlineForMaintenance(current, maintenanceWindow())).toBe(current);
+  });
+});
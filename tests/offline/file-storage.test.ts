@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileOfflineInvoiceStorage } from '../../src/api2/offline/file-storage.js';
+import {
+  InMemoryOfflineInvoiceStorage,
+  OfflineInvoiceLeaseError,
+  OfflineInvoiceStatus,
+  OfflineReason,
+  type LeasableOfflineInvoiceStorage,
+  type OfflineInvoiceMetadata,
+  type OfflineMode
+} from '../../src/api2/offline/types.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'ksef-offline-storage-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function offlineInvoice(
+  id: string,
+  submitBy: string,
+  status = OfflineInvoiceStatus.GENERATED,
+  mode: OfflineMode = 'offline24'
+): OfflineInvoiceMetadata {
+  return {
+    id,
+    mode,
+    reason: OfflineReason.PLANNED,
+    invoiceNumber: `FV/${id}`,
+    invoiceXml: '<Faktura/>',
+    sellerIdentifier: { type: ContextIdentifierType.NIP, value: '5265877635' },
+    qrCodes: {
+      kod1: { qrCode: { url: 'https://qr-test.ksef.mf.gov.pl/invoice/x' }, label: 'OFFLINE', url: 'https://qr-test.ksef.mf.gov.pl/invoice/x' },
+      isOffline: true
+    },
+    generatedAt: '2026-01-15T10:00:00.000Z',
+    submitBy,
+    status
+  } as OfflineInvoiceMetadata;
+}
+
+function ids(invoices: OfflineInvoiceMetadata[]): string[] {
+  return invoices.map((invoice) => invoice.id).sort();
+}
+
+describe.each([
+  ['InMemoryOfflineInvoiceStorage', (): LeasableOfflineInvoiceStorage => new InMemoryOfflineInvoiceStorage()],
+  ['FileOfflineInvoiceStorage', (): LeasableOfflineInvoiceStorage => new FileOfflineInvoiceStorage(directory)]
+])('%s', (_name, createStorage) => {
+  it('saves, gets, updates and deletes invoices', async () => {
+    const storage = createStorage();
+    const invoice = offlineInvoice('a', '2026-01-16T10:00:00.000Z');
+
+    await storage.save(invoice);
+    expect(await storage.get('a')).toEqual(invoice);
+    expect(await storage.get('missing')).toBeNull();
+
+    await storage.update('a', { status: OfflineInvoiceStatus.SUBMITTED, ksefReferenceNumber: 'INV-1' });
+    expect(await storage.get('a')).toEqual({ ...invoice, status: OfflineInvoiceStatus.SUBMITTED, ksefReferenceNumber: 'INV-1' });
+
+    await storage.update('missing', { status: OfflineInvoiceStatus.SUBMITTED });
+    expect(await storage.get('missing')).toBeNull();
+
+    await storage.delete('a');
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeNull();
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it('filters by status, mode and deadline', async () => {
+    const storage = createStorage();
+    await storage.save(offlineInvoice('early', '2026-01-16T08:00:00.000Z'));
+    await storage.save(offlineInvoice('late', '2026-01-20T08:00:00.000Z'));
+    await storage.save(offlineInvoice('queued', '2026-01-16T09:00:00.000Z', OfflineInvoiceStatus.QUEUED, 'offline'));
+    await storage.save(offlineInvoice('done', '2026-01-16T07:00:00.000Z', OfflineInvoiceStatus.ACCEPTED));
+
+    expect(ids(await storage.list())).toEqual(['done', 'early', 'late', 'queued']);
+    expect(ids(await storage.list({ status: [OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.QUEUED] })))
+      .toEqual(['early', 'late', 'queued']);
+    expect(ids(await storage.list({ mode: 'offline' }))).toEqual(['queued']);
+    expect(ids(await storage.list({ expiringBefore: '2026-01-16T08:00:00.000Z' }))).toEqual(['done', 'early']);
+    expect(ids(await storage.list({
+      status: [OfflineInvoiceStatus.GENERATED],
+      mode: 'offline24',
+      expiringBefore: '2026-01-17T00:00:00.000Z'
+    }))).toEqual(['early']);
+
+    await storage.update('late', { status: OfflineInvoiceStatus.EXPIRED });
+    expect(ids(await storage.list({ status: [OfflineInvoiceStatus.EXPIRED] }))).toEqual(['late']);
+  });
+
+  it('leases an invoice to one owner at a time', async () => {
+    const storage = createStorage();
+    const now = new Date('2026-01-16T10:00:00.000Z');
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    const lease = { owner: 'worker-1', expiresAt: '2026-01-16T10:05:00.000Z' };
+
+    expect(await storage.acquireLease('a', lease, now)).toMatchObject({ id: 'a', lease });
+    expect(await storage.acquireLease('a', { owner: 'worker-2', expiresAt: '2026-01-16T10:05:00.000Z' }, now)).toBeNull();
+    expect(await storage.acquireLease('a', { ...lease, expiresAt: '2026-01-16T10:06:00.000Z' }, now))
+      .toMatchObject({ lease: { owner: 'worker-1', expiresAt: '2026-01-16T10:06:00.000Z' } });
+    expect(await storage.acquireLease('missing', lease, now)).toBeNull();
+
+    await storage.releaseLease('a', 'worker-2');
+    expect((await storage.get('a'))?.lease?.owner).toBe('worker-1');
+    await storage.releaseLease('a', 'worker-1');
+    expect((await storage.get('a'))?.lease).toBeUndefined();
+
+    await storage.acquireLease('a', lease, now);
+    expect(await storage.acquireLease('a', { owner: 'worker-2', expiresAt: '2026-01-16T10:20:00.000Z' }, new Date('2026-01-16T10:05:00.000Z')))
+      .toMatchObject({ lease: { owner: 'worker-2' } });
+  });
+
+  it('updates a leased invoice only for the lease owner and renews the lease', async () => {
+    const storage = createStorage();
+    const now = new Date('2026-01-16T10:00:00.000Z');
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    await storage.save(offlineInvoice('free', '2026-01-17T10:00:00.000Z'));
+    await storage.acquireLease('a', { owner: 'worker-1', expiresAt: '2026-01-16T10:05:00.000Z' }, now);
+    const renewed = { owner: 'worker-1', expiresAt: '2026-01-16T10:10:00.000Z' };
+
+    expect(await storage.updateLeased('a', renewed, (invoice) => ({ invoiceNumber: `${invoice.invoiceNumber}-1` })))
+      .toMatchObject({ invoiceNumber: 'FV/a-1', lease: renewed });
+    expect(await storage.get('a')).toMatchObject({ invoiceNumber: 'FV/a-1', lease: renewed });
+    await expect(storage.updateLeased('a', { owner: 'worker-2', expiresAt: renewed.expiresAt }, () => ({ invoiceNumber: 'x' })))
+      .rejects.toBeInstanceOf(OfflineInvoiceLeaseError);
+    await expect(storage.updateLeased('free', renewed, () => ({ invoiceNumber: 'x' })))
+      .rejects.toThrow('Offline invoice free is no longer leased to worker-1');
+    await expect(storage.updateLeased('missing', renewed, () => ({}))).rejects.toBeInstanceOf(OfflineInvoiceLeaseError);
+    await expect(storage.updateLeased('a', renewed, () => {
+      throw new Error('not allowed');
+    })).rejects.toThrow('not allowed');
+    expect((await storage.get('a'))?.invoiceNumber).toBe('FV/a-1');
+    expect((await storage.get('free'))?.invoiceNumber).toBe('FV/free');
+  });
+});
+
+describe('FileOfflineInvoiceStorage', () => {
+  it('keeps invoices across instances and with several writers', async () => {
+    const first = new FileOfflineInvoiceStorage(directory);
+    const second = new FileOfflineInvoiceStorage(directory);
+
+    await Promise.all(Array.from({ length: 10 }, (_, index) =>
+      (index % 2 === 0 ? first : second).save(offlineInvoice(`inv-${index}`, '2026-01-16T10:00:00.000Z'))
+    ));
+
+    const reopened = new FileOfflineInvoiceStorage(directory);
+    expect(await reopened.list()).toHaveLength(10);
+    expect((await readdir(directory)).filter((name) => name.endsWith('.tmp') || name === '.lock')).toEqual([]);
+  });
+
+  it('stores ids that are not safe file names', async () => {
+    const storage = new FileOfflineInvoiceStorage(directory);
+    await storage.save(offlineInvoice('../FV/1*2026', '2026-01-16T10:00:00.000Z'));
+
+    expect((await storage.get('../FV/1*2026'))?.invoiceNumber).toBe('FV/../FV/1*2026');
+    expect(await readdir(join(directory, 'invoices'))).toEqual(['..%2FFV%2F1%2A2026.json']);
+    await expect(storage.save(offlineInvoice('..', '2026-01-16T10:00:00.000Z'))).rejects.toThrow(/Invalid offline invoice id/);
+  });
+
+  it('rebuilds a damaged index and quarantines corrupted invoices', async () => {
+    const storage = new FileOfflineInvoiceStorage(directory);
+    await storage.save(offlineInvoice('a', '2026-01-16T10:00:00.000Z'));
+    await storage.save(offlineInvoice('b', '2026-01-16T10:00:00.000Z'));
+    await writeFile(join(directory, 'index.json'), '{"version":1,"invo');
+    await writeFile(join(directory, 'invoices', 'b.json'), '{"id":"b",');
+    await writeFile(join(directory, 'invoices', 'c.json.4242.tmp'), '{');
+
+    const reopened = new FileOfflineInvoiceStorage(directory);
+    expect(ids(await reopened.list())).toEqual(['a']);
+    expect((await readdir(join(directory, 'invoices'))).sort()).toEqual(['a.json', 'b.json.corrupt']);
+    expect(JSON.parse(await readFile(join(directory, 'index.json'), 'utf8')).invoices).toEqual({
+      a: { status: OfflineInvoiceStatus.GENERATED, mode: 'offline24', submitBy: '2026-01-16T10:00:00.000Z' }
+    });
+  });
+
+  it('indexes invoices written by a process that crashed before updating the index', async () => {
+    const storage = new FileOfflineInvoiceStorage(directory);
+    await storage.save(offlineInvoice('a', '2026-01-16T10:00:00.000Z'));
+    await writeFile(join(directory, 'invoices', 'b.json'), JSON.stringify(offlineInvoice('b', '2026-01-16T10:00:00.000Z')));
+    await writeFile(join(directory, '.lock'), '4242 2026-01-15T10:00:00.000Z');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(join(directory, '.lock'), old, old);
+
+    await storage.save(offlineInvoice('c', '2026-01-16T10:00:00.000Z'));
+
+    expect(ids(await storage.list())).toEqual(['a', 'b', 'c']);
+    expect((await readdir(directory)).filter((name) => name.startsWith('.lock'))).toEqual([]);
+  });
+
+  it('only releases the lock it created', async () => {
+    const storage = new FileOfflineInvoiceStorage(directory);
+    await storage.save(offlineInvoice('a', '2026-01-16T10:00:00.000Z'));
+    const { release } = await (storage as any).acquireLock();
+    await writeFile(join(directory, '.lock'), '4242 taken over');
+
+    await release();
+
+    expect(await readFile(join(directory, '.lock'), 'utf8')).toBe('4242 taken over');
+  });
+
+  it('gives up when another process holds the lock', async () => {
+    const storage = new FileOfflineInvoiceStorage(directory, { lockTimeoutMs: 50 });
+    await storage.save(offlineInvoice('a', '2026-01-16T10:00:00.000Z'));
+    await writeFile(join(directory, '.lock'), '4242');
+
+    await expect(storage.update('a', { status: OfflineInvoiceStatus.QUEUED }))
+      .rejects.toThrow(/Timed out after 50 ms waiting for offline invoice storage lock/);
+    expect((await storage.get('a'))?.status).toBe(OfflineInvoiceStatus.GENERATED);
+  });
+});
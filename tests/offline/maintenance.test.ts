@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  InMemoryMaintenanceWindowStore,
+  JsonFileMaintenanceWindowStore,
+  MaintenanceWindowService
+} from '../../src/api2/offline/maintenance.js';
+import {
+  InMemoryOfflineInvoiceStorage,
+  OfflineInvoiceStatus,
+  OfflineReason,
+  type MaintenanceWindowStore,
+  type OfflineInvoiceMetadata,
+  type OfflineMode
+} from '../../src/api2/offline/types.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+
+function offlineInvoice(
+  id: string,
+  overrides: Partial<OfflineInvoiceMetadata> & { mode?: OfflineMode } = {}
+): OfflineInvoiceMetadata {
+  return {
+    id,
+    mode: 'offline',
+    reason: OfflineReason.SYSTEM_UNAVAILABLE,
+    invoiceNumber: `FV/${id}`,
+    invoiceXml: '<Faktura/>',
+    sellerIdentifier: { type: ContextIdentifierType.NIP, value: '5265877635' },
+    qrCodes: { kod1: { qrCode: { url: 'x' }, label: 'OFFLINE', url: 'x' }, isOffline: true },
+    generatedAt: '2026-01-15T10:00:00.000Z',
+    submitBy: '2026-01-16T22:59:59.999Z',
+    maintenanceWindowId: 'mw-1',
+    status: OfflineInvoiceStatus.GENERATED,
+    ...overrides
+  } as OfflineInvoiceMetadata;
+}
+
+function createService(now = new Date('2026-01-15T12:00:00Z')) {
+  const windows = new InMemoryMaintenanceWindowStore();
+  const invoices = new InMemoryOfflineInvoiceStorage();
+  const clock = { now };
+  let nextId = 0;
+  const service = new MaintenanceWindowService({
+    windows,
+    invoices,
+    now: () => clock.now,
+    createId: () => `mw-${++nextId}`
+  });
+  return { service, windows, invoices, clock };
+}
+
+describe('MaintenanceWindowService', () => {
+  it('registers windows and finds the current one', async () => {
+    const { service, clock } = createService();
+
+    expect(await service.getCurrentMaintenanceWindow()).toBeNull();
+    const open = await service.registerMaintenanceWindow({ startTime: '2026-01-15T08:00:00Z', active: true, planned: false });
+    const planned = await service.registerMaintenanceWindow({
+      startTime: '2026-01-20T20:00:00Z',
+      endTime: '2026-01-20T23:00:00Z',
+      active: false,
+      planned: true
+    });
+
+    expect(open.id).toBe('mw-1');
+    expect(await service.getCurrentMaintenanceWindow()).toEqual(open);
+    clock.now = new Date('2026-01-20T21:00:00Z');
+    await service.updateMaintenanceWindow(open.id, { endTime: '2026-01-15T18:00:00Z', active: false });
+    expect(await service.getCurrentMaintenanceWindow()).toEqual(planned);
+    expect(await service.getMaintenanceWindow('missing')).toBeNull();
+    await expect(service.registerMaintenanceWindow({
+      startTime: '2026-01-20T20:00:00Z',
+      endTime: '2026-01-20T19:00:00Z',
+      active: false,
+      planned: true
+    })).rejects.toThrow(/Invalid maintenance window endTime/);
+  });
+
+  it('extends deadlines of linked invoices when the window end is set and keeps an audit trail', async () => {
+    const { service, invoices, clock } = createService();
+    const window = await service.registerMaintenanceWindow({ startTime: '2026-01-15T08:00:00Z', active: true, planned: false });
+    await invoices.save(offlineInvoice('open'));
+    await invoices.save(offlineInvoice('emergency', { mode: 'awaryjny' }));
+    await invoices.save(offlineInvoice('sent', { status: OfflineInvoiceStatus.SUBMITTED }));
+    await invoices.save(offlineInvoice('other-window', { maintenanceWindowId: 'mw-9' }));
+
+    expect((await service.getAffectedInvoices(window.id)).map((invoice) => invoice.id)).toEqual(['open', 'emergency', 'sent']);
+
+    clock.now = new Date('2026-01-19T09:00:00Z');
+    await service.updateMaintenanceWindow(window.id, { endTime: '2026-01-19T08:00:00Z', active: false });
+
+    expect(await invoices.get('open')).toMatchObject({
+      submitBy: '2026-01-20T22:59:59.999Z',
+      deadlineHistory: [{
+        previousSubmitBy: '2026-01-16T22:59:59.999Z',
+        submitBy: '2026-01-20T22:59:59.999Z',
+        changedAt: '2026-01-19T09:00:00.000Z',
+        maintenanceWindowId: window.id,
+        source: 'maintenanceWindow'
+      }]
+    });
+    expect((await invoices.get('emergency'))?.submitBy).toBe('2026-01-28T22:59:59.999Z');
+    expect((await invoices.get('sent'))?.submitBy).toBe('2026-01-16T22:59:59.999Z');
+    expect((await invoices.get('other-window'))?.deadlineHistory).toBeUndefined();
+
+    // Moving the end earlier keeps the deadlines already given
+    await service.updateMaintenanceWindow(window.id, { endTime: '2026-01-16T08:00:00Z' });
+    expect((await invoices.get('open'))?.deadlineHistory).toHaveLength(1);
+  });
+
+  it('revives expired invoices and applies explicit deadlines', async () => {
+    const { service, invoices } = createService(new Date('2026-01-17T12:00:00Z'));
+    const window = await service.registerMaintenanceWindow({ startTime: '2026-01-15T08:00:00Z', active: true, planned: false });
+    await invoices.save(offlineInvoice('late', { maintenanceWindowId: window.id, status: OfflineInvoiceStatus.EXPIRED }));
+
+    const result = await service.extendInvoiceDeadlines(window.id, new Date('2026-01-21T22:59:59.999Z'));
+
+    expect(result.updated).toBe(1);
+    expect(await invoices.get('late')).toMatchObject({
+      status: OfflineInvoiceStatus.GENERATED,
+      submitBy: '2026-01-21T22:59:59.999Z',
+      deadlineHistory: [{ source: 'manual' }]
+    });
+    await expect(service.extendInvoiceDeadlines('missing')).rejects.toThrow('Maintenance window missing not found');
+  });
+
+  it('leaves invoices to the worker that leased or moved them', async () => {
+    const { service, invoices } = createService(new Date('2026-01-17T12:00:00Z'));
+    const window = await service.registerMaintenanceWindow({ startTime: '2026-01-15T08:00:00Z', active: true, planned: false });
+    await invoices.save(offlineInvoice('leased', { maintenanceWindowId: window.id, status: OfflineInvoiceStatus.EXPIRED }));
+    await invoices.save(offlineInvoice('raced', { maintenanceWindowId: window.id, status: OfflineInvoiceStatus.EXPIRED }));
+    await invoices.acquireLease('leased', { owner: 'worker-1', expiresAt: '2026-01-17T12:05:00Z' }, new Date('2026-01-17T12:00:00Z'));
+    const acquireLease = invoices.acquireLease.bind(invoices);
+    vi.spyOn(invoices, 'acquireLease').mockImplementation(async (id, lease, now) => {
+      if (id === 'raced') {
+        // A worker sends the invoice late between the listing and the deadline change.
+        await invoices.update(id, { status: OfflineInvoiceStatus.SUBMITTED });
+      }
+      return await acquireLease(id, lease, now);
+    });
+
+    const result = await service.extendInvoiceDeadlines(window.id, new Date('2026-01-21T22:59:59.999Z'));
+
+    expect(result.updated).toBe(0);
+    expect(await invoices.get('leased')).toMatchObject({
+      status: OfflineInvoiceStatus.EXPIRED,
+      submitBy: '2026-01-16T22:59:59.999Z',
+      lease: { owner: 'worker-1' }
+    });
+    expect(await invoices.get('raced')).toMatchObject({ status: OfflineInvoiceStatus.SUBMITTED, submitBy: '2026-01-16T22:59:59.999Z' });
+    expect((await invoices.get('raced'))?.deadlineHistory).toBeUndefined();
+    expect((await invoices.get('raced'))?.lease).toBeUndefined();
+  });
+});
+
+describe('maintenance window stores', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'ksef-maintenance-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['InMemoryMaintenanceWindowStore', (): MaintenanceWindowStore => new InMemoryMaintenanceWindowStore()],
+    ['JsonFileMaintenanceWindowStore', (): MaintenanceWindowStore => new JsonFileMaintenanceWindowStore(join(directory, 'windows.json'))]
+  ])('%s saves, replaces and lists windows', async (_name, createStore) => {
+    const store = createStore();
+    const window = { id: 'mw-1', startTime: '2026-01-15T08:00:00Z', active: true, planned: false };
+
+    await store.save(window);
+    await store.save({ ...window, endTime: '2026-01-15T12:00:00Z', active: false });
+    await store.save({ ...window, id: 'mw-2' });
+
+    expect(await store.get('mw-1')).toEqual({ ...window, endTime: '2026-01-15T12:00:00Z', active: false });
+    expect(await store.get('missing')).toBeNull();
+    expect((await store.list()).map((saved) => saved.id)).toEqual(['mw-1', 'mw-2']);
+  });
+
+  it('reads windows written by another instance of the file store', async () => {
+    const path = join(directory, 'nested', 'windows.json');
+    await new JsonFileMaintenanceWindowStore(path).save({ id: 'mw-1', startTime: '2026-01-15T08:00:00Z', active: true, planned: false });
+
+    expect(await new JsonFileMaintenanceWindowStore(path).get('mw-1')).toMatchObject({ id: 'mw-1' });
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OfflineInvoiceManager } from '../../src/api2/offline/manager.js';
+import {
+  InMemoryOfflineInvoiceStorage,
+  OfflineInvoiceStatus,
+  OfflineReason,
+  type MaintenanceWindowAPI,
+  type OfflineInvoiceInputData
+} from '../../src/api2/offline/types.js';
+import { QRCodeService } from '../../src/api2/qr/service.js';
+import { CertificateType, type OfflineCertificate } from '../../src/api2/qr/types.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+import { KsefApiError, ValidationError } from '../../src/types/common.js';
+import type { SessionInvoiceStatus } from '../../src/api2/types/session.js';
+import type { OnlineSession } from '../../src/api2/workflows/online-session.js';
+import { AuthenticationFailedError } from '../../src/api2/workflows/authentication.js';
+import { HTTP_TIMEOUT_ERROR_CODE } from '../../src/utils/http.js';
+
+const keyPair = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+const certificate: OfflineCertificate = {
+  certificate: keyPair.publicKey,
+  privateKey: keyPair.privateKey,
+  serialNumber: '01F20A5D352AE590',
+  type: CertificateType.OFFLINE
+};
+
+const xml = '<?xml version="1.0"?><Faktura><P_1>2026-01-15</P_1></Faktura>';
+
+function inputData(invoiceNumber: string): OfflineInvoiceInputData {
+  return {
+    invoiceNumber,
+    invoiceDate: '2026-01-15',
+    sellerIdentifier: { type: ContextIdentifierType.NIP, value: '5265877635' },
+    totalAmount: 123,
+    currency: 'PLN'
+  };
+}
+
+function createManager(
+  now: Date,
+  extra: Partial<Pick<ConstructorParameters<typeof OfflineInvoiceManager>[0], 'maintenanceWindows' | 'offlineCertificate' | 'availability'>> = {}
+) {
+  const storage = new InMemoryOfflineInvoiceStorage();
+  const clock = { now };
+  let nextId = 0;
+  const manager = new OfflineInvoiceManager({
+    storage,
+    qrCodes: new QRCodeService('test'),
+    now: () => clock.now,
+    createId: () => `offline-${++nextId}`,
+    ...extra
+  });
+  return { manager, storage, clock };
+}
+
+function fakeSession(statuses: SessionInvoiceStatus[] = []) {
+  let sent = 0;
+  const session = {
+    referenceNumber: '20260116-SO-1111111111-2222222222-33',
+    send: vi.fn(async () => ({ referenceNumber: `INV-${++sent}` })),
+    invoiceStatuses: vi.fn(async () => statuses),
+    close: vi.fn(async () => undefined)
+  };
+  return session as typeof session & OnlineSession;
+}
+
+describe('OfflineInvoiceManager', () => {
+  it('generates an offline24 invoice with both QR codes and stores it', async () => {
+    const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'));
+
+    const invoice = await manager.generate(xml, inputData('FV/1/2026'), { offlineCertificate: certificate });
+
+    expect(invoice).toMatchObject({
+      id: 'offline-1',
+      mode: 'offline24',
+      reason: OfflineReason.PLANNED,
+      status: OfflineInvoiceStatus.GENERATED,
+      generatedAt: '2026-01-15T10:00:00.000Z',
+      submitBy: '2026-01-16T22:59:59.999Z'
+    });
+    expect(invoice.qrCodes.kod1.label).toBe('OFFLINE');
+    expect(invoice.qrCodes.kod2?.label).toBe('CERTYFIKAT');
+    expect(await storage.get('offline-1')).toEqual(invoice);
+  });
+
+  it('uses the current maintenance window for offline invoices during unavailability', async () => {
+    const window = {
+      id: 'mw-1',
+      startTime: '2026-01-15T08:00:00Z',
+      endTime: '2026-01-15T12:00:00Z',
+      active: true,
+      planned: false
+    };
+    const maintenanceWindows = {
+      getCurrentMaintenanceWindow: vi.fn(async () => window),
+      getMaintenanceWindow: vi.fn(async () => window)
+    } as Partial<MaintenanceWindowAPI> as MaintenanceWindowAPI;
+    const { manager } = createManager(new Date('2026-01-15T10:00:00Z'), { maintenanceWindows });
+
+    const invoice = await manager.generate(xml, inputData('FV/2/2026'), {
+      mode: 'offline',
+      offlineCertificate: certificate
+    });
+
+    expect(invoice.maintenanceWindowId).toBe('mw-1');
+    expect(invoice.reason).toBe(OfflineReason.SYSTEM_UNAVAILABLE);
+    expect(invoice.submitBy).toBe('2026-01-16T22:59:59.999Z');
+  });
+
+  it('writes the XML to savePath and honours a custom deadline', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'ksef-offline-'));
+    try {
+      const { manager } = createManager(new Date('2026-01-15T10:00:00Z'));
+      const savePath = join(directory, 'nested', 'FV-3.xml');
+
+      const invoice = await manager.generate(xml, inputData('FV/3/2026'), {
+        offlineCertificate: certificate,
+        customDeadline: '2026-01-15T18:00:00Z',
+        savePath
+      });
+
+      expect(invoice.submitBy).toBe('2026-01-15T18:00:00.000Z');
+      expect(await readFile(savePath, 'utf8')).toBe(xml);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('requires an offline certificate and a NIP seller', async () => {
+    const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'));
+
+    await expect(manager.generate(xml, inputData('FV/4/2026'))).rejects.toThrow(/offline certificate is required/);
+    await expect(manager.generate(xml, inputData('FV/4/2026'), { offlineCertificate: certificate, generateQRCodes: false }))
+      .rejects.toThrow(/KOD I and KOD II/);
+    await expect(manager.generate(xml, {
+      ...inputData('FV/4/2026'),
+      sellerIdentifier: { type: ContextIdentifierType.INTERNAL_ID, value: '5265877635-12345' }
+    }, { offlineCertificate: certificate })).rejects.toThrow(/must be identified by NIP/);
+    expect(await storage.list()).toHaveLength(0);
+  });
+
+  it('submits pending invoices in deadline order and sends expired ones late', async () => {
+    const { manager, storage, clock } = createManager(new Date('2026-01-15T10:00:00Z'));
+    await manager.generate(xml, inputData('FV/late'), { offlineCertificate: certificate, customDeadline: '2026-01-15T11:00:00Z' });
+    await manager.generate(xml, inputData('FV/second'), { offlineCertificate: certificate, customDeadline: '2026-01-17T10:00:00Z' });
+    await manager.generate(xml, inputData('FV/first'), { offlineCertificate: certificate, customDeadline: '2026-01-16T10:00:00Z' });
+    clock.now = new Date('2026-01-15T12:00:00Z');
+    const session = fakeSession();
+
+    const onTime = await manager.submitPending(session, {
+      statusFilter: [OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.QUEUED]
+    });
+
+    expect(onTime).toMatchObject({ total: 3, submitted: 2, expired: 1, failed: 0 });
+    expect(onTime.results.map((entry) => entry.invoiceNumber)).toEqual(['FV/late', 'FV/first', 'FV/second']);
+    expect(session.send).toHaveBeenCalledTimes(2);
+    expect(session.send).toHaveBeenCalledWith(xml, { offlineMode: true });
+    expect(session.close).not.toHaveBeenCalled();
+    expect((await storage.get('offline-1'))?.status).toBe(OfflineInvoiceStatus.EXPIRED);
+    expect(await storage.get('offline-3')).toMatchObject({
+      status: OfflineInvoiceStatus.SUBMITTED,
+      ksefReferenceNumber: 'INV-1',
+      sessionReferenceNumber: session.referenceNumber,
+      submittedAt: '2026-01-15T12:00:00.000Z'
+    });
+    expect((await storage.list()).every((invoice) => invoice.lease === undefined)).toBe(true);
+
+    const late = await manager.submitPending(session);
+    expect(late).toMatchObject({ total: 1, submitted: 1 });
+    expect((await storage.get('offline-1'))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+  });
+
+  it('leaves invoices leased by a worker to that worker', async () => {
+    const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'));
+    await manager.generate(xml, inputData('FV/a'), { offlineCertificate: certificate });
+    await manager.generate(xml, inputData('FV/b'), { offlineCertificate: certificate });
+    await storage.acquireLease('offline-1', { owner: 'worker-1', expiresAt: '2026-01-15T10:05:00Z' }, new Date('2026-01-15T10:00:00Z'));
+    const session = fakeSession();
+
+    expect(await manager.submitPending(session)).toMatchObject({ total: 1, submitted: 1 });
+    expect((await storage.get('offline-1'))?.status).toBe(OfflineInvoiceStatus.GENERATED);
+    expect((await storage.get('offline-2'))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+  });
+
+  it('records send failures and stops when continueOnError is false', async () => {
+    const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'));
+    await manager.generate(xml, inputData('FV/a'), { offlineCertificate: certificate });
+    await manager.generate(xml, inputData('FV/b'), { offlineCertificate: certificate });
+    const session = fakeSession();
+    session.send.mockRejectedValueOnce(new Error('session closed'));
+
+    const result = await manager.submitPending(session, { continueOnError: false });
+
+    expect(result).toMatchObject({ total: 1, submitted: 0, failed: 1 });
+    expect(await storage.get('offline-1')).toMatchObject({
+      status: OfflineInvoiceStatus.QUEUED,
+      error: { code: 'SUBMISSION_FAILED', message: 'session closed' }
+    });
+    expect((await storage.get('offline-2'))?.status).toBe(OfflineInvoiceStatus.GENERATED);
+  });
+
+  it('reconciles submitted invoices with the session invoice statuses', async () => {
+    const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'));
+    for (const number of ['FV/ok', 'FV/bad', 'FV/pending']) {
+      await manager.generate(xml, inputData(number), { offlineCertificate: certificate });
+    }
+    const session = fakeSession([
+      { ordinalNumber: 1, referenceNumber: 'INV-1', ksefNumber: '5265877635-20260115-0100001AF629-AF', status: { code: 200, description: 'Sukces' } },
+      { ordinalNumber: 2, referenceNumber: 'INV-2', status: { code: 440, description: 'Duplikat faktury', details: ['FV/bad'] } },
+      { ordinalNumber: 3, referenceNumber: 'INV-3', status: { code: 150, description: 'Trwa przetwarzanie' } }
+    ] as SessionInvoiceStatus[]);
+    await manager.submitPending(session);
+
+    const result = await manager.reconcile(session);
+
+    expect(result).toMatchObject({ total: 2, accepted: 1, rejected: 1 });
+    expect(session.invoiceStatuses).toHaveBeenCalledOnce();
+    expect(await storage.get('offline-1')).toMatchObject({
+      status: OfflineInvoiceStatus.ACCEPTED,
+      ksefNumber: '5265877635-20260115-0100001AF629-AF'
+    });
+    expect(await storage.get('offline-2')).toMatchObject({
+      status: OfflineInvoiceStatus.REJECTED,
+      error: { code: '440', message: 'Duplikat faktury', details: ['FV/bad'] }
+    });
+    expect((await storage.get('offline-3'))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+  });
+
+  describe('sendOrQueue', () => {
+    it('sends online when KSeF answers', async () => {
+      const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'), { offlineCertificate: certificate });
+      const session = fakeSession();
+
+      const result = await manager.sendOrQueue(xml, { invoice: inputData('FV/1/2026'), session: async () => session });
+
+      expect(result).toEqual({ status: 'sent', referenceNumber: 'INV-1', sessionReferenceNumber: session.referenceNumber });
+      expect(session.send).toHaveBeenCalledWith(xml);
+      expect(await storage.list()).toEqual([]);
+    });
+
+    it('queues an offline invoice when the session cannot be opened or the send fails on KSeF side', async () => {
+      const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'), { offlineCertificate: certificate });
+      const session = fakeSession();
+      session.send.mockRejectedValueOnce(new KsefApiError('Service Unavailable', { statusCode: 503 }));
+
+      const opened = await manager.sendOrQueue(xml, {
+        invoice: inputData('FV/1/2026'),
+        session: async () => { throw new KsefApiError('Request timeout', { code: HTTP_TIMEOUT_ERROR_CODE }); }
+      });
+      const sent = await manager.sendOrQueue(xml, { invoice: inputData('FV/2/2026'), session });
+
+      expect(opened).toMatchObject({
+        status: 'queued',
+        cause: 'Request timeout',
+        submitBy: '2026-01-16T22:59:59.999Z',
+        invoice: { mode: 'offline', reason: OfflineReason.SYSTEM_UNAVAILABLE, status: OfflineInvoiceStatus.GENERATED }
+      });
+      expect(opened.status === 'queued' && opened.qrCodes.kod2?.label).toBe('CERTYFIKAT');
+      expect(sent).toMatchObject({ status: 'queued', cause: 'Service Unavailable' });
+      expect(await storage.list()).toHaveLength(2);
+    });
+
+    it('queues without trying online while KSeF is reported unavailable', async () => {
+      const { manager } = createManager(new Date('2026-01-15T10:00:00Z'), { availability: { isAvailable: () => false } });
+      const session = fakeSession();
+
+      const result = await manager.sendOrQueue(xml, {
+        invoice: inputData('FV/1/2026'),
+        session,
+        offline: { offlineCertificate: certificate, mode: 'awaryjny' }
+      });
+
+      expect(result).toMatchObject({ status: 'queued', cause: 'KSeF is reported unavailable', invoice: { mode: 'awaryjny' } });
+      expect(session.send).not.toHaveBeenCalled();
+    });
+
+    it('rethrows failures that are not about availability', async () => {
+      const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'), { offlineCertificate: certificate });
+      const session = fakeSession();
+      session.send
+        .mockRejectedValueOnce(new ValidationError('Invalid invoice', { statusCode: 400 }))
+        .mockRejectedValueOnce(new Error('Online session 1 is closed'));
+
+      await expect(manager.sendOrQueue(xml, { invoice: inputData('FV/1/2026'), session })).rejects.toThrow('Invalid invoice');
+      await expect(manager.sendOrQueue(xml, { invoice: inputData('FV/1/2026'), session })).rejects.toThrow(/is closed/);
+      expect(await storage.list()).toEqual([]);
+    });
+
+    it('rethrows KSeF errors without a status code that are not network failures', async () => {
+      const { manager, storage } = createManager(new Date('2026-01-15T10:00:00Z'), { offlineCertificate: certificate });
+      const failure = new AuthenticationFailedError('auth-ref', { code: 450, description: 'Invalid token' });
+
+      await expect(manager.sendOrQueue(xml, {
+        invoice: inputData('FV/1/2026'),
+        session: async () => { throw failure; }
+      })).rejects.toBe(failure);
+      expect(await storage.list()).toEqual([]);
+    });
+  });
+});
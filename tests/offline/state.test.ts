@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OfflineInvoiceTransitionError,
+  canTransitionOfflineInvoice,
+  transitionOfflineInvoice
+} from '../../src/api2/offline/state.js';
+import {
+  InMemoryOfflineInvoiceStorage,
+  OfflineInvoiceStatus,
+  type OfflineInvoiceMetadata
+} from '../../src/api2/offline/types.js';
+
+describe('offline invoice transitions', () => {
+  it('allows the documented lifecycle only', () => {
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.QUEUED)).toBe(true);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.QUEUED, OfflineInvoiceStatus.SUBMITTED)).toBe(true);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.SUBMITTED, OfflineInvoiceStatus.REJECTED)).toBe(true);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.EXPIRED, OfflineInvoiceStatus.GENERATED)).toBe(true);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.QUEUED, OfflineInvoiceStatus.QUEUED)).toBe(true);
+
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.SUBMITTED)).toBe(false);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.ACCEPTED, OfflineInvoiceStatus.QUEUED)).toBe(false);
+    expect(canTransitionOfflineInvoice(OfflineInvoiceStatus.SUBMITTED, OfflineInvoiceStatus.EXPIRED)).toBe(false);
+  });
+
+  it('stores allowed changes and rejects the others', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    const invoice = { id: 'a', status: OfflineInvoiceStatus.SUBMITTED, submitBy: '2026-01-17T10:00:00.000Z' } as OfflineInvoiceMetadata;
+    await storage.save(invoice);
+
+    const accepted = await transitionOfflineInvoice(storage, invoice, OfflineInvoiceStatus.ACCEPTED, { ksefNumber: 'KSEF-1' });
+    expect(accepted).toMatchObject({ status: OfflineInvoiceStatus.ACCEPTED, ksefNumber: 'KSEF-1' });
+    expect(await storage.get('a')).toEqual(accepted);
+
+    const error = await transitionOfflineInvoice(storage, accepted, OfflineInvoiceStatus.QUEUED).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(OfflineInvoiceTransitionError);
+    expect(error).toMatchObject({ invoiceId: 'a', from: OfflineInvoiceStatus.ACCEPTED, to: OfflineInvoiceStatus.QUEUED });
+    expect((await storage.get('a'))?.status).toBe(OfflineInvoiceStatus.ACCEPTED);
+  });
+});
@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileOfflineInvoiceStorage } from '../../src/api2/offline/file-storage.js';
+import { OfflineSubmissionWorker } from '../../src/api2/offline/worker.js';
+import {
+  InMemoryOfflineInvoiceStorage,
+  OfflineInvoiceStatus,
+  OfflineReason,
+  type LeasableOfflineInvoiceStorage,
+  type OfflineInvoiceMetadata,
+  type OfflineSubmissionWorkerOptions
+} from '../../src/api2/offline/types.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+import type { SessionInvoiceStatus } from '../../src/api2/types/session.js';
+import type { OnlineSession } from '../../src/api2/workflows/online-session.js';
+
+const now = new Date('2026-01-16T10:00:00.000Z');
+
+function offlineInvoice(
+  id: string,
+  submitBy: string,
+  status = OfflineInvoiceStatus.GENERATED,
+  extra: Partial<OfflineInvoiceMetadata> = {}
+): OfflineInvoiceMetadata {
+  return {
+    id,
+    mode: 'offline24',
+    reason: OfflineReason.PLANNED,
+    invoiceNumber: `FV/${id}`,
+    invoiceXml: `<Faktura id="${id}"/>`,
+    sellerIdentifier: { type: ContextIdentifierType.NIP, value: '5265877635' },
+    qrCodes: {
+      kod1: { qrCode: { url: 'https://qr-test.ksef.mf.gov.pl/invoice/x' }, label: 'OFFLINE', url: 'https://qr-test.ksef.mf.gov.pl/invoice/x' },
+      isOffline: true
+    },
+    generatedAt: '2026-01-15T10:00:00.000Z',
+    submitBy,
+    status,
+    ...extra
+  } as OfflineInvoiceMetadata;
+}
+
+function fakeSession(failFor: string[] = []) {
+  let sent = 0;
+  const session = {
+    referenceNumber: 'SESSION-1',
+    send: vi.fn(async (xml: string) => {
+      if (failFor.some((id) => xml.includes(`"${id}"`))) {
+        throw new Error('Invoice rejected by schema');
+      }
+      return { referenceNumber: `INV-${++sent}` };
+    }),
+    close: vi.fn(async () => undefined)
+  };
+  return session as typeof session & OnlineSession;
+}
+
+function invoiceStatus(code: number, extra: Partial<SessionInvoiceStatus> = {}): SessionInvoiceStatus {
+  return { status: { code, description: code === 200 ? 'Sukces' : 'Błąd weryfikacji' }, ...extra } as SessionInvoiceStatus;
+}
+
+function createWorker(
+  storage: LeasableOfflineInvoiceStorage,
+  options: Partial<OfflineSubmissionWorkerOptions> = {}
+) {
+  const session = fakeSession();
+  const worker = new OfflineSubmissionWorker({
+    storage,
+    openSession: async () => session,
+    getInvoiceStatus: async () => invoiceStatus(150),
+    workerId: 'worker-1',
+    now: () => now,
+    ...options
+  });
+  return { worker, session };
+}
+
+describe('OfflineSubmissionWorker', () => {
+  it('submits pending invoices earliest deadline first and records the references', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('late', '2026-01-20T10:00:00.000Z'));
+    await storage.save(offlineInvoice('early', '2026-01-17T10:00:00.000Z', OfflineInvoiceStatus.QUEUED));
+    await storage.save(offlineInvoice('done', '2026-01-17T10:00:00.000Z', OfflineInvoiceStatus.ACCEPTED));
+    const { worker, session } = createWorker(storage);
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ total: 2, submitted: 2, failed: 0, expired: 0 });
+    expect(session.send.mock.calls).toEqual([
+      ['<Faktura id="early"/>', { offlineMode: true }],
+      ['<Faktura id="late"/>', { offlineMode: true }]
+    ]);
+    expect(session.close).toHaveBeenCalledOnce();
+    expect(await storage.get('early')).toMatchObject({
+      status: OfflineInvoiceStatus.SUBMITTED,
+      ksefReferenceNumber: 'INV-1',
+      sessionReferenceNumber: 'SESSION-1',
+      submittedAt: now.toISOString()
+    });
+    expect((await storage.get('early'))?.lease).toBeUndefined();
+    expect((await storage.get('done'))?.status).toBe(OfflineInvoiceStatus.ACCEPTED);
+  });
+
+  it('marks overdue invoices expired, still sends them late and counts each invoice once', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('overdue', '2026-01-16T09:00:00.000Z', OfflineInvoiceStatus.QUEUED));
+    await storage.save(offlineInvoice('late', '2026-01-15T09:00:00.000Z', OfflineInvoiceStatus.EXPIRED));
+    await storage.save(offlineInvoice('due', '2026-01-16T12:00:00.000Z'));
+    const { worker, session } = createWorker(storage);
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ total: 3, expired: 0, submitted: 3, failed: 0 });
+    expect(result.results.map(({ id, success }) => [id, success])).toEqual([['late', true], ['overdue', true], ['due', true]]);
+    expect(session.send.mock.calls.map(([xml]) => xml)).toEqual([
+      '<Faktura id="late"/>',
+      '<Faktura id="overdue"/>',
+      '<Faktura id="due"/>'
+    ]);
+    for (const id of ['overdue', 'late', 'due']) {
+      expect((await storage.get(id))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+    }
+  });
+
+  it('reports an invoice sent and accepted in the same run once', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    const { worker } = createWorker(storage, {
+      getInvoiceStatus: async () => invoiceStatus(200, { ksefNumber: '5265877635-20260116-0100001AF629-AF' })
+    });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ total: 1, submitted: 0, accepted: 1 });
+    expect(result.results).toEqual([expect.objectContaining({ id: 'a', success: true, ksefReferenceNumber: 'INV-1' })]);
+  });
+
+  it('leaves expired invoices alone when statusFilter leaves them out', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('overdue', '2026-01-16T09:00:00.000Z', OfflineInvoiceStatus.QUEUED));
+    await storage.save(offlineInvoice('due', '2026-01-16T12:00:00.000Z'));
+    const { worker, session } = createWorker(storage, {
+      batch: { statusFilter: [OfflineInvoiceStatus.GENERATED, OfflineInvoiceStatus.QUEUED] }
+    });
+
+    expect(await worker.runOnce()).toMatchObject({ total: 2, expired: 1, submitted: 1 });
+    expect((await storage.get('overdue'))?.status).toBe(OfflineInvoiceStatus.EXPIRED);
+    expect(session.send).toHaveBeenCalledOnce();
+  });
+
+  it('applies the batch size and the deadline window', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-16T11:00:00.000Z'));
+    await storage.save(offlineInvoice('b', '2026-01-16T12:00:00.000Z'));
+    await storage.save(offlineInvoice('c', '2026-01-16T13:00:00.000Z'));
+    await storage.save(offlineInvoice('d', '2026-01-18T10:00:00.000Z'));
+    const { worker } = createWorker(storage, { batch: { batchSize: 2, expiringWithinHours: 6 } });
+
+    expect(await worker.runOnce()).toMatchObject({ submitted: 2 });
+    expect((await storage.list({ status: [OfflineInvoiceStatus.SUBMITTED] })).map((invoice) => invoice.id).sort())
+      .toEqual(['a', 'b']);
+
+    expect(await worker.runOnce()).toMatchObject({ submitted: 1 });
+    expect((await storage.get('d'))?.status).toBe(OfflineInvoiceStatus.GENERATED);
+  });
+
+  it('records failed sends and stops on the first one without continueOnError', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    await storage.save(offlineInvoice('b', '2026-01-18T10:00:00.000Z'));
+    const session = fakeSession(['a']);
+    const { worker } = createWorker(storage, { openSession: async () => session });
+
+    expect(await worker.runOnce()).toMatchObject({ submitted: 1, failed: 1 });
+    expect(await storage.get('a')).toMatchObject({
+      status: OfflineInvoiceStatus.QUEUED,
+      error: { code: 'SUBMISSION_FAILED', message: 'Invoice rejected by schema' }
+    });
+
+    await storage.save(offlineInvoice('c', '2026-01-19T10:00:00.000Z'));
+    const getInvoiceStatus = vi.fn(async () => invoiceStatus(150));
+    const { worker: strict } = createWorker(storage, {
+      openSession: async () => session,
+      getInvoiceStatus,
+      batch: { continueOnError: false }
+    });
+
+    expect(await strict.runOnce()).toMatchObject({ submitted: 0, failed: 1 });
+    expect((await storage.get('c'))?.status).toBe(OfflineInvoiceStatus.GENERATED);
+    expect(session.close).toHaveBeenCalledTimes(2);
+    expect(getInvoiceStatus).not.toHaveBeenCalled();
+    expect((await storage.list()).every((invoice) => invoice.lease === undefined)).toBe(true);
+  });
+
+  it('keeps invoices pending when the session cannot be opened', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    const { worker } = createWorker(storage, {
+      openSession: async () => {
+        throw new Error('Service unavailable');
+      }
+    });
+
+    expect(await worker.runOnce()).toMatchObject({ failed: 1 });
+    expect(await storage.get('a')).toMatchObject({
+      status: OfflineInvoiceStatus.GENERATED,
+      error: { message: 'Service unavailable' }
+    });
+    expect((await storage.get('a'))?.lease).toBeUndefined();
+  });
+
+  it('polls submitted invoices until KSeF accepts or rejects them', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    const sent = { sessionReferenceNumber: 'SESSION-1', submittedAt: '2026-01-16T09:00:00.000Z' };
+    await storage.save(offlineInvoice('ok', '2026-01-17T10:00:00.000Z', OfflineInvoiceStatus.SUBMITTED, { ...sent, ksefReferenceNumber: 'INV-1' }));
+    await storage.save(offlineInvoice('bad', '2026-01-17T10:00:00.000Z', OfflineInvoiceStatus.SUBMITTED, { ...sent, ksefReferenceNumber: 'INV-2' }));
+    await storage.save(offlineInvoice('wait', '2026-01-17T10:00:00.000Z', OfflineInvoiceStatus.SUBMITTED, { ...sent, ksefReferenceNumber: 'INV-3' }));
+    const statuses: Record<string, SessionInvoiceStatus> = {
+      'INV-1': invoiceStatus(200, { ksefNumber: '5265877635-20260116-0100001AF629-AF' }),
+      'INV-2': invoiceStatus(450, { status: { code: 450, description: 'Błąd weryfikacji', details: ['Nieprawidłowy NIP'] } }),
+      'INV-3': invoiceStatus(150)
+    };
+    const getInvoiceStatus = vi.fn(async (_session: string, invoice: string) => statuses[invoice]!);
+    const { worker } = createWorker(storage, { getInvoiceStatus });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ total: 2, accepted: 1, rejected: 1 });
+    expect(getInvoiceStatus).toHaveBeenCalledWith('SESSION-1', 'INV-1');
+    expect(await storage.get('ok')).toMatchObject({
+      status: OfflineInvoiceStatus.ACCEPTED,
+      ksefNumber: '5265877635-20260116-0100001AF629-AF'
+    });
+    expect(await storage.get('bad')).toMatchObject({
+      status: OfflineInvoiceStatus.REJECTED,
+      error: { code: '450', message: 'Błąd weryfikacji', details: ['Nieprawidłowy NIP'] }
+    });
+    expect((await storage.get('wait'))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+  });
+
+  it('skips invoices leased by another worker until the lease expires', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    await storage.acquireLease('a', { owner: 'crashed', expiresAt: '2026-01-16T10:01:00.000Z' }, now);
+    const clock = { now };
+    const { worker } = createWorker(storage, { now: () => clock.now });
+
+    expect(await worker.runOnce()).toMatchObject({ total: 0 });
+
+    clock.now = new Date('2026-01-16T10:02:00.000Z');
+    expect(await worker.runOnce()).toMatchObject({ submitted: 1 });
+  });
+
+  it('renews the lease before each send and skips invoices taken over meanwhile', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    await storage.save(offlineInvoice('b', '2026-01-17T11:00:00.000Z'));
+    const clock = { now };
+    const session = fakeSession();
+    const leasesAtSend: (string | undefined)[] = [];
+    session.send.mockImplementation(async (xml: string) => {
+      leasesAtSend.push((await storage.get(xml.includes('"a"') ? 'a' : 'b'))?.lease?.expiresAt);
+      // This worker stalls past its lease and another one takes the next invoice.
+      clock.now = new Date('2026-01-16T10:20:00.000Z');
+      await storage.acquireLease('b', { owner: 'worker-2', expiresAt: '2026-01-16T10:30:00.000Z' }, clock.now);
+      return { referenceNumber: 'INV-1' };
+    });
+    const { worker } = createWorker(storage, {
+      openSession: async () => {
+        clock.now = new Date('2026-01-16T10:00:30.000Z');
+        return session;
+      },
+      leaseMs: 60_000,
+      now: () => clock.now
+    });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ submitted: 1, failed: 0 });
+    expect(session.send).toHaveBeenCalledOnce();
+    expect(leasesAtSend).toEqual(['2026-01-16T10:01:30.000Z']);
+    expect((await storage.get('a'))?.status).toBe(OfflineInvoiceStatus.SUBMITTED);
+    expect(await storage.get('b')).toMatchObject({
+      status: OfflineInvoiceStatus.GENERATED,
+      lease: { owner: 'worker-2' }
+    });
+  });
+
+  it('reports an invoice sent before its lease was lost as submitted without overwriting it', async () => {
+    const storage = new InMemoryOfflineInvoiceStorage();
+    await storage.save(offlineInvoice('a', '2026-01-17T10:00:00.000Z'));
+    const session = fakeSession();
+    session.send.mockImplementation(async () => {
+      await storage.releaseLease('a', 'worker-1');
+      await storage.acquireLease('a', { owner: 'worker-2', expiresAt: '2026-01-16T10:30:00.000Z' }, now);
+      return { referenceNumber: 'INV-1' };
+    });
+    const { worker } = createWorker(storage, { openSession: async () => session });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ total: 1, submitted: 1, failed: 0 });
+    expect(result.results).toEqual([expect.objectContaining({ id: 'a', success: true, ksefReferenceNumber: 'INV-1' })]);
+    expect(await storage.get('a')).toMatchObject({ status: OfflineInvoiceStatus.QUEUED, lease: { owner: 'worker-2' } });
+    expect((await storage.get('a'))?.error).toBeUndefined();
+  });
+
+  describe('with a shared file storage', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ksef-offline-worker-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('sends each invoice once when two workers run at the same time', async () => {
+      const seed = new FileOfflineInvoiceStorage(directory);
+      for (let index = 0; index < 6; index++) {
+        await seed.save(offlineInvoice(`inv-${index}`, `2026-01-17T1${index}:00:00.000Z`));
+      }
+      const first = createWorker(new FileOfflineInvoiceStorage(directory), { workerId: 'worker-1' });
+      const second = createWorker(new FileOfflineInvoiceStorage(directory), { workerId: 'worker-2' });
+
+      const results = await Promise.all([first.worker.runOnce(), second.worker.runOnce()]);
+
+      expect(results[0].submitted + results[1].submitted).toBe(6);
+      const sent = [...first.session.send.mock.calls, ...second.session.send.mock.calls].map(([xml]) => xml);
+      expect(new Set(sent).size).toBe(6);
+      const stored = await seed.list();
+      expect(stored.every((invoice) => invoice.status === OfflineInvoiceStatus.SUBMITTED && !invoice.lease)).toBe(true);
+    });
+  });
+
+  it('runs on an interval without overlapping runs', async () => {
+    vi.useFakeTimers();
+    try {
+      const storage = new InMemoryOfflineInvoiceStorage();
+      const { worker } = createWorker(storage, { intervalMs: 1_000 });
+      const runOnce = vi.spyOn(worker, 'runOnce');
+
+      worker.start();
+      worker.start();
+      await vi.advanceTimersByTimeAsync(3_000);
+      await worker.stop();
+      await vi.advanceTimersByTimeAsync(3_000);
+
+      expect(runOnce).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
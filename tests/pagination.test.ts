@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  collectAll,
+  paginateByContinuationToken,
+  paginateByPageOffset
+} from '../src/api2/pagination.js';
+import { SessionV2Service } from '../src/api2/services/sessions.js';
+import { InvoiceV2Service } from '../src/api2/services/invoice.js';
+import { TokenService } from '../src/api2/services/token.js';
+import { PermissionsV2Service } from '../src/api2/services/permissions.js';
+import { PeppolService } from '../src/api2/services/peppol.js';
+import {
+  createMockHttpClient,
+  createMockSecurityService,
+  type MockHttpClient
+} from './helpers/mock-http-client.js';
+
+describe('paginateByContinuationToken', () => {
+  it('follows continuation tokens until none is returned', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: [1, 2], continuationToken: 'a' })
+      .mockResolvedValueOnce({ items: [3], continuationToken: 'b' })
+      .mockResolvedValueOnce({ items: [4], continuationToken: null });
+
+    const items = await collectAll(paginateByContinuationToken(fetchPage, 'Test'));
+
+    expect(items).toEqual([1, 2, 3, 4]);
+    expect(fetchPage.mock.calls.map(([token]) => token)).toEqual([undefined, 'a', 'b']);
+  });
+
+  it('throws on a repeated continuation token', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: [1], continuationToken: 'a' })
+      .mockResolvedValueOnce({ items: [2], continuationToken: 'a' });
+
+    await expect(collectAll(paginateByContinuationToken(fetchPage, 'Test')))
+      .rejects.toThrow('Test pagination returned a repeated continuation token');
+  });
+
+  it('stops fetching once maxItems is reached', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: [1, 2], continuationToken: 'a' })
+      .mockResolvedValueOnce({ items: [3, 4], continuationToken: 'b' });
+
+    const items = await collectAll(paginateByContinuationToken(fetchPage, 'Test', { maxItems: 3 }));
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when maxPages is exceeded', async () => {
+    let page = 0;
+    const fetchPage = vi.fn(async () => ({ items: [page], continuationToken: `token-${++page}` }));
+
+    await expect(collectAll(paginateByContinuationToken(fetchPage, 'Test', { maxPages: 3 })))
+      .rejects.toThrow('Test pagination exceeded 3 pages');
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('fetches lazily so consumers can break early', async () => {
+    const fetchPage = vi.fn(async () => ({ items: [1, 2], continuationToken: 'next' }));
+
+    for await (const item of paginateByContinuationToken(fetchPage, 'Test')) {
+      expect(item).toBe(1);
+      break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('paginateByPageOffset', () => {
+  it('walks page offsets while hasMore is true', async () => {
+    const fetchPage = vi.fn()
+      .mockResolvedValueOnce({ items: ['a'], hasMore: true })
+      .mockResolvedValueOnce({ items: ['b'], hasMore: false });
+
+    const items = await collectAll(paginateByPageOffset(fetchPage, 'Test'));
+
+    expect(items).toEqual(['a', 'b']);
+    expect(fetchPage.mock.calls.map(([offset]) => offset)).toEqual([0, 1]);
+  });
+
+  it('throws when an empty page claims more results', async () => {
+    const fetchPage = vi.fn().mockResolvedValue({ items: [], hasMore: true });
+
+    await expect(collectAll(paginateByPageOffset(fetchPage, 'Test')))
+      .rejects.toThrow('Test pagination reported more results on an empty page (pageOffset 0)');
+  });
+
+  it('rejects a non-positive maxPages', async () => {
+    const fetchPage = vi.fn();
+
+    await expect(collectAll(paginateByPageOffset(fetchPage, 'Test', { maxPages: 0 })))
+      .rejects.toThrow('maxPages must be a positive integer');
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
+
+describe('service iterators', () => {
+  let mockHttpClient: MockHttpClient;
+
+  beforeEach(() => {
+    mockHttpClient = createMockHttpClient();
+  });
+
+  it('SessionV2Service.iterateSessions sends continuation tokens as headers', async () => {
+    mockHttpClient.mockResponseOnce({ sessions: [{ referenceNumber: 's1' }], continuationToken: 'next' });
+    mockHttpClient.mockResponseOnce({ sessions: [{ referenceNumber: 's2' }], continuationToken: null });
+    const service = new SessionV2Service(mockHttpClient as any, 'test', createMockSecurityService() as any);
+
+    const sessions = await collectAll(service.iterateSessions('token', { sessionType: 'Online', pageSize: 20 }));
+
+    expect(sessions.map((session) => session.referenceNumber)).toEqual(['s1', 's2']);
+    const [first, second] = mockHttpClient.getRequests();
+    expect(first?.url).toContain('sessionType=Online');
+    expect(first?.url).toContain('pageSize=20');
+    expect(first?.headers?.['x-continuation-token']).toBeUndefined();
+    expect(second?.headers?.['x-continuation-token']).toBe('next');
+  });
+
+  it('SessionV2Service.iterateSessionInvoices honours maxItems', async () => {
+    mockHttpClient.mockResponse({ invoices: [{ referenceNumber: 'a' }, { referenceNumber: 'b' }], continuationToken: 'next' });
+    const service = new SessionV2Service(mockHttpClient as any, 'test', createMockSecurityService() as any);
+
+    const invoices = await collectAll(service.iterateSessionInvoices('token', 'session-ref', { maxItems: 2 }));
+
+    expect(invoices).toHaveLength(2);
+    expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('TokenService.iterateTokens keeps filters on every page', async () => {
+    mockHttpClient.mockResponseOnce({ tokens: [{ referenceNumber: 't1' }], continuationToken: 'next' });
+    mockHttpClient.mockResponseOnce({ tokens: [{ referenceNumber: 't2' }] });
+    const service = new TokenService(mockHttpClient as any, 'test');
+
+    const tokens = await collectAll(service.iterateTokens('token', { status: ['Active'] }));
+
+    expect(tokens.map((token) => token.referenceNumber)).toEqual(['t1', 't2']);
+    for (const request of mockHttpClient.getRequests()) {
+      expect(request.url).toContain('status=Active');
+    }
+  });
+
+  it('PermissionsV2Service.iteratePersonPermissions walks pageOffset', async () => {
+    mockHttpClient.mockResponseOnce({ permissions: [{ id: 'p1' }], hasMore: true });
+    mockHttpClient.mockResponseOnce({ permissions: [{ id: 'p2' }], hasMore: false });
+    const service = new PermissionsV2Service(mockHttpClient as any, 'test');
+
+    const permissions = await collectAll(service.iteratePersonPermissions('token', { queryType: 'PermissionsGrantedInCurrentContext' } as any, { pageSize: 50 }));
+
+    expect(permissions.map((permission) => permission.id)).toEqual(['p1', 'p2']);
+    const [first, second] = mockHttpClient.getRequests();
+    expect(first?.url).toContain('pageOffset=0');
+    expect(first?.url).toContain('pageSize=50');
+    expect(second?.url).toContain('pageOffset=1');
+  });
+
+  it('PeppolService.iterateProviders reads peppolProviders', async () => {
+    mockHttpClient.mockResponseOnce({ peppolProviders: [{ id: 'P1' }], hasMore: false });
+    const service = new PeppolService(mockHttpClient as any, 'test');
+
+    const providers = await collectAll(service.iterateProviders('token'));
+
+    expect(providers).toEqual([{ id: 'P1' }]);
+  });
+
+  it('InvoiceV2Service.iterateMetadata passes sortOrder and stops at truncation', async () => {
+    mockHttpClient.mockResponseOnce({ invoices: [{ ksefNumber: 'k1' }], hasMore: true, isTruncated: false });
+    mockHttpClient.mockResponseOnce({ invoices: [{ ksefNumber: 'k2' }], hasMore: true, isTruncated: true });
+    const service = new InvoiceV2Service(mockHttpClient as any, 'test');
+    const seen: string[] = [];
+
+    const iterate = async () => {
+      for await (const invoice of service.iterateMetadata('token', {} as any, { sortOrder: 'Asc' })) {
+        seen.push(invoice.ksefNumber);
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow(/truncated after 2 records/);
+    expect(seen).toEqual(['k1', 'k2']);
+    expect(mockHttpClient.getRequests()).toHaveLength(2);
+    expect(mockHttpClient.getLastRequest()?.url).toContain('sortOrder=Asc');
+  });
+});
+
+describe('InvoiceV2Service.iterateMetadata with continueTruncated', () => {
+  const filters = {
+    subjectType: 'Subject2',
+    dateRange: { dateType: 'Invoicing', from: '2026-01-01T00:00:00Z', to: '2026-01-31T23:59:59Z' }
+  } as const;
+
+  it('re-queries from the last invoicing date and skips repeated invoices', async () => {
+    const mockHttpClient = createMockHttpClient();
+    mockHttpClient.mockResponseOnce({
+      invoices: [
+        { ksefNumber: 'K1', invoicingDate: '2026-01-05T10:00:00Z' },
+        { ksefNumber: 'K2', invoicingDate: '2026-01-09T08:00:00Z' }
+      ],
+      hasMore: true,
+      isTruncated: true
+    });
+    mockHttpClient.mockResponseOnce({
+      invoices: [
+        { ksefNumber: 'K2', invoicingDate: '2026-01-09T08:00:00Z' },
+        { ksefNumber: 'K3', invoicingDate: '2026-01-20T12:00:00Z' }
+      ],
+      hasMore: false,
+      isTruncated: false
+    });
+    const service = new InvoiceV2Service(mockHttpClient as any, 'test');
+
+    const invoices = await collectAll(service.iterateMetadata('token', filters, { continueTruncated: true }));
+
+    expect(invoices.map((invoice) => invoice.ksefNumber)).toEqual(['K1', 'K2', 'K3']);
+    const requests = mockHttpClient.getRequests();
+    expect(requests).toHaveLength(2);
+    expect(requests[0]!.url).toContain('pageOffset=0');
+    expect(requests[1]!.url).toContain('pageOffset=0');
+    expect(JSON.parse(requests[1]!.body!).dateRange).toEqual({ ...filters.dateRange, from: '2026-01-09T08:00:00Z' });
+  });
+
+  it('narrows dateRange.to for descending queries', async () => {
+    const mockHttpClient = createMockHttpClient();
+    mockHttpClient.mockResponseOnce({
+      invoices: [{ ksefNumber: 'K3', invoicingDate: '2026-01-20T12:00:00Z' }],
+      hasMore: true,
+      isTruncated: true
+    });
+    mockHttpClient.mockResponseOnce({ invoices: [{ ksefNumber: 'K1', invoicingDate: '2026-01-05T10:00:00Z' }], hasMore: false, isTruncated: false });
+    const service = new InvoiceV2Service(mockHttpClient as any, 'test');
+
+    const invoices = await collectAll(
+      service.iterateMetadata('token', filters, { continueTruncated: true, sortOrder: 'Desc' })
+    );
+
+    expect(invoices.map((invoice) => invoice.ksefNumber)).toEqual(['K3', 'K1']);
+    expect(JSON.parse(mockHttpClient.getRequests()[1]!.body!).dateRange.to).toBe('2026-01-20T12:00:00Z');
+  });
+});
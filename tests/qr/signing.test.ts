@@ -5,6 +5,8 @@ import {
   signWithECDSA_P256,
   signAuto,
   verifyRSA_PSS,
+  verifyECDSA_P256,
+  verifyAuto,
   extractPathForSigning,
   SignatureAlgorithm
 } from '../../src';
@@ -198,6 +200,35 @@ describe('QR Signing', () => {
     });
   });
 
+  describe('verifyECDSA_P256', () => {
+    it('verifies IEEE P1363 and DER signatures', () => {
+      const data = 'qr-test.ksef.mf.gov.pl/certificate/Nip/1234567890/1234567890/SERIAL123/hashvalue';
+
+      expect(verifyECDSA_P256(data, signWithECDSA_P256(data, ecKeyPair.privateKey), ecKeyPair.publicKey)).toBe(true);
+      expect(verifyECDSA_P256(data, signWithECDSA_P256(data, ecKeyPair.privateKey, undefined, 'der'), ecKeyPair.publicKey)).toBe(true);
+    });
+
+    it('rejects other data, other curves and RSA keys', () => {
+      const signature = signWithECDSA_P256('original data', ecKeyPair.privateKey);
+      const p384 = generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+
+      expect(verifyECDSA_P256('different data', signature, ecKeyPair.publicKey)).toBe(false);
+      expect(verifyECDSA_P256('original data', signature, p384.publicKey)).toBe(false);
+      expect(verifyECDSA_P256('original data', signature, rsaKeyPair.publicKey)).toBe(false);
+    });
+  });
+
+  describe('verifyAuto', () => {
+    it('picks the algorithm from the public key', () => {
+      const data = 'test data';
+
+      expect(verifyAuto(data, signAuto(data, rsaKeyPair.privateKey), rsaKeyPair.publicKey)).toBe(true);
+      expect(verifyAuto(data, signAuto(data, ecKeyPair.privateKey), ecKeyPair.publicKey)).toBe(true);
+      expect(verifyAuto(data, signAuto(data, ecKeyPair.privateKey), rsaKeyPair.publicKey)).toBe(false);
+      expect(verifyAuto(data, signAuto(data, rsaKeyPair.privateKey), 'not a key')).toBe(false);
+    });
+  });
+
   describe('extractPathForSigning', () => {
     it('removes https:// prefix', () => {
       const url = 'https://qr-test.ksef.mf.gov.pl/certificate/Nip/1234567890';
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, X509Certificate } from 'node:crypto';
+import { QRCodeService } from '../../src/api2/qr/service.js';
+import { CertificateType, type OfflineCertificate } from '../../src/api2/qr/types.js';
+import {
+  QRCodeVerificationError,
+  parseQRCodeUrl,
+  verifyKod1,
+  verifyKod2
+} from '../../src/api2/qr/verify.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+import { createTestSigner } from '../helpers/xades.js';
+
+const supplier = createTestSigner('Dostawca Offline');
+const supplierSerial = new X509Certificate(supplier.certificatePem).serialNumber;
+const ecKeyPair = generateKeyPairSync('ec', {
+  namedCurve: 'prime256v1',
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+const invoiceXml = '<?xml version="1.0"?><Faktura><P_1>2026-01-15</P_1></Faktura>';
+const invoiceData = { invoiceXml, invoiceDate: '2026-01-15', sellerNip: '5265877635', isOffline: true };
+
+function rsaCertificate(): OfflineCertificate {
+  return {
+    certificate: supplier.certificatePem,
+    privateKey: supplier.privateKeyPem,
+    serialNumber: supplierSerial,
+    type: CertificateType.OFFLINE
+  };
+}
+
+function ecCertificate(): OfflineCertificate {
+  return {
+    certificate: ecKeyPair.publicKey,
+    privateKey: ecKeyPair.privateKey,
+    serialNumber: '01F20A5D352AE590',
+    type: CertificateType.OFFLINE
+  };
+}
+
+function verificationError(fn: () => unknown): QRCodeVerificationError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(QRCodeVerificationError);
+    return error as QRCodeVerificationError;
+  }
+  throw new Error('expected QRCodeVerificationError');
+}
+
+describe('parseQRCodeUrl', () => {
+  it('parses KOD I generated by QRCodeService', async () => {
+    const kod1 = await new QRCodeService('test').generateKod1(invoiceData);
+
+    expect(parseQRCodeUrl(kod1.url)).toEqual({
+      type: 'invoice',
+      environment: 'test',
+      url: kod1.url,
+      sellerNip: '5265877635',
+      invoiceDate: '2026-01-15',
+      invoiceHash: kod1.url.split('/').pop()
+    });
+  });
+
+  it('parses KOD II with the signed part of the URL', async () => {
+    const kod2 = await new QRCodeService('prod').generateKod2(
+      { ...invoiceData, contextIdentifier: { type: ContextIdentifierType.INTERNAL_ID, value: '5265877635-12345' } },
+      ecCertificate()
+    );
+
+    const code = parseQRCodeUrl(kod2.url);
+
+    expect(code).toMatchObject({
+      type: 'certificate',
+      environment: 'prod',
+      contextIdentifier: { type: ContextIdentifierType.INTERNAL_ID, value: '5265877635-12345' },
+      sellerNip: '5265877635',
+      certificateSerialNumber: '01F20A5D352AE590'
+    });
+    if (code.type !== 'certificate') {
+      throw new Error('expected KOD II');
+    }
+    expect(kod2.url).toBe(`https://${code.signedData}/${code.signature}`);
+  });
+
+  it.each([
+    ['an unknown host', 'https://qr.example.com/invoice/5265877635/15-01-2026/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE', 'QR_HOST_UNKNOWN'],
+    ['plain http', 'http://qr.ksef.mf.gov.pl/invoice/5265877635/15-01-2026/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE', 'QR_HOST_UNKNOWN'],
+    ['a date that does not exist', 'https://qr.ksef.mf.gov.pl/invoice/5265877635/30-02-2026/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE', 'QR_URL_MALFORMED'],
+    ['an ISO date', 'https://qr.ksef.mf.gov.pl/invoice/5265877635/2026-01-15/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE', 'QR_URL_MALFORMED'],
+    ['a short NIP', 'https://qr.ksef.mf.gov.pl/invoice/526587763/15-01-2026/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE', 'QR_URL_MALFORMED'],
+    ['a truncated hash', 'https://qr.ksef.mf.gov.pl/invoice/5265877635/15-01-2026/UtQp9Gpc51y', 'QR_URL_MALFORMED'],
+    ['an unknown context type', 'https://qr.ksef.mf.gov.pl/certificate/Pesel/1/5265877635/01F2/UtQp9Gpc51y-u3xApZjIjgkpZ01js-J8KflSPW8WzIE/c2ln', 'QR_URL_MALFORMED'],
+    ['an unknown path', 'https://qr.ksef.mf.gov.pl/upo/5265877635', 'QR_URL_MALFORMED'],
+    ['text', 'not a url', 'QR_URL_MALFORMED']
+  ])('rejects %s', (_name, url, code) => {
+    expect(verificationError(() => parseQRCodeUrl(url)).code).toBe(code);
+  });
+});
+
+describe('verifyKod1', () => {
+  it('accepts the invoice the code was generated for', async () => {
+    const kod1 = await new QRCodeService('demo').generateKod1(invoiceData);
+
+    expect(verifyKod1(kod1.url, invoiceXml, { environment: 'demo' }).environment).toBe('demo');
+  });
+
+  it('rejects a changed invoice, another environment and KOD II', async () => {
+    const service = new QRCodeService('test');
+    const kod1 = await service.generateKod1(invoiceData);
+    const kod2 = await service.generateKod2(invoiceData, ecCertificate());
+
+    expect(verificationError(() => verifyKod1(kod1.url, invoiceXml.replace('2026-01-15', '2026-01-16'))).code)
+      .toBe('QR_HASH_MISMATCH');
+    expect(verificationError(() => verifyKod1(kod1.url, invoiceXml, { environment: 'prod' })).code)
+      .toBe('QR_ENVIRONMENT_MISMATCH');
+    expect(verificationError(() => verifyKod1(kod2.url, invoiceXml)).code).toBe('QR_URL_MALFORMED');
+  });
+});
+
+describe('verifyKod2', () => {
+  it('verifies an RSA-PSS signature with the supplier certificate', async () => {
+    const kod2 = await new QRCodeService('test').generateKod2(invoiceData, rsaCertificate());
+
+    const code = verifyKod2(kod2.url, supplier.certificatePem, { invoiceXml, environment: 'test' });
+    expect(code.certificateSerialNumber).toBe(supplierSerial);
+    expect(verifyKod2(kod2.url, supplier.certificateDer).sellerNip).toBe('5265877635');
+    expect(verifyKod2(kod2.url, new X509Certificate(supplier.certificatePem)).type).toBe('certificate');
+  });
+
+  it('verifies an ECDSA P-256 signature with the public key', async () => {
+    const kod2 = await new QRCodeService('test').generateKod2(invoiceData, ecCertificate());
+
+    expect(verifyKod2(kod2.url, ecKeyPair.publicKey, { invoiceXml }).type).toBe('certificate');
+  });
+
+  it('rejects a certificate other than the one named in the code', async () => {
+    const kod2 = await new QRCodeService('test').generateKod2(invoiceData, rsaCertificate());
+    const other = createTestSigner('Inny Dostawca');
+
+    expect(verificationError(() => verifyKod2(kod2.url, other.certificatePem)).code).toBe('QR_CERTIFICATE_MISMATCH');
+    expect(verificationError(() => verifyKod2(kod2.url, ecKeyPair.publicKey)).code).toBe('QR_SIGNATURE_INVALID');
+  });
+
+  it('rejects a tampered URL and a changed invoice', async () => {
+    const kod2 = await new QRCodeService('test').generateKod2(invoiceData, ecCertificate());
+    const tampered = kod2.url.replace('/certificate/Nip/5265877635/', '/certificate/Nip/1111111111/');
+
+    expect(verificationError(() => verifyKod2(tampered, ecKeyPair.publicKey)).code).toBe('QR_SIGNATURE_INVALID');
+    expect(verificationError(() => verifyKod2(kod2.url, ecKeyPair.publicKey, { invoiceXml: `${invoiceXml} ` })).code)
+      .toBe('QR_HASH_MISMATCH');
+  });
+});
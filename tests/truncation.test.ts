@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { continueDateRange, packageLastDateFor, TruncationBoundary } from '../src/api2/truncation.js';
+
+describe('continueDateRange', () => {
+  const dateRange = { dateType: 'Issue', from: '2026-01-01', to: '2026-01-31' } as const;
+
+  it('moves from forward for ascending results and keeps other fields', () => {
+    expect(continueDateRange(dateRange, '2026-01-15')).toEqual({ ...dateRange, from: '2026-01-15T00:00:00Z' });
+  });
+
+  it('moves to backward for descending results', () => {
+    expect(continueDateRange(dateRange, '2026-01-15', 'Desc')).toEqual({ ...dateRange, to: '2026-01-15T00:00:00Z' });
+  });
+
+  it('throws when the limit was reached within a single date', () => {
+    expect(() => continueDateRange(dateRange, '2026-01-01')).toThrow(
+      'Result was truncated within a single Issue date (2026-01-01); cannot narrow dateRange any further'
+    );
+  });
+});
+
+describe('packageLastDateFor', () => {
+  it('picks the field matching the date type', () => {
+    const invoicePackage = {
+      invoiceCount: 1,
+      size: 1,
+      parts: [],
+      isTruncated: true,
+      lastIssueDate: '2026-01-10',
+      lastPermanentStorageDate: '2026-01-11T10:00:00Z'
+    };
+
+    expect(packageLastDateFor(invoicePackage, 'Issue')).toBe('2026-01-10');
+    expect(packageLastDateFor(invoicePackage, 'PermanentStorage')).toBe('2026-01-11T10:00:00Z');
+    expect(packageLastDateFor(invoicePackage, 'Invoicing')).toBeNull();
+  });
+});
+
+describe('TruncationBoundary', () => {
+  it('remembers only invoices sharing the last date', () => {
+    const boundary = new TruncationBoundary();
+    boundary.observe('K1', '2026-01-01');
+    boundary.observe('K2', '2026-01-02');
+    boundary.observe('K3', '2026-01-02');
+
+    expect(boundary.advance()).toBe('2026-01-02');
+    expect(boundary.isDuplicate('K1')).toBe(false);
+    expect(boundary.isDuplicate('K2')).toBe(true);
+    expect(boundary.isDuplicate('K3')).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SessionV2Service } from '../../src/api2/services/sessions.js';
+import { collectUpoReceipts, downloadUpoPages } from '../../src/api2/upo/download.js';
+import { verifyUpo } from '../../src/api2/upo/verify.js';
+import { createTestSigner, sha256, signEnveloped } from '../helpers/xades.js';
+import { upoPageXml, upoXml } from '../helpers/upo.js';
+
+const SESSION = '20260115-SO-2C3E6C8000-B4A3F8E2A1-2F';
+const signer = createTestSigner();
+const trustedCertificates = [signer.certificatePem];
+
+function page(referenceNumber: string, expiresInMs = 60_000) {
+  return {
+    referenceNumber,
+    downloadUrl: `https://storage.example/${referenceNumber}?sig=${expiresInMs}`,
+    downloadUrlExpirationDate: new Date(Date.now() + expiresInMs).toISOString()
+  };
+}
+
+function stubFetch(bodies: Record<string, string>, failures: Record<string, number[]> = {}) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const status = failures[url]?.shift();
+    if (status) {
+      return new Response(null, { status, statusText: 'Error' });
+    }
+    const body = bodies[url];
+    return body
+      ? new Response(body, { headers: { 'x-ms-meta-hash': sha256(body) } })
+      : new Response(null, { status: 404, statusText: 'Not Found' });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SessionV2Service.downloadSessionUpoReceipts', () => {
+  it('downloads every page, refreshes expired links and indexes invoices by KSeF number', async () => {
+    const first = signEnveloped(upoPageXml(1, 2, ['K1', 'K2'], 3), signer);
+    const second = signEnveloped(upoPageXml(2, 2, ['K3'], 3), signer);
+    const expired = page('UPO-2', -1_000);
+    const fresh = page('UPO-2');
+    const fetchMock = stubFetch({ [page('UPO-1').downloadUrl]: first, [fresh.downloadUrl]: second });
+    const service = new SessionV2Service({ request: vi.fn() } as any, 'test');
+    const getStatus = vi.spyOn(service, 'getSessionStatus')
+      .mockResolvedValueOnce({ status: { code: 200, description: 'OK' }, upo: { pages: [expired, page('UPO-1')] } })
+      .mockResolvedValueOnce({ status: { code: 200, description: 'OK' }, upo: { pages: [page('UPO-1'), fresh] } });
+
+    const receipts = await service.downloadSessionUpoReceipts('token', SESSION, { retryDelayMs: 0, trustedCertificates });
+
+    expect(getStatus).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(expired.downloadUrl);
+    expect(receipts.pages.map((verified) => verified.upo.page?.pageNumber)).toEqual([1, 2]);
+    expect([...receipts.invoices.keys()]).toEqual(['K1', 'K2', 'K3']);
+    expect(receipts.invoices.get('K3')!.page.xml).toBe(second);
+  });
+
+  it('throws while the UPO is not generated yet', async () => {
+    const service = new SessionV2Service({ request: vi.fn() } as any, 'test');
+    vi.spyOn(service, 'getSessionStatus').mockResolvedValue({ status: { code: 170, description: 'Zamknięta' } });
+
+    await expect(service.downloadSessionUpoReceipts('token', SESSION))
+      .rejects.toThrow(`Session UPO for ${SESSION} is not available yet (status 170)`);
+  });
+});
+
+describe('SessionV2Service.downloadInvoiceUpoReceipt', () => {
+  it('downloads the invoice UPO from upoDownloadUrl without requiring x-ms-meta-hash', async () => {
+    const xml = signEnveloped(upoPageXml(1, 1, ['K1'], 1), signer);
+    const link = page('UPO-INV');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(xml)));
+    const service = new SessionV2Service({ request: vi.fn() } as any, 'test');
+    vi.spyOn(service, 'getInvoiceStatus').mockResolvedValue({
+      status: { code: 200, description: 'OK' },
+      upoDownloadUrl: link.downloadUrl,
+      upoDownloadUrlExpirationDate: link.downloadUrlExpirationDate
+    } as any);
+
+    const receipt = await service.downloadInvoiceUpoReceipt('token', SESSION, 'INV-1', { trustedCertificates });
+
+    expect(receipt.document.ksefNumber).toBe('K1');
+    expect(receipt.page.hash).toBe(sha256(xml));
+  });
+
+  it('throws while the invoice has no UPO link', async () => {
+    const service = new SessionV2Service({ request: vi.fn() } as any, 'test');
+    vi.spyOn(service, 'getInvoiceStatus').mockResolvedValue({ status: { code: 150, description: 'Processing' } } as any);
+
+    await expect(service.downloadInvoiceUpoReceipt('token', SESSION, 'INV-1', { trustedCertificates }))
+      .rejects.toThrow('UPO for invoice INV-1 is not available yet (status 150)');
+  });
+});
+
+describe('downloadUpoPages', () => {
+  it('refreshes links rejected with 403 and retries hash mismatches', async () => {
+    const xml = signEnveloped(upoXml('4-2'), signer);
+    const rejected = page('UPO-1');
+    const fresh = { ...rejected, downloadUrl: 'https://storage.example/fresh' };
+    stubFetch({ [rejected.downloadUrl]: xml, [fresh.downloadUrl]: xml }, { [rejected.downloadUrl]: [403] });
+    const refreshPages = vi.fn().mockResolvedValue([fresh]);
+
+    const [download] = await downloadUpoPages([rejected], { retryDelayMs: 0, refreshPages });
+
+    expect(refreshPages).toHaveBeenCalledTimes(1);
+    expect(download).toEqual({ xml, hash: sha256(xml) });
+  });
+
+  it('fails after exhausting attempts', async () => {
+    const target = page('UPO-1');
+    const fetchMock = vi.fn(async () => new Response('<x/>', { headers: { 'x-ms-meta-hash': sha256('other') } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(downloadUpoPages([target], { retryDelayMs: 0, downloadAttempts: 2 }))
+      .rejects.toThrow(/Failed to download UPO page UPO-1 after 2 attempts: UPO content hash .* does not match/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('collectUpoReceipts', () => {
+  it('rejects pages of another session and incomplete page sets', () => {
+    const verify = (xml: string) => verifyUpo({ xml: signEnveloped(xml, signer) }, { requireHash: false, trustedCertificates });
+
+    expect(() => collectUpoReceipts('OTHER', [verify(upoXml('4-2'))])).toThrow(/belongs to session/);
+    expect(() => collectUpoReceipts(SESSION, [verify(upoPageXml(1, 2, ['K1'], 2))]))
+      .toThrow(`Session UPO for ${SESSION} confirms 1 invoices but its pages report 2`);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseUpo } from '../../src/api2/upo/parser.js';
+import { upoXml } from '../helpers/upo.js';
+
+describe('parseUpo', () => {
+  it('parses an upo-v4-2 session receipt', () => {
+    const upo = parseUpo(upoXml('4-2'));
+
+    expect(upo.version).toBe('upo-v4-2');
+    expect(upo.sessionReferenceNumber).toBe('20260115-SO-2C3E6C8000-B4A3F8E2A1-2F');
+    expect(upo.receivingEntityName).toBe('Ministerstwo Finansów');
+    expect(upo.authentication).toEqual({
+      context: { type: 'Nip', value: '5265877635' },
+      tokenReferenceNumber: '20260101-EC-1A2B3C4D5E-0F1E2D3C4B-12',
+      authenticationDocumentHash: null
+    });
+    expect(upo.formCode).toBe('FA (3)');
+    expect(upo.page).toBeNull();
+    expect(upo.documents).toHaveLength(2);
+    expect(upo.documents[0]).toEqual({
+      sellerNip: '5265877635',
+      ksefNumber: '5265877635-20260115-0100001AF629-AF',
+      invoiceNumber: 'FV/1/2026',
+      issueDate: '2026-01-15',
+      invoicingDate: '2026-01-15T10:00:00.123+01:00',
+      acquisitionDate: '2026-01-15T10:00:00.456+01:00',
+      invoiceHash: 'Zm9vYmFy0',
+      invoicingMode: 'Online'
+    });
+    expect(upo.documents[1]!.invoicingMode).toBeNull();
+  });
+
+  it('parses the page description of an upo-v4-3 page', () => {
+    const upo = parseUpo(upoXml('4-3', `<OpisPotwierdzenia>
+      <Strona>2</Strona><LiczbaStron>3</LiczbaStron>
+      <ZakresDokumentowOd>10001</ZakresDokumentowOd><ZakresDokumentowDo>20000</ZakresDokumentowDo>
+      <CalkowitaLiczbaDokumentow>25000</CalkowitaLiczbaDokumentow>
+    </OpisPotwierdzenia>`));
+
+    expect(upo.version).toBe('upo-v4-3');
+    expect(upo.page).toEqual({ pageNumber: 2, pageCount: 3, firstDocument: 10001, lastDocument: 20000, totalDocuments: 25000 });
+  });
+
+  it('rejects unknown namespaces, DTDs and missing elements', () => {
+    expect(() => parseUpo(upoXml('4-2').replace('/v4-2', '/v9-9'))).toThrow(/Unsupported UPO namespace/);
+    expect(() => parseUpo(`<!DOCTYPE x [<!ENTITY a "b">]>${upoXml('4-2').replace(/^<\?xml[^>]*>/, '')}`))
+      .toThrow(/DOCTYPE/);
+    expect(() => parseUpo(upoXml('4-2').replace(/<NumerFaktury>[^<]*<\/NumerFaktury>/, '')))
+      .toThrow('Invalid UPO: missing NumerFaktury in Dokument');
+  });
+});
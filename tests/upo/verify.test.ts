@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { DOMParser } from '@xmldom/xmldom';
+import * as forge from 'node-forge';
+import { UpoVerificationError, verifyUpo, verifyUpoSignature } from '../../src/api2/upo/verify.js';
+import { verifyEnvelopedXadesSignature } from '../../src/api2/upo/xades.js';
+import { buildSignedAuthTokenRequest } from '../../src/api2/auth/xades-request.js';
+import { createTestSigner, sha256, signEnveloped } from '../helpers/xades.js';
+import { upoXml } from '../helpers/upo.js';
+
+const ministry = createTestSigner();
+const trusted = { trustedCertificates: [ministry.certificatePem] };
+
+function signedUpo(xml = upoXml('4-3')) {
+  const signed = signEnveloped(xml, ministry);
+  return { xml: signed, hash: sha256(signed) };
+}
+
+function verificationError(fn: () => unknown): UpoVerificationError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(UpoVerificationError);
+    return error as UpoVerificationError;
+  }
+  throw new Error('expected UpoVerificationError');
+}
+
+describe('verifyUpo', () => {
+  it('checks hash and signature and returns the parsed receipt', () => {
+    const download = signedUpo();
+
+    const verified = verifyUpo(download, trusted);
+
+    expect(verified.hash).toBe(download.hash);
+    expect(verified.upo.documents.map((document) => document.ksefNumber)).toEqual([
+      '5265877635-20260115-0100001AF629-AF',
+      '5265877635-20260115-0100002BF629-1C'
+    ]);
+    expect(verified.signature.certificate.subject).toContain('CN=Ministerstwo Finansow Test');
+    expect(verified.signature.signingTime).not.toBeNull();
+    expect(verified.signature.trusted).toBe(true);
+  });
+
+  it('fails closed without trust anchors unless untrusted signers are allowed', () => {
+    const download = signedUpo();
+
+    const error = verificationError(() => verifyUpo(download));
+
+    expect(error.code).toBe('UPO_CERTIFICATE_UNTRUSTED');
+    expect(error.message).toContain('without trustedCertificates');
+    expect(verifyUpo(download, { allowUntrusted: true }).signature.trusted).toBe(false);
+  });
+
+  it('accepts certificates issued by a trusted CA and rejects other signers', () => {
+    const ca = createTestSigner('Test CA');
+    const issued = createTestSigner('UPO signer', ca);
+    const xml = signEnveloped(upoXml('4-2'), issued);
+
+    expect(verifyUpoSignature(xml, { trustedCertificates: [ca.certificatePem] }).trusted).toBe(true);
+    expect(verifyUpoSignature(xml, { trustedCertificates: [issued.certificateDer] }).trusted).toBe(true);
+    expect(verificationError(() => verifyUpoSignature(xml, { trustedCertificates: [ministry.certificatePem] })).code)
+      .toBe('UPO_CERTIFICATE_UNTRUSTED');
+  });
+
+  it('detects content changed after signing', () => {
+    const { xml } = signedUpo();
+    const tampered = xml.replace('FV/1/2026', 'FV/9/2026');
+
+    const error = verificationError(() => verifyUpo({ xml: tampered, hash: sha256(tampered) }));
+
+    expect(error.code).toBe('UPO_SIGNATURE_INVALID');
+    expect(error.message).toContain('digest mismatch for reference ""');
+  });
+
+  it('checks the content against x-ms-meta-hash', () => {
+    const download = signedUpo();
+
+    expect(verificationError(() => verifyUpo({ ...download, hash: sha256('other') })).code).toBe('UPO_HASH_MISMATCH');
+    expect(verificationError(() => verifyUpo({ xml: download.xml, hash: null })).code).toBe('UPO_HASH_MISSING');
+    expect(verifyUpo({ xml: download.xml }, { ...trusted, requireHash: false }).hash).toBe(download.hash);
+  });
+
+  it('rejects unsigned documents and duplicated reference ids', () => {
+    const unsigned = upoXml('4-2');
+    expect(verificationError(() => verifyUpoSignature(unsigned)).message).toContain('expected exactly one ds:Signature, found 0');
+
+    const { xml } = signedUpo();
+    const wrapped = xml.replace('</ds:Object>', '<Extra Id="SignedProperties-1"/></ds:Object>');
+    expect(verificationError(() => verifyUpoSignature(wrapped)).message).toContain('must match exactly one element, found 2');
+  });
+});
+
+describe('verifyEnvelopedXadesSignature', () => {
+  it('verifies XAdES requests produced by this SDK', () => {
+    const signer = createTestSigner('Test Certificate');
+    const certificate = forge.pki.certificateFromPem(signer.certificatePem);
+    const privateKey = forge.pki.privateKeyFromPem(signer.privateKeyPem);
+    const p12 = forge.asn1.toDer(forge.pkcs12.toPkcs12Asn1(privateKey, certificate, 'secret')).getBytes();
+    const xml = buildSignedAuthTokenRequest(
+      {
+        challenge: '20260115-CR-1234567890-ABCDEF0123-45',
+        contextIdentifier: { type: 'Nip', value: '5265877635' } as any,
+        subjectIdentifierType: 'certificateSubject'
+      },
+      { certificate: Buffer.from(p12, 'binary'), password: 'secret' }
+    );
+
+    const result = verifyEnvelopedXadesSignature(new DOMParser().parseFromString(xml, 'text/xml'));
+
+    expect(result.signatureMethod).toBe('http://www.w3.org/2000/09/xmldsig#rsa-sha256');
+    expect(result.certificate.fingerprint256).toBeTruthy();
+  });
+});
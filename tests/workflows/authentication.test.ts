@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { KsefApiV2Client } from '../../src/api2/client.js';
+import { AuthenticationFailedError } from '../../src/api2/workflows/authentication.js';
+import { ContextIdentifierType } from '../../src/api2/types/common.js';
+
+const contextIdentifier = { type: ContextIdentifierType.NIP, value: '1234567890' };
+
+function mockAuthentication(client: KsefApiV2Client, statusCodes: number[]) {
+  const init = vi.spyOn(client.authentication, 'initiateTokenAuthentication').mockResolvedValue({
+    referenceNumber: 'auth-ref',
+    authenticationToken: { token: 'authentication-token', validUntil: '2027-01-01T00:00:00Z' }
+  });
+  const status = vi.spyOn(client.authentication, 'getAuthenticationStatus');
+  for (const code of statusCodes) {
+    status.mockResolvedValueOnce({
+      startDate: '2026-01-01T00:00:00Z',
+      authenticationMethod: 'Token',
+      status: code === 450
+        ? { code, description: 'Uwierzytelnianie zakończone niepowodzeniem', details: ['Nieprawidłowy token'] }
+        : { code, description: code === 100 ? 'Uwierzytelnianie w toku' : 'Uwierzytelnianie zakończone sukcesem' }
+    });
+  }
+  const redeem = vi.spyOn(client.authentication, 'redeemTokens').mockResolvedValue({
+    accessToken: { token: 'access-token', validUntil: '2027-01-01T00:00:00Z' },
+    refreshToken: { token: 'refresh-token', validUntil: '2027-01-02T00:00:00Z' }
+  });
+  return { init, status, redeem };
+}
+
+describe('KsefApiV2Client.authenticate', () => {
+  it('polls until authentication succeeds, redeems tokens and stores them in AuthManager', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+    const { init, status, redeem } = mockAuthentication(client, [100, 100, 200]);
+
+    const result = await client.authenticate({
+      token: 'ksef-token',
+      contextIdentifier,
+      ipAddressPolicy: 'NONE',
+      initialDelayMs: 0,
+      maxDelayMs: 0
+    });
+
+    expect(init).toHaveBeenCalledWith(contextIdentifier, 'ksef-token', { ipAddressPolicy: 'NONE' });
+    expect(status).toHaveBeenCalledTimes(3);
+    expect(status).toHaveBeenCalledWith('auth-ref', 'authentication-token');
+    expect(redeem).toHaveBeenCalledWith('authentication-token');
+    expect(result.referenceNumber).toBe('auth-ref');
+    expect(result.status.status.code).toBe(200);
+    expect(result.tokens.accessToken.token).toBe('access-token');
+    expect(client.getAccessToken()).toBe('access-token');
+    expect(client.getRefreshToken()).toBe('refresh-token');
+  });
+
+  it('uses XAdES initiation when certificate credentials are provided', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+    mockAuthentication(client, [200]);
+    const xades = vi.spyOn(client.authentication, 'initiateXadesAuthenticationWithCertificate').mockResolvedValue({
+      referenceNumber: 'auth-ref',
+      authenticationToken: { token: 'authentication-token', validUntil: '2027-01-01T00:00:00Z' }
+    });
+    const certificate = { certificate: 'cert-pem', privateKey: 'key-pem' };
+
+    await client.authenticate({
+      certificate,
+      contextIdentifier,
+      verifyCertificateChain: true
+    });
+
+    expect(xades).toHaveBeenCalledWith(certificate, contextIdentifier, undefined, { verifyCertificateChain: true });
+  });
+
+  it('throws AuthenticationFailedError with status details and does not redeem tokens', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+    const { redeem } = mockAuthentication(client, [100, 450]);
+
+    const error = await client.authenticate({
+      token: 'ksef-token',
+      contextIdentifier,
+      initialDelayMs: 0
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(AuthenticationFailedError);
+    expect(error.referenceNumber).toBe('auth-ref');
+    expect(error.processingCode).toBe(450);
+    expect(error.status.details).toEqual(['Nieprawidłowy token']);
+    expect(error.message).toContain('Nieprawidłowy token');
+    expect(redeem).not.toHaveBeenCalled();
+    expect(client.getAccessToken()).toBeUndefined();
+  });
+
+  it('fails when authentication stays in progress beyond maxAttempts', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+    mockAuthentication(client, [100, 100]);
+
+    await expect(client.authenticate({
+      token: 'ksef-token',
+      contextIdentifier,
+      initialDelayMs: 0,
+      maxAttempts: 2
+    })).rejects.toThrow('Authentication auth-ref did not complete within 2 attempts');
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDecipheriv, randomBytes } from 'node:crypto';
+import { KsefApiV2Client } from '../../src/api2/client.js';
+import { OnlineSession, SessionUpoUnavailableError } from '../../src/api2/workflows/online-session.js';
+import { sha256Base64 } from '../../src/api2/crypto/encryption.js';
+import type { SymmetricKeyMaterial } from '../../src/api2/crypto/symmetric.js';
+
+const formCode = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' } as const;
+
+function createTestMaterial(): SymmetricKeyMaterial {
+  const initializationVector = randomBytes(16);
+  return {
+    symmetricKey: randomBytes(32),
+    initializationVector,
+    encryptedSymmetricKey: 'encrypted-key',
+    initializationVectorBase64: initializationVector.toString('base64')
+  };
+}
+
+function createSession(overrides: { validUntil?: string } = {}) {
+  const material = createTestMaterial();
+  const sessions = {
+    openOnlineSession: vi.fn(),
+    closeOnlineSession: vi.fn().mockResolvedValue(undefined),
+    getSessionStatus: vi.fn(),
+    listSessionInvoices: vi.fn(),
+    downloadSessionUpoWithHash: vi.fn()
+  };
+  const invoices = {
+    sendInvoice: vi.fn().mockResolvedValue({ referenceNumber: 'invoice-ref' })
+  };
+  const session = new OnlineSession(
+    sessions as any,
+    invoices as any,
+    () => 'access-token',
+    {
+      referenceNumber: 'session-ref',
+      validUntil: overrides.validUntil ?? '2999-01-01T00:00:00Z',
+      encryptionMaterial: material
+    },
+    formCode
+  );
+  return { session, sessions, invoices, material };
+}
+
+describe('OnlineSession', () => {
+  it('encrypts invoices with the session key before sending', async () => {
+    const { session, invoices, material } = createSession();
+    const xml = '<Faktura>1</Faktura>';
+
+    const result = await session.send(xml);
+
+    expect(result.referenceNumber).toBe('invoice-ref');
+    const [token, sessionRef, payload] = invoices.sendInvoice.mock.calls[0]!;
+    expect(token).toBe('access-token');
+    expect(sessionRef).toBe('session-ref');
+    expect(payload.invoiceHash).toBe(sha256Base64(Buffer.from(xml)));
+    const decipher = createDecipheriv('aes-256-cbc', material.symmetricKey, material.initializationVector);
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(payload.encryptedInvoiceContent, 'base64')),
+      decipher.final()
+    ]);
+    expect(decrypted.toString('utf8')).toBe(xml);
+  });
+
+  it('sends corrections with the hash of the corrected invoice', async () => {
+    const { session, invoices } = createSession();
+
+    await session.sendCorrection('<Faktura>KOR</Faktura>', '<Faktura>1</Faktura>', { offlineMode: true });
+
+    const payload = invoices.sendInvoice.mock.calls[0]![2];
+    expect(payload.hashOfCorrectedInvoice).toBe(sha256Base64(Buffer.from('<Faktura>1</Faktura>')));
+    expect(payload.offlineMode).toBe(true);
+  });
+
+  it('refuses to send after close and closes only once', async () => {
+    const { session, sessions, invoices } = createSession();
+
+    await session.close();
+    await session.close();
+
+    expect(session.isClosed).toBe(true);
+    expect(sessions.closeOnlineSession).toHaveBeenCalledTimes(1);
+    await expect(session.send('<Faktura/>')).rejects.toThrow(/session-ref is closed/);
+    expect(invoices.sendInvoice).not.toHaveBeenCalled();
+  });
+
+  it('refuses to send after validUntil has passed', async () => {
+    const { session } = createSession({ validUntil: '2000-01-01T00:00:00Z' });
+
+    expect(session.isExpired()).toBe(true);
+    await expect(session.send('<Faktura/>')).rejects.toThrow(/expired at 2000-01-01T00:00:00Z/);
+  });
+
+  it('waits until the session is processed and the UPO is available', async () => {
+    const { session, sessions } = createSession();
+    sessions.getSessionStatus
+      .mockResolvedValueOnce({ status: { code: 170, description: 'Closed' } })
+      .mockResolvedValueOnce({ status: { code: 200, description: 'Processed' }, upo: { pages: [] } })
+      .mockResolvedValueOnce({
+        status: { code: 200, description: 'Processed' },
+        validUntil: '2999-02-01T00:00:00Z',
+        upo: { pages: [{ referenceNumber: 'upo-1', downloadUrl: 'https://upo/1', downloadUrlExpirationDate: '2999-01-01' }] }
+      });
+
+    const status = await session.waitUntilProcessed({ initialDelayMs: 0, maxDelayMs: 0 });
+
+    expect(status.upo?.pages).toHaveLength(1);
+    expect(sessions.getSessionStatus).toHaveBeenCalledTimes(3);
+    expect(session.validUntil).toBe('2999-02-01T00:00:00Z');
+  });
+
+  it('stops waiting for a UPO that does not appear after the session is processed', async () => {
+    const { session, sessions } = createSession();
+    sessions.getSessionStatus.mockResolvedValue({ status: { code: 200, description: 'Processed' }, upo: { pages: [] } });
+
+    const error = await session.waitUntilProcessed({ initialDelayMs: 1, maxDelayMs: 1, upoTimeoutMs: 5, timeoutMs: 60_000 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SessionUpoUnavailableError);
+    expect(error).toMatchObject({ referenceNumber: 'session-ref', status: { status: { code: 200 } } });
+    expect(sessions.getSessionStatus.mock.calls.length).toBeLessThan(50);
+  });
+
+  it('downloads every UPO page and lists all invoice statuses', async () => {
+    const { session, sessions } = createSession();
+    const status = {
+      status: { code: 200, description: 'Processed' },
+      upo: {
+        pages: [
+          { referenceNumber: 'upo-1', downloadUrl: 'https://upo/1', downloadUrlExpirationDate: '2999-01-01' },
+          { referenceNumber: 'upo-2', downloadUrl: 'https://upo/2', downloadUrlExpirationDate: '2999-01-01' }
+        ]
+      }
+    };
+    sessions.downloadSessionUpoWithHash
+      .mockResolvedValueOnce({ xml: '<UPO>1</UPO>', hash: 'h1' })
+      .mockResolvedValueOnce({ xml: '<UPO>2</UPO>', hash: 'h2' });
+    sessions.listSessionInvoices
+      .mockResolvedValueOnce({ continuationToken: 'next', invoices: [{ referenceNumber: 'a' }] })
+      .mockResolvedValueOnce({ continuationToken: null, invoices: [{ referenceNumber: 'b' }] });
+
+    const upo = await session.downloadUpo(status as any);
+    const statuses = await session.invoiceStatuses({ pageSize: 50 });
+
+    expect(upo.map((page) => page.xml)).toEqual(['<UPO>1</UPO>', '<UPO>2</UPO>']);
+    expect(sessions.downloadSessionUpoWithHash).toHaveBeenNthCalledWith(2, 'access-token', 'session-ref', 'upo-2');
+    expect(statuses.map((invoice) => invoice.referenceNumber)).toEqual(['a', 'b']);
+    expect(sessions.listSessionInvoices).toHaveBeenNthCalledWith(2, 'access-token', 'session-ref', {
+      continuationToken: 'next',
+      pageSize: 50
+    });
+  });
+
+  it('fails fast when the UPO is not generated yet', async () => {
+    const { session } = createSession();
+
+    await expect(session.downloadUpo({ status: { code: 170, description: 'Closed' } }))
+      .rejects.toThrow(/not available yet \(status 170\)/);
+  });
+});
+
+describe('KsefApiV2Client.openSession', () => {
+  it('opens a session with the stored access token', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+    client.setAccessToken('stored-token');
+    const material = createTestMaterial();
+    const open = vi.spyOn(client.sessions, 'openOnlineSession').mockResolvedValue({
+      referenceNumber: 'session-ref',
+      validUntil: '2999-01-01T00:00:00Z',
+      encryptionMaterial: material
+    });
+
+    const session = await client.openSession(formCode, { upoVersion: 'upo-v4-3' });
+
+    expect(open).toHaveBeenCalledWith('stored-token', formCode, { upoVersion: 'upo-v4-3' });
+    expect(session.referenceNumber).toBe('session-ref');
+    expect(session.encryptionMaterial).toBe(material);
+  });
+
+  it('requires an access token', async () => {
+    const client = new KsefApiV2Client({ environment: 'test' });
+
+    await expect(client.openSession(formCode)).rejects.toThrow(/Access token is not available/);
+  });
+});